@@ -1,19 +1,35 @@
 export * from './ts/config/config';
 export * from './ts/config/resolved-config';
+export * from './ts/config/layout-diff';
+export * from './ts/config/layout-config-migration';
+export * from './ts/config/layout-config-schema';
 export { ComponentContainer } from './ts/container/component-container';
 export { BrowserPopout } from './ts/controls/browser-popout';
 export { DragSource } from './ts/controls/drag-source';
 export { Header } from './ts/controls/header';
 export { Tab } from './ts/controls/tab';
+export { LayoutEventLog } from './ts/diagnostics/layout-event-log';
+export { LayoutEventRecorder } from './ts/diagnostics/layout-event-recorder';
+export { LayoutEventReplayer } from './ts/diagnostics/layout-event-replayer';
 export * from './ts/errors/external-error';
 export { GoldenLayout } from './ts/golden-layout';
 export { ComponentItem } from './ts/items/component-item';
 export { ContentItem } from './ts/items/content-item';
+export { EdgeDockItem } from './ts/items/edge-dock-item';
+export { FloatingItem } from './ts/items/floating-item';
 export { RowOrColumn } from './ts/items/row-or-column';
 export { Stack } from './ts/items/stack';
 export { LayoutManager } from './ts/layout-manager';
+export { IndexedDbLayoutStorage } from './ts/storage/indexed-db-layout-storage';
+export { LocalStorageLayoutStorage } from './ts/storage/local-storage-layout-storage';
+export { LayoutStorage } from './ts/storage/layout-storage';
+export { MemoryLayoutStorage } from './ts/storage/memory-layout-storage';
+export { BroadcastChannelLayoutSyncTransport } from './ts/sync/broadcast-channel-layout-sync-transport';
+export { LayoutSyncTransport } from './ts/sync/layout-sync-transport';
+export { MemoryLayoutSyncTransport } from './ts/sync/memory-layout-sync-transport';
 export { EventEmitter } from './ts/utils/event-emitter';
 export { EventHub } from './ts/utils/event-hub';
+export { EventHubChannel } from './ts/utils/event-hub-channel';
 export * from './ts/utils/i18n-strings';
 export { StyleConstants } from './ts/utils/style-constants';
 export * from './ts/utils/types';
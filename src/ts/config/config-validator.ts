@@ -0,0 +1,155 @@
+import { I18nStringId, I18nStrings, i18nStrings } from '../utils/i18n-strings';
+import { SizeUnitEnum } from '../utils/types';
+import { splitStringAtFirstNonNumericChar } from '../utils/utils';
+import { LayoutConfig } from './config';
+
+/**
+ * Collects the errors found while checking a config which has not yet been resolved (eg. deserialised from storage).
+ * The check functions work on shallow copies of config objects.  Invalid properties are deleted from the copy so that
+ * the copy can be used as a repaired config (where defaults will be used in place of the deleted properties).
+ * @internal
+ */
+export class ConfigValidator {
+    readonly errors: LayoutConfig.ValidationError[] = [];
+
+    constructor() {
+        // validation can be used before any LayoutManager is created
+        I18nStrings.checkInitialise();
+    }
+
+    addError(path: string, message: string): void {
+        this.errors.push({ path, message });
+    }
+
+    /** Returns a shallow copy of value if it is an object or undefined (with error) if not */
+    checkObject(value: unknown, path: string): ConfigValidator.ConfigObject | undefined {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            this.addError(path, 'must be an object');
+            return undefined;
+        } else {
+            return { ...value as ConfigValidator.ConfigObject };
+        }
+    }
+
+    /** Returns a copy of property key if it is an array (or undefined if property not defined).  Deletes property if not an array */
+    checkArray(config: ConfigValidator.ConfigObject, key: string, path: string): unknown[] | undefined {
+        const value = config[key];
+        if (value === undefined) {
+            return undefined;
+        } else {
+            if (!Array.isArray(value)) {
+                this.invalidateProperty(config, key, path, 'must be an array');
+                return undefined;
+            } else {
+                return value.slice();
+            }
+        }
+    }
+
+    /** Checks property key (if defined) is an object and returns a copy of it.  Deletes property if not an object */
+    checkObjectProperty(config: ConfigValidator.ConfigObject, key: string, path: string): ConfigValidator.ConfigObject | undefined {
+        const value = config[key];
+        if (value === undefined) {
+            return undefined;
+        } else {
+            const result = this.checkObject(value, ConfigValidator.joinPath(path, key));
+            if (result === undefined) {
+                delete config[key];
+            }
+            return result;
+        }
+    }
+
+    checkBoolean(config: ConfigValidator.ConfigObject, key: string, path: string): void {
+        const value = config[key];
+        if (value !== undefined && typeof value !== 'boolean') {
+            this.invalidateProperty(config, key, path, 'must be a boolean');
+        }
+    }
+
+    checkString(config: ConfigValidator.ConfigObject, key: string, path: string): void {
+        const value = config[key];
+        if (value !== undefined && typeof value !== 'string') {
+            this.invalidateProperty(config, key, path, 'must be a string');
+        }
+    }
+
+    checkStringArray(config: ConfigValidator.ConfigObject, key: string, path: string): void {
+        const value = config[key];
+        if (value !== undefined && (!Array.isArray(value) || !value.every((element) => typeof element === 'string'))) {
+            this.invalidateProperty(config, key, path, 'must be an array of strings');
+        }
+    }
+
+    checkFalseOrString(config: ConfigValidator.ConfigObject, key: string, path: string): void {
+        const value = config[key];
+        if (value !== undefined && value !== false && typeof value !== 'string') {
+            this.invalidateProperty(config, key, path, 'must be false or a string');
+        }
+    }
+
+    checkNumber(config: ConfigValidator.ConfigObject, key: string, path: string, allowNull = false): void {
+        const value = config[key];
+        if (value !== undefined && !(allowNull && value === null) && (typeof value !== 'number' || !Number.isFinite(value))) {
+            this.invalidateProperty(config, key, path, allowNull ? 'must be a number or null' : 'must be a number');
+        }
+    }
+
+    checkInteger(config: ConfigValidator.ConfigObject, key: string, path: string, allowNull = false): void {
+        const value = config[key];
+        if (value !== undefined && !(allowNull && value === null) && !Number.isInteger(value)) {
+            this.invalidateProperty(config, key, path, allowNull ? 'must be an integer or null' : 'must be an integer');
+        }
+    }
+
+    checkEnum(config: ConfigValidator.ConfigObject, key: string, path: string, values: readonly unknown[]): void {
+        const value = config[key];
+        if (value !== undefined && !values.includes(value)) {
+            const formattedValues = values.map((value) => JSON.stringify(value)).join(', ');
+            this.invalidateProperty(config, key, path, `must be one of ${formattedValues}`);
+        }
+    }
+
+    /** Checks the property is a size string (as parsed by parseSize()) with one of the allowable units */
+    checkSize(config: ConfigValidator.ConfigObject, key: string, path: string, allowableSizeUnits: readonly SizeUnitEnum[]): void {
+        const value = config[key];
+        if (value !== undefined) {
+            if (typeof value !== 'string') {
+                this.invalidateProperty(config, key, path, 'must be a string');
+            } else {
+                const { numericPart, firstNonNumericCharPart } = splitStringAtFirstNonNumericChar(value);
+                if (isNaN(Number.parseInt(numericPart, 10))) {
+                    this.invalidateProperty(config, key, path, `${i18nStrings[I18nStringId.InvalidNumberPartInSizeString]}: ${value}`);
+                } else {
+                    const sizeUnit = SizeUnitEnum.tryParse(firstNonNumericCharPart);
+                    if (sizeUnit === undefined) {
+                        this.invalidateProperty(config, key, path, `${i18nStrings[I18nStringId.UnknownUnitInSizeString]}: ${value}`);
+                    } else {
+                        if (!allowableSizeUnits.includes(sizeUnit)) {
+                            this.invalidateProperty(config, key, path, `${i18nStrings[I18nStringId.UnsupportedUnitInSizeString]}: ${value}`);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    /** Records an error against property key and deletes it from config */
+    invalidateProperty(config: ConfigValidator.ConfigObject, key: string, path: string, message: string): void {
+        this.addError(ConfigValidator.joinPath(path, key), message);
+        delete config[key];
+    }
+}
+
+/** @internal */
+export namespace ConfigValidator {
+    export type ConfigObject = Record<string, unknown>;
+
+    export function joinPath(path: string, key: string): string {
+        return path === '' ? key : path + '.' + key;
+    }
+
+    export function indexPath(path: string, index: number): string {
+        return `${path}[${index}]`;
+    }
+}
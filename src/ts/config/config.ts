@@ -1,10 +1,12 @@
-import { ConfigurationError } from '../errors/external-error';
+import { ConfigurationError, ConfigurationValidationError } from '../errors/external-error';
 import { AssertError, UnexpectedUndefinedError, UnreachableCaseError } from '../errors/internal-error';
 import { I18nStringId, i18nStrings } from '../utils/i18n-strings';
 import { ItemType, JsonValue, ResponsiveMode, Side, SizeUnitEnum } from '../utils/types';
 import { deepExtendValue, splitStringAtFirstNonNumericChar } from '../utils/utils';
 import {
     ResolvedComponentItemConfig,
+    ResolvedEdgeDockItemConfig,
+    ResolvedFloatingItemConfig,
     ResolvedHeaderedItemConfig,
     ResolvedItemConfig,
     ResolvedLayoutConfig,
@@ -13,11 +15,14 @@ import {
     ResolvedRowOrColumnItemConfig,
     ResolvedStackItemConfig
 } from "./resolved-config";
+import { ConfigValidator } from './config-validator';
 
 /** @public */
 export interface ItemConfig {
     /**
      * The type of the item. Possible values are 'row', 'column', 'stack', 'component'.
+     * 'floating' can only be used in {@link (LayoutConfig:interface).floatingItems} and 'edgeDock' can only be used in
+     * {@link (LayoutConfig:interface).edgeDockItems}.
      */
     type: ItemType;
 
@@ -87,6 +92,14 @@ export interface ItemConfig {
      */
     isClosable?: boolean;
 
+    /**
+     * Whether the item and its descendants are locked against being rearranged: splitters cannot be dragged, tabs cannot
+     * be reordered or closed, Stacks cannot be maximised, popped out, floated or collapsed and nothing can be dropped
+     * into the item.  Also see {@link (LayoutConfig:namespace).(Settings:interface).locked}.
+     * Default: false
+     */
+    locked?: boolean;
+
     /**
      * The title of the item as displayed on its tab and on popout windows
      * Default: componentType.toString() or ''
@@ -119,6 +132,12 @@ export namespace ItemConfig {
             case ItemType.component:
                 return ComponentItemConfig.resolve(itemConfig as ComponentItemConfig, rowAndColumnChildLegacySizeDefault);
 
+            case ItemType.floating:
+                return FloatingItemConfig.resolve(itemConfig as FloatingItemConfig);
+
+            case ItemType.edgeDock:
+                return EdgeDockItemConfig.resolve(itemConfig as EdgeDockItemConfig);
+
             default:
                 throw new UnreachableCaseError('UCUICR55499', itemConfig.type);
         }
@@ -219,6 +238,77 @@ export namespace ItemConfig {
         }
     }
 
+    /**
+     * Checks an unresolved ItemConfig of any type
+     * @returns Repaired copy of config or undefined if config is too invalid to be kept
+     * @internal
+     */
+    export function validate(config: unknown, path: string, validator: ConfigValidator): ItemConfig | undefined {
+        const copy = validator.checkObject(config, path);
+        if (copy === undefined) {
+            return undefined;
+        } else {
+            const type = copy.type;
+            switch (type) {
+                case ItemType.row:
+                case ItemType.column:
+                    return RowOrColumnItemConfig.validate(copy, path, validator);
+                case ItemType.stack:
+                    return StackItemConfig.validate(copy, path, validator);
+                case ItemType.component:
+                    return ComponentItemConfig.validate(copy, path, validator);
+                case ItemType.ground:
+                    validator.addError(path, 'ItemConfig cannot specify type ground');
+                    return undefined;
+                case ItemType.floating:
+                    validator.addError(path, 'floating ItemConfigs can only be specified in floatingItems');
+                    return undefined;
+                case ItemType.edgeDock:
+                    validator.addError(path, 'edgeDock ItemConfigs can only be specified in edgeDockItems');
+                    return undefined;
+                default:
+                    validator.addError(ConfigValidator.joinPath(path, 'type'), 'must be one of "row", "column", "stack", "component"');
+                    return undefined;
+            }
+        }
+    }
+
+    /**
+     * Checks each item in content.  Items which are too invalid to be kept are left out of the returned array
+     * @internal
+     */
+    export function validateContent(content: unknown[], path: string, validator: ConfigValidator): ItemConfig[] {
+        const result: ItemConfig[] = [];
+        for (let i = 0; i < content.length; i++) {
+            const itemConfig = ItemConfig.validate(content[i], ConfigValidator.indexPath(path, i), validator);
+            if (itemConfig !== undefined) {
+                result.push(itemConfig);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Checks the properties common to all ItemConfig types (except content)
+     * @internal
+     */
+    export function validateProperties(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): void {
+        validator.checkSize(config, 'size', path, [SizeUnitEnum.Percent, SizeUnitEnum.Fractional]);
+        validator.checkSize(config, 'minSize', path, [SizeUnitEnum.Pixel]);
+        validator.checkNumber(config, 'width', path);
+        validator.checkNumber(config, 'height', path);
+        validator.checkNumber(config, 'minWidth', path);
+        validator.checkNumber(config, 'minHeight', path);
+        validator.checkBoolean(config, 'isClosable', path);
+        validator.checkBoolean(config, 'locked', path);
+        validator.checkString(config, 'title', path);
+        const id = config.id;
+        // string array only supported for legacy configs
+        if (id !== undefined && typeof id !== 'string' && !(Array.isArray(id) && id.every((element) => typeof element === 'string'))) {
+            validator.invalidateProperty(config, 'id', path, 'must be a string');
+        }
+    }
+
     export function isGround(config: ItemConfig): config is ItemConfig {
         return config.type === ItemType.ground;
     }
@@ -247,12 +337,17 @@ export interface HeaderedItemConfig extends ItemConfig {
 
 /** @public */
 export namespace HeaderedItemConfig {
-    const legacyMaximisedId = '__glMaximised';
+    /** @internal */
+    export const legacyMaximisedId = '__glMaximised';
 
     export interface Header {
         show?: false | Side;
         popout?: false | string;
         dock?: false | string;
+        float?: false | string;
+        autoHide?: false | string;
+        collapse?: false | string;
+        expand?: string;
         maximise?: false | string;
         close?: false | string;
         minimise?: string;
@@ -267,6 +362,10 @@ export namespace HeaderedItemConfig {
                 const result: ResolvedHeaderedItemConfig.Header = {
                     show: header?.show ?? (hasHeaders === undefined ? undefined : hasHeaders ? ResolvedLayoutConfig.Header.defaults.show : false),
                     popout: header?.popout,
+                    float: header?.float,
+                    autoHide: header?.autoHide,
+                    collapse: header?.collapse,
+                    expand: header?.expand,
                     maximise: header?.maximise,
                     close: header?.close,
                     minimise: header?.minimise,
@@ -275,6 +374,36 @@ export namespace HeaderedItemConfig {
                 return result;
             }
         }
+
+        /** @internal */
+        export function validate(header: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): Header {
+            validator.checkEnum(header, 'show', path, [false, Side.top, Side.left, Side.right, Side.bottom]);
+            validator.checkFalseOrString(header, 'popout', path);
+            validator.checkFalseOrString(header, 'dock', path);
+            validator.checkFalseOrString(header, 'float', path);
+            validator.checkFalseOrString(header, 'autoHide', path);
+            validator.checkFalseOrString(header, 'collapse', path);
+            validator.checkString(header, 'expand', path);
+            validator.checkFalseOrString(header, 'maximise', path);
+            validator.checkFalseOrString(header, 'close', path);
+            validator.checkString(header, 'minimise', path);
+            validator.checkFalseOrString(header, 'tabDropdown', path);
+            return header as Header;
+        }
+    }
+
+    /**
+     * Checks the properties common to Stack and Component ItemConfigs (except content)
+     * @internal
+     */
+    export function validateProperties(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): void {
+        ItemConfig.validateProperties(config, path, validator);
+        validator.checkBoolean(config, 'hasHeaders', path);
+        validator.checkBoolean(config, 'maximised', path);
+        const header = validator.checkObjectProperty(config, 'header', path);
+        if (header !== undefined) {
+            config.header = Header.validate(header, ConfigValidator.joinPath(path, 'header'), validator);
+        }
     }
 
     /** @internal */
@@ -319,6 +448,18 @@ export interface StackItemConfig extends HeaderedItemConfig {
     content: ComponentItemConfig[];
     /** The index of the item in content which is to be active*/
     activeItemIndex?: number;
+    /**
+     * Whether the Stack is collapsed to its header within its parent row or column.  Its size is kept so it can be
+     * restored when the Stack is expanded.
+     * Default: false
+     */
+    collapsed?: boolean;
+    /**
+     * Whether components can be dropped onto the Stack's header as new tabs.  Tabs already in the Stack can still be
+     * reordered.
+     * Default: true
+     */
+    tabDropEnabled?: boolean;
 }
 
 /** @public */
@@ -339,7 +480,10 @@ export namespace StackItemConfig {
             id,
             maximised,
             isClosable: itemConfig.isClosable ?? ResolvedItemConfig.defaults.isClosable,
+            locked: itemConfig.locked ?? ResolvedItemConfig.defaults.locked,
             activeItemIndex: itemConfig.activeItemIndex ?? ResolvedStackItemConfig.defaultActiveItemIndex,
+            collapsed: itemConfig.collapsed ?? ResolvedStackItemConfig.defaultCollapsed,
+            tabDropEnabled: itemConfig.tabDropEnabled ?? ResolvedStackItemConfig.defaultTabDropEnabled,
             header: HeaderedItemConfig.Header.resolve(itemConfig.header, itemConfig.hasHeaders),
         };
         return result;
@@ -355,13 +499,58 @@ export namespace StackItemConfig {
             id: resolvedConfig.id,
             maximised: resolvedConfig.maximised,
             isClosable: resolvedConfig.isClosable,
+            locked: resolvedConfig.locked,
             activeItemIndex: resolvedConfig.activeItemIndex,
+            collapsed: resolvedConfig.collapsed,
+            tabDropEnabled: resolvedConfig.tabDropEnabled,
             header: ResolvedHeaderedItemConfig.Header.createCopy(resolvedConfig.header),
         };
 
         return result;
     }
 
+    /**
+     * Checks a copy of an unresolved StackItemConfig.  Children which are not components are removed.
+     * @internal
+     */
+    export function validate(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): StackItemConfig {
+        HeaderedItemConfig.validateProperties(config, path, validator);
+
+        const content = validator.checkArray(config, 'content', path);
+        let contentCount = 0;
+        if (content !== undefined) {
+            const contentPath = ConfigValidator.joinPath(path, 'content');
+            const validatedContent: ComponentItemConfig[] = [];
+            for (let i = 0; i < content.length; i++) {
+                const childPath = ConfigValidator.indexPath(contentPath, i);
+                const childConfig = validator.checkObject(content[i], childPath);
+                if (childConfig !== undefined) {
+                    if (childConfig.type !== ItemType.component) {
+                        validator.addError(childPath, 'stack children must be components');
+                    } else {
+                        const validatedChildConfig = ComponentItemConfig.validate(childConfig, childPath, validator);
+                        if (validatedChildConfig !== undefined) {
+                            validatedContent.push(validatedChildConfig);
+                        }
+                    }
+                }
+            }
+            config.content = validatedContent;
+            contentCount = validatedContent.length;
+        }
+
+        validator.checkInteger(config, 'activeItemIndex', path);
+        const activeItemIndex = config.activeItemIndex;
+        // Stack ignores activeItemIndex if it has no content
+        if (typeof activeItemIndex === 'number' && contentCount > 0 && (activeItemIndex < 0 || activeItemIndex >= contentCount)) {
+            validator.invalidateProperty(config, 'activeItemIndex', path, `must be between 0 and ${contentCount - 1}`);
+        }
+        validator.checkBoolean(config, 'collapsed', path);
+        validator.checkBoolean(config, 'tabDropEnabled', path);
+
+        return config as unknown as StackItemConfig;
+    }
+
     /** @internal */
     function resolveContent(content: ComponentItemConfig[] | undefined): ResolvedComponentItemConfig[] {
         if (content === undefined) {
@@ -430,10 +619,89 @@ export interface ComponentItemConfig extends HeaderedItemConfig {
      * Default: true
      */
     reorderEnabled?: boolean;  // Takes precedence over LayoutConfig.reorderEnabled.
+
+    /**
+     * Pinned components have their tabs placed before the other tabs in their stack.  A pinned tab only shows an icon,
+     * has no close button and is never moved into the additional tabs dropdown.
+     * Also see {@link (ComponentItem:class).setPinned}.
+     * Default: false
+     */
+    pinned?: boolean;
+
+    /**
+     * Rules restricting where the component can be dropped when dragged and whether it can be popped out.
+     * Also see {@link (LayoutManager:class).canDropEvent}.
+     * Default: undefined (no restrictions)
+     */
+    dropConstraints?: ComponentItemConfig.DropConstraints;
 }
 
 /** @public */
 export namespace ComponentItemConfig {
+    export interface DropConstraints {
+        /**
+         * The component types the component can share a Stack with.  Include the component's own type to allow it to be
+         * stacked with components of the same type.  Undefined allows all types.
+         * The rules of both components must allow them to be stacked.
+         * Default: undefined
+         */
+        stackableWith?: JsonValue[];
+        /**
+         * The edges of the layout the component can be docked to.  Undefined allows all edges.
+         * Default: undefined
+         */
+        dockEdges?: Side[];
+        /**
+         * Whether the component can be popped out into a new window.
+         * Default: true
+         */
+        popout?: boolean;
+    }
+
+    export namespace DropConstraints {
+        /** @internal */
+        export function resolve(constraints: DropConstraints | undefined): ResolvedComponentItemConfig.DropConstraints | undefined {
+            if (constraints === undefined) {
+                return undefined;
+            } else {
+                const result: ResolvedComponentItemConfig.DropConstraints = {
+                    stackableWith: constraints.stackableWith?.slice(),
+                    dockEdges: constraints.dockEdges?.slice(),
+                    popout: constraints.popout ?? ResolvedComponentItemConfig.DropConstraints.defaultPopout,
+                };
+                return result;
+            }
+        }
+
+        /** @internal */
+        export function fromResolved(resolvedConstraints: ResolvedComponentItemConfig.DropConstraints | undefined): DropConstraints | undefined {
+            if (resolvedConstraints === undefined) {
+                return undefined;
+            } else {
+                const result: DropConstraints = {
+                    stackableWith: resolvedConstraints.stackableWith?.slice(),
+                    dockEdges: resolvedConstraints.dockEdges?.slice(),
+                    popout: resolvedConstraints.popout,
+                };
+                return result;
+            }
+        }
+
+        /** @internal */
+        export function validate(constraints: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): DropConstraints {
+            validator.checkArray(constraints, 'stackableWith', path);
+            const dockEdges = validator.checkArray(constraints, 'dockEdges', path);
+            if (dockEdges !== undefined) {
+                const sides: readonly unknown[] = [Side.top, Side.left, Side.right, Side.bottom];
+                if (!dockEdges.every((edge) => sides.includes(edge))) {
+                    validator.invalidateProperty(constraints, 'dockEdges', path, 'must only contain top, left, right or bottom');
+                }
+            }
+            validator.checkBoolean(constraints, 'popout', path);
+            return constraints as DropConstraints;
+        }
+    }
+
     /** @internal */
     export function resolve(itemConfig: ComponentItemConfig, rowAndColumnChildLegacySizeDefault: boolean): ResolvedComponentItemConfig {
         let componentType: JsonValue | undefined = itemConfig.componentType;
@@ -462,7 +730,10 @@ export namespace ComponentItemConfig {
                 id,
                 maximised,
                 isClosable: itemConfig.isClosable ?? ResolvedItemConfig.defaults.isClosable,
+                locked: itemConfig.locked ?? ResolvedItemConfig.defaults.locked,
                 reorderEnabled: itemConfig.reorderEnabled ?? ResolvedComponentItemConfig.defaultReorderEnabled,
+                pinned: itemConfig.pinned ?? ResolvedComponentItemConfig.defaultPinned,
+                dropConstraints: DropConstraints.resolve(itemConfig.dropConstraints),
                 title,
                 header: HeaderedItemConfig.Header.resolve(itemConfig.header, itemConfig.hasHeaders),
                 componentType,
@@ -481,7 +752,10 @@ export namespace ComponentItemConfig {
             id: resolvedConfig.id,
             maximised: resolvedConfig.maximised,
             isClosable: resolvedConfig.isClosable,
+            locked: resolvedConfig.locked,
             reorderEnabled: resolvedConfig.reorderEnabled,
+            pinned: resolvedConfig.pinned,
+            dropConstraints: DropConstraints.fromResolved(resolvedConfig.dropConstraints),
             title: resolvedConfig.title,
             header: ResolvedHeaderedItemConfig.Header.createCopy(resolvedConfig.header),
             componentType: resolvedConfig.componentType,
@@ -491,6 +765,33 @@ export namespace ComponentItemConfig {
         return result;
     }
 
+    /**
+     * Checks a copy of an unresolved ComponentItemConfig
+     * @returns Repaired copy of config or undefined if it does not specify a component type
+     * @internal
+     */
+    export function validate(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): ComponentItemConfig | undefined {
+        HeaderedItemConfig.validateProperties(config, path, validator);
+        validator.checkString(config, 'componentName', path);
+        validator.checkBoolean(config, 'reorderEnabled', path);
+        validator.checkBoolean(config, 'pinned', path);
+        const dropConstraints = validator.checkObjectProperty(config, 'dropConstraints', path);
+        if (dropConstraints !== undefined) {
+            config.dropConstraints = DropConstraints.validate(dropConstraints, ConfigValidator.joinPath(path, 'dropConstraints'), validator);
+        }
+        const content = config.content;
+        if (content !== undefined && !(Array.isArray(content) && content.length === 0)) {
+            validator.invalidateProperty(config, 'content', path, 'component cannot have content');
+        }
+
+        if (config.componentType === undefined && config.componentName === undefined) {
+            validator.addError(ConfigValidator.joinPath(path, 'componentType'), 'must be specified');
+            return undefined;
+        } else {
+            return config as unknown as ComponentItemConfig;
+        }
+    }
+
     export function componentTypeToTitle(componentType: JsonValue): string {
         const componentTypeType = typeof componentType;
         switch (componentTypeType) {
@@ -521,6 +822,8 @@ export namespace RowOrColumnItemConfig {
             case ItemType.component:
                 return true;
             case ItemType.ground:
+            case ItemType.floating:
+            case ItemType.edgeDock:
                 return false;
             default:
                 throw new UnreachableCaseError('UROCOSPCICIC13687', itemConfig.type);
@@ -540,10 +843,24 @@ export namespace RowOrColumnItemConfig {
             minSizeUnit,
             id: ItemConfig.resolveId(itemConfig.id),
             isClosable: itemConfig.isClosable ?? ResolvedItemConfig.defaults.isClosable,
+            locked: itemConfig.locked ?? ResolvedItemConfig.defaults.locked,
         }
         return result;
     }
 
+    /**
+     * Checks a copy of an unresolved RowOrColumnItemConfig
+     * @internal
+     */
+    export function validate(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): RowOrColumnItemConfig {
+        ItemConfig.validateProperties(config, path, validator);
+        const content = validator.checkArray(config, 'content', path);
+        if (content !== undefined) {
+            config.content = ItemConfig.validateContent(content, ConfigValidator.joinPath(path, 'content'), validator);
+        }
+        return config as unknown as RowOrColumnItemConfig;
+    }
+
     /** @internal */
     export function fromResolved(resolvedConfig: ResolvedRowOrColumnItemConfig): RowOrColumnItemConfig {
         const result: RowOrColumnItemConfig = {
@@ -553,6 +870,7 @@ export namespace RowOrColumnItemConfig {
             minSize: formatUndefinableSize(resolvedConfig.minSize, resolvedConfig.minSizeUnit),
             id: resolvedConfig.id,
             isClosable: resolvedConfig.isClosable,
+            locked: resolvedConfig.locked,
         }
 
         return result;
@@ -657,6 +975,8 @@ export namespace RootItemConfig {
             case ItemType.component:
                 return true;
             case ItemType.ground:
+            case ItemType.floating:
+            case ItemType.edgeDock:
                 return false;
             default:
                 throw new UnreachableCaseError('URICIR23687', itemConfig.type);
@@ -698,12 +1018,357 @@ export namespace RootItemConfig {
     }
 }
 
+/**
+ * A floating (in-page) window displayed over the layout.  Unlike a popout, it does not need window.open() so it can
+ * be used where popup windows are blocked.
+ * @public
+ */
+export interface FloatingItemConfig extends ItemConfig {
+    type: 'floating';
+    /** A single Stack or Component.  A Component is placed in a Stack when the FloatingItem is created. */
+    content: (StackItemConfig | ComponentItemConfig)[];
+    bounds?: FloatingItemConfig.Bounds;
+}
+
+/** @public */
+export namespace FloatingItemConfig {
+    export type ChildItemConfig = StackItemConfig | ComponentItemConfig;
+
+    /** Position and size of a FloatingItem in pixels, relative to the layout container */
+    export interface Bounds {
+        /** Default: 20 */
+        left?: number;
+        /** Default: 20 */
+        top?: number;
+        /** Default: 300 */
+        width?: number;
+        /** Default: 200 */
+        height?: number;
+    }
+
+    export namespace Bounds {
+        /** @internal */
+        export function resolve(bounds: Bounds | undefined): ResolvedFloatingItemConfig.Bounds {
+            const defaults = ResolvedFloatingItemConfig.Bounds.defaults;
+            const result: ResolvedFloatingItemConfig.Bounds = {
+                left: bounds?.left ?? defaults.left,
+                top: bounds?.top ?? defaults.top,
+                width: bounds?.width ?? defaults.width,
+                height: bounds?.height ?? defaults.height,
+            }
+            return result;
+        }
+    }
+
+    /** @internal */
+    export function resolve(itemConfig: FloatingItemConfig): ResolvedFloatingItemConfig {
+        const result: ResolvedFloatingItemConfig = {
+            type: ItemType.floating,
+            content: resolveContent(itemConfig.content),
+            size: ResolvedItemConfig.defaults.size,
+            sizeUnit: ResolvedItemConfig.defaults.sizeUnit,
+            minSize: ResolvedItemConfig.defaults.minSize,
+            minSizeUnit: ResolvedItemConfig.defaults.minSizeUnit,
+            id: ItemConfig.resolveId(itemConfig.id),
+            isClosable: itemConfig.isClosable ?? ResolvedItemConfig.defaults.isClosable,
+            locked: itemConfig.locked ?? ResolvedItemConfig.defaults.locked,
+            bounds: Bounds.resolve(itemConfig.bounds),
+        }
+        return result;
+    }
+
+    /** @internal */
+    export function fromResolved(resolvedConfig: ResolvedFloatingItemConfig): FloatingItemConfig {
+        const result: FloatingItemConfig = {
+            type: ItemType.floating,
+            content: fromResolvedContent(resolvedConfig.content),
+            id: resolvedConfig.id,
+            isClosable: resolvedConfig.isClosable,
+            locked: resolvedConfig.locked,
+            bounds: ResolvedFloatingItemConfig.Bounds.createCopy(resolvedConfig.bounds),
+        }
+        return result;
+    }
+
+    /**
+     * Checks a copy of an unresolved FloatingItemConfig.  Returns undefined if it does not contain exactly one Stack or
+     * Component.
+     * @internal
+     */
+    export function validate(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): FloatingItemConfig | undefined {
+        if (config.type !== ItemType.floating) {
+            validator.addError(ConfigValidator.joinPath(path, 'type'), 'must be "floating"');
+            return undefined;
+        } else {
+            ItemConfig.validateProperties(config, path, validator);
+
+            const bounds = validator.checkObjectProperty(config, 'bounds', path);
+            if (bounds !== undefined) {
+                const boundsPath = ConfigValidator.joinPath(path, 'bounds');
+                validator.checkNumber(bounds, 'left', boundsPath);
+                validator.checkNumber(bounds, 'top', boundsPath);
+                validator.checkNumber(bounds, 'width', boundsPath);
+                validator.checkNumber(bounds, 'height', boundsPath);
+                config.bounds = bounds;
+            }
+
+            const content = validator.checkArray(config, 'content', path);
+            if (content === undefined || content.length !== 1) {
+                validator.addError(ConfigValidator.joinPath(path, 'content'), 'must contain one stack or component');
+                return undefined;
+            } else {
+                const childPath = ConfigValidator.indexPath(ConfigValidator.joinPath(path, 'content'), 0);
+                const childConfig = ItemConfig.validate(content[0], childPath, validator);
+                if (childConfig === undefined) {
+                    return undefined;
+                } else {
+                    if (childConfig.type !== ItemType.stack && childConfig.type !== ItemType.component) {
+                        validator.addError(childPath, 'floating item content must be a stack or component');
+                        return undefined;
+                    } else {
+                        config.content = [childConfig];
+                        return config as unknown as FloatingItemConfig;
+                    }
+                }
+            }
+        }
+    }
+
+    /** @internal */
+    export function resolveArray(floatingItemConfigs: FloatingItemConfig[] | undefined): ResolvedFloatingItemConfig[] {
+        if (floatingItemConfigs === undefined) {
+            return [];
+        } else {
+            const count = floatingItemConfigs.length;
+            const result = new Array<ResolvedFloatingItemConfig>(count);
+            for (let i = 0; i < count; i++) {
+                result[i] = FloatingItemConfig.resolve(floatingItemConfigs[i]);
+            }
+            return result;
+        }
+    }
+
+    /** @internal */
+    export function fromResolvedArray(resolvedArray: readonly ResolvedFloatingItemConfig[]): FloatingItemConfig[] {
+        const count = resolvedArray.length;
+        const result = new Array<FloatingItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            result[i] = FloatingItemConfig.fromResolved(resolvedArray[i]);
+        }
+        return result;
+    }
+
+    /** @internal */
+    function resolveContent(content: ChildItemConfig[]): ResolvedFloatingItemConfig.ChildItemConfig[] {
+        if (content.length !== 1) {
+            throw new ConfigurationError('FloatingItemConfig content must contain one Stack or Component', JSON.stringify(content));
+        } else {
+            const resolvedChildItemConfig = ItemConfig.resolve(content[0], false);
+            if (!ResolvedItemConfig.isStackItem(resolvedChildItemConfig) && !ResolvedItemConfig.isComponentItem(resolvedChildItemConfig)) {
+                throw new ConfigurationError('FloatingItemConfig content is not Stack or Component', JSON.stringify(content[0]));
+            } else {
+                return [resolvedChildItemConfig];
+            }
+        }
+    }
+
+    /** @internal */
+    function fromResolvedContent(resolvedContent: readonly ResolvedFloatingItemConfig.ChildItemConfig[]): ChildItemConfig[] {
+        const count = resolvedContent.length;
+        const result = new Array<ChildItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            const resolvedContentConfig = resolvedContent[i];
+            const type = resolvedContentConfig.type;
+            switch (type) {
+                case ItemType.stack:
+                    result[i] = StackItemConfig.fromResolved(resolvedContentConfig);
+                    break;
+                case ItemType.component:
+                    result[i] = ComponentItemConfig.fromResolved(resolvedContentConfig);
+                    break;
+                default:
+                    throw new UnreachableCaseError('FICFRC60231', type);
+            }
+        }
+        return result;
+    }
+}
+
+/**
+ * A Stack collapsed to a tab on an edge of the layout (auto-hide).  Clicking the tab slides the Stack out over the
+ * layout.  It slides back when focus leaves it.
+ * @public
+ */
+export interface EdgeDockItemConfig extends ItemConfig {
+    type: 'edgeDock';
+    /** A single Stack or Component.  A Component is placed in a Stack when the EdgeDockItem is created. */
+    content: (StackItemConfig | ComponentItemConfig)[];
+    /**
+     * The edge of the layout on which the tab is displayed and from which the Stack slides out.
+     * Default: 'left'
+     */
+    side?: Side;
+    /**
+     * Width (left and right edges) or height (top and bottom edges) in pixels of the Stack when it has slid out.
+     * Default: 300
+     */
+    slideOutSize?: number;
+}
+
+/** @public */
+export namespace EdgeDockItemConfig {
+    export type ChildItemConfig = StackItemConfig | ComponentItemConfig;
+
+    /** @internal */
+    export function resolve(itemConfig: EdgeDockItemConfig): ResolvedEdgeDockItemConfig {
+        const result: ResolvedEdgeDockItemConfig = {
+            type: ItemType.edgeDock,
+            content: resolveContent(itemConfig.content),
+            size: ResolvedItemConfig.defaults.size,
+            sizeUnit: ResolvedItemConfig.defaults.sizeUnit,
+            minSize: ResolvedItemConfig.defaults.minSize,
+            minSizeUnit: ResolvedItemConfig.defaults.minSizeUnit,
+            id: ItemConfig.resolveId(itemConfig.id),
+            isClosable: itemConfig.isClosable ?? ResolvedItemConfig.defaults.isClosable,
+            locked: itemConfig.locked ?? ResolvedItemConfig.defaults.locked,
+            side: itemConfig.side ?? ResolvedEdgeDockItemConfig.defaults.side,
+            slideOutSize: itemConfig.slideOutSize ?? ResolvedEdgeDockItemConfig.defaults.slideOutSize,
+        }
+        return result;
+    }
+
+    /** @internal */
+    export function fromResolved(resolvedConfig: ResolvedEdgeDockItemConfig): EdgeDockItemConfig {
+        const result: EdgeDockItemConfig = {
+            type: ItemType.edgeDock,
+            content: fromResolvedContent(resolvedConfig.content),
+            id: resolvedConfig.id,
+            isClosable: resolvedConfig.isClosable,
+            locked: resolvedConfig.locked,
+            side: resolvedConfig.side,
+            slideOutSize: resolvedConfig.slideOutSize,
+        }
+        return result;
+    }
+
+    /**
+     * Checks a copy of an unresolved EdgeDockItemConfig.  Returns undefined if it does not contain exactly one Stack or
+     * Component.
+     * @internal
+     */
+    export function validate(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): EdgeDockItemConfig | undefined {
+        if (config.type !== ItemType.edgeDock) {
+            validator.addError(ConfigValidator.joinPath(path, 'type'), 'must be "edgeDock"');
+            return undefined;
+        } else {
+            ItemConfig.validateProperties(config, path, validator);
+            validator.checkEnum(config, 'side', path, [Side.top, Side.left, Side.right, Side.bottom]);
+            validator.checkNumber(config, 'slideOutSize', path);
+
+            const content = validator.checkArray(config, 'content', path);
+            if (content === undefined || content.length !== 1) {
+                validator.addError(ConfigValidator.joinPath(path, 'content'), 'must contain one stack or component');
+                return undefined;
+            } else {
+                const childPath = ConfigValidator.indexPath(ConfigValidator.joinPath(path, 'content'), 0);
+                const childConfig = ItemConfig.validate(content[0], childPath, validator);
+                if (childConfig === undefined) {
+                    return undefined;
+                } else {
+                    if (childConfig.type !== ItemType.stack && childConfig.type !== ItemType.component) {
+                        validator.addError(childPath, 'edge dock item content must be a stack or component');
+                        return undefined;
+                    } else {
+                        config.content = [childConfig];
+                        return config as unknown as EdgeDockItemConfig;
+                    }
+                }
+            }
+        }
+    }
+
+    /** @internal */
+    export function resolveArray(edgeDockItemConfigs: EdgeDockItemConfig[] | undefined): ResolvedEdgeDockItemConfig[] {
+        if (edgeDockItemConfigs === undefined) {
+            return [];
+        } else {
+            const count = edgeDockItemConfigs.length;
+            const result = new Array<ResolvedEdgeDockItemConfig>(count);
+            for (let i = 0; i < count; i++) {
+                result[i] = EdgeDockItemConfig.resolve(edgeDockItemConfigs[i]);
+            }
+            return result;
+        }
+    }
+
+    /** @internal */
+    export function fromResolvedArray(resolvedArray: readonly ResolvedEdgeDockItemConfig[]): EdgeDockItemConfig[] {
+        const count = resolvedArray.length;
+        const result = new Array<EdgeDockItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            result[i] = EdgeDockItemConfig.fromResolved(resolvedArray[i]);
+        }
+        return result;
+    }
+
+    /** @internal */
+    function resolveContent(content: ChildItemConfig[]): ResolvedEdgeDockItemConfig.ChildItemConfig[] {
+        if (content.length !== 1) {
+            throw new ConfigurationError('EdgeDockItemConfig content must contain one Stack or Component', JSON.stringify(content));
+        } else {
+            const resolvedChildItemConfig = ItemConfig.resolve(content[0], false);
+            if (!ResolvedItemConfig.isStackItem(resolvedChildItemConfig) && !ResolvedItemConfig.isComponentItem(resolvedChildItemConfig)) {
+                throw new ConfigurationError('EdgeDockItemConfig content is not Stack or Component', JSON.stringify(content[0]));
+            } else {
+                return [resolvedChildItemConfig];
+            }
+        }
+    }
+
+    /** @internal */
+    function fromResolvedContent(resolvedContent: readonly ResolvedEdgeDockItemConfig.ChildItemConfig[]): ChildItemConfig[] {
+        const count = resolvedContent.length;
+        const result = new Array<ChildItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            const resolvedContentConfig = resolvedContent[i];
+            const type = resolvedContentConfig.type;
+            switch (type) {
+                case ItemType.stack:
+                    result[i] = StackItemConfig.fromResolved(resolvedContentConfig);
+                    break;
+                case ItemType.component:
+                    result[i] = ComponentItemConfig.fromResolved(resolvedContentConfig);
+                    break;
+                default:
+                    throw new UnreachableCaseError('EDICFRC60232', type);
+            }
+        }
+        return result;
+    }
+}
+
 /** @public */
 export interface LayoutConfig {
+    /**
+     * The version of the LayoutConfig format.  Older configs are upgraded by the built-in migrations
+     * (see {@link LayoutConfigMigrationRegistry}).
+     * Default: {@link (ResolvedLayoutConfig:namespace).legacyVersion}
+     */
+    version?: number;
+    /**
+     * Version of the application's use of the layout (for example, its component types and states).  Configs are upgraded
+     * to the latest version by the migrations the application registers with {@link LayoutConfigMigrationRegistry}.
+     * Configs without an applicationVersion are treated as version 0.
+     */
+    applicationVersion?: number;
     root: RootItemConfig | undefined;
     /** @deprecated Use {@link (LayoutConfig:interface).root} */
     content?: (RowOrColumnItemConfig | StackItemConfig | ComponentItemConfig)[];
     openPopouts?: PopoutLayoutConfig[];
+    /** Floating (in-page) windows.  Ordered by z-order with the topmost last */
+    floatingItems?: FloatingItemConfig[];
+    /** Stacks collapsed to tabs on the edges of the layout.  Tabs on each edge are ordered as in this array */
+    edgeDockItems?: EdgeDockItemConfig[];
     dimensions?: LayoutConfig.Dimensions;
     settings?: LayoutConfig.Settings;
     /** @deprecated use {@link (LayoutConfig:interface).header} instead */
@@ -801,6 +1466,13 @@ export namespace LayoutConfig {
          */
         reorderOnTabMenuClick?: boolean;
 
+        /**
+         * Specifies if right clicking a tab (its context menu action) pins or unpins its component instead of opening the
+         * browser's context menu.  See {@link (ComponentItemConfig:interface).pinned}
+         * Default: false
+         */
+        pinTabOnContextMenu?: boolean;
+
         /**
          * Default: 10
          */
@@ -811,6 +1483,47 @@ export namespace LayoutConfig {
          * Default: false
          */
         popInOnClose?: boolean;
+
+        /**
+         * The keyboard shortcuts used to navigate and rearrange the layout.  Actions which are not specified use their
+         * default shortcuts.
+         */
+        keyBindings?: KeyBindings;
+
+        /**
+         * The number of pixels a splitter moves each time an arrow key is pressed while the splitter has focus.
+         * Default: 10
+         */
+        splitterKeyboardStep?: number;
+
+        /**
+         * If true, dropping a dragged component where there is no drop target opens it in a floating (in-page) window
+         * instead of a popout window.  Floating windows work in environments where popup windows are blocked.
+         * Default: false
+         */
+        dragToFloatingItem?: boolean;
+
+        /**
+         * URL of the page opened in popout windows.  Relative URLs are resolved against the current page.  The page can be
+         * on another origin (for example, a sandbox origin).  The windows then only exchange serialisable messages.
+         * Default: '/gl-popout'
+         */
+        popoutUrl?: string;
+
+        /**
+         * Locks the whole layout against being rearranged, for example on kiosk screens.  See
+         * {@link (ItemConfig:interface).locked}.  Can be switched at runtime with {@link (LayoutManager:class).locked}.
+         * Default: false
+         */
+        locked?: boolean;
+
+        /**
+         * If true, a component is not bound (created) until its tab first becomes active.  Until then, the component's
+         * state is saved unchanged from its config.  Listen to the {@link ComponentContainer} 'bound' event to be notified
+         * when the component is created.
+         * Default: false
+         */
+        lazyComponentBinding?: boolean;
     }
 
     export namespace Settings {
@@ -825,11 +1538,150 @@ export namespace LayoutConfig {
                 responsiveMode: settings?.responsiveMode ?? ResolvedLayoutConfig.Settings.defaults.responsiveMode,
                 tabOverlapAllowance: settings?.tabOverlapAllowance ?? ResolvedLayoutConfig.Settings.defaults.tabOverlapAllowance,
                 reorderOnTabMenuClick: settings?.reorderOnTabMenuClick ?? ResolvedLayoutConfig.Settings.defaults.reorderOnTabMenuClick,
+                pinTabOnContextMenu: settings?.pinTabOnContextMenu ?? ResolvedLayoutConfig.Settings.defaults.pinTabOnContextMenu,
                 tabControlOffset: settings?.tabControlOffset ?? ResolvedLayoutConfig.Settings.defaults.tabControlOffset,
                 popInOnClose: settings?.popInOnClose ?? ResolvedLayoutConfig.Settings.defaults.popInOnClose,
+                keyBindings: KeyBindings.resolve(settings?.keyBindings),
+                splitterKeyboardStep: settings?.splitterKeyboardStep ?? ResolvedLayoutConfig.Settings.defaults.splitterKeyboardStep,
+                dragToFloatingItem: settings?.dragToFloatingItem ?? ResolvedLayoutConfig.Settings.defaults.dragToFloatingItem,
+                popoutUrl: settings?.popoutUrl ?? ResolvedLayoutConfig.Settings.defaults.popoutUrl,
+                locked: settings?.locked ?? ResolvedLayoutConfig.Settings.defaults.locked,
+                lazyComponentBinding: settings?.lazyComponentBinding ?? ResolvedLayoutConfig.Settings.defaults.lazyComponentBinding,
+            }
+            return result;
+        }
+
+        /** @internal */
+        export function validate(settings: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): Settings {
+            validator.checkBoolean(settings, 'hasHeaders', path);
+            validator.checkBoolean(settings, 'dragBetweenWindows', path);
+            validator.checkBoolean(settings, 'dragToNewWindow', path);
+            validator.checkBoolean(settings, 'reorderEnabled', path);
+            validator.checkBoolean(settings, 'popoutWholeStack', path);
+            validator.checkBoolean(settings, 'blockedPopoutsThrowError', path);
+            validator.checkBoolean(settings, 'closePopoutsOnUnload', path);
+            validator.checkBoolean(settings, 'showPopoutIcon', path);
+            validator.checkBoolean(settings, 'showMaximiseIcon', path);
+            validator.checkBoolean(settings, 'showCloseIcon', path);
+            validator.checkEnum(settings, 'responsiveMode', path, [ResponsiveMode.none, ResponsiveMode.always, ResponsiveMode.onload]);
+            validator.checkNumber(settings, 'tabOverlapAllowance', path);
+            validator.checkBoolean(settings, 'reorderOnTabMenuClick', path);
+            validator.checkBoolean(settings, 'pinTabOnContextMenu', path);
+            validator.checkNumber(settings, 'tabControlOffset', path);
+            validator.checkBoolean(settings, 'popInOnClose', path);
+            const keyBindings = validator.checkObjectProperty(settings, 'keyBindings', path);
+            if (keyBindings !== undefined) {
+                settings.keyBindings = KeyBindings.validate(keyBindings, ConfigValidator.joinPath(path, 'keyBindings'), validator);
+            }
+            validator.checkNumber(settings, 'splitterKeyboardStep', path);
+            validator.checkBoolean(settings, 'dragToFloatingItem', path);
+            validator.checkString(settings, 'popoutUrl', path);
+            validator.checkBoolean(settings, 'locked', path);
+            validator.checkBoolean(settings, 'lazyComponentBinding', path);
+            return settings as Settings;
+        }
+    }
+
+    /**
+     * Each action is triggered by any of the key combinations in its array.  A key combination is a
+     * {@link https://developer.mozilla.org/en-US/docs/Web/API/KeyboardEvent/key | KeyboardEvent.key} value, optionally
+     * preceded by modifiers separated with '+' (eg. 'Ctrl+Alt+ArrowLeft').  The modifiers are Ctrl, Alt, Shift and Meta.
+     * An empty array disables the action.
+     * Actions apply to the focused component or, if no component is focused, to the component containing the keyboard
+     * focus.
+     */
+    export interface KeyBindings {
+        /**
+         * Focus the stack to the left of the focused stack.
+         * Default: ['Ctrl+Alt+ArrowLeft']
+         */
+        focusLeft?: readonly string[];
+        /**
+         * Focus the stack to the right of the focused stack.
+         * Default: ['Ctrl+Alt+ArrowRight']
+         */
+        focusRight?: readonly string[];
+        /**
+         * Focus the stack above the focused stack.
+         * Default: ['Ctrl+Alt+ArrowUp']
+         */
+        focusUp?: readonly string[];
+        /**
+         * Focus the stack below the focused stack.
+         * Default: ['Ctrl+Alt+ArrowDown']
+         */
+        focusDown?: readonly string[];
+        /**
+         * Activate the next tab in the focused stack.
+         * Browsers use Ctrl+Tab to switch their own tabs and do not pass it to the page, so it is not a default.
+         * Default: ['Ctrl+PageDown']
+         */
+        nextTab?: readonly string[];
+        /**
+         * Activate the previous tab in the focused stack.
+         * Default: ['Ctrl+PageUp']
+         */
+        previousTab?: readonly string[];
+        /**
+         * Close the focused tab (if it is closable).
+         * Default: ['Ctrl+Alt+W']
+         */
+        closeTab?: readonly string[];
+        /**
+         * Maximise the focused stack or minimise it if it is already maximised.
+         * Default: ['Ctrl+Alt+M']
+         */
+        toggleMaximise?: readonly string[];
+        /**
+         * Move the focused component into the stack to the left.
+         * Default: ['Ctrl+Alt+Shift+ArrowLeft']
+         */
+        moveLeft?: readonly string[];
+        /**
+         * Move the focused component into the stack to the right.
+         * Default: ['Ctrl+Alt+Shift+ArrowRight']
+         */
+        moveRight?: readonly string[];
+        /**
+         * Move the focused component into the stack above.
+         * Default: ['Ctrl+Alt+Shift+ArrowUp']
+         */
+        moveUp?: readonly string[];
+        /**
+         * Move the focused component into the stack below.
+         * Default: ['Ctrl+Alt+Shift+ArrowDown']
+         */
+        moveDown?: readonly string[];
+    }
+
+    export namespace KeyBindings {
+        /** @internal */
+        export function resolve(keyBindings: KeyBindings | undefined): ResolvedLayoutConfig.KeyBindings {
+            const defaults = ResolvedLayoutConfig.KeyBindings.defaults;
+            const result: ResolvedLayoutConfig.KeyBindings = {
+                focusLeft: keyBindings?.focusLeft?.slice() ?? defaults.focusLeft,
+                focusRight: keyBindings?.focusRight?.slice() ?? defaults.focusRight,
+                focusUp: keyBindings?.focusUp?.slice() ?? defaults.focusUp,
+                focusDown: keyBindings?.focusDown?.slice() ?? defaults.focusDown,
+                nextTab: keyBindings?.nextTab?.slice() ?? defaults.nextTab,
+                previousTab: keyBindings?.previousTab?.slice() ?? defaults.previousTab,
+                closeTab: keyBindings?.closeTab?.slice() ?? defaults.closeTab,
+                toggleMaximise: keyBindings?.toggleMaximise?.slice() ?? defaults.toggleMaximise,
+                moveLeft: keyBindings?.moveLeft?.slice() ?? defaults.moveLeft,
+                moveRight: keyBindings?.moveRight?.slice() ?? defaults.moveRight,
+                moveUp: keyBindings?.moveUp?.slice() ?? defaults.moveUp,
+                moveDown: keyBindings?.moveDown?.slice() ?? defaults.moveDown,
             }
             return result;
         }
+
+        /** @internal */
+        export function validate(keyBindings: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): KeyBindings {
+            for (const action of ResolvedLayoutConfig.KeyBindings.actions) {
+                validator.checkStringArray(keyBindings, action, path);
+            }
+            return keyBindings as KeyBindings;
+        }
     }
 
     export interface Dimensions {
@@ -942,6 +1794,20 @@ export namespace LayoutConfig {
                 return parseSize(width, [SizeUnitEnum.Pixel]);
             }
         }
+
+        /** @internal */
+        export function validate(dimensions: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): Dimensions {
+            validator.checkNumber(dimensions, 'borderWidth', path);
+            validator.checkNumber(dimensions, 'borderGrabWidth', path);
+            validator.checkNumber(dimensions, 'minItemHeight', path);
+            validator.checkSize(dimensions, 'defaultMinItemHeight', path, [SizeUnitEnum.Pixel]);
+            validator.checkNumber(dimensions, 'minItemWidth', path);
+            validator.checkSize(dimensions, 'defaultMinItemWidth', path, [SizeUnitEnum.Pixel]);
+            validator.checkNumber(dimensions, 'headerHeight', path);
+            validator.checkNumber(dimensions, 'dragProxyWidth', path);
+            validator.checkNumber(dimensions, 'dragProxyHeight', path);
+            return dimensions as Dimensions;
+        }
     }
 
     export interface Labels {
@@ -976,6 +1842,19 @@ export namespace LayoutConfig {
         tabDropdown?: string;
     }
 
+    export namespace Labels {
+        /** @internal */
+        export function validate(labels: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): Labels {
+            validator.checkString(labels, 'close', path);
+            validator.checkString(labels, 'maximise', path);
+            validator.checkString(labels, 'minimise', path);
+            validator.checkString(labels, 'popin', path);
+            validator.checkString(labels, 'popout', path);
+            validator.checkString(labels, 'tabDropdown', path);
+            return labels as Labels;
+        }
+    }
+
     export interface Header {
         /**
          * Specifies whether header should be displayed, and if so, on which side.
@@ -993,6 +1872,29 @@ export namespace LayoutConfig {
          * Default: 'pop in'
          */
         popin?: string;
+        /**
+         * The tooltip text that appears when hovering over the float icon or false if float button not displayed.
+         * The float button moves a stack into a floating (in-page) window.
+         * Default: false
+         */
+        float?: false | string;
+        /**
+         * The tooltip text that appears when hovering over the auto-hide icon or false if auto-hide button not displayed.
+         * The auto-hide button collapses a stack to a tab on the nearest edge of the layout.
+         * Default: false
+         */
+        autoHide?: false | string;
+        /**
+         * The tooltip text that appears when hovering over the collapse icon or false if collapse button not displayed.
+         * The collapse button shrinks a stack to its header so that the other items in its row or column take its space.
+         * Default: false
+         */
+        collapse?: false | string;
+        /**
+         * The tooltip text that appears when hovering over the collapse icon of a collapsed stack.
+         * Default: 'expand'
+         */
+        expand?: string;
         /**
          * The tooltip text that appears when hovering over the maximise icon or false if maximised button not displayed.
          * Default: 'maximise'
@@ -1035,6 +1937,10 @@ export namespace LayoutConfig {
                 popout: header?.popout ?? labels?.popout ??
                     (settings?.showPopoutIcon === false ? false : ResolvedLayoutConfig.Header.defaults.popout),
                 popin: header?.popin ?? labels?.popin ?? ResolvedLayoutConfig.Header.defaults.popin,
+                float: header?.float ?? ResolvedLayoutConfig.Header.defaults.float,
+                autoHide: header?.autoHide ?? ResolvedLayoutConfig.Header.defaults.autoHide,
+                collapse: header?.collapse ?? ResolvedLayoutConfig.Header.defaults.collapse,
+                expand: header?.expand ?? ResolvedLayoutConfig.Header.defaults.expand,
                 maximise: header?.maximise ?? labels?.maximise ??
                     (settings?.showMaximiseIcon === false ? false : ResolvedLayoutConfig.Header.defaults.maximise),
                 close: header?.close ?? labels?.close ??
@@ -1044,6 +1950,187 @@ export namespace LayoutConfig {
             }
             return result;
         }
+
+        /** @internal */
+        export function validate(header: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): Header {
+            validator.checkEnum(header, 'show', path, [false, Side.top, Side.left, Side.right, Side.bottom]);
+            validator.checkFalseOrString(header, 'popout', path);
+            validator.checkString(header, 'popin', path);
+            validator.checkFalseOrString(header, 'float', path);
+            validator.checkFalseOrString(header, 'autoHide', path);
+            validator.checkFalseOrString(header, 'collapse', path);
+            validator.checkString(header, 'expand', path);
+            validator.checkFalseOrString(header, 'maximise', path);
+            validator.checkFalseOrString(header, 'close', path);
+            validator.checkString(header, 'minimise', path);
+            validator.checkFalseOrString(header, 'tabDropdown', path);
+            return header as Header;
+        }
+    }
+
+    /** A problem found by {@link (LayoutConfig:namespace).validate} */
+    export interface ValidationError {
+        /** Location of the invalid value in the config.  For example: `root.content[2].content[0]` */
+        readonly path: string;
+        readonly message: string;
+    }
+
+    export namespace ValidationError {
+        export function format(error: ValidationError): string {
+            return error.path === '' ? error.message : `${error.path}: ${error.message}`;
+        }
+    }
+
+    /**
+     * Specifies how {@link (LayoutManager:class).loadLayout} checks a LayoutConfig before it is loaded.
+     * * `none`: Not checked.  An invalid config may cause an error while the layout is being created.
+     * * `reject`: A {@link ConfigurationValidationError} is thrown if the config is invalid.
+     * * `repair`: The config is loaded after being repaired with {@link (LayoutConfig:namespace).repair}.
+     */
+    export type ValidationMode = 'none' | 'reject' | 'repair';
+
+    export namespace ValidationMode {
+        export const none = 'none';
+        export const reject = 'reject';
+        export const repair = 'repair';
+    }
+
+    export interface RepairResult {
+        /** Copy of the config with the invalid values removed */
+        readonly config: LayoutConfig;
+        /** The problems which were repaired */
+        readonly errors: ValidationError[];
+    }
+
+    /**
+     * Checks an unresolved LayoutConfig or PopoutLayoutConfig (for example, one deserialised from storage) against the
+     * structure and values described by {@link layoutConfigJsonSchema} as well as rules the schema cannot express
+     * (such as activeItemIndex being in range).
+     * @returns The problems found.  Empty if layoutConfig is valid.
+     */
+    export function validate(layoutConfig: unknown): ValidationError[] {
+        const validator = new ConfigValidator();
+        validateLayoutConfig(layoutConfig, '', validator);
+        return validator.errors;
+    }
+
+    /**
+     * Creates a copy of an unresolved LayoutConfig with its problems removed.  Invalid properties are left out (so
+     * their defaults are used) and items which cannot be created (for example, a stack's child which is not a component)
+     * are removed from their parent.  layoutConfig is not changed.
+     * @throws {@link ConfigurationValidationError} if layoutConfig is not an object
+     */
+    export function repair(layoutConfig: unknown): RepairResult {
+        const validator = new ConfigValidator();
+        const config = validateLayoutConfig(layoutConfig, '', validator);
+        if (config === undefined) {
+            throw createValidationError(validator.errors);
+        } else {
+            return { config, errors: validator.errors };
+        }
+    }
+
+    /** @internal */
+    export function createValidationError(errors: readonly ValidationError[]): ConfigurationValidationError {
+        const formattedErrors = errors.map((error) => ValidationError.format(error));
+        return new ConfigurationValidationError('Invalid LayoutConfig: ' + formattedErrors.join('; '), errors);
+    }
+
+    /** @internal */
+    export function validateLayoutConfig(layoutConfig: unknown, path: string, validator: ConfigValidator): LayoutConfig | undefined {
+        const config = validator.checkObject(layoutConfig, path);
+        if (config === undefined) {
+            return undefined;
+        } else {
+            if (isPopout(config as unknown as LayoutConfig)) {
+                PopoutLayoutConfig.validateProperties(config, path, validator);
+            } else {
+                validateProperties(config, path, validator);
+            }
+            return config as unknown as LayoutConfig;
+        }
+    }
+
+    /** @internal */
+    export function validateProperties(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): void {
+        validator.checkInteger(config, 'version', path);
+        validator.checkInteger(config, 'applicationVersion', path);
+
+        const root = config.root;
+        if (root !== undefined) {
+            config.root = ItemConfig.validate(root, ConfigValidator.joinPath(path, 'root'), validator);
+        }
+
+        const content = validator.checkArray(config, 'content', path);
+        if (content !== undefined) {
+            config.content = ItemConfig.validateContent(content, ConfigValidator.joinPath(path, 'content'), validator);
+        }
+
+        const openPopouts = validator.checkArray(config, 'openPopouts', path);
+        if (openPopouts !== undefined) {
+            const openPopoutsPath = ConfigValidator.joinPath(path, 'openPopouts');
+            const validatedOpenPopouts: ConfigValidator.ConfigObject[] = [];
+            for (let i = 0; i < openPopouts.length; i++) {
+                const popoutPath = ConfigValidator.indexPath(openPopoutsPath, i);
+                const popoutConfig = validator.checkObject(openPopouts[i], popoutPath);
+                if (popoutConfig !== undefined) {
+                    PopoutLayoutConfig.validateProperties(popoutConfig, popoutPath, validator);
+                    validatedOpenPopouts.push(popoutConfig);
+                }
+            }
+            config.openPopouts = validatedOpenPopouts;
+        }
+
+        const floatingItems = validator.checkArray(config, 'floatingItems', path);
+        if (floatingItems !== undefined) {
+            const floatingItemsPath = ConfigValidator.joinPath(path, 'floatingItems');
+            const validatedFloatingItems: FloatingItemConfig[] = [];
+            for (let i = 0; i < floatingItems.length; i++) {
+                const floatingItemPath = ConfigValidator.indexPath(floatingItemsPath, i);
+                const floatingItemConfig = validator.checkObject(floatingItems[i], floatingItemPath);
+                if (floatingItemConfig !== undefined) {
+                    const validatedFloatingItemConfig = FloatingItemConfig.validate(floatingItemConfig, floatingItemPath, validator);
+                    if (validatedFloatingItemConfig !== undefined) {
+                        validatedFloatingItems.push(validatedFloatingItemConfig);
+                    }
+                }
+            }
+            config.floatingItems = validatedFloatingItems;
+        }
+
+        const edgeDockItems = validator.checkArray(config, 'edgeDockItems', path);
+        if (edgeDockItems !== undefined) {
+            const edgeDockItemsPath = ConfigValidator.joinPath(path, 'edgeDockItems');
+            const validatedEdgeDockItems: EdgeDockItemConfig[] = [];
+            for (let i = 0; i < edgeDockItems.length; i++) {
+                const edgeDockItemPath = ConfigValidator.indexPath(edgeDockItemsPath, i);
+                const edgeDockItemConfig = validator.checkObject(edgeDockItems[i], edgeDockItemPath);
+                if (edgeDockItemConfig !== undefined) {
+                    const validatedEdgeDockItemConfig = EdgeDockItemConfig.validate(edgeDockItemConfig, edgeDockItemPath, validator);
+                    if (validatedEdgeDockItemConfig !== undefined) {
+                        validatedEdgeDockItems.push(validatedEdgeDockItemConfig);
+                    }
+                }
+            }
+            config.edgeDockItems = validatedEdgeDockItems;
+        }
+
+        const dimensions = validator.checkObjectProperty(config, 'dimensions', path);
+        if (dimensions !== undefined) {
+            config.dimensions = Dimensions.validate(dimensions, ConfigValidator.joinPath(path, 'dimensions'), validator);
+        }
+        const settings = validator.checkObjectProperty(config, 'settings', path);
+        if (settings !== undefined) {
+            config.settings = Settings.validate(settings, ConfigValidator.joinPath(path, 'settings'), validator);
+        }
+        const labels = validator.checkObjectProperty(config, 'labels', path);
+        if (labels !== undefined) {
+            config.labels = Labels.validate(labels, ConfigValidator.joinPath(path, 'labels'), validator);
+        }
+        const header = validator.checkObjectProperty(config, 'header', path);
+        if (header !== undefined) {
+            config.header = Header.validate(header, ConfigValidator.joinPath(path, 'header'), validator);
+        }
     }
 
     export function isPopout(config: LayoutConfig): config is PopoutLayoutConfig {
@@ -1067,8 +2154,12 @@ export namespace LayoutConfig {
             }
             const config: ResolvedLayoutConfig = {
                 resolved: true,
+                version: ResolvedLayoutConfig.currentVersion,
+                applicationVersion: layoutConfig.applicationVersion,
                 root: RootItemConfig.resolve(root),
                 openPopouts: LayoutConfig.resolveOpenPopouts(layoutConfig.openPopouts),
+                floatingItems: FloatingItemConfig.resolveArray(layoutConfig.floatingItems),
+                edgeDockItems: EdgeDockItemConfig.resolveArray(layoutConfig.edgeDockItems),
                 dimensions: LayoutConfig.Dimensions.resolve(layoutConfig.dimensions),
                 settings: LayoutConfig.Settings.resolve(layoutConfig.settings),
                 header: LayoutConfig.Header.resolve(layoutConfig.header, layoutConfig.settings, layoutConfig.labels),
@@ -1079,8 +2170,12 @@ export namespace LayoutConfig {
 
     export function fromResolved(config: ResolvedLayoutConfig): LayoutConfig {
         const result: LayoutConfig = {
+            version: config.version,
+            applicationVersion: config.applicationVersion,
             root: RootItemConfig.fromResolvedOrUndefined(config.root),
             openPopouts: PopoutLayoutConfig.fromResolvedArray(config.openPopouts),
+            floatingItems: FloatingItemConfig.fromResolvedArray(config.floatingItems),
+            edgeDockItems: EdgeDockItemConfig.fromResolvedArray(config.edgeDockItems),
             settings: ResolvedLayoutConfig.Settings.createCopy(config.settings),
             dimensions: LayoutConfig.Dimensions.fromResolved(config.dimensions),
             header: ResolvedLayoutConfig.Header.createCopy(config.header),
@@ -1183,6 +2278,37 @@ export namespace PopoutLayoutConfig {
         }
     }
 
+    /** @internal */
+    export function validateProperties(config: ConfigValidator.ConfigObject, path: string, validator: ConfigValidator): void {
+        LayoutConfig.validateProperties(config, path, validator);
+
+        const parentId = config.parentId;
+        if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+            validator.invalidateProperty(config, 'parentId', path, 'must be a string or null');
+        }
+        validator.checkInteger(config, 'indexInParent', path, true);
+
+        // window information in dimensions is only supported for legacy configs
+        const dimensions = config.dimensions as ConfigValidator.ConfigObject | undefined;
+        if (dimensions !== undefined) {
+            const dimensionsPath = ConfigValidator.joinPath(path, 'dimensions');
+            validator.checkNumber(dimensions, 'width', dimensionsPath, true);
+            validator.checkNumber(dimensions, 'height', dimensionsPath, true);
+            validator.checkNumber(dimensions, 'left', dimensionsPath, true);
+            validator.checkNumber(dimensions, 'top', dimensionsPath, true);
+        }
+
+        const window = validator.checkObjectProperty(config, 'window', path);
+        if (window !== undefined) {
+            const windowPath = ConfigValidator.joinPath(path, 'window');
+            validator.checkNumber(window, 'width', windowPath);
+            validator.checkNumber(window, 'height', windowPath);
+            validator.checkNumber(window, 'left', windowPath);
+            validator.checkNumber(window, 'top', windowPath);
+            config.window = window;
+        }
+    }
+
     /** @internal */
     export function resolve(popoutConfig: PopoutLayoutConfig): ResolvedPopoutLayoutConfig {
         let root: RootItemConfig | undefined;
@@ -1197,8 +2323,12 @@ export namespace PopoutLayoutConfig {
         }
 
         const config: ResolvedPopoutLayoutConfig = {
+            version: ResolvedLayoutConfig.currentVersion,
+            applicationVersion: popoutConfig.applicationVersion,
             root: RootItemConfig.resolve(root),
             openPopouts: LayoutConfig.resolveOpenPopouts(popoutConfig.openPopouts),
+            floatingItems: FloatingItemConfig.resolveArray(popoutConfig.floatingItems),
+            edgeDockItems: EdgeDockItemConfig.resolveArray(popoutConfig.edgeDockItems),
             dimensions: LayoutConfig.Dimensions.resolve(popoutConfig.dimensions),
             settings: LayoutConfig.Settings.resolve(popoutConfig.settings),
             header: LayoutConfig.Header.resolve(popoutConfig.header, popoutConfig.settings, popoutConfig.labels),
@@ -1213,8 +2343,12 @@ export namespace PopoutLayoutConfig {
     /** @internal */
     export function fromResolved(resolvedConfig: ResolvedPopoutLayoutConfig): PopoutLayoutConfig {
         const result: PopoutLayoutConfig = {
+            version: resolvedConfig.version,
+            applicationVersion: resolvedConfig.applicationVersion,
             root: RootItemConfig.fromResolvedOrUndefined(resolvedConfig.root),
             openPopouts: fromResolvedArray(resolvedConfig.openPopouts),
+            floatingItems: FloatingItemConfig.fromResolvedArray(resolvedConfig.floatingItems),
+            edgeDockItems: EdgeDockItemConfig.fromResolvedArray(resolvedConfig.edgeDockItems),
             dimensions: LayoutConfig.Dimensions.fromResolved(resolvedConfig.dimensions),
             settings: ResolvedLayoutConfig.Settings.createCopy(resolvedConfig.settings),
             header: ResolvedLayoutConfig.Header.createCopy(resolvedConfig.header),
@@ -0,0 +1,373 @@
+import { ApiError, ConfigurationError } from '../errors/external-error';
+import { ItemType, SizeUnitEnum } from '../utils/types';
+import {
+    ComponentItemConfig,
+    EdgeDockItemConfig,
+    FloatingItemConfig,
+    formatSize,
+    HeaderedItemConfig,
+    ItemConfig,
+    LayoutConfig,
+    PopoutLayoutConfig,
+    RootItemConfig,
+    RowOrColumnItemConfig,
+    StackItemConfig
+} from './config';
+import { ResolvedLayoutConfig } from './resolved-config';
+
+/**
+ * A step which upgrades a LayoutConfig from one version to a later version
+ * @public
+ */
+export interface LayoutConfigMigration {
+    /** Identifies the migration in {@link (LayoutConfigMigrationRegistry:namespace).Result.migrationNames} */
+    readonly name: string;
+    /** The version of configs this migration upgrades */
+    readonly fromVersion: number;
+    /** The version of configs after this migration has run.  Must be greater than fromVersion */
+    readonly toVersion: number;
+    /** Returns the upgraded config.  Should not change the config passed to it. */
+    readonly migrate: (this: void, layoutConfig: LayoutConfig) => LayoutConfig;
+}
+
+/**
+ * Upgrades LayoutConfigs step by step.  First the built-in migrations upgrade the config to
+ * {@link (ResolvedLayoutConfig:namespace).currentVersion} of the LayoutConfig format (converting legacy fields).  Then the
+ * migrations registered by the application upgrade its {@link (LayoutConfig:interface).applicationVersion} to the latest
+ * registered version.
+ * @public
+ */
+export class LayoutConfigMigrationRegistry {
+    /** @internal */
+    private _applicationMigrations: LayoutConfigMigration[] = [];
+
+    get applicationMigrations(): readonly LayoutConfigMigration[] { return this._applicationMigrations; }
+
+    /** The latest application version which configs are upgraded to.  Undefined if no migrations are registered */
+    get latestApplicationVersion(): number | undefined {
+        let result: number | undefined;
+        for (const migration of this._applicationMigrations) {
+            if (result === undefined || migration.toVersion > result) {
+                result = migration.toVersion;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Registers an application migration.  Only one migration can upgrade from each version.
+     */
+    register(migration: LayoutConfigMigration): void {
+        if (migration.toVersion <= migration.fromVersion) {
+            throw new ApiError(`Migration toVersion must be greater than fromVersion: ${migration.name}`);
+        } else {
+            if (this._applicationMigrations.some((registered) => registered.name === migration.name)) {
+                throw new ApiError(`Migration is already registered: ${migration.name}`);
+            } else {
+                if (this._applicationMigrations.some((registered) => registered.fromVersion === migration.fromVersion)) {
+                    throw new ApiError(`A migration from version ${migration.fromVersion} is already registered: ${migration.name}`);
+                } else {
+                    this._applicationMigrations.push(migration);
+                }
+            }
+        }
+    }
+
+    /**
+     * Upgrades layoutConfig with the built-in migrations and then with the registered application migrations.
+     * layoutConfig is not changed.
+     * @throws {@link ConfigurationError} if layoutConfig has a version later than is supported or there is no
+     * migration from one of the versions it needs to be upgraded through.
+     */
+    migrate(layoutConfig: LayoutConfig): LayoutConfigMigrationRegistry.Result {
+        const migrationNames: string[] = [];
+
+        let config = LayoutConfigMigrationRegistry.runMigrations(layoutConfig,
+            LayoutConfigMigrationRegistry.builtInMigrations,
+            layoutConfig.version ?? ResolvedLayoutConfig.legacyVersion,
+            ResolvedLayoutConfig.currentVersion,
+            (migratedConfig, version) => ({ ...migratedConfig, version }),
+            migrationNames,
+        );
+
+        const latestApplicationVersion = this.latestApplicationVersion;
+        if (latestApplicationVersion !== undefined) {
+            config = LayoutConfigMigrationRegistry.runMigrations(config,
+                this._applicationMigrations,
+                config.applicationVersion ?? 0,
+                latestApplicationVersion,
+                (migratedConfig, applicationVersion) => ({ ...migratedConfig, applicationVersion }),
+                migrationNames,
+            );
+        }
+
+        return { config, migrationNames };
+    }
+}
+
+/** @public */
+export namespace LayoutConfigMigrationRegistry {
+    export interface Result {
+        readonly config: LayoutConfig;
+        /** Names of the migrations which ran, in the order they ran.  Empty if config was already up to date */
+        readonly migrationNames: string[];
+    }
+
+    /**
+     * Returns a copy of layoutConfig with callback applied to each ComponentItemConfig (including those in open popouts,
+     * floating items and edge dock items).
+     * Useful in migrations which rename component types or change the format of component state.
+     */
+    export function mapComponentItemConfigs(layoutConfig: LayoutConfig,
+        callback: (this: void, itemConfig: ComponentItemConfig) => ComponentItemConfig
+    ): LayoutConfig {
+        const mapItemConfig = (itemConfig: ItemConfig): ItemConfig => {
+            if (ItemConfig.isComponent(itemConfig)) {
+                return callback(itemConfig);
+            } else {
+                if (itemConfig.content === undefined) {
+                    return itemConfig;
+                } else {
+                    return { ...itemConfig, content: itemConfig.content.map(mapItemConfig) };
+                }
+            }
+        }
+
+        const result: LayoutConfig = { ...layoutConfig };
+        if (layoutConfig.root !== undefined) {
+            result.root = mapItemConfig(layoutConfig.root) as RootItemConfig;
+        }
+        if (layoutConfig.content !== undefined) {
+            result.content = layoutConfig.content.map((itemConfig) => mapItemConfig(itemConfig) as RootItemConfig);
+        }
+        if (layoutConfig.floatingItems !== undefined) {
+            result.floatingItems = layoutConfig.floatingItems.map((itemConfig) => mapItemConfig(itemConfig) as FloatingItemConfig);
+        }
+        if (layoutConfig.edgeDockItems !== undefined) {
+            result.edgeDockItems = layoutConfig.edgeDockItems.map((itemConfig) => mapItemConfig(itemConfig) as EdgeDockItemConfig);
+        }
+        if (layoutConfig.openPopouts !== undefined) {
+            result.openPopouts = layoutConfig.openPopouts.map(
+                (popoutConfig) => mapComponentItemConfigs(popoutConfig, callback) as PopoutLayoutConfig
+            );
+        }
+        return result;
+    }
+
+    /** @internal */
+    export function runMigrations(
+        layoutConfig: LayoutConfig,
+        migrations: readonly LayoutConfigMigration[],
+        version: number,
+        targetVersion: number,
+        setVersion: (this: void, layoutConfig: LayoutConfig, version: number) => LayoutConfig,
+        migrationNames: string[],
+    ): LayoutConfig {
+        if (version > targetVersion) {
+            throw new ConfigurationError(`LayoutConfig version ${version} is later than latest supported version ${targetVersion}`);
+        } else {
+            let config = layoutConfig;
+            while (version < targetVersion) {
+                const migration = migrations.find((candidate) => candidate.fromVersion === version);
+                if (migration === undefined) {
+                    throw new ConfigurationError(`No LayoutConfig migration from version ${version}`);
+                } else {
+                    version = migration.toVersion;
+                    // make sure the version is updated even if the migration did not do it
+                    config = setVersion(migration.migrate(config), version);
+                    migrationNames.push(migration.name);
+                }
+            }
+            return config;
+        }
+    }
+
+    /**
+     * Converts the legacy fields which LayoutConfig.resolve() still accepts to their current equivalents
+     * @internal
+     */
+    export namespace LegacyFieldsMigration {
+        export function migrate(layoutConfig: LayoutConfig): LayoutConfig {
+            const config: LayoutConfig = { ...layoutConfig };
+
+            if (config.root === undefined && config.content !== undefined && config.content.length > 0) {
+                config.root = config.content[0];
+            }
+            delete config.content;
+            if (config.root !== undefined) {
+                config.root = migrateItemConfig(config.root, false) as RootItemConfig;
+            }
+
+            const settings = config.settings === undefined ? undefined : { ...config.settings };
+            const header = { ...config.header };
+            const labels = config.labels;
+            if (header.show === undefined && settings?.hasHeaders !== undefined) {
+                header.show = settings.hasHeaders ? ResolvedLayoutConfig.Header.defaults.show : false;
+            }
+            header.popout = header.popout ?? labels?.popout ?? (settings?.showPopoutIcon === false ? false : undefined);
+            header.popin = header.popin ?? labels?.popin;
+            header.maximise = header.maximise ?? labels?.maximise ?? (settings?.showMaximiseIcon === false ? false : undefined);
+            header.close = header.close ?? labels?.close ?? (settings?.showCloseIcon === false ? false : undefined);
+            header.minimise = header.minimise ?? labels?.minimise;
+            header.tabDropdown = header.tabDropdown ?? labels?.tabDropdown;
+            if (settings !== undefined) {
+                delete settings.hasHeaders;
+                delete settings.showPopoutIcon;
+                delete settings.showMaximiseIcon;
+                delete settings.showCloseIcon;
+                config.settings = settings;
+            }
+            config.header = header;
+            delete config.labels;
+
+            if (config.openPopouts !== undefined) {
+                config.openPopouts = config.openPopouts.map((popoutConfig) => migratePopoutLayoutConfig(popoutConfig));
+            }
+
+            return config;
+        }
+
+        function migratePopoutLayoutConfig(popoutConfig: PopoutLayoutConfig): PopoutLayoutConfig {
+            const config = migrate(popoutConfig) as PopoutLayoutConfig;
+            const dimensions = config.dimensions;
+            if (dimensions !== undefined) {
+                const migratedDimensions = { ...dimensions };
+                // Window position and size were previously kept in dimensions
+                if (config.window === undefined) {
+                    config.window = {
+                        width: dimensions.width ?? undefined,
+                        height: dimensions.height ?? undefined,
+                        left: dimensions.left ?? undefined,
+                        top: dimensions.top ?? undefined,
+                    };
+                }
+                delete migratedDimensions.width;
+                delete migratedDimensions.height;
+                delete migratedDimensions.left;
+                delete migratedDimensions.top;
+                config.dimensions = migratedDimensions;
+            }
+            config.version = ResolvedLayoutConfig.currentVersion;
+            return config;
+        }
+
+        /**
+         * @param legacySizeDefault - Whether a size of 50% is used if neither size, width or height is specified.
+         * Mirrors rowAndColumnChildLegacySizeDefault in ItemConfig.resolve().
+         */
+        function migrateItemConfig(itemConfig: ItemConfig, legacySizeDefault: boolean): ItemConfig {
+            const config: ItemConfig = { ...itemConfig };
+
+            if (config.size === undefined) {
+                const width = config.width ?? config.height;
+                if (width !== undefined) {
+                    config.size = formatSize(width, SizeUnitEnum.Percent);
+                } else {
+                    if (legacySizeDefault) {
+                        config.size = formatSize(50, SizeUnitEnum.Percent);
+                    }
+                }
+            }
+            delete config.width;
+            delete config.height;
+
+            if (config.minSize === undefined) {
+                const minWidth = config.minWidth ?? config.minHeight;
+                if (minWidth !== undefined) {
+                    config.minSize = formatSize(minWidth, SizeUnitEnum.Pixel);
+                }
+            }
+            delete config.minWidth;
+            delete config.minHeight;
+
+            switch (config.type) {
+                case ItemType.row:
+                case ItemType.column: {
+                    const rowOrColumnConfig = config as RowOrColumnItemConfig;
+                    migrateLegacyId(rowOrColumnConfig);
+                    const content = rowOrColumnConfig.content;
+                    if (content !== undefined) {
+                        const childLegacySizeDefault = calculateChildLegacySizeDefault(content);
+                        rowOrColumnConfig.content = content.map(
+                            (childConfig) => migrateItemConfig(childConfig, childLegacySizeDefault) as RowOrColumnItemConfig.ChildItemConfig
+                        );
+                    }
+                    break;
+                }
+                case ItemType.stack: {
+                    const stackConfig = config as StackItemConfig;
+                    migrateHeaderedItemConfig(stackConfig);
+                    if (stackConfig.content !== undefined) {
+                        stackConfig.content = stackConfig.content.map(
+                            (childConfig) => migrateItemConfig(childConfig, false) as ComponentItemConfig
+                        );
+                    }
+                    break;
+                }
+                case ItemType.component: {
+                    const componentConfig = config as ComponentItemConfig;
+                    migrateHeaderedItemConfig(componentConfig);
+                    if (componentConfig.componentType === undefined && componentConfig.componentName !== undefined) {
+                        componentConfig.componentType = componentConfig.componentName;
+                    }
+                    delete componentConfig.componentName;
+                    break;
+                }
+            }
+
+            return config;
+        }
+
+        function migrateHeaderedItemConfig(config: HeaderedItemConfig) {
+            const legacyId: string | string[] | undefined = config.id;
+            if (Array.isArray(legacyId)) {
+                const ids = legacyId.filter((id) => id !== HeaderedItemConfig.legacyMaximisedId);
+                if (config.maximised === undefined && ids.length < legacyId.length) {
+                    config.maximised = true;
+                }
+                config.id = ids.length > 0 ? ids[0] : undefined;
+            }
+
+            if (config.hasHeaders !== undefined) {
+                const header = { ...config.header };
+                if (header.show === undefined) {
+                    header.show = config.hasHeaders ? ResolvedLayoutConfig.Header.defaults.show : false;
+                }
+                config.header = header;
+                delete config.hasHeaders;
+            }
+        }
+
+        function migrateLegacyId(config: ItemConfig) {
+            const legacyId: string | string[] | undefined = config.id;
+            if (Array.isArray(legacyId)) {
+                config.id = legacyId.length > 0 ? legacyId[0] : undefined;
+            }
+        }
+
+        /** Mirrors the calculation of legacySizeDefault in RowOrColumnItemConfig.resolveContent() */
+        function calculateChildLegacySizeDefault(content: readonly ItemConfig[]): boolean {
+            let widthOrHeightSpecifiedAtLeastOnce = false;
+            for (const childConfig of content) {
+                switch (ItemConfig.calculateSizeWidthHeightSpecificationType(childConfig)) {
+                    case ItemConfig.SizeWidthHeightSpecificationType.Size:
+                        return false;
+                    case ItemConfig.SizeWidthHeightSpecificationType.WidthOrHeight:
+                        widthOrHeightSpecifiedAtLeastOnce = true;
+                        break;
+                }
+            }
+            return widthOrHeightSpecifiedAtLeastOnce;
+        }
+    }
+
+    /** Migrations which upgrade the LayoutConfig format to {@link (ResolvedLayoutConfig:namespace).currentVersion} */
+    export const builtInMigrations: readonly LayoutConfigMigration[] = [
+        {
+            name: 'goldenLayout.legacyFields',
+            fromVersion: ResolvedLayoutConfig.legacyVersion,
+            toVersion: 2,
+            migrate: (layoutConfig) => LegacyFieldsMigration.migrate(layoutConfig),
+        },
+    ];
+}
@@ -0,0 +1,362 @@
+import { JsonValue } from '../utils/types';
+
+/**
+ * JSON Schema (draft-07) describing a serialised (unresolved) {@link (LayoutConfig:interface)} or
+ * {@link (PopoutLayoutConfig:interface)}.  Can be used with any JSON Schema validator to check persisted layouts
+ * outside of Golden Layout.
+ * Some rules cannot be expressed in the schema (for example, a stack's activeItemIndex must be within range of its
+ * content).  Use {@link (LayoutConfig:namespace).validate} to also check these.
+ * @public
+ */
+export const layoutConfigJsonSchema: JsonValue = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'LayoutConfig',
+    $ref: '#/definitions/layoutConfig',
+    definitions: {
+        size: {
+            type: 'string',
+            pattern: '^\\s*[0-9]+(\\.[0-9]*)?\\s*(%|fr)\\s*$',
+        },
+        pixelSize: {
+            type: 'string',
+            pattern: '^\\s*[0-9]+(\\.[0-9]*)?\\s*px\\s*$',
+        },
+        falseOrString: {
+            oneOf: [
+                { const: false },
+                { type: 'string' },
+            ],
+        },
+        headerShow: {
+            enum: [false, 'top', 'left', 'right', 'bottom'],
+        },
+        itemProperties: {
+            type: 'object',
+            properties: {
+                size: { $ref: '#/definitions/size' },
+                minSize: { $ref: '#/definitions/pixelSize' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+                minWidth: { type: 'number' },
+                minHeight: { type: 'number' },
+                id: {
+                    oneOf: [
+                        { type: 'string' },
+                        { type: 'array', items: { type: 'string' } },
+                    ],
+                },
+                isClosable: { type: 'boolean' },
+                locked: { type: 'boolean' },
+                title: { type: 'string' },
+            },
+        },
+        headeredItemProperties: {
+            allOf: [
+                { $ref: '#/definitions/itemProperties' },
+                {
+                    type: 'object',
+                    properties: {
+                        hasHeaders: { type: 'boolean' },
+                        maximised: { type: 'boolean' },
+                        header: { $ref: '#/definitions/itemHeader' },
+                    },
+                },
+            ],
+        },
+        itemHeader: {
+            type: 'object',
+            properties: {
+                show: { $ref: '#/definitions/headerShow' },
+                popout: { $ref: '#/definitions/falseOrString' },
+                dock: { $ref: '#/definitions/falseOrString' },
+                float: { $ref: '#/definitions/falseOrString' },
+                autoHide: { $ref: '#/definitions/falseOrString' },
+                collapse: { $ref: '#/definitions/falseOrString' },
+                expand: { type: 'string' },
+                maximise: { $ref: '#/definitions/falseOrString' },
+                close: { $ref: '#/definitions/falseOrString' },
+                minimise: { type: 'string' },
+                tabDropdown: { $ref: '#/definitions/falseOrString' },
+            },
+        },
+        itemConfig: {
+            oneOf: [
+                { $ref: '#/definitions/rowOrColumnItemConfig' },
+                { $ref: '#/definitions/stackItemConfig' },
+                { $ref: '#/definitions/componentItemConfig' },
+            ],
+        },
+        rowOrColumnItemConfig: {
+            allOf: [
+                { $ref: '#/definitions/itemProperties' },
+                {
+                    type: 'object',
+                    required: ['type'],
+                    properties: {
+                        type: { enum: ['row', 'column'] },
+                        content: {
+                            type: 'array',
+                            items: { $ref: '#/definitions/itemConfig' },
+                        },
+                    },
+                },
+            ],
+        },
+        stackItemConfig: {
+            allOf: [
+                { $ref: '#/definitions/headeredItemProperties' },
+                {
+                    type: 'object',
+                    required: ['type'],
+                    properties: {
+                        type: { const: 'stack' },
+                        content: {
+                            type: 'array',
+                            items: { $ref: '#/definitions/componentItemConfig' },
+                        },
+                        activeItemIndex: { type: 'integer', minimum: 0 },
+                        collapsed: { type: 'boolean' },
+                        tabDropEnabled: { type: 'boolean' },
+                    },
+                },
+            ],
+        },
+        componentItemConfig: {
+            allOf: [
+                { $ref: '#/definitions/headeredItemProperties' },
+                {
+                    type: 'object',
+                    required: ['type'],
+                    properties: {
+                        type: { const: 'component' },
+                        content: { type: 'array', maxItems: 0 },
+                        componentName: { type: 'string' },
+                        componentType: {},
+                        componentState: {},
+                        reorderEnabled: { type: 'boolean' },
+                        pinned: { type: 'boolean' },
+                        dropConstraints: {
+                            type: 'object',
+                            properties: {
+                                stackableWith: { type: 'array' },
+                                dockEdges: {
+                                    type: 'array',
+                                    items: { enum: ['top', 'left', 'right', 'bottom'] },
+                                },
+                                popout: { type: 'boolean' },
+                            },
+                        },
+                    },
+                    anyOf: [
+                        { required: ['componentType'] },
+                        { required: ['componentName'] },
+                    ],
+                },
+            ],
+        },
+        floatingItemConfig: {
+            allOf: [
+                { $ref: '#/definitions/itemProperties' },
+                {
+                    type: 'object',
+                    required: ['type', 'content'],
+                    properties: {
+                        type: { const: 'floating' },
+                        content: {
+                            type: 'array',
+                            minItems: 1,
+                            maxItems: 1,
+                            items: {
+                                oneOf: [
+                                    { $ref: '#/definitions/stackItemConfig' },
+                                    { $ref: '#/definitions/componentItemConfig' },
+                                ],
+                            },
+                        },
+                        bounds: {
+                            type: 'object',
+                            properties: {
+                                left: { type: 'number' },
+                                top: { type: 'number' },
+                                width: { type: 'number' },
+                                height: { type: 'number' },
+                            },
+                        },
+                    },
+                },
+            ],
+        },
+        edgeDockItemConfig: {
+            allOf: [
+                { $ref: '#/definitions/itemProperties' },
+                {
+                    type: 'object',
+                    required: ['type', 'content'],
+                    properties: {
+                        type: { const: 'edgeDock' },
+                        content: {
+                            type: 'array',
+                            minItems: 1,
+                            maxItems: 1,
+                            items: {
+                                oneOf: [
+                                    { $ref: '#/definitions/stackItemConfig' },
+                                    { $ref: '#/definitions/componentItemConfig' },
+                                ],
+                            },
+                        },
+                        side: { enum: ['top', 'left', 'right', 'bottom'] },
+                        slideOutSize: { type: 'number' },
+                    },
+                },
+            ],
+        },
+        settings: {
+            type: 'object',
+            properties: {
+                hasHeaders: { type: 'boolean' },
+                dragBetweenWindows: { type: 'boolean' },
+                dragToNewWindow: { type: 'boolean' },
+                reorderEnabled: { type: 'boolean' },
+                popoutWholeStack: { type: 'boolean' },
+                blockedPopoutsThrowError: { type: 'boolean' },
+                closePopoutsOnUnload: { type: 'boolean' },
+                showPopoutIcon: { type: 'boolean' },
+                showMaximiseIcon: { type: 'boolean' },
+                showCloseIcon: { type: 'boolean' },
+                responsiveMode: { enum: ['none', 'always', 'onload'] },
+                tabOverlapAllowance: { type: 'number' },
+                reorderOnTabMenuClick: { type: 'boolean' },
+                pinTabOnContextMenu: { type: 'boolean' },
+                tabControlOffset: { type: 'number' },
+                popInOnClose: { type: 'boolean' },
+                keyBindings: { $ref: '#/definitions/keyBindings' },
+                splitterKeyboardStep: { type: 'number' },
+                dragToFloatingItem: { type: 'boolean' },
+                popoutUrl: { type: 'string' },
+                locked: { type: 'boolean' },
+                lazyComponentBinding: { type: 'boolean' },
+            },
+        },
+        keyBinding: {
+            type: 'array',
+            items: { type: 'string' },
+        },
+        keyBindings: {
+            type: 'object',
+            properties: {
+                focusLeft: { $ref: '#/definitions/keyBinding' },
+                focusRight: { $ref: '#/definitions/keyBinding' },
+                focusUp: { $ref: '#/definitions/keyBinding' },
+                focusDown: { $ref: '#/definitions/keyBinding' },
+                nextTab: { $ref: '#/definitions/keyBinding' },
+                previousTab: { $ref: '#/definitions/keyBinding' },
+                closeTab: { $ref: '#/definitions/keyBinding' },
+                toggleMaximise: { $ref: '#/definitions/keyBinding' },
+                moveLeft: { $ref: '#/definitions/keyBinding' },
+                moveRight: { $ref: '#/definitions/keyBinding' },
+                moveUp: { $ref: '#/definitions/keyBinding' },
+                moveDown: { $ref: '#/definitions/keyBinding' },
+            },
+        },
+        dimensions: {
+            type: 'object',
+            properties: {
+                borderWidth: { type: 'number' },
+                borderGrabWidth: { type: 'number' },
+                minItemHeight: { type: 'number' },
+                defaultMinItemHeight: { $ref: '#/definitions/pixelSize' },
+                minItemWidth: { type: 'number' },
+                defaultMinItemWidth: { $ref: '#/definitions/pixelSize' },
+                headerHeight: { type: 'number' },
+                dragProxyWidth: { type: 'number' },
+                dragProxyHeight: { type: 'number' },
+            },
+        },
+        labels: {
+            type: 'object',
+            properties: {
+                close: { type: 'string' },
+                maximise: { type: 'string' },
+                minimise: { type: 'string' },
+                popin: { type: 'string' },
+                popout: { type: 'string' },
+                tabDropdown: { type: 'string' },
+            },
+        },
+        header: {
+            type: 'object',
+            properties: {
+                show: { $ref: '#/definitions/headerShow' },
+                popout: { $ref: '#/definitions/falseOrString' },
+                popin: { type: 'string' },
+                float: { $ref: '#/definitions/falseOrString' },
+                autoHide: { $ref: '#/definitions/falseOrString' },
+                collapse: { $ref: '#/definitions/falseOrString' },
+                expand: { type: 'string' },
+                maximise: { $ref: '#/definitions/falseOrString' },
+                close: { $ref: '#/definitions/falseOrString' },
+                minimise: { type: 'string' },
+                tabDropdown: { $ref: '#/definitions/falseOrString' },
+            },
+        },
+        layoutConfig: {
+            type: 'object',
+            properties: {
+                version: { type: 'integer', minimum: 1 },
+                applicationVersion: { type: 'integer' },
+                root: { $ref: '#/definitions/itemConfig' },
+                content: {
+                    type: 'array',
+                    items: { $ref: '#/definitions/itemConfig' },
+                },
+                openPopouts: {
+                    type: 'array',
+                    items: { $ref: '#/definitions/popoutLayoutConfig' },
+                },
+                floatingItems: {
+                    type: 'array',
+                    items: { $ref: '#/definitions/floatingItemConfig' },
+                },
+                edgeDockItems: {
+                    type: 'array',
+                    items: { $ref: '#/definitions/edgeDockItemConfig' },
+                },
+                dimensions: { $ref: '#/definitions/dimensions' },
+                settings: { $ref: '#/definitions/settings' },
+                labels: { $ref: '#/definitions/labels' },
+                header: { $ref: '#/definitions/header' },
+            },
+        },
+        popoutLayoutConfig: {
+            allOf: [
+                { $ref: '#/definitions/layoutConfig' },
+                {
+                    type: 'object',
+                    properties: {
+                        parentId: { type: ['string', 'null'] },
+                        indexInParent: { type: ['integer', 'null'] },
+                        dimensions: {
+                            type: 'object',
+                            properties: {
+                                width: { type: ['number', 'null'] },
+                                height: { type: ['number', 'null'] },
+                                left: { type: ['number', 'null'] },
+                                top: { type: ['number', 'null'] },
+                            },
+                        },
+                        window: {
+                            type: 'object',
+                            properties: {
+                                width: { type: 'number' },
+                                height: { type: 'number' },
+                                left: { type: 'number' },
+                                top: { type: 'number' },
+                            },
+                        },
+                    },
+                },
+            ],
+        },
+    },
+};
@@ -0,0 +1,298 @@
+import { ItemType } from '../utils/types';
+import {
+    ResolvedComponentItemConfig,
+    ResolvedItemConfig,
+    ResolvedRootItemConfig,
+    ResolvedStackItemConfig
+} from './resolved-config';
+
+/**
+ * The structural differences between two layouts.
+ * Items are matched by id.  Items without an id are matched by position if their parents were matched.
+ * Component items are only matched if they have the same componentType.
+ * @public
+ */
+export interface LayoutDiff {
+    /** Items in the new layout which have no match in the old layout */
+    readonly inserted: readonly LayoutDiff.Change[];
+    /** Items in the old layout which have no match in the new layout */
+    readonly removed: readonly LayoutDiff.Change[];
+    /** Matched items which have a different parent or a different order relative to their siblings */
+    readonly moved: readonly LayoutDiff.Change[];
+    /** Matched items whose size or minimum size has changed */
+    readonly resized: readonly LayoutDiff.Change[];
+}
+
+/** @public */
+export namespace LayoutDiff {
+    export interface Change {
+        readonly id: string;
+        readonly type: ItemType;
+        /** Indices of the item and its ancestors from the root item.  The root item's path is empty. Undefined if inserted */
+        readonly oldPath: readonly number[] | undefined;
+        /** Indices of the item and its ancestors from the root item.  The root item's path is empty. Undefined if removed */
+        readonly newPath: readonly number[] | undefined;
+        readonly oldConfig: ResolvedItemConfig | undefined;
+        readonly newConfig: ResolvedItemConfig | undefined;
+    }
+
+    /** @internal */
+    export interface OldItem {
+        readonly config: ResolvedItemConfig;
+        readonly path: number[];
+        readonly parent: OldItem | undefined;
+    }
+
+    /** @internal */
+    export interface Calculation<T extends ResolvedItemConfig = ResolvedRootItemConfig> {
+        readonly diff: LayoutDiff;
+        /** The new root with components not in a Stack wrapped in one (as is done when a layout is loaded) */
+        readonly newRoot: T | undefined;
+        /** Matched old item for each item config in newRoot */
+        readonly matches: Map<ResolvedItemConfig, OldItem>;
+    }
+
+    export function create(oldRoot: ResolvedRootItemConfig | undefined, newRoot: ResolvedRootItemConfig | undefined): LayoutDiff {
+        return calculate(oldRoot, newRoot).diff;
+    }
+
+    export function isEmpty(diff: LayoutDiff): boolean {
+        return diff.inserted.length === 0 && diff.removed.length === 0 && diff.moved.length === 0 && diff.resized.length === 0;
+    }
+
+    /**
+     * Matches the items of two item trees.  Usually the trees are layout roots but they can also be the trees of other
+     * items such as FloatingItems
+     * @internal
+     */
+    export function calculate<T extends ResolvedItemConfig>(oldRoot: ResolvedItemConfig | undefined, newRoot: T | undefined): Calculation<T> {
+        const oldItems: OldItem[] = [];
+        if (oldRoot !== undefined) {
+            addOldItems(oldItems, oldRoot, [], undefined);
+        }
+
+        if (newRoot !== undefined) {
+            if (ResolvedItemConfig.isComponentItem(newRoot)) {
+                newRoot = wrapComponentInStack(newRoot) as ResolvedItemConfig as T;
+            } else {
+                newRoot = wrapComponentsInStacks(newRoot) as T;
+            }
+        }
+
+        const matches = new Map<ResolvedItemConfig, OldItem>();
+        const matchedOldItems = new Set<OldItem>();
+
+        // Match by id first so that an item without id cannot claim the position of an item which moved elsewhere
+        if (newRoot !== undefined) {
+            const oldItemsById = new Map<string, OldItem>();
+            for (const oldItem of oldItems) {
+                const key = createIdKey(oldItem.config);
+                if (key !== undefined && !oldItemsById.has(key)) {
+                    oldItemsById.set(key, oldItem);
+                }
+            }
+            matchById(matches, matchedOldItems, oldItemsById, newRoot);
+
+            const oldItemsByConfig = new Map<ResolvedItemConfig, OldItem>();
+            for (const oldItem of oldItems) {
+                oldItemsByConfig.set(oldItem.config, oldItem);
+            }
+            const oldRootItem = oldItems.length > 0 ? oldItems[0] : undefined;
+            matchByPosition(matches, matchedOldItems, oldItemsByConfig, newRoot, oldRootItem);
+        }
+
+        const inserted: Change[] = [];
+        const moved: Change[] = [];
+        const resized: Change[] = [];
+        if (newRoot !== undefined) {
+            compareNewItem(matches, newRoot, [], undefined, inserted, moved, resized);
+        }
+
+        const removed: Change[] = [];
+        for (const oldItem of oldItems) {
+            if (!matchedOldItems.has(oldItem)) {
+                removed.push(createChange(oldItem, undefined, undefined));
+            }
+        }
+
+        return {
+            diff: { inserted, removed, moved, resized },
+            newRoot,
+            matches,
+        };
+    }
+
+    /** @internal */
+    function addOldItems(oldItems: OldItem[], config: ResolvedItemConfig, path: number[], parent: OldItem | undefined) {
+        const oldItem: OldItem = { config, path, parent };
+        oldItems.push(oldItem);
+        const content = config.content;
+        for (let i = 0; i < content.length; i++) {
+            addOldItems(oldItems, content[i], [...path, i], oldItem);
+        }
+    }
+
+    /**
+     * Mirrors LayoutManager.createContentItem() which places each component not already in a Stack into a new Stack
+     * @internal
+     */
+    function wrapComponentsInStacks(config: ResolvedItemConfig): ResolvedItemConfig {
+        if (ResolvedItemConfig.isStackItem(config) || ResolvedItemConfig.isComponentItem(config)) {
+            return config;
+        } else {
+            const content = config.content.map((childConfig) => {
+                if (ResolvedItemConfig.isComponentItem(childConfig)) {
+                    return wrapComponentInStack(childConfig);
+                } else {
+                    return wrapComponentsInStacks(childConfig);
+                }
+            });
+            return ResolvedItemConfig.createCopy(config, content);
+        }
+    }
+
+    /** @internal */
+    function wrapComponentInStack(config: ResolvedComponentItemConfig): ResolvedStackItemConfig {
+        return {
+            type: ItemType.stack,
+            content: [config],
+            size: config.size,
+            sizeUnit: config.sizeUnit,
+            minSize: config.minSize,
+            minSizeUnit: config.minSizeUnit,
+            id: config.id,
+            maximised: config.maximised,
+            isClosable: config.isClosable,
+            locked: ResolvedItemConfig.defaults.locked,
+            activeItemIndex: 0,
+            collapsed: ResolvedStackItemConfig.defaultCollapsed,
+            tabDropEnabled: ResolvedStackItemConfig.defaultTabDropEnabled,
+            header: undefined,
+        };
+    }
+
+    /** @internal */
+    function createIdKey(config: ResolvedItemConfig): string | undefined {
+        if (config.id === '') {
+            return undefined;
+        } else {
+            // A Stack created to hold a component is given the component's id so key on type as well
+            return config.type + ':' + config.id;
+        }
+    }
+
+    /** @internal */
+    function isCompatible(oldConfig: ResolvedItemConfig, newConfig: ResolvedItemConfig) {
+        if (oldConfig.type !== newConfig.type) {
+            return false;
+        } else {
+            if (ResolvedItemConfig.isComponentItem(oldConfig) && ResolvedItemConfig.isComponentItem(newConfig)) {
+                return JSON.stringify(oldConfig.componentType) === JSON.stringify(newConfig.componentType);
+            } else {
+                return true;
+            }
+        }
+    }
+
+    /** @internal */
+    function matchById(matches: Map<ResolvedItemConfig, OldItem>, matchedOldItems: Set<OldItem>,
+        oldItemsById: Map<string, OldItem>, config: ResolvedItemConfig
+    ) {
+        const key = createIdKey(config);
+        if (key !== undefined) {
+            const oldItem = oldItemsById.get(key);
+            if (oldItem !== undefined && !matchedOldItems.has(oldItem) && isCompatible(oldItem.config, config)) {
+                matches.set(config, oldItem);
+                matchedOldItems.add(oldItem);
+            }
+        }
+
+        for (const childConfig of config.content) {
+            matchById(matches, matchedOldItems, oldItemsById, childConfig);
+        }
+    }
+
+    /** @internal */
+    function matchByPosition(matches: Map<ResolvedItemConfig, OldItem>, matchedOldItems: Set<OldItem>,
+        oldItemsByConfig: Map<ResolvedItemConfig, OldItem>, config: ResolvedItemConfig, candidate: OldItem | undefined
+    ) {
+        if (config.id === '' && candidate !== undefined && candidate.config.id === '' &&
+            !matchedOldItems.has(candidate) && isCompatible(candidate.config, config)
+        ) {
+            matches.set(config, candidate);
+            matchedOldItems.add(candidate);
+        }
+
+        const match = matches.get(config);
+        const content = config.content;
+        for (let i = 0; i < content.length; i++) {
+            let childCandidate: OldItem | undefined;
+            if (match !== undefined && i < match.config.content.length) {
+                childCandidate = oldItemsByConfig.get(match.config.content[i]);
+            }
+            matchByPosition(matches, matchedOldItems, oldItemsByConfig, content[i], childCandidate);
+        }
+    }
+
+    /** @internal */
+    function compareNewItem(matches: Map<ResolvedItemConfig, OldItem>, config: ResolvedItemConfig, path: number[],
+        parentMatch: OldItem | undefined, inserted: Change[], moved: Change[], resized: Change[]
+    ) {
+        const match = matches.get(config);
+        if (match === undefined) {
+            inserted.push(createChange(undefined, config, path));
+        } else {
+            const oldConfig = match.config;
+            const rootChanged = (path.length === 0) !== (match.path.length === 0);
+            if (rootChanged || match.parent !== parentMatch) {
+                moved.push(createChange(match, config, path));
+            }
+            if (oldConfig.size !== config.size || oldConfig.sizeUnit !== config.sizeUnit ||
+                oldConfig.minSize !== config.minSize || oldConfig.minSizeUnit !== config.minSizeUnit
+            ) {
+                resized.push(createChange(match, config, path));
+            }
+
+            // Children which stayed in this item are moved if their order relative to each other has changed
+            const content = config.content;
+            const stayingChildren: ResolvedItemConfig[] = [];
+            for (const childConfig of content) {
+                if (matches.get(childConfig)?.parent === match) {
+                    stayingChildren.push(childConfig);
+                }
+            }
+            const oldOrder = stayingChildren.slice().sort((left, right) => oldIndex(matches, left) - oldIndex(matches, right));
+            for (let i = 0; i < stayingChildren.length; i++) {
+                const childConfig = stayingChildren[i];
+                if (oldOrder[i] !== childConfig) {
+                    const childMatch = matches.get(childConfig) as OldItem;
+                    moved.push(createChange(childMatch, childConfig, [...path, content.indexOf(childConfig)]));
+                }
+            }
+        }
+
+        const content = config.content;
+        for (let i = 0; i < content.length; i++) {
+            compareNewItem(matches, content[i], [...path, i], match, inserted, moved, resized);
+        }
+    }
+
+    /** @internal */
+    function oldIndex(matches: Map<ResolvedItemConfig, OldItem>, config: ResolvedItemConfig) {
+        const path = (matches.get(config) as OldItem).path;
+        return path[path.length - 1];
+    }
+
+    /** @internal */
+    function createChange(oldItem: OldItem | undefined, newConfig: ResolvedItemConfig | undefined, newPath: number[] | undefined): Change {
+        const config = newConfig ?? (oldItem as OldItem).config;
+        return {
+            id: config.id,
+            type: config.type,
+            oldPath: oldItem?.path,
+            newPath,
+            oldConfig: oldItem?.config,
+            newConfig,
+        };
+    }
+}
@@ -15,6 +15,7 @@ export interface ResolvedItemConfig {
     // id no longer specifies whether an Item is maximised.  This is now done by HeaderItemConfig.maximised
     readonly id: string;
     readonly isClosable: boolean;
+    readonly locked: boolean;
 }
 
 /** @public */
@@ -28,6 +29,7 @@ export namespace ResolvedItemConfig {
         minSizeUnit: SizeUnitEnum.Pixel,
         id: '',
         isClosable: true,
+        locked: false,
     } as const;
 
     /** Creates a copy of the original ResolvedItemConfig using an alternative content if specified */
@@ -45,6 +47,14 @@ export namespace ResolvedItemConfig {
             case ItemType.component:
                 return ResolvedComponentItemConfig.createCopy(original as ResolvedComponentItemConfig);
 
+            case ItemType.floating:
+                return ResolvedFloatingItemConfig.createCopy(original as ResolvedFloatingItemConfig,
+                    content as ResolvedFloatingItemConfig.ChildItemConfig[]);
+
+            case ItemType.edgeDock:
+                return ResolvedEdgeDockItemConfig.createCopy(original as ResolvedEdgeDockItemConfig,
+                    content as ResolvedEdgeDockItemConfig.ChildItemConfig[]);
+
             default:
                 throw new UnreachableCaseError('CICC91354', original.type, 'Invalid Config Item type specified');
         }
@@ -64,6 +74,12 @@ export namespace ResolvedItemConfig {
             case ItemType.component:
                 return ResolvedComponentItemConfig.createDefault();
 
+            case ItemType.floating:
+                return ResolvedFloatingItemConfig.createDefault();
+
+            case ItemType.edgeDock:
+                return ResolvedEdgeDockItemConfig.createDefault();
+
             default:
                 throw new UnreachableCaseError('CICCDD91563', type, 'Invalid Config Item type specified');
         }
@@ -77,6 +93,14 @@ export namespace ResolvedItemConfig {
         return itemConfig.type === ItemType.stack;
     }
 
+    export function isFloatingItem(itemConfig: ResolvedItemConfig): itemConfig is ResolvedFloatingItemConfig {
+        return itemConfig.type === ItemType.floating;
+    }
+
+    export function isEdgeDockItem(itemConfig: ResolvedItemConfig): itemConfig is ResolvedEdgeDockItemConfig {
+        return itemConfig.type === ItemType.edgeDock;
+    }
+
     /** @internal */
     export function isGroundItem(itemConfig: ResolvedItemConfig): itemConfig is ResolvedGroundItemConfig {
         return itemConfig.type === ItemType.ground;
@@ -98,6 +122,10 @@ export namespace ResolvedHeaderedItemConfig {
         // undefined means get property value from LayoutConfig
         readonly show: false | Side | undefined;
         readonly popout: false | string | undefined;
+        readonly float: false | string | undefined;
+        readonly autoHide: false | string | undefined;
+        readonly collapse: false | string | undefined;
+        readonly expand: string | undefined;
         readonly maximise: false | string | undefined;
         readonly close: false | string | undefined;
         readonly minimise: string | undefined;
@@ -112,6 +140,10 @@ export namespace ResolvedHeaderedItemConfig {
                 return {
                     show: show ?? original.show,
                     popout: original.popout,
+                    float: original.float,
+                    autoHide: original.autoHide,
+                    collapse: original.collapse,
+                    expand: original.expand,
                     close: original.close,
                     maximise: original.maximise,
                     minimise: original.minimise,
@@ -128,11 +160,17 @@ export interface ResolvedStackItemConfig extends ResolvedHeaderedItemConfig {
     readonly content: ResolvedComponentItemConfig[];
     /** The index of the active item in the Stack.  Only undefined if the Stack is empty. */
     readonly activeItemIndex: number | undefined;
+    /** Whether the Stack is collapsed to its header.  size holds the size the Stack is restored to when expanded. */
+    readonly collapsed: boolean;
+    /** Whether components can be dropped onto the Stack's header as new tabs */
+    readonly tabDropEnabled: boolean;
 }
 
 /** @public */
 export namespace ResolvedStackItemConfig {
     export const defaultActiveItemIndex = 0;
+    export const defaultCollapsed = false;
+    export const defaultTabDropEnabled = true;
 
     export function createCopy(original: ResolvedStackItemConfig, content?: ResolvedComponentItemConfig[]): ResolvedStackItemConfig {
         const result: ResolvedStackItemConfig = {
@@ -145,7 +183,10 @@ export namespace ResolvedStackItemConfig {
             id: original.id,
             maximised: original.maximised,
             isClosable: original.isClosable,
+            locked: original.locked,
             activeItemIndex: original.activeItemIndex,
+            collapsed: original.collapsed,
+            tabDropEnabled: original.tabDropEnabled,
             header: ResolvedHeaderedItemConfig.Header.createCopy(original.header),
         }
         return result;
@@ -171,7 +212,10 @@ export namespace ResolvedStackItemConfig {
             id: ResolvedItemConfig.defaults.id,
             maximised: ResolvedHeaderedItemConfig.defaultMaximised,
             isClosable: ResolvedItemConfig.defaults.isClosable,
+            locked: ResolvedItemConfig.defaults.locked,
             activeItemIndex: defaultActiveItemIndex,
+            collapsed: defaultCollapsed,
+            tabDropEnabled: defaultTabDropEnabled,
             header: undefined,
         }
         return result;
@@ -185,6 +229,9 @@ export interface ResolvedComponentItemConfig extends ResolvedHeaderedItemConfig
     readonly content: [];
     readonly title: string;
     readonly reorderEnabled: boolean; // Takes precedence over LayoutConfig.reorderEnabled.
+    readonly pinned: boolean;
+    /** undefined means the component has no drop constraints */
+    readonly dropConstraints: ResolvedComponentItemConfig.DropConstraints | undefined;
     /**
      * The name of the component as specified in layout.registerComponent. Mandatory if type is 'component'.
      */
@@ -195,6 +242,30 @@ export interface ResolvedComponentItemConfig extends ResolvedHeaderedItemConfig
 /** @public */
 export namespace ResolvedComponentItemConfig {
     export const defaultReorderEnabled = true;
+    export const defaultPinned = false;
+
+    export interface DropConstraints {
+        // see ComponentItemConfig.DropConstraints for comments
+        readonly stackableWith: readonly JsonValue[] | undefined;
+        readonly dockEdges: readonly Side[] | undefined;
+        readonly popout: boolean;
+    }
+
+    export namespace DropConstraints {
+        export const defaultPopout = true;
+
+        export function createCopy(original: DropConstraints | undefined): DropConstraints | undefined {
+            if (original === undefined) {
+                return undefined;
+            } else {
+                return {
+                    stackableWith: original.stackableWith?.map((componentType) => copyComponentType(componentType)),
+                    dockEdges: original.dockEdges?.slice(),
+                    popout: original.popout,
+                }
+            }
+        }
+    }
 
     export function resolveComponentTypeName(itemConfig: ResolvedComponentItemConfig): string | undefined {
         const componentType = itemConfig.componentType;
@@ -216,7 +287,10 @@ export namespace ResolvedComponentItemConfig {
             id: original.id,
             maximised: original.maximised,
             isClosable: original.isClosable,
+            locked: original.locked,
             reorderEnabled: original.reorderEnabled,
+            pinned: original.pinned,
+            dropConstraints: DropConstraints.createCopy(original.dropConstraints),
             title: original.title,
             header: ResolvedHeaderedItemConfig.Header.createCopy(original.header),
             componentType: original.componentType,
@@ -236,7 +310,10 @@ export namespace ResolvedComponentItemConfig {
             id: ResolvedItemConfig.defaults.id,
             maximised: ResolvedHeaderedItemConfig.defaultMaximised,
             isClosable: ResolvedItemConfig.defaults.isClosable,
+            locked: ResolvedItemConfig.defaults.locked,
             reorderEnabled: ResolvedComponentItemConfig.defaultReorderEnabled,
+            pinned: ResolvedComponentItemConfig.defaultPinned,
+            dropConstraints: undefined,
             title,
             header: undefined,
             componentType,
@@ -273,6 +350,8 @@ export namespace ResolvedRowOrColumnItemConfig {
             case ItemType.component:
                 return true;
             case ItemType.ground:
+            case ItemType.floating:
+            case ItemType.edgeDock:
                 return false;
             default:
                 throw new UnreachableCaseError('CROCOSPCICIC13687', itemConfig.type);
@@ -289,6 +368,7 @@ export namespace ResolvedRowOrColumnItemConfig {
             minSizeUnit: original.minSizeUnit,
             id: original.id,
             isClosable: original.isClosable,
+            locked: original.locked,
         }
         return result;
     }
@@ -312,6 +392,7 @@ export namespace ResolvedRowOrColumnItemConfig {
             minSizeUnit: ResolvedItemConfig.defaults.minSizeUnit,
             id: ResolvedItemConfig.defaults.id,
             isClosable: ResolvedItemConfig.defaults.isClosable,
+            locked: ResolvedItemConfig.defaults.locked,
         }
         return result;
     }
@@ -340,6 +421,8 @@ export namespace ResolvedRootItemConfig {
             case ItemType.component:
                 return true;
             case ItemType.ground:
+            case ItemType.floating:
+            case ItemType.edgeDock:
                 return false;
             default:
                 throw new UnreachableCaseError('CROCOSPCICIC13687', itemConfig.type);
@@ -347,6 +430,173 @@ export namespace ResolvedRootItemConfig {
     }
 }
 
+/**
+ * A floating (in-page) window.  Its content is a single Stack or ComponentItem.  However when the FloatingItem is
+ * created, a ComponentItem itemConfig will create a Stack with a child ComponentItem.
+ * @public
+ */
+export interface ResolvedFloatingItemConfig extends ResolvedItemConfig {
+    readonly type: 'floating';
+    readonly content: readonly ResolvedFloatingItemConfig.ChildItemConfig[];
+    readonly bounds: ResolvedFloatingItemConfig.Bounds;
+}
+
+/** @public */
+export namespace ResolvedFloatingItemConfig {
+    export type ChildItemConfig = ResolvedStackItemConfig | ResolvedComponentItemConfig;
+
+    export interface Bounds {
+        // see FloatingItemConfig.Bounds for comments
+        readonly left: number;
+        readonly top: number;
+        readonly width: number;
+        readonly height: number;
+    }
+
+    export namespace Bounds {
+        export function createCopy(original: Bounds): Bounds {
+            return {
+                left: original.left,
+                top: original.top,
+                width: original.width,
+                height: original.height,
+            }
+        }
+
+        export const defaults: ResolvedFloatingItemConfig.Bounds = {
+            left: 20,
+            top: 20,
+            width: 300,
+            height: 200,
+        } as const;
+    }
+
+    export function createCopy(original: ResolvedFloatingItemConfig, content?: ChildItemConfig[]): ResolvedFloatingItemConfig {
+        const result: ResolvedFloatingItemConfig = {
+            type: original.type,
+            content: content !== undefined ? copyContent(content) : copyContent(original.content),
+            size: original.size,
+            sizeUnit: original.sizeUnit,
+            minSize: original.minSize,
+            minSizeUnit: original.minSizeUnit,
+            id: original.id,
+            isClosable: original.isClosable,
+            locked: original.locked,
+            bounds: Bounds.createCopy(original.bounds),
+        }
+        return result;
+    }
+
+    export function copyContent(original: readonly ChildItemConfig[]): ChildItemConfig[] {
+        const count = original.length;
+        const result = new Array<ChildItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            result[i] = ResolvedItemConfig.createCopy(original[i]) as ChildItemConfig;
+        }
+        return result;
+    }
+
+    export function createDefault(): ResolvedFloatingItemConfig {
+        const result: ResolvedFloatingItemConfig = {
+            type: ItemType.floating,
+            content: [],
+            size: ResolvedItemConfig.defaults.size,
+            sizeUnit: ResolvedItemConfig.defaults.sizeUnit,
+            minSize: ResolvedItemConfig.defaults.minSize,
+            minSizeUnit: ResolvedItemConfig.defaults.minSizeUnit,
+            id: ResolvedItemConfig.defaults.id,
+            isClosable: ResolvedItemConfig.defaults.isClosable,
+            locked: ResolvedItemConfig.defaults.locked,
+            bounds: Bounds.defaults,
+        }
+        return result;
+    }
+
+    export function copyFloatingItems(original: readonly ResolvedFloatingItemConfig[]): ResolvedFloatingItemConfig[] {
+        const count = original.length;
+        const result = new Array<ResolvedFloatingItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            result[i] = createCopy(original[i]);
+        }
+        return result;
+    }
+}
+
+/**
+ * A Stack which has been collapsed to a tab on an edge of the layout (auto-hide).  Its content is a single Stack or
+ * ComponentItem.  However when the EdgeDockItem is created, a ComponentItem itemConfig will create a Stack with a child
+ * ComponentItem.
+ * @public
+ */
+export interface ResolvedEdgeDockItemConfig extends ResolvedItemConfig {
+    readonly type: 'edgeDock';
+    readonly content: readonly ResolvedEdgeDockItemConfig.ChildItemConfig[];
+    readonly side: Side;
+    readonly slideOutSize: number;
+}
+
+/** @public */
+export namespace ResolvedEdgeDockItemConfig {
+    export type ChildItemConfig = ResolvedStackItemConfig | ResolvedComponentItemConfig;
+
+    export const defaults = {
+        side: Side.left,
+        slideOutSize: 300,
+    } as const;
+
+    export function createCopy(original: ResolvedEdgeDockItemConfig, content?: ChildItemConfig[]): ResolvedEdgeDockItemConfig {
+        const result: ResolvedEdgeDockItemConfig = {
+            type: original.type,
+            content: content !== undefined ? copyContent(content) : copyContent(original.content),
+            size: original.size,
+            sizeUnit: original.sizeUnit,
+            minSize: original.minSize,
+            minSizeUnit: original.minSizeUnit,
+            id: original.id,
+            isClosable: original.isClosable,
+            locked: original.locked,
+            side: original.side,
+            slideOutSize: original.slideOutSize,
+        }
+        return result;
+    }
+
+    export function copyContent(original: readonly ChildItemConfig[]): ChildItemConfig[] {
+        const count = original.length;
+        const result = new Array<ChildItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            result[i] = ResolvedItemConfig.createCopy(original[i]) as ChildItemConfig;
+        }
+        return result;
+    }
+
+    export function createDefault(): ResolvedEdgeDockItemConfig {
+        const result: ResolvedEdgeDockItemConfig = {
+            type: ItemType.edgeDock,
+            content: [],
+            size: ResolvedItemConfig.defaults.size,
+            sizeUnit: ResolvedItemConfig.defaults.sizeUnit,
+            minSize: ResolvedItemConfig.defaults.minSize,
+            minSizeUnit: ResolvedItemConfig.defaults.minSizeUnit,
+            id: ResolvedItemConfig.defaults.id,
+            isClosable: ResolvedItemConfig.defaults.isClosable,
+            locked: ResolvedItemConfig.defaults.locked,
+            side: defaults.side,
+            slideOutSize: defaults.slideOutSize,
+        }
+        return result;
+    }
+
+    export function copyEdgeDockItems(original: readonly ResolvedEdgeDockItemConfig[]): ResolvedEdgeDockItemConfig[] {
+        const count = original.length;
+        const result = new Array<ResolvedEdgeDockItemConfig>(count);
+        for (let i = 0; i < count; i++) {
+            result[i] = createCopy(original[i]);
+        }
+        return result;
+    }
+}
+
 /** @internal */
 export interface ResolvedGroundItemConfig extends ResolvedItemConfig {
     readonly type: 'ground';
@@ -373,6 +623,7 @@ export namespace ResolvedGroundItemConfig {
             minSizeUnit: SizeUnitEnum.Pixel,
             id: '',
             isClosable: false,
+            locked: false,
             title: '',
             reorderEnabled: false,
         }
@@ -381,8 +632,15 @@ export namespace ResolvedGroundItemConfig {
 
 /** @public */
 export interface ResolvedLayoutConfig {
+    /** Always {@link (ResolvedLayoutConfig:namespace).currentVersion} as resolving a config removes legacy fields */
+    readonly version: number;
+    readonly applicationVersion: number | undefined;
     readonly root: ResolvedRootItemConfig | undefined;
     readonly openPopouts: ResolvedPopoutLayoutConfig[];
+    /** Floating (in-page) windows.  Ordered by z-order with the topmost last */
+    readonly floatingItems: ResolvedFloatingItemConfig[];
+    /** Stacks collapsed to tabs on the edges of the layout.  Tabs on each edge are ordered as in this array */
+    readonly edgeDockItems: ResolvedEdgeDockItemConfig[];
     readonly dimensions: ResolvedLayoutConfig.Dimensions;
     readonly settings: ResolvedLayoutConfig.Settings;
     readonly header: ResolvedLayoutConfig.Header;
@@ -391,6 +649,73 @@ export interface ResolvedLayoutConfig {
 
 /** @public */
 export namespace ResolvedLayoutConfig {
+    export interface KeyBindings {
+        // see LayoutConfig.KeyBindings for comments
+        readonly focusLeft: readonly string[];
+        readonly focusRight: readonly string[];
+        readonly focusUp: readonly string[];
+        readonly focusDown: readonly string[];
+        readonly nextTab: readonly string[];
+        readonly previousTab: readonly string[];
+        readonly closeTab: readonly string[];
+        readonly toggleMaximise: readonly string[];
+        readonly moveLeft: readonly string[];
+        readonly moveRight: readonly string[];
+        readonly moveUp: readonly string[];
+        readonly moveDown: readonly string[];
+    }
+
+    export namespace KeyBindings {
+        export type Action = keyof KeyBindings;
+
+        export const actions: readonly Action[] = [
+            'focusLeft',
+            'focusRight',
+            'focusUp',
+            'focusDown',
+            'nextTab',
+            'previousTab',
+            'closeTab',
+            'toggleMaximise',
+            'moveLeft',
+            'moveRight',
+            'moveUp',
+            'moveDown',
+        ];
+
+        export function createCopy(original: KeyBindings): KeyBindings {
+            return {
+                focusLeft: original.focusLeft.slice(),
+                focusRight: original.focusRight.slice(),
+                focusUp: original.focusUp.slice(),
+                focusDown: original.focusDown.slice(),
+                nextTab: original.nextTab.slice(),
+                previousTab: original.previousTab.slice(),
+                closeTab: original.closeTab.slice(),
+                toggleMaximise: original.toggleMaximise.slice(),
+                moveLeft: original.moveLeft.slice(),
+                moveRight: original.moveRight.slice(),
+                moveUp: original.moveUp.slice(),
+                moveDown: original.moveDown.slice(),
+            }
+        }
+
+        export const defaults: ResolvedLayoutConfig.KeyBindings = {
+            focusLeft: ['Ctrl+Alt+ArrowLeft'],
+            focusRight: ['Ctrl+Alt+ArrowRight'],
+            focusUp: ['Ctrl+Alt+ArrowUp'],
+            focusDown: ['Ctrl+Alt+ArrowDown'],
+            nextTab: ['Ctrl+PageDown'],
+            previousTab: ['Ctrl+PageUp'],
+            closeTab: ['Ctrl+Alt+W'],
+            toggleMaximise: ['Ctrl+Alt+M'],
+            moveLeft: ['Ctrl+Alt+Shift+ArrowLeft'],
+            moveRight: ['Ctrl+Alt+Shift+ArrowRight'],
+            moveUp: ['Ctrl+Alt+Shift+ArrowUp'],
+            moveDown: ['Ctrl+Alt+Shift+ArrowDown'],
+        } as const;
+    }
+
     export interface Settings {
         // see Config.Settings for comments
         readonly dragBetweenWindows: boolean;
@@ -403,8 +728,15 @@ export namespace ResolvedLayoutConfig {
         readonly responsiveMode: ResponsiveMode;
         readonly tabOverlapAllowance: number;
         readonly reorderOnTabMenuClick: boolean;
+        readonly pinTabOnContextMenu: boolean;
         readonly tabControlOffset: number;
         readonly popInOnClose: boolean;
+        readonly keyBindings: KeyBindings;
+        readonly splitterKeyboardStep: number;
+        readonly dragToFloatingItem: boolean;
+        readonly popoutUrl: string;
+        readonly locked: boolean;
+        readonly lazyComponentBinding: boolean;
     }
 
     export namespace Settings {
@@ -418,8 +750,15 @@ export namespace ResolvedLayoutConfig {
             responsiveMode: ResponsiveMode.none, // was onload
             tabOverlapAllowance: 0,
             reorderOnTabMenuClick: true,
+            pinTabOnContextMenu: false,
             tabControlOffset: 10,
             popInOnClose: false,
+            keyBindings: KeyBindings.defaults,
+            splitterKeyboardStep: 10,
+            dragToFloatingItem: false,
+            popoutUrl: '/gl-popout',
+            locked: false,
+            lazyComponentBinding: false,
         } as const;
 
         export function createCopy(original: Settings): Settings {
@@ -433,8 +772,15 @@ export namespace ResolvedLayoutConfig {
                 responsiveMode: original.responsiveMode,
                 tabOverlapAllowance: original.tabOverlapAllowance,
                 reorderOnTabMenuClick: original.reorderOnTabMenuClick,
+                pinTabOnContextMenu: original.pinTabOnContextMenu,
                 tabControlOffset: original.tabControlOffset,
                 popInOnClose: original.popInOnClose,
+                keyBindings: KeyBindings.createCopy(original.keyBindings),
+                splitterKeyboardStep: original.splitterKeyboardStep,
+                dragToFloatingItem: original.dragToFloatingItem,
+                popoutUrl: original.popoutUrl,
+                locked: original.locked,
+                lazyComponentBinding: original.lazyComponentBinding,
             }
         }
     }
@@ -484,6 +830,10 @@ export namespace ResolvedLayoutConfig {
         readonly show: false | Side;
         readonly popout: false | string;
         readonly popin: string;
+        readonly float: false | string;
+        readonly autoHide: false | string;
+        readonly collapse: false | string;
+        readonly expand: string;
         readonly maximise: false | string;
         readonly minimise: string;
         readonly close: false | string;
@@ -496,6 +846,10 @@ export namespace ResolvedLayoutConfig {
                 show: original.show,
                 popout: original.popout,
                 popin: original.popin,
+                float: original.float,
+                autoHide: original.autoHide,
+                collapse: original.collapse,
+                expand: original.expand,
                 close: original.close,
                 maximise: original.maximise,
                 minimise: original.minimise,
@@ -507,6 +861,10 @@ export namespace ResolvedLayoutConfig {
             show: Side.top,
             popout: 'open in new window',
             popin: 'dock',
+            float: false,
+            autoHide: false,
+            collapse: false,
+            expand: 'expand',
             maximise: 'maximise',
             minimise: 'minimise',
             close: 'close',
@@ -514,14 +872,23 @@ export namespace ResolvedLayoutConfig {
         } as const;
     }
 
+    /** The version of the LayoutConfig format.  Configs with an earlier version are upgraded by the built-in migrations */
+    export const currentVersion = 2;
+    /** Version of LayoutConfigs which do not specify a version (ie. saved before versions were introduced) */
+    export const legacyVersion = 1;
+
     export function isPopout(config: ResolvedLayoutConfig): config is ResolvedPopoutLayoutConfig {
         return 'parentId' in config;
     }
 
     export function createDefault(): ResolvedLayoutConfig {
         const result: ResolvedLayoutConfig = {
+            version: currentVersion,
+            applicationVersion: undefined,
             root: undefined,
             openPopouts: [],
+            floatingItems: [],
+            edgeDockItems: [],
             dimensions: ResolvedLayoutConfig.Dimensions.defaults,
             settings: ResolvedLayoutConfig.Settings.defaults,
             header: ResolvedLayoutConfig.Header.defaults,
@@ -535,8 +902,12 @@ export namespace ResolvedLayoutConfig {
             return ResolvedPopoutLayoutConfig.createCopy(config);
         } else {
             const result: ResolvedLayoutConfig = {
+                version: config.version,
+                applicationVersion: config.applicationVersion,
                 root: config.root === undefined ? undefined : ResolvedRootItemConfig.createCopy(config.root),
                 openPopouts: ResolvedLayoutConfig.copyOpenPopouts(config.openPopouts),
+                floatingItems: ResolvedFloatingItemConfig.copyFloatingItems(config.floatingItems),
+                edgeDockItems: ResolvedEdgeDockItemConfig.copyEdgeDockItems(config.edgeDockItems),
                 settings: ResolvedLayoutConfig.Settings.createCopy(config.settings),
                 dimensions: ResolvedLayoutConfig.Dimensions.createCopy(config.dimensions),
                 header: ResolvedLayoutConfig.Header.createCopy(config.header),
@@ -609,8 +980,12 @@ export namespace ResolvedPopoutLayoutConfig {
 
     export function createCopy(original: ResolvedPopoutLayoutConfig): ResolvedPopoutLayoutConfig {
         const result: ResolvedPopoutLayoutConfig = {
+            version: original.version,
+            applicationVersion: original.applicationVersion,
             root: original.root === undefined ? undefined : ResolvedRootItemConfig.createCopy(original.root),
             openPopouts: ResolvedLayoutConfig.copyOpenPopouts(original.openPopouts),
+            floatingItems: ResolvedFloatingItemConfig.copyFloatingItems(original.floatingItems),
+            edgeDockItems: ResolvedEdgeDockItemConfig.copyEdgeDockItems(original.edgeDockItems),
             settings: ResolvedLayoutConfig.Settings.createCopy(original.settings),
             dimensions: ResolvedLayoutConfig.Dimensions.createCopy(original.dimensions),
             header: ResolvedLayoutConfig.Header.createCopy(original.header),
@@ -5,7 +5,9 @@ import { AssertError, UnexpectedNullError } from '../errors/internal-error';
 import { ComponentItem } from '../items/component-item';
 import { ContentItem } from '../items/content-item';
 import { LayoutManager } from '../layout-manager';
+import { DomConstants } from '../utils/dom-constants';
 import { EventEmitter } from '../utils/event-emitter';
+import { I18nStringId, i18nStrings } from '../utils/i18n-strings';
 import { JsonValue, LogicalZIndex, LogicalZIndexToDefaultMap } from '../utils/types';
 import { deepExtend, setElementHeight, setElementWidth } from '../utils/utils';
 
@@ -14,7 +16,13 @@ export class ComponentContainer extends EventEmitter {
     /** @internal */
     private _componentType: JsonValue;
     /** @internal */
-    private _boundComponent: ComponentContainer.BindableComponent;
+    private _boundComponent: ComponentContainer.BindableComponent | undefined;
+    /** @internal */
+    private _bindingPromise: PromiseLike<ComponentContainer.BindableComponent> | undefined;
+    /** @internal */
+    private _bindingFailed = false;
+    /** @internal */
+    private _placeholderElement: HTMLElement | undefined;
     /** @internal */
     private _width: number;
     /** @internal */
@@ -34,6 +42,8 @@ export class ComponentContainer extends EventEmitter {
     /** @internal */
     private _stackMaximised = false;
     /** @internal */
+    private _hibernated = false;
+    /** @internal */
     private _logicalZIndex: LogicalZIndex;
 
     stateRequestEvent: ComponentContainer.StateRequestEventHandler | undefined;
@@ -47,8 +57,22 @@ export class ComponentContainer extends EventEmitter {
     /** @internal @deprecated use {@link (ComponentContainer:class).componentType} */
     get componentName(): JsonValue { return this._componentType; }
     get componentType(): JsonValue { return this._componentType; }
-    get virtual(): boolean { return this._boundComponent.virtual; }
-    get component(): ComponentContainer.Component { return this._boundComponent.component; }
+    get virtual(): boolean { return this._boundComponent?.virtual ?? false; }
+    get component(): ComponentContainer.Component { return this._boundComponent?.component; }
+    /**
+     * Whether the component has been bound (created).  With {@link (LayoutConfig:namespace).(Settings:interface).lazyComponentBinding},
+     * a component is not bound until its tab first becomes active
+     */
+    get bound(): boolean { return this._boundComponent !== undefined; }
+    /** Whether the component is being bound asynchronously.  The container shows a loading placeholder until binding completes */
+    get bindingPending(): boolean { return this._bindingPromise !== undefined; }
+    /**
+     * Whether binding of the component failed.  The container then shows an error placeholder.
+     * Use {@link (ComponentContainer:class).retryBinding} to try again
+     */
+    get bindingFailed(): boolean { return this._bindingFailed; }
+    /** Whether the component was unbound by {@link (ComponentContainer:class).hibernate} and has not been bound since */
+    get hibernated(): boolean { return this._hibernated; }
     get tab(): Tab { return this._tab; }
     get title(): string { return this._parent.title; }
     get layoutManager(): LayoutManager { return this._layoutManager; }
@@ -63,7 +87,7 @@ export class ComponentContainer extends EventEmitter {
     /** @internal */
     constructor(
         /** @internal */
-        private readonly _config: ResolvedComponentItemConfig,
+        private _config: ResolvedComponentItemConfig,
         /** @internal */
         private readonly _parent: ComponentItem,
         /** @internal */
@@ -93,13 +117,16 @@ export class ComponentContainer extends EventEmitter {
         this._initialState = _config.componentState;
         this._state = this._initialState;
 
-        this._boundComponent = this.layoutManager.bindComponent(this, _config);
+        if (!this._layoutManager.layoutConfig.settings.lazyComponentBinding) {
+            this.bindComponent();
+        }
 
         this.updateElementPositionPropertyFromBoundComponent();
     }
 
     /** @internal */
     destroy(): void {
+        this._layoutManager.componentHibernator.removeHiddenContainer(this);
         this.releaseComponent();
         this.stateRequestEvent = undefined;
         this.emit('destroy');
@@ -202,10 +229,10 @@ export class ComponentContainer extends EventEmitter {
      * Closes the container if it is closable. Can be called by
      * both the component within at as well as the contentItem containing
      * it. Emits a close event before the container itself is closed.
+     * The close can be vetoed by listeners of the ComponentItem's 'beforeClose' event.
      */
     close(): void {
         if (this._isClosable) {
-            this.emit('close');
             this._parent.close();
         }
     }
@@ -218,29 +245,17 @@ export class ComponentContainer extends EventEmitter {
             throw new Error('ReplaceComponent not passed a component ItemConfig')
         } else {
             const config = ComponentItemConfig.resolve(itemConfig, false);
+            this._config = config;
             this._initialState = config.componentState;
             this._state = this._initialState;
             this._componentType = config.componentType;
+            this._hibernated = false;
 
             this._updateItemConfigEvent(config);
 
-            this._boundComponent = this.layoutManager.bindComponent(this, config);
+            this.bindComponent();
             this.updateElementPositionPropertyFromBoundComponent();
-
-            if (this._boundComponent.virtual) {
-                if (this.virtualVisibilityChangeRequiredEvent !== undefined) {
-                    this.virtualVisibilityChangeRequiredEvent(this, this._visible);
-                }
-                if (this.virtualRectingRequiredEvent !== undefined) {
-                    this._layoutManager.fireBeforeVirtualRectingEvent(1);
-                    try {
-                        this.virtualRectingRequiredEvent(this, this._width, this._height);
-                    } finally {
-                        this._layoutManager.fireAfterVirtualRectingEvent();
-                    }
-                }
-                this.setBaseLogicalZIndex();
-            }
+            this.notifyVirtualComponentBound();
 
             this.emit('stateChanged');
         }
@@ -286,9 +301,74 @@ export class ComponentContainer extends EventEmitter {
         this.emit('tab', tab)
     }
 
+    /**
+     * Unbinds the component of a hidden container to reclaim its memory.  The component's state is saved first (with
+     * stateRequestEvent if assigned) and the component is bound again with this state when the container is next shown.
+     * Listeners of the 'beforeHibernate' event can save the component's state with setState().  The 'resumed' event is
+     * emitted after the component is bound again.
+     * @returns true if the component was hibernated.  The components of visible containers cannot be hibernated.
+     */
+    hibernate(): boolean {
+        if (this._visible || this._boundComponent === undefined) {
+            return false;
+        } else {
+            this.emit('beforeHibernate');
+            if (this.stateRequestEvent !== undefined) {
+                this._state = this.stateRequestEvent();
+            }
+            // the component is bound again with the saved state
+            this._initialState = this._state;
+            this._layoutManager.componentHibernator.removeHiddenContainer(this);
+            this.releaseComponent();
+            this.stateRequestEvent = undefined;
+            this._hibernated = true;
+            return true;
+        }
+    }
+
+    /**
+     * Binds the component if its binding was deferred by lazy binding or it was hibernated.  Called when the component is shown
+     * @internal
+     */
+    ensureBound(): void {
+        if (this._boundComponent === undefined && this._bindingPromise === undefined && !this._bindingFailed) {
+            this.bindComponent();
+            this.updateElementPositionPropertyFromBoundComponent();
+            this.notifyVirtualComponentBound();
+            if (this._boundComponent !== undefined) {
+                this.notifyResumed();
+            }
+        }
+    }
+
+    /**
+     * Binds the component again with the current component state.  Used to replace the placeholder of a component type
+     * which was not registered when the component was bound
+     * @internal
+     */
+    rebindComponent(): void {
+        this.releaseComponent();
+        this.bindComponent();
+        this.updateElementPositionPropertyFromBoundComponent();
+        this.notifyVirtualComponentBound();
+    }
+
+    /**
+     * Binds the component again after its binding failed.  Called by the retry button of the error placeholder
+     */
+    retryBinding(): void {
+        if (this._bindingFailed) {
+            this._bindingFailed = false;
+            this.removePlaceholder();
+            this.bindComponent();
+            this.updateElementPositionPropertyFromBoundComponent();
+            this.notifyVirtualComponentBound();
+        }
+    }
+
     /** @internal */
     setVisibility(value: boolean): void {
-        if (this._boundComponent.virtual) {
+        if (this.virtual) {
             if (this.virtualVisibilityChangeRequiredEvent !== undefined) {
                 this.virtualVisibilityChangeRequiredEvent(this, value);
             }
@@ -297,6 +377,7 @@ export class ComponentContainer extends EventEmitter {
         if (value) {
             if (!this._visible) {
                 this._visible = true;
+                this._layoutManager.componentHibernator.removeHiddenContainer(this);
                 if (this._height === 0 && this._width === 0) {
                     this._isShownWithZeroDimensions = true;
                 } else {
@@ -316,6 +397,7 @@ export class ComponentContainer extends EventEmitter {
                 this._visible = false;
                 this._isShownWithZeroDimensions = false;
                 this.emitHide();
+                this._layoutManager.componentHibernator.addHiddenContainer(this);
             }
         }
     }
@@ -367,7 +449,7 @@ export class ComponentContainer extends EventEmitter {
 
     /** @internal */
     drag(): void {
-        if (this._boundComponent.virtual) {
+        if (this.virtual) {
             if (this.virtualRectingRequiredEvent !== undefined) {
                 this._layoutManager.fireBeforeVirtualRectingEvent(1);
                 try {
@@ -395,7 +477,7 @@ export class ComponentContainer extends EventEmitter {
             setElementWidth(this._element, width);
             setElementHeight(this._element, height);
 
-            if (this._boundComponent.virtual) {
+            if (this.virtual) {
                 this.addVirtualSizedContainerToLayoutManager();
             } else {
                 this.emit('resize');
@@ -424,7 +506,7 @@ export class ComponentContainer extends EventEmitter {
 
     /** @internal */
     private updateElementPositionPropertyFromBoundComponent() {
-        if (this._boundComponent.virtual) {
+        if (this.virtual) {
             this._element.style.position = 'static';
         } else {
             this._element.style.position = ''; // set it back to attribute value
@@ -460,13 +542,177 @@ export class ComponentContainer extends EventEmitter {
         this.emit('hide');
     }
 
+    /**
+     * Binds a component to the container with the current component state.  If binding fails, the container shows an
+     * error placeholder instead of the component and the layout manager emits a 'componentError' event.
+     * @internal
+     */
+    private bindComponent() {
+        const config: ResolvedComponentItemConfig = { ...this._config, componentType: this._componentType, componentState: this._state };
+        let boundComponentOrPromise: ComponentContainer.BindableComponent | PromiseLike<ComponentContainer.BindableComponent> | undefined;
+        try {
+            boundComponentOrPromise = this.layoutManager.bindComponent(this, config);
+        } catch (error) {
+            boundComponentOrPromise = undefined;
+            this.processBindingFailed(error);
+        }
+
+        if (boundComponentOrPromise !== undefined) {
+            if (ComponentContainer.isBindingPromise(boundComponentOrPromise)) {
+                this.bindComponentAsync(boundComponentOrPromise);
+            } else {
+                this.processComponentBound(boundComponentOrPromise);
+            }
+        }
+    }
+
+    /**
+     * Shows a loading placeholder until the component is bound.  If the container's component is released before then,
+     * the component is unbound as soon as it is created.  Errors thrown while processing the bound component are handled
+     * like a rejected binding.
+     * @internal
+     */
+    private bindComponentAsync(promise: PromiseLike<ComponentContainer.BindableComponent>) {
+        this._bindingPromise = promise;
+        this.showPlaceholder(DomConstants.ClassName.Loading, i18nStrings[I18nStringId.ComponentLoading]);
+        Promise.resolve(promise).then(
+            (boundComponent) => {
+                if (this._bindingPromise !== promise) {
+                    this.unbindComponent(boundComponent);
+                } else {
+                    this._bindingPromise = undefined;
+                    try {
+                        this.removePlaceholder();
+                        this.processComponentBound(boundComponent);
+                        this.updateElementPositionPropertyFromBoundComponent();
+                        this.notifyVirtualComponentBound();
+                        this.notifyResumed();
+                    } catch (error) {
+                        if (this._boundComponent === boundComponent) {
+                            this._boundComponent = undefined;
+                            this.unbindComponent(boundComponent);
+                        }
+                        this.processBindingFailed(error);
+                    }
+                }
+            },
+            (reason) => {
+                if (this._bindingPromise === promise) {
+                    this._bindingPromise = undefined;
+                    this.processBindingFailed(reason);
+                }
+            }
+        );
+    }
+
+    /** @internal */
+    private processComponentBound(boundComponent: ComponentContainer.BindableComponent) {
+        this._boundComponent = boundComponent;
+        this.emit('bound', boundComponent.component);
+    }
+
+    /** @internal */
+    private processBindingFailed(error: unknown) {
+        this._bindingFailed = true;
+        this.showErrorPlaceholder(error);
+        this._layoutManager.emit('componentError', this, error, 'bind');
+    }
+
+    /**
+     * Unbinds a component.  An error thrown while unbinding is reported with the layout manager's 'componentError' event
+     * so that the container can still be released
+     * @internal
+     */
+    private unbindComponent(boundComponent: ComponentContainer.BindableComponent) {
+        try {
+            this._layoutManager.unbindComponent(this, boundComponent.virtual, boundComponent.component);
+        } catch (error) {
+            this._layoutManager.emit('componentError', this, error, 'unbind');
+        }
+    }
+
+    /** @internal */
+    private notifyResumed() {
+        if (this._hibernated) {
+            this._hibernated = false;
+            this.emit('resumed');
+        }
+    }
+
+    /** @internal */
+    private showPlaceholder(className: DomConstants.ClassName, text: string): HTMLElement {
+        this.removePlaceholder();
+        const placeholderElement = document.createElement('div');
+        placeholderElement.classList.add(DomConstants.ClassName.ComponentPlaceholder, className);
+        const textElement = document.createElement('span');
+        textElement.innerText = text;
+        placeholderElement.appendChild(textElement);
+        this._element.appendChild(placeholderElement);
+        this._placeholderElement = placeholderElement;
+        return placeholderElement;
+    }
+
+    /** @internal */
+    private showErrorPlaceholder(reason: unknown) {
+        const message = reason instanceof Error ? reason.message : String(reason);
+        const text = `${i18nStrings[I18nStringId.ComponentLoadFailed]}: ${message}`;
+        const placeholderElement = this.showPlaceholder(DomConstants.ClassName.Error, text);
+        const retryElement = document.createElement('button');
+        retryElement.classList.add(DomConstants.ClassName.Retry);
+        retryElement.innerText = i18nStrings[I18nStringId.RetryComponentLoad];
+        retryElement.addEventListener('click', () => this.retryBinding(), { passive: true });
+        placeholderElement.appendChild(retryElement);
+        const removeElement = document.createElement('button');
+        removeElement.classList.add(DomConstants.ClassName.Remove);
+        removeElement.innerText = i18nStrings[I18nStringId.RemoveComponent];
+        removeElement.addEventListener('click', () => this._parent.remove(), { passive: true });
+        placeholderElement.appendChild(removeElement);
+    }
+
+    /** @internal */
+    private removePlaceholder() {
+        if (this._placeholderElement !== undefined) {
+            this._placeholderElement.remove();
+            this._placeholderElement = undefined;
+        }
+    }
+
+    /**
+     * Brings a virtual component which was bound after the container was created up to date with the container
+     * @internal
+     */
+    private notifyVirtualComponentBound() {
+        if (this.virtual) {
+            if (this.virtualVisibilityChangeRequiredEvent !== undefined) {
+                this.virtualVisibilityChangeRequiredEvent(this, this._visible);
+            }
+            if (this.virtualRectingRequiredEvent !== undefined) {
+                this._layoutManager.fireBeforeVirtualRectingEvent(1);
+                try {
+                    this.virtualRectingRequiredEvent(this, this._width, this._height);
+                } finally {
+                    this._layoutManager.fireAfterVirtualRectingEvent();
+                }
+            }
+            this.setBaseLogicalZIndex();
+        }
+    }
+
     /** @internal */
     private releaseComponent() {
         if (this._stackMaximised) {
             this.exitStackMaximised();
         }
-        this.emit('beforeComponentRelease', this._boundComponent.component);
-        this.layoutManager.unbindComponent(this, this._boundComponent.virtual, this._boundComponent.component);
+        const boundComponent = this._boundComponent;
+        if (boundComponent !== undefined) {
+            this.emit('beforeComponentRelease', boundComponent.component);
+            this.unbindComponent(boundComponent);
+            this._boundComponent = undefined;
+        }
+        // cancels a pending binding.  Its component is unbound when it is created
+        this._bindingPromise = undefined;
+        this._bindingFailed = false;
+        this.removePlaceholder();
     }
 }
 
@@ -497,4 +743,13 @@ export namespace ComponentContainer {
     export type BlurEventHandler = (this: void, suppressEvent: boolean) => void;
     /** @internal */
     export type UpdateItemConfigEventHandler = (itemConfig: ResolvedComponentItemConfig) => void;
+
+    /**
+     * Whether a binding result is a promise.  Checked by its then() function as promises created in other windows (or by
+     * promise libraries) are not instances of this window's Promise
+     * @internal
+     */
+    export function isBindingPromise(value: BindableComponent | PromiseLike<BindableComponent>): value is PromiseLike<BindableComponent> {
+        return typeof (value as Partial<PromiseLike<BindableComponent>>).then === 'function';
+    }
 }
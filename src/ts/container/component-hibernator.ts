@@ -0,0 +1,97 @@
+import { LayoutManager } from '../layout-manager';
+import { ComponentContainer } from './component-container';
+
+/**
+ * Hibernates the components of hidden containers according to a LayoutManager's
+ * {@link (LayoutManager:class).hibernationPolicy}.  A component is hibernated once it has been hidden for longer than
+ * the policy's hiddenTimeout or when more hidden components are bound than the policy's maxHiddenComponents allows.
+ * The components which have been hidden the longest are hibernated first.
+ * @internal
+ */
+export class ComponentHibernator {
+    /** Bound hidden containers in the order they were hidden, with the time they were hidden */
+    private readonly _hiddenContainers = new Map<ComponentContainer, number>();
+    private readonly _timeoutIds = new Map<ComponentContainer, ReturnType<typeof setTimeout>>();
+    private _policy: LayoutManager.HibernationPolicy | undefined;
+
+    get policy(): LayoutManager.HibernationPolicy | undefined { return this._policy; }
+    set policy(value: LayoutManager.HibernationPolicy | undefined) {
+        this._policy = value;
+        this.clearTimeouts();
+        if (value !== undefined) {
+            for (const [container, hiddenTime] of this._hiddenContainers) {
+                this.scheduleHibernation(container, hiddenTime);
+            }
+            this.hibernateOverBudget();
+        }
+    }
+
+    destroy(): void {
+        this.clearTimeouts();
+        this._hiddenContainers.clear();
+    }
+
+    addHiddenContainer(container: ComponentContainer): void {
+        if (container.bound) {
+            this.removeHiddenContainer(container);
+            const hiddenTime = Date.now();
+            this._hiddenContainers.set(container, hiddenTime);
+            if (this._policy !== undefined) {
+                this.scheduleHibernation(container, hiddenTime);
+                this.hibernateOverBudget();
+            }
+        }
+    }
+
+    /** Called when a container is shown, hibernated or destroyed */
+    removeHiddenContainer(container: ComponentContainer): void {
+        this._hiddenContainers.delete(container);
+        const timeoutId = this._timeoutIds.get(container);
+        if (timeoutId !== undefined) {
+            clearTimeout(timeoutId);
+            this._timeoutIds.delete(container);
+        }
+    }
+
+    private scheduleHibernation(container: ComponentContainer, hiddenTime: number) {
+        const hiddenTimeout = this._policy?.hiddenTimeout;
+        if (hiddenTimeout !== undefined) {
+            const delay = Math.max(0, hiddenTime + hiddenTimeout - Date.now());
+            const timeoutId = setTimeout(() => {
+                this._timeoutIds.delete(container);
+                this.hibernate(container);
+            }, delay);
+            this._timeoutIds.set(container, timeoutId);
+        }
+    }
+
+    private hibernateOverBudget() {
+        const maxHiddenComponents = this._policy?.maxHiddenComponents;
+        if (maxHiddenComponents !== undefined) {
+            // Map iterates in insertion order so the containers hidden the longest come first
+            const containers = Array.from(this._hiddenContainers.keys());
+            let excessCount = containers.length - maxHiddenComponents;
+            for (let i = 0; i < containers.length && excessCount > 0; i++) {
+                if (this.hibernate(containers[i])) {
+                    excessCount--;
+                }
+            }
+        }
+    }
+
+    private hibernate(container: ComponentContainer) {
+        const canHibernate = this._policy?.canHibernate;
+        if (canHibernate !== undefined && !canHibernate(container)) {
+            return false;
+        } else {
+            return container.hibernate();
+        }
+    }
+
+    private clearTimeouts() {
+        for (const timeoutId of this._timeoutIds.values()) {
+            clearTimeout(timeoutId);
+        }
+        this._timeoutIds.clear();
+    }
+}
@@ -1,22 +1,30 @@
 import { ResolvedLayoutConfig, ResolvedPopoutLayoutConfig, ResolvedRowOrColumnItemConfig } from '../config/resolved-config';
-import { PopoutBlockedError } from '../errors/external-error';
-import { UnexpectedNullError, UnexpectedUndefinedError } from '../errors/internal-error';
+import { ApiError, PopoutBlockedError } from '../errors/external-error';
+import { UnexpectedNullError, UnexpectedUndefinedError, UnreachableCaseError } from '../errors/internal-error';
 import { ContentItem } from '../items/content-item';
 import { RowOrColumn } from '../items/row-or-column';
 import { LayoutManager } from '../layout-manager';
 import { EventEmitter } from '../utils/event-emitter';
 import { Rect, ItemType } from '../utils/types';
-import { deepExtend, getErrorMessage, getUniqueId, getWindowTopLeftBorder } from '../utils/utils';
+import { deepExtend, getUniqueId, getWindowTopLeftBorder } from '../utils/utils';
+import { PopoutChannel } from './popout-channel';
 
 /**
  * Pops a content item out into a new browser window.
  * This is achieved by
  *
  *    - Creating a new configuration with the content item as root element
- *    - Serializing and minifying the configuration
- *    - Opening the current window's URL with the configuration as a GET parameter
- *    - GoldenLayout when opened in the new window will look for the GET parameter
- *      and use it instead of the provided configuration
+ *    - Opening the popout URL (see {@link (LayoutConfig:namespace).(Settings:interface).popoutUrl}) with a key identifying
+ *      the configuration and the origin of this window as GET parameters
+ *    - GoldenLayout when opened in the new window will look for the GET parameters and request the configuration from
+ *      this window with postMessage (a handshake which only accepts messages from the expected windows and origins).
+ *      It then uses it instead of the provided configuration and posts back a ready message once initialised.
+ *    - The minified configuration is also written to localStorage as a fallback for windows which cannot reach their
+ *      opener.  It is removed once the handshake starts or the window closes.
+ *
+ * Afterwards the windows keep exchanging serialisable messages for layout changes, pop-in, EventHub events and
+ * drags between the windows.  If the popout URL is on another origin, these messages are the only connection between
+ * the windows and {@link (BrowserPopout:class).getGlInstance} is not available.
  * @public
  */
 
@@ -26,11 +34,29 @@ export class BrowserPopout extends EventEmitter {
     /** @internal */
     private _isInitialised: boolean;
     /** @internal */
-    private _checkReadyInterval: ReturnType<typeof setTimeout> | undefined;
+    private _configKey = BrowserPopout.configKeyPrefix + getUniqueId();
+    /** @internal */
+    private _fallbackConfigStored = false;
+    /** @internal */
+    private _channel: PopoutChannel | undefined;
+    /** @internal The layout last reported by the popout window.  Used if its objects cannot be accessed */
+    private _reportedLayout: PopoutChannel.PopoutLayout | undefined;
     /** @internal */
     private _preventPopInOnClose: boolean;
 
     get isInitialised(): boolean { return this._isInitialised; }
+    /** Identifies the popout window in {@link EventHubChannel} targets.  See {@link (EventHub:class).windowId} */
+    get windowId(): string { return this._configKey; }
+    /** Whether the popout window is on another origin and can only be reached with messages */
+    get isCrossOrigin(): boolean { return this._channel?.crossOrigin ?? false; }
+    /**
+     * The channel to the popout window if it is initialised and can only be reached with messages
+     * @internal
+     */
+    get crossOriginChannel(): PopoutChannel | undefined {
+        const channel = this._channel;
+        return (this._isInitialised && channel !== undefined && channel.crossOrigin) ? channel : undefined;
+    }
 
     /**
      * @param _config - GoldenLayout item config
@@ -58,29 +84,17 @@ export class BrowserPopout extends EventEmitter {
             throw new Error('Can\'t create config, layout not yet initialised');
         }
 
-        const glInstance = this.getGlInstance();
-        const glInstanceConfig = glInstance.saveLayout();
-
-        let left: number | null;
-        let top: number | null;
-        if (this._popoutWindow === null) {
-            left = null;
-            top = null;
-        } else {
-            left = this._popoutWindow.screenX ?? this._popoutWindow.screenLeft;
-            top = this._popoutWindow.screenY ?? this._popoutWindow.screenTop;
-        }
-
-        const window: ResolvedPopoutLayoutConfig.Window = {
-            width: this.getGlInstance().width,
-            height: this.getGlInstance().height,
-            left,
-            top,
-        };
+        const popoutLayout = this.getPopoutLayout();
+        const glInstanceConfig = popoutLayout.config;
+        const window = popoutLayout.window;
 
         const config: ResolvedPopoutLayoutConfig = {
+            version: glInstanceConfig.version,
+            applicationVersion: glInstanceConfig.applicationVersion,
             root: glInstanceConfig.root,
             openPopouts: glInstanceConfig.openPopouts,
+            floatingItems: glInstanceConfig.floatingItems,
+            edgeDockItems: glInstanceConfig.edgeDockItems,
             settings: glInstanceConfig.settings,
             dimensions: glInstanceConfig.dimensions,
             header: glInstanceConfig.header,
@@ -93,10 +107,17 @@ export class BrowserPopout extends EventEmitter {
         return config;
     }
 
+    /**
+     * Retrieves the LayoutManager in the popout window.
+     * Throws an ApiError if the popout window is on another origin.
+     */
     getGlInstance(): LayoutManager {
         if (this._popoutWindow === null) {
             throw new UnexpectedNullError('BPGGI24693');
         }
+        if (this.isCrossOrigin) {
+            throw new ApiError('LayoutManager of cross-origin popout window cannot be accessed');
+        }
         return this._popoutWindow.__glInstance;
     }
 
@@ -117,7 +138,11 @@ export class BrowserPopout extends EventEmitter {
             this._preventPopInOnClose = true;
         }
 
-        if (this.getGlInstance()) {
+        const channel = this.crossOriginChannel;
+        if (channel !== undefined) {
+            // The window closes itself (see LayoutManager.closeWindow())
+            channel.postClose();
+        } else if (!this.isCrossOrigin && this.getGlInstance()) {
             this.getGlInstance().closeWindow();
         } else {
             try {
@@ -133,20 +158,24 @@ export class BrowserPopout extends EventEmitter {
      * parent isn't available anymore it falls back to the layout's topmost element
      */
     popIn(): void {
+        this.popInLayout(this.getPopoutLayout());
+    }
+
+    /** @internal */
+    private popInLayout(popoutLayout: PopoutChannel.PopoutLayout) {
         let parentItem: ContentItem | null = null;
         let index = this._config.indexInParent;
 
         /*
         * The deepExtend call seems a bit pointless, but it's crucial to
-        * copy the config returned by this.getGlInstance().toConfig()
+        * copy the config returned by this.getGlInstance().saveLayout()
         * onto a new object. Internet Explorer keeps the references
         * to objects on the child window, resulting in the following error
         * once the child window is closed:
         *
         * The callee (server [not server application]) is not available and disappeared
         */
-        const glInstanceLayoutConfig = this.getGlInstance().saveLayout();
-        const copiedGlInstanceLayoutConfig = deepExtend({}, glInstanceLayoutConfig) as ResolvedLayoutConfig;
+        const copiedGlInstanceLayoutConfig = deepExtend({}, popoutLayout.config) as ResolvedLayoutConfig;
         let copiedRoot = copiedGlInstanceLayoutConfig.root;
         if (copiedRoot === undefined) {
             return;
@@ -173,30 +202,36 @@ export class BrowserPopout extends EventEmitter {
             index = parentItem.contentItems.length;
         }
 
-        if (parentItem.isStack) {   
-            // Stacks can only hold component items -> try to find one by unraveling containers with a single child
-            while (copiedRoot.type !== ItemType.component && copiedRoot.content.length === 1) {
-                copiedRoot = copiedRoot.content[0];
-            }
-
-            // Failed to find a component item, wrap the parent item and docked item in a row as siblings
-            if (copiedRoot.type !== ItemType.component) {
-                if (parentItem.parent === null) {
-                    throw new UnexpectedNullError('BPPIG34973');
+        this._layoutManager.beginHistoryGroup();
+        try {
+            if (parentItem.isStack) {   
+                // Stacks can only hold component items -> try to find one by unraveling containers with a single child
+                while (copiedRoot.type !== ItemType.component && copiedRoot.content.length === 1) {
+                    copiedRoot = copiedRoot.content[0];
                 }
 
-                const row = new RowOrColumn(false, this._layoutManager, ResolvedRowOrColumnItemConfig.createDefault('row'), parentItem.parent);
-                parentItem.parent.replaceChild(parentItem, row, false);
-                row.addChild(parentItem);
-                parentItem = row;
-                index = 1;
+                // Failed to find a component item, wrap the parent item and docked item in a row as siblings
+                if (copiedRoot.type !== ItemType.component) {
+                    if (parentItem.parent === null) {
+                        throw new UnexpectedNullError('BPPIG34973');
+                    }
+
+                    const row = new RowOrColumn(false, this._layoutManager, ResolvedRowOrColumnItemConfig.createDefault('row'), parentItem.parent);
+                    parentItem.parent.replaceChild(parentItem, row, false);
+                    row.addChild(parentItem);
+                    parentItem = row;
+                    index = 1;
+                }
             }
-        }
 
-        const newContentItem = this._layoutManager.createAndInitContentItem(copiedRoot, parentItem);
+            const newContentItem = this._layoutManager.createAndInitContentItem(copiedRoot, parentItem);
+
+            index = (index !== null) ? Math.max(0, Math.min(parentItem.contentItems.length, index)) : null;
+            parentItem.addChild(newContentItem, index);
+        } finally {
+            this._layoutManager.endHistoryGroup();
+        }
 
-        index = (index !== null) ? Math.max(0, Math.min(parentItem.contentItems.length, index)) : null;
-        parentItem.addChild(newContentItem, index);
         if (this._layoutManager.layoutConfig.settings.popInOnClose) {
             this._onClose();
         } else {
@@ -249,6 +284,18 @@ export class BrowserPopout extends EventEmitter {
             }
         }
 
+        const channel = new PopoutChannel(this._layoutManager, this._popoutWindow, new URL(url).origin, this._configKey,
+            (message) => this.onMessage(message)
+        );
+        this._channel = channel;
+        channel.start();
+        this.storeFallbackConfig();
+
+        if (channel.crossOrigin) {
+            // The window cannot be accessed.  It positions itself with the window features and reports when it closes.
+            return;
+        }
+
         this._popoutWindow.addEventListener('load', () => {    
             this.positionAndResizeWindow();
             
@@ -263,31 +310,108 @@ export class BrowserPopout extends EventEmitter {
             }
         }, { passive: true });
 
-        /**
-         * Polling the childwindow to find out if GoldenLayout has been initialised
-         * doesn't seem optimal, but the alternatives - adding a callback to the parent
-         * window or raising an event on the window object - both would introduce knowledge
-         * about the parent to the child window which we'd rather avoid
-         */
-        this._checkReadyInterval = setInterval(() => this.checkReady(), 10);
     }
 
-    /** @internal */
-    private checkReady() {
-        if (this._popoutWindow === null) {
-            throw new UnexpectedNullError('BPCR01844');
+    /**
+     * Handles messages from the popout window.  The channel ignores messages from other windows or origins.
+     * @internal
+     */
+    private onMessage(message: PopoutChannel.WindowMessage) {
+        const channel = this._channel;
+        if (channel === undefined) {
+            throw new UnexpectedUndefinedError('BPOMC50218');
         } else {
-            if (this._popoutWindow.__glInstance && this._popoutWindow.__glInstance.isInitialised) {
-                this._popoutWindow.__glInstance.parent = this._layoutManager;
-                this.onInitialised();
-                if (this._checkReadyInterval !== undefined) {
-                    clearInterval(this._checkReadyInterval);
-                    this._checkReadyInterval = undefined;
-                }
+            switch (message.type) {
+                case PopoutChannel.MessageType.configRequest:
+                    this.removeFallbackConfig();
+                    channel.postConfig(this._config);
+                    break;
+                case PopoutChannel.MessageType.ready:
+                    this.removeFallbackConfig();
+                    this._reportedLayout = message.layout;
+                    if (!this._isInitialised) {
+                        if (!channel.crossOrigin) {
+                            this.getWindow().__glInstance.parent = this._layoutManager;
+                        }
+                        this.onInitialised();
+                    }
+                    break;
+                case PopoutChannel.MessageType.layout:
+                    this._reportedLayout = message.layout;
+                    break;
+                case PopoutChannel.MessageType.popIn:
+                    this._reportedLayout = message.layout;
+                    this.popInLayout(message.layout);
+                    break;
+                case PopoutChannel.MessageType.closing:
+                    // Same origin windows are handled by the beforeunload listener added when the window loaded
+                    if (channel.crossOrigin) {
+                        this._reportedLayout = message.layout;
+                        if (this._layoutManager.layoutConfig.settings.popInOnClose && !this._preventPopInOnClose) {
+                            this.popInLayout(message.layout);
+                        } else {
+                            this._onClose();
+                        }
+                    }
+                    break;
+                case PopoutChannel.MessageType.eventHubEvent:
+                    this._layoutManager.eventHub.receivePopoutEvent(message.eventName, message.args);
+                    break;
+                case PopoutChannel.MessageType.config:
+                case PopoutChannel.MessageType.close:
+                    // only sent to popout windows
+                    break;
+                default:
+                    throw new UnreachableCaseError('BPOM50216', message);
             }
         }
     }
 
+    /**
+     * The layout of the popout window.  Read from the window if it can be accessed.  Otherwise the layout last reported
+     * by the window.
+     * @internal
+     */
+    private getPopoutLayout(): PopoutChannel.PopoutLayout {
+        if (this.isCrossOrigin) {
+            if (this._reportedLayout === undefined) {
+                throw new UnexpectedUndefinedError('BPGPL24694');
+            } else {
+                return this._reportedLayout;
+            }
+        } else {
+            const glInstance = this.getGlInstance();
+
+            let left: number | null;
+            let top: number | null;
+            if (this._popoutWindow === null) {
+                left = null;
+                top = null;
+            } else {
+                left = this._popoutWindow.screenX ?? this._popoutWindow.screenLeft;
+                top = this._popoutWindow.screenY ?? this._popoutWindow.screenTop;
+            }
+
+            return {
+                config: glInstance.saveLayout(),
+                window: {
+                    width: glInstance.width,
+                    height: glInstance.height,
+                    left,
+                    top,
+                },
+            };
+        }
+    }
+
+    /**
+     * Sends an EventHub event to a popout window which can only be reached with messages
+     * @internal
+     */
+    postEventHubEvent(eventName: string, args: unknown[]): void {
+        this.crossOriginChannel?.postEventHubEvent(eventName, args);
+    }
+
     /**
      * @internal
      */
@@ -340,23 +464,15 @@ export class BrowserPopout extends EventEmitter {
 
     /**
      * Creates the URL for the new window, including the
-     * config GET parameter
+     * config key GET parameter
      *
      * @returns URL
      * @internal
      */
     private createUrl(): string {
-        const storageKey = 'gl-window-config-' + getUniqueId();
-        const config = ResolvedLayoutConfig.minifyConfig(this._config);
-
-        try {
-            localStorage.setItem(storageKey, JSON.stringify(config));
-        } catch (e) {
-            throw new Error('Error while writing to localStorage ' + getErrorMessage(e));
-        }
-
-        const url = new URL('/gl-popout', location.origin);
-        url.searchParams.set('gl-window', storageKey);
+        const url = new URL(this._layoutManager.layoutConfig.settings.popoutUrl, location.href);
+        url.searchParams.set('gl-window', this._configKey);
+        url.searchParams.set('gl-opener-origin', location.origin);
 
         const theme = this._layoutManager.container.dataset.theme;
         if (theme !== undefined) {
@@ -373,15 +489,51 @@ export class BrowserPopout extends EventEmitter {
      */
     private onInitialised(): void {
         this._isInitialised = true;
-        this.getGlInstance().on('popIn', () => this.popIn());
         this.emit('initialised');
     }
 
+    /**
+     * Writes the minified config to localStorage for popout windows which cannot reach their opener with postMessage.
+     * Failures (for example, from quotas) are ignored as the handshake does not need it.
+     * @internal
+     */
+    private storeFallbackConfig() {
+        try {
+            localStorage.setItem(this._configKey, JSON.stringify(ResolvedLayoutConfig.minifyConfig(this._config)));
+            this._fallbackConfigStored = true;
+        } catch (e) {
+            this._fallbackConfigStored = false;
+        }
+    }
+
+    /** @internal */
+    private removeFallbackConfig() {
+        if (this._fallbackConfigStored) {
+            this._fallbackConfigStored = false;
+            try {
+                localStorage.removeItem(this._configKey);
+            } catch (e) {
+                //
+            }
+        }
+    }
+
     /**
      * Invoked 50ms after the window unload event
      * @internal
      */
     private _onClose() {
+        if (this._channel !== undefined) {
+            this._channel.destroy();
+            this._channel = undefined;
+        }
+        this.removeFallbackConfig();
         setTimeout(() => this.emit('closed'), 50);
     }
 }
+
+/** @public */
+export namespace BrowserPopout {
+    /** @internal */
+    export const configKeyPrefix = 'gl-window-config-';
+}
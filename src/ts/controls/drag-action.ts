@@ -1,5 +1,6 @@
 import { DragProxy } from './drag-proxy';
 import { LayoutManager } from '../layout-manager';
+import { ResolvedComponentItemConfig } from '../config/resolved-config';
 import { UnexpectedNullError, UnexpectedUndefinedError } from '../errors/internal-error';
 import { EventEmitter } from '../utils/event-emitter';
 import { ContentItem } from '../items/content-item';
@@ -38,6 +39,10 @@ export class DragAction extends EventEmitter {
     private _dragListener: DragListener | null = null;
     private _boundingRect: DOMRect;
     private _actions: DragAction[] = [];
+    /** Windows which take part in the drag through messages.  Only used by primary actions */
+    private _remotes: DragAction.Remote[] = [];
+    private _remoteTarget: DragAction.Remote | null = null;
+    private _overRejectedArea = false;
 
     private readonly _dragEventHandler = (_offsetX: number, _offsetY: number, event: EventEmitter.DragEvent) => this.onDrag(event);
     private readonly _dragStopEventHandler = () => this.onDragStop();
@@ -45,14 +50,22 @@ export class DragAction extends EventEmitter {
     get layoutManager(): LayoutManager { return this._layoutManager; }
     get parent(): DragAction | null { return this._parent; }
     get proxy(): DragProxy | null { return this._dragProxy; }
+    /** Whether the drag started in this action's window */
+    get isPrimary(): boolean { return this._parent === null && this._remoteItem === null; }
+    /** The window which reported the current drop target if it is not in this page */
+    get remoteTarget(): DragAction.Remote | null { return this.parentOrSelf._remoteTarget; }
     private get parentOrSelf(): DragAction { return this._parent ?? this; }
     get currentTarget(): DragTarget | null { return this.parentOrSelf._currentTarget; }
     private set currentTarget(value : DragTarget | null) { this.parentOrSelf._currentTarget = value; }
+    /** Whether there is no drop target because the drag is over an area the item cannot be dropped onto */
+    get isOverRejectedArea(): boolean { return this.parentOrSelf._overRejectedArea; }
 
     private constructor(
         private readonly _layoutManager: LayoutManager,
-        private readonly _allowPopout: boolean = false,
-        private readonly _parent: DragAction | null = null
+        private readonly _allowDropOutside: boolean = false,
+        private readonly _parent: DragAction | null = null,
+        /** The dragged item if the drag started in another window */
+        private readonly _remoteItem: DragAction.RemoteItem | null = null,
     ) {
         super();
         this._boundingRect = this.computeBoundingRect();
@@ -82,7 +95,7 @@ export class DragAction extends EventEmitter {
         };
     }
 
-    private isProxyVisible(proxy: DragProxy, pageX : number, pageY: number) {
+    private isProxyVisible(proxy: DragAction.ProxySize, pageX : number, pageY: number) {
         return (
             pageX >= this._boundingRect.left - proxy.outerWidth &&
             pageX < this._boundingRect.right &&
@@ -105,7 +118,7 @@ export class DragAction extends EventEmitter {
     }
 
     private dragGlobal(screenX: number, screenY: number): DragTarget | null {
-        const source = this._parent?._dragProxy;
+        const source = this._remoteItem ?? this._parent?._dragProxy;
         if (!source) {
             throw new UnexpectedNullError('DADG1');
         }
@@ -121,7 +134,7 @@ export class DragAction extends EventEmitter {
                     throw new UnexpectedUndefinedError('DADG2');
                 }
                 
-                const config = source.componentItem.toConfig();
+                const config = (source instanceof DragProxy) ? source.componentItem.toConfig() : source.itemConfig;
                 const dragItem = new ComponentItem(this.layoutManager, config, parent);
                 this.createProxy(dragItem, pageX, pageY);
             }
@@ -136,6 +149,10 @@ export class DragAction extends EventEmitter {
     }
 
     private onDragStop() {
+        for (const remote of this._remotes) {
+            remote.postDragStop(remote === this._remoteTarget);
+        }
+
         for (const action of this._actions) {
             action.layoutManager.hideDropTargetIndicator();
             action._dragProxy?.drop();
@@ -146,6 +163,9 @@ export class DragAction extends EventEmitter {
         this._dragListener?.off('dragStop', this._dragStopEventHandler);
         this._dragListener = null;
         this._currentTarget = null;
+        this._remotes = [];
+        this._remoteTarget = null;
+        this._overRejectedArea = false;
     }
 
     private onDrag(event: EventEmitter.DragEvent) {
@@ -170,9 +190,27 @@ export class DragAction extends EventEmitter {
             }
         }
 
-        if (target !== null || this._allowPopout) {
-            // If we already have a drop area but it is in a different window, hide the indicator.
-            if (this.currentTarget !== null && this.currentTarget.owner !== target?.owner) {
+        // Windows which take part through messages report their targets asynchronously (for the previous position).
+        // Like popout windows, they are prioritized over a target in this window.
+        const remoteTarget = this.dragRemotes(event.screenX, event.screenY);
+
+        // Over a rejected area the previous target is dropped, as if the item was dragged outside
+        const overRejectedArea = target === null && this._actions.some((action) => action._dragProxy?.isOverRejectedArea === true);
+
+        if (remoteTarget !== null) {
+            if (this.currentTarget !== null) {
+                this.currentTarget.owner.layoutManager.hideDropTargetIndicator();
+            }
+
+            this.currentTarget = null;
+            this._remoteTarget = remoteTarget;
+            this._overRejectedArea = false;
+        } else if (target !== null || this._allowDropOutside || overRejectedArea) {
+            // If we already have a drop area but it is in a different window, hide the indicator (unless it now
+            // indicates a rejected area).
+            if (this.currentTarget !== null && this.currentTarget.owner !== target?.owner &&
+                this.currentTarget.owner._dragProxy?.isOverRejectedArea !== true
+            ) {
                 this.currentTarget.owner.layoutManager.hideDropTargetIndicator();
             }
 
@@ -187,7 +225,72 @@ export class DragAction extends EventEmitter {
             }
 
             this.currentTarget = target;
+            this._remoteTarget = null;
+            this._overRejectedArea = overRejectedArea;
+        }
+    }
+
+    /**
+     * Sends the drag position to the windows which take part through messages
+     * @returns the first of these windows which reported a drop target
+     */
+    private dragRemotes(screenX: number, screenY: number): DragAction.Remote | null {
+        let result: DragAction.Remote | null = null;
+        for (const remote of this._remotes) {
+            remote.postDragMove(screenX, screenY);
+            if (result === null && remote.dragTargetReported) {
+                result = remote;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Lets another window take part in the drag through messages
+     * @internal
+     */
+    addRemote(remote: DragAction.Remote): void {
+        if (this._dragProxy === null) {
+            throw new UnexpectedNullError('DAAR11121');
+        } else {
+            const item: DragAction.RemoteItem = {
+                itemConfig: this._dragProxy.componentItem.toConfig(),
+                outerWidth: this._dragProxy.outerWidth,
+                outerHeight: this._dragProxy.outerHeight,
+            };
+            this._remotes.push(remote);
+            remote.postDragStart(item);
+        }
+    }
+
+    /**
+     * Handles a drag position received from the window where the drag started
+     * @returns whether this window has a drop target at the position
+     * @internal
+     */
+    dragFromRemote(screenX: number, screenY: number): boolean {
+        const target = this.dragGlobal(screenX, screenY);
+        if (target !== null) {
+            target.highlightDropZone();
+            this._layoutManager.moveWindowTop();
+            this._currentTarget = target;
+        } else {
+            if (this._dragProxy?.isOverRejectedArea !== true) {
+                this._layoutManager.hideDropTargetIndicator();
+            }
         }
+        return target !== null;
+    }
+
+    /**
+     * Ends a drag started in another window.  The item is only dropped if the other window selected this window's target.
+     * @internal
+     */
+    stopFromRemote(drop: boolean): void {
+        if (!drop) {
+            this._currentTarget = null;
+        }
+        this.onDragStop();
     }
 
     // Spawn a secondary drag action, the proxy element is only created when the pointer enters its window.
@@ -199,13 +302,40 @@ export class DragAction extends EventEmitter {
         return new DragAction(layoutManager, false, parent);
     }
 
+    // Start a secondary drag action for a drag which started in another window.  Positions are received with messages.
+    static startFromRemote(layoutManager: LayoutManager, item: DragAction.RemoteItem): DragAction {
+        return new DragAction(layoutManager, false, null, item);
+    }
+
     // Start a drag action, immediately showing a proxy element.
-    static start(layoutManager: LayoutManager, listener: DragListener, item: ComponentItem, x: number, y: number, allowPopout: boolean): DragAction {            
-        const action = new DragAction(layoutManager, allowPopout);
+    static start(layoutManager: LayoutManager, listener: DragListener, item: ComponentItem, x: number, y: number, allowDropOutside: boolean): DragAction {            
+        const action = new DragAction(layoutManager, allowDropOutside);
         action.createProxy(item, x, y);
         action._dragListener = listener;
         listener.on('drag', action._dragEventHandler);
         listener.on('dragStop', action._dragStopEventHandler);
         return action;
     }
-}
\ No newline at end of file
+}
+
+/** @internal */
+export namespace DragAction {
+    export interface ProxySize {
+        readonly outerWidth: number;
+        readonly outerHeight: number;
+    }
+
+    /** Serialisable description of the item dragged in another window */
+    export interface RemoteItem extends ProxySize {
+        readonly itemConfig: ResolvedComponentItemConfig;
+    }
+
+    /** A window which takes part in a drag through messages, for example a popout window on another origin */
+    export interface Remote {
+        /** Whether the window reported a drop target in response to the last drag position it received */
+        readonly dragTargetReported: boolean;
+        postDragStart(item: RemoteItem): void;
+        postDragMove(screenX: number, screenY: number): void;
+        postDragStop(drop: boolean): void;
+    }
+}
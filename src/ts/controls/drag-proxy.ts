@@ -1,4 +1,4 @@
-import { ResolvedPopoutLayoutConfig } from '../config/resolved-config';
+import { ResolvedHeaderedItemConfig, ResolvedPopoutLayoutConfig, ResolvedStackItemConfig } from '../config/resolved-config';
 import { UnexpectedNullError, UnexpectedUndefinedError } from '../errors/internal-error';
 import { ComponentItem } from '../items/component-item';
 import { ContentItem } from '../items/content-item';
@@ -29,14 +29,20 @@ export class DragProxy extends EventEmitter {
     private _componentItemFocused: boolean;
     private readonly _originalSize: WidthAndHeight;
     private readonly _dockPoint: ContentItem.DockPoint | null;
+    /** Where the component was before the drag.  It is returned there if its drop is prevented */
+    private readonly _originalParent: ContentItem;
+    private readonly _originalIndex: number;
     private readonly _groundArea: ContentItem.Area;
     private _lastArea: ContentItem.Area | null = null;
+    private _overRejectedArea = false;
 
     get element(): HTMLElement { return this._element; }
     get outerWidth(): number { return this._outerWidth; }
     get outerHeight(): number { return this._outerHeight; }
     get componentItem(): ComponentItem { return this._componentItem; }
     get layoutManager(): LayoutManager { return this._action.layoutManager; }
+    /** Whether the proxy is over an area the component cannot be dropped onto */
+    get isOverRejectedArea(): boolean { return this._overRejectedArea; }
 
     /**
      * @param x - The initial x position
@@ -69,12 +75,17 @@ export class DragProxy extends EventEmitter {
             throw new UnexpectedNullError('DPC10097');
         }
 
+        // The history group is ended in drop() so the whole drag and drop is undone as one step
+        this.layoutManager.beginHistoryGroup();
+
         this._componentItemFocused = this._componentItem.focused;
         if (this._componentItemFocused) {
             this._componentItem.blur();
         }
 
         this._dockPoint = this._componentItem.findDockPoint();
+        this._originalParent = this._componentItem.parent;
+        this._originalIndex = this._componentItem.parent.contentItems.indexOf(this._componentItem);
 
         if (this._componentItem.parent.contentItems.includes(this._componentItem)) {
             this._componentItem.parent.removeChild(this._componentItem, true);
@@ -89,7 +100,7 @@ export class DragProxy extends EventEmitter {
         }
 
         this._groundArea = this.layoutManager.groundItem.getElementArea();
-        this.layoutManager.calculateItemAreas();
+        this.layoutManager.calculateItemAreas(this._componentItem, this._originalParent);
         this.setDropPosition(x, y);
     }
 
@@ -134,14 +145,27 @@ export class DragProxy extends EventEmitter {
     /**
      * Callback on every mouseMove event during a drag. Determines if the drag is
      * still within the valid drag area and calls the layoutManager to highlight the
-     * current drop area
+     * current drop area.  Areas the component cannot be dropped onto are indicated as rejected and not returned.
      *
      * @internal
      */
     drag(x: number, y: number): ContentItem.Area | null {
         const area = this.setDropPosition(x, y);
         this._componentItem.drag();
-        return area;
+        if (area !== null && area.rejected === true) {
+            this._overRejectedArea = true;
+            this.layoutManager.tabDropPlaceholder.remove();
+            this.layoutManager.dropTargetIndicator?.highlightRejectedArea(area, 1);
+            return null;
+        } else {
+            if (this._overRejectedArea) {
+                this._overRejectedArea = false;
+                if (area === null) {
+                    this.layoutManager.hideDropTargetIndicator();
+                }
+            }
+            return area;
+        }
     }
 
     /**
@@ -187,32 +211,33 @@ export class DragProxy extends EventEmitter {
         * Valid drop area found
         */
         if (area !== null) {
-            droppedComponentItem = this._componentItem;
             const newParentContentItem = area.contentItem;
-            newParentContentItem.onDrop(droppedComponentItem, area);
-            this.layoutManager.focusWindow();
+            const event = new EventEmitter.BeforeDropBubblingEvent('beforeDrop', this._componentItem, newParentContentItem);
+            this._componentItem.emit('beforeDrop', event);
+            if (event.isDefaultPrevented) {
+                droppedComponentItem = this.returnToOrigin();
+            } else {
+                droppedComponentItem = this._componentItem;
+                newParentContentItem.onDrop(droppedComponentItem, area);
+                this.layoutManager.focusWindow();
+            }
 
         /**
-         * No valid drop area found during the duration of the drag.
-         * Create a popout.
+         * No valid drop area found during the duration of the drag (in any window).
+         * If it was dropped onto a rejected area, put it back.  Otherwise create a floating item or a popout.
          */
-        } else if (target === null && this._action.parent === null) {
-            const innerScreen = getWindowInnerScreenPosition(globalThis);
-
-            const window : ResolvedPopoutLayoutConfig.Window = {
-                left: innerScreen.left + this.element.offsetLeft,
-                top: innerScreen.top + this.element.offsetTop,
-                width: this._originalSize.width,
-                height: this._originalSize.height
+        } else if (target === null && this._action.isPrimary && this._action.remoteTarget === null) {
+            if (this._action.isOverRejectedArea) {
+                droppedComponentItem = this.returnToOrigin();
+            } else {
+                droppedComponentItem = this.dropOutsideTargets();
             }
 
-            this.layoutManager.createPopoutFromContentItem(this._componentItem, window, getUniqueId(), this._dockPoint);
-            this._componentItem.destroy();
-
         /**
          * The drag didn't ultimately end up with adding the content item to
-         * any container. In order to ensure clean up happens, destroy the
-         * content item.
+         * any container (or it was dropped in a window which takes part through
+         * messages and creates its own copy). In order to ensure clean up
+         * happens, destroy the content item.
          */
         } else {
             this._componentItem.destroy(); // contentItem children are now destroyed as well
@@ -225,6 +250,100 @@ export class DragProxy extends EventEmitter {
         }
 
         this._element.remove();
+
+        this.layoutManager.endHistoryGroup();
+    }
+
+    /**
+     * Creates a floating item or a popout for a component which was not dropped on a drop target.
+     * Components whose drop constraints do not allow popouts are always floated.
+     */
+    private dropOutsideTargets(): ComponentItem | null {
+        if (this.layoutManager.layoutConfig.settings.dragToFloatingItem || !this._componentItem.popoutEnabled) {
+            return this.createFloatingItem();
+        } else {
+            this.createPopout();
+            return null;
+        }
+    }
+
+    /**
+     * Puts the component back where the drag started after its drop was prevented.  If its stack was removed when the
+     * drag started, a new stack is created at the dock point.  If that is not possible either, the component is handled
+     * as if it was not dropped on a drop target.  Components created by a DragSource are discarded.
+     */
+    private returnToOrigin(): ComponentItem | null {
+        const componentItem = this._componentItem;
+        const originalParent = this._originalParent;
+        const dockPoint = this._dockPoint;
+        if (originalParent instanceof Stack && this.isInLayout(originalParent)) {
+            originalParent.addChild(componentItem, Math.min(this._originalIndex, originalParent.contentItems.length));
+            return componentItem;
+        } else if (originalParent.isGround && originalParent !== this.layoutManager.groundItem) {
+            // dummy GroundItem of a DragSource
+            componentItem.destroy();
+            return null;
+        } else {
+            if (dockPoint !== null && this.isInLayout(dockPoint.parent) && !dockPoint.parent.isStack &&
+                !(dockPoint.parent.isGround && dockPoint.parent.contentItems.length > 0)
+            ) {
+                const itemConfig = ResolvedStackItemConfig.createDefault();
+                itemConfig.header = ResolvedHeaderedItemConfig.Header.createCopy(componentItem.headerConfig);
+                const stack = this.layoutManager.createAndInitContentItem(itemConfig, dockPoint.parent);
+                stack.addChild(componentItem);
+                dockPoint.parent.addChild(stack, dockPoint.index ?? undefined);
+                return componentItem;
+            } else {
+                return this.dropOutsideTargets();
+            }
+        }
+    }
+
+    /** Whether the item has not been removed from the layout */
+    private isInLayout(item: ContentItem): boolean {
+        let child = item;
+        let parent = child.parent;
+        while (parent !== null && parent.contentItems.includes(child)) {
+            child = parent;
+            parent = child.parent;
+        }
+        const layoutManager = this.layoutManager;
+        return (child.isGround && child === layoutManager.groundItem) ||
+            (layoutManager.floatingItems as readonly ContentItem[]).includes(child) ||
+            (layoutManager.edgeDockItems as readonly ContentItem[]).includes(child);
+    }
+
+    /** Displays the dragged component in a new floating item where it was dropped */
+    private createFloatingItem(): ComponentItem {
+        const groundItem = this.layoutManager.groundItem;
+        if (groundItem === undefined) {
+            throw new UnexpectedUndefinedError('DPCFI10099');
+        } else {
+            const groundRect = groundItem.element.getBoundingClientRect();
+            const proxyRect = this._element.getBoundingClientRect();
+            const width = Math.min(this._originalSize.width, groundRect.width);
+            const height = Math.min(this._originalSize.height, groundRect.height);
+            // keep within the layout container
+            const left = Math.max(0, Math.min(proxyRect.left - groundRect.left, groundRect.width - width));
+            const top = Math.max(0, Math.min(proxyRect.top - groundRect.top, groundRect.height - height));
+            this.layoutManager.floatContentItem(this._componentItem, { left, top, width, height });
+            return this._componentItem;
+        }
+    }
+
+    /** Moves the dragged component into a new popout window where it was dropped */
+    private createPopout(): void {
+        const innerScreen = getWindowInnerScreenPosition(globalThis);
+
+        const window : ResolvedPopoutLayoutConfig.Window = {
+            left: innerScreen.left + this.element.offsetLeft,
+            top: innerScreen.top + this.element.offsetTop,
+            width: this._originalSize.width,
+            height: this._originalSize.height
+        }
+
+        this.layoutManager.createPopoutFromContentItem(this._componentItem, window, getUniqueId(), this._dockPoint);
+        this._componentItem.destroy();
     }
 
     /**
@@ -22,14 +22,25 @@ export class DropTargetIndicator {
     }
 
     highlightArea(area: AreaLinkedRect, margin: number): void {
+        this._element.classList.remove(DomConstants.ClassName.Rejected);
+        this.showArea(area, margin);
+    }
+
+    /** Indicates an area the dragged item cannot be dropped onto */
+    highlightRejectedArea(area: AreaLinkedRect, margin: number): void {
+        this._element.classList.add(DomConstants.ClassName.Rejected);
+        this.showArea(area, margin);
+    }
+
+    hide(): void {
+        this._element.style.visibility = 'hidden';
+    }
+
+    private showArea(area: AreaLinkedRect, margin: number): void {
         this._element.style.left = numberToPixels(area.x1 + margin);
         this._element.style.top = numberToPixels(area.y1 + margin);
         this._element.style.width = numberToPixels(area.x2 - area.x1 - margin - 1);
         this._element.style.height = numberToPixels(area.y2 - area.y1 - margin - 1);
         this._element.style.visibility = 'visible';
     }
-
-    hide(): void {
-        this._element.style.visibility = 'hidden';
-    }
 }
@@ -9,9 +9,11 @@ export class HeaderButton {
     get element(): HTMLElement { return this._element; }
 
     constructor(private _header: Header, label: string, cssClass: string, private _pushEvent: HeaderButton.PushEvent) {
-        this._element = document.createElement('div');
+        const buttonElement = document.createElement('button');
+        buttonElement.type = 'button';
+        this._element = buttonElement;
         this._element.classList.add(cssClass);
-        this._element.title = label;
+        this.setLabel(label);
         this._header.on('destroy', () => this.destroy());
         this._element.addEventListener('click', this._clickEventListener, { passive: true });
         this._element.addEventListener('touchstart', this._touchStartEventListener, { passive: true });
@@ -24,6 +26,12 @@ export class HeaderButton {
         this._element.parentNode?.removeChild(this._element);
     }
 
+    /** Sets both the tooltip and the name announced by screen readers */
+    setLabel(label: string): void {
+        this._element.title = label;
+        this._element.setAttribute('aria-label', label);
+    }
+
     private onClick(ev: MouseEvent) {
         this._pushEvent(ev);
     }
@@ -28,6 +28,20 @@ export class Header extends EventEmitter {
     /** @internal */
     private readonly _popoutLabel: string;
     /** @internal */
+    private readonly _floatEnabled: boolean;
+    /** @internal */
+    private readonly _floatLabel: string;
+    /** @internal */
+    private readonly _autoHideEnabled: boolean;
+    /** @internal */
+    private readonly _autoHideLabel: string;
+    /** @internal */
+    private readonly _collapseEnabled: boolean;
+    /** @internal */
+    private readonly _collapseLabel: string;
+    /** @internal */
+    private readonly _expandLabel: string;
+    /** @internal */
     private readonly _maximiseLabel: string;
     /** @internal */
     private readonly _minimiseLabel: string;
@@ -59,6 +73,12 @@ export class Header extends EventEmitter {
     /** @internal */
     private readonly _popoutButton: HeaderButton;
     /** @internal */
+    private readonly _floatButton: HeaderButton | undefined;
+    /** @internal */
+    private readonly _autoHideButton: HeaderButton | undefined;
+    /** @internal */
+    private readonly _collapseButton: HeaderButton | undefined;
+    /** @internal */
     private readonly _tabDropdownButton: HeaderButton;
     /** @internal */
     private readonly _maximiseButton: HeaderButton;
@@ -91,6 +111,12 @@ export class Header extends EventEmitter {
         /** @internal */
         private _popoutEvent: Header.PopoutEvent | undefined,
         /** @internal */
+        private _floatEvent: Header.FloatEvent | undefined,
+        /** @internal */
+        private _autoHideEvent: Header.AutoHideEvent | undefined,
+        /** @internal */
+        private _collapseToggleEvent: Header.CollapseToggleEvent | undefined,
+        /** @internal */
         private _maximiseToggleEvent: Header.MaximiseToggleEvent | undefined,
         /** @internal */
         private _clickEvent: Header.ClickEvent | undefined,
@@ -114,6 +140,13 @@ export class Header extends EventEmitter {
 
         this._show = settings.show;
         this._popoutLabel = settings.popoutLabel;
+        this._floatEnabled = settings.floatEnabled;
+        this._floatLabel = settings.floatLabel;
+        this._autoHideEnabled = settings.autoHideEnabled;
+        this._autoHideLabel = settings.autoHideLabel;
+        this._collapseEnabled = settings.collapseEnabled;
+        this._collapseLabel = settings.collapseLabel;
+        this._expandLabel = settings.expandLabel;
         this._maximiseLabel = settings.maximiseLabel;
         this._minimiseLabel = settings.minimiseLabel;
         this._closeLabel = settings.closeLabel;
@@ -145,6 +178,31 @@ export class Header extends EventEmitter {
 
         this._popoutButton = new HeaderButton(this, this._popoutLabel, DomConstants.ClassName.Popout, () => this.handleButtonPopoutEvent());
 
+        /**
+         * Float control - move the stack into a floating (in-page) window
+         */
+        if (this._floatEnabled) {
+            this._floatButton = new HeaderButton(this, this._floatLabel, DomConstants.ClassName.Float, () => this.handleButtonFloatEvent());
+        }
+
+        /**
+         * Auto-hide control - collapse the stack to a tab on an edge of the layout or pin it back into the layout
+         */
+        if (this._autoHideEnabled) {
+            this._autoHideButton = new HeaderButton(this, this._autoHideLabel, DomConstants.ClassName.AutoHide,
+                () => this.handleButtonAutoHideEvent()
+            );
+        }
+
+        /**
+         * Collapse control - shrink the stack to its header within its row or column or expand it again
+         */
+        if (this._collapseEnabled) {
+            this._collapseButton = new HeaderButton(this, this._collapseLabel, DomConstants.ClassName.Collapse,
+                () => this.handleButtonCollapseToggleEvent()
+            );
+        }
+
         /**
          * Maximise control - set the component to the full size of the layout
          */
@@ -170,6 +228,9 @@ export class Header extends EventEmitter {
         this.emit('destroy');
 
         this._popoutEvent = undefined;
+        this._floatEvent = undefined;
+        this._autoHideEvent = undefined;
+        this._collapseToggleEvent = undefined;
         this._maximiseToggleEvent = undefined;
         this._clickEvent = undefined;
         this._touchStartEvent = undefined;
@@ -208,10 +269,22 @@ export class Header extends EventEmitter {
         this.updateTabSizes();
     }
 
+    /** @internal */
+    processLockedChanged(): void {
+        this.updateButtons();
+    }
+
+    /** @internal */
+    processTabPinnedChanged(componentItem: ComponentItem): void {
+        this._tabsContainer.processTabPinnedChanged(componentItem);
+        this.updateTabSizes();
+    }
+
     /** @internal */
     setSide(value: Side): void {
         this._side = value;
         this._leftRightSided = [Side.right, Side.left].includes(this._side);
+        this._tabsContainer.setVerticalOrientation(this._leftRightSided);
     }
 
     /**
@@ -226,20 +299,44 @@ export class Header extends EventEmitter {
         // Close button is only visible if all items of the stack are closable
         // and the active component has its close button set to visible. Note that
         // hiding the close button in a header of an item is not equivalent to making
-        // that item unclosable.
-        const allClosable = this.tabs.every(tab => tab.componentItem.isClosable);
+        // that item unclosable.  Pinned tabs also hide it so that they are not closed with the stack by accident.
+        const allClosable = this.tabs.every(tab => tab.componentItem.isClosable && !tab.componentItem.pinned);
         const close = activeComponentItem?.headerConfig?.close !== false;
-        setElementDisplayVisibility(this._closeButton.element, allClosable && close);
+        // A locked stack cannot be closed, popped out or otherwise rearranged
+        const locked = this._parent.isLocked;
+        setElementDisplayVisibility(this._closeButton.element, allClosable && close && !locked);
         
-        // Popout button is visible if the active component has its popout button enabled.
+        // Popout button is visible if the active component has its popout button enabled and the drop constraints
+        // of what would be popped out allow it.
         // Also we want to prevent popping out if that would leave us with an empty layout.
         let popout = activeComponentItem?.headerConfig?.popout !== false;
         if (this._layoutManager.layoutConfig.settings.popoutWholeStack) {
+            popout &&= this._parent.popoutEnabled;
             popout &&= (!isLast || isMain);
         } else {
+            popout &&= activeComponentItem?.popoutEnabled !== false;
             popout &&= (!isLast || this.tabs.length > 1 || isMain);
         }
-        setElementDisplayVisibility(this._popoutButton.element, popout);
+        setElementDisplayVisibility(this._popoutButton.element, popout && !locked);
+
+        // Float button is hidden if the stack is already floating or floating it would leave a popout empty
+        if (this._floatButton !== undefined) {
+            const floating = this._parent.parent?.isFloating === true;
+            setElementDisplayVisibility(this._floatButton.element, !floating && (!isLast || isMain) && !locked);
+        }
+
+        // Auto-hide button pins an edge docked stack back into the layout.  Otherwise it is hidden for the same reasons as float
+        if (this._autoHideButton !== undefined) {
+            const parentItem = this._parent.parent;
+            const edgeDocked = parentItem?.isEdgeDock === true;
+            const floating = parentItem?.isFloating === true;
+            setElementDisplayVisibility(this._autoHideButton.element, (edgeDocked || (!floating && (!isLast || isMain))) && !locked);
+        }
+
+        // Collapse button is only visible if the stack has siblings in a row or column which it can be collapsed along
+        if (this._collapseButton !== undefined) {
+            setElementDisplayVisibility(this._collapseButton.element, (this._parent.isCollapsed || this._parent.collapsible) && !locked);
+        }
 
         // Maximize button is visible if the active component has its maximize button enabled or the stack is already maximized.
         // Also hide it if stack is the last item in the layout.
@@ -261,7 +358,7 @@ export class Header extends EventEmitter {
         if (this._maximiseButton === undefined) {
             throw new UnexpectedUndefinedError('HPMAX16997');
         } else {
-            this._maximiseButton.element.setAttribute('title', this._minimiseLabel);
+            this._maximiseButton.setLabel(this._minimiseLabel);
         }
     }
 
@@ -270,7 +367,21 @@ export class Header extends EventEmitter {
         if (this._maximiseButton === undefined) {
             throw new UnexpectedUndefinedError('HPMIN16997');
         } else {
-            this._maximiseButton.element.setAttribute('title', this._maximiseLabel);
+            this._maximiseButton.setLabel(this._maximiseLabel);
+        }
+    }
+
+    /** @internal */
+    processCollapsed(): void {
+        if (this._collapseButton !== undefined) {
+            this._collapseButton.setLabel(this._expandLabel);
+        }
+    }
+
+    /** @internal */
+    processExpanded(): void {
+        if (this._collapseButton !== undefined) {
+            this._collapseButton.setLabel(this._collapseLabel);
         }
     }
 
@@ -345,12 +456,39 @@ export class Header extends EventEmitter {
         } else {
             const activeComponentItem = this._getActiveComponentItemEvent();
             if (activeComponentItem) {
-                activeComponentItem.popout();
+                activeComponentItem.tryPopout();
             }
             // else: if the stack is empty there won't be an active item (and nothing to popout)
         }
     }
 
+    /** @internal */
+    private handleButtonFloatEvent() {
+        if (this._floatEvent === undefined) {
+            throw new UnexpectedUndefinedError('HHBFE17835');
+        } else {
+            this._floatEvent();
+        }
+    }
+
+    /** @internal */
+    private handleButtonAutoHideEvent() {
+        if (this._autoHideEvent === undefined) {
+            throw new UnexpectedUndefinedError('HHBAHE17836');
+        } else {
+            this._autoHideEvent();
+        }
+    }
+
+    /** @internal */
+    private handleButtonCollapseToggleEvent() {
+        if (this._collapseToggleEvent === undefined) {
+            throw new UnexpectedUndefinedError('HHBCTE17837');
+        } else {
+            this._collapseToggleEvent();
+        }
+    }
+
     /** @internal */
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     private handleButtonMaximiseToggleEvent(ev: Event) {
@@ -414,6 +552,12 @@ export namespace Header {
     /** @internal */
     export type PopoutEvent = (this: void) => void;
     /** @internal */
+    export type FloatEvent = (this: void) => void;
+    /** @internal */
+    export type AutoHideEvent = (this: void) => void;
+    /** @internal */
+    export type CollapseToggleEvent = (this: void) => void;
+    /** @internal */
     export type MaximiseToggleEvent = (this: void) => void;
     /** @internal */
     export type ClickEvent = (this: void, ev: MouseEvent) => void;
@@ -434,6 +578,13 @@ export namespace Header {
         side: Side;
         popoutEnabled: boolean;
         popoutLabel: string;
+        floatEnabled: boolean;
+        floatLabel: string;
+        autoHideEnabled: boolean;
+        autoHideLabel: string;
+        collapseEnabled: boolean;
+        collapseLabel: string;
+        expandLabel: string;
         maximiseEnabled: boolean;
         maximiseLabel: string;
         minimiseEnabled: boolean;
@@ -0,0 +1,356 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { UnexpectedUndefinedError, UnreachableCaseError } from '../errors/internal-error';
+import { ComponentItem } from '../items/component-item';
+import { ContentItem } from '../items/content-item';
+import { Stack } from '../items/stack';
+import { LayoutManager } from '../layout-manager';
+
+/**
+ * Listens for key presses within the layout container and performs the actions configured in
+ * {@link (LayoutConfig:namespace).(Settings:interface).keyBindings}
+ * @internal
+ */
+export class KeyboardHandler {
+    private _parsedKeyBindings: ResolvedLayoutConfig.KeyBindings | undefined;
+    private _keyCombinations: KeyboardHandler.KeyCombination[] = [];
+
+    private _keyDownListener = (ev: KeyboardEvent) => this.onKeyDown(ev);
+
+    constructor(private _layoutManager: LayoutManager, private _element: HTMLElement) {
+        this._element.addEventListener('keydown', this._keyDownListener);
+    }
+
+    destroy(): void {
+        this._element.removeEventListener('keydown', this._keyDownListener);
+    }
+
+    /** Returns true if the action could be carried out */
+    executeAction(action: ResolvedLayoutConfig.KeyBindings.Action, componentItem: ComponentItem): boolean {
+        const stack = componentItem.parentItem;
+        if (!ContentItem.isStack(stack)) {
+            return false;
+        } else {
+            switch (action) {
+                case 'focusLeft': return this.focusNeighbour(stack, KeyboardHandler.Direction.left);
+                case 'focusRight': return this.focusNeighbour(stack, KeyboardHandler.Direction.right);
+                case 'focusUp': return this.focusNeighbour(stack, KeyboardHandler.Direction.up);
+                case 'focusDown': return this.focusNeighbour(stack, KeyboardHandler.Direction.down);
+                case 'nextTab': return this.activateSiblingTab(stack, componentItem, 1);
+                case 'previousTab': return this.activateSiblingTab(stack, componentItem, -1);
+                case 'closeTab': return this.closeTab(stack, componentItem);
+                case 'toggleMaximise': return this.toggleMaximise(stack);
+                case 'moveLeft': return this.moveToNeighbour(stack, componentItem, KeyboardHandler.Direction.left);
+                case 'moveRight': return this.moveToNeighbour(stack, componentItem, KeyboardHandler.Direction.right);
+                case 'moveUp': return this.moveToNeighbour(stack, componentItem, KeyboardHandler.Direction.up);
+                case 'moveDown': return this.moveToNeighbour(stack, componentItem, KeyboardHandler.Direction.down);
+                default:
+                    throw new UnreachableCaseError('KHEA30381', action);
+            }
+        }
+    }
+
+    private onKeyDown(ev: KeyboardEvent) {
+        if (!ev.defaultPrevented) {
+            const action = this.findAction(ev);
+            if (action !== undefined) {
+                const componentItem = this.getTargetComponentItem(ev);
+                if (componentItem !== undefined && this.executeAction(action, componentItem)) {
+                    ev.preventDefault();
+                    ev.stopPropagation();
+                }
+            }
+        }
+    }
+
+    private findAction(ev: KeyboardEvent) {
+        const keyBindings = this._layoutManager.layoutConfig.settings.keyBindings;
+        if (keyBindings !== this._parsedKeyBindings) {
+            this._keyCombinations = KeyboardHandler.parseKeyBindings(keyBindings);
+            this._parsedKeyBindings = keyBindings;
+        }
+
+        const keyCombination = this._keyCombinations.find((combination) => KeyboardHandler.isKeyCombinationPressed(combination, ev));
+        return keyCombination?.action;
+    }
+
+    /** The focused component or, if no component is focused, the active component of the stack containing the event target */
+    private getTargetComponentItem(ev: KeyboardEvent) {
+        const focusedComponentItem = this._layoutManager.focusedComponentItem;
+        if (focusedComponentItem !== undefined) {
+            return focusedComponentItem;
+        } else {
+            const target = ev.target;
+            if (!(target instanceof Node)) {
+                return undefined;
+            } else {
+                const stack = this.getVisibleStacks().find((stack) => stack.element.contains(target));
+                return stack?.getActiveComponentItem();
+            }
+        }
+    }
+
+    private focusNeighbour(stack: Stack, direction: KeyboardHandler.Direction) {
+        const neighbour = this.findNeighbourStack(stack, direction);
+        const neighbourComponentItem = neighbour?.getActiveComponentItem();
+        if (neighbourComponentItem === undefined) {
+            return false;
+        } else {
+            this._layoutManager.focusComponent(neighbourComponentItem);
+            return true;
+        }
+    }
+
+    private activateSiblingTab(stack: Stack, componentItem: ComponentItem, offset: number) {
+        const contentItems = stack.contentItems;
+        const count = contentItems.length;
+        if (count <= 1) {
+            return false;
+        } else {
+            const index = contentItems.indexOf(componentItem);
+            const siblingIndex = (index + offset + count) % count;
+            stack.setActiveComponentItem(contentItems[siblingIndex] as ComponentItem, true);
+            return true;
+        }
+    }
+
+    private closeTab(stack: Stack, componentItem: ComponentItem) {
+        if (!componentItem.isClosable || componentItem.pinned || componentItem.isLocked) {
+            return false;
+        } else {
+            componentItem.container.close();
+            // keep focus within the stack so that repeated presses close its remaining tabs
+            if (stack.parent !== null) {
+                stack.focusActiveContentItem();
+            }
+            return true;
+        }
+    }
+
+    private toggleMaximise(stack: Stack) {
+        if (!stack.maximiseEnabled) {
+            return false;
+        } else {
+            stack.toggleMaximise();
+            return true;
+        }
+    }
+
+    private moveToNeighbour(stack: Stack, componentItem: ComponentItem, direction: KeyboardHandler.Direction) {
+        if (!this._layoutManager.layoutConfig.settings.reorderEnabled || !componentItem.reorderEnabled || componentItem.isLocked) {
+            return false;
+        } else {
+            const neighbour = this.findNeighbourStack(stack, direction);
+            if (neighbour === undefined) {
+                return false;
+            } else {
+                this._layoutManager.beginHistoryGroup();
+                try {
+                    stack.removeChild(componentItem, true);
+                    neighbour.addChild(componentItem, undefined, true);
+                } finally {
+                    this._layoutManager.endHistoryGroup();
+                }
+                return true;
+            }
+        }
+    }
+
+    /**
+     * Finds the stack nearest to the given stack in the given direction.  Stacks which overlap the given stack in the
+     * perpendicular axis are preferred.
+     */
+    private findNeighbourStack(stack: Stack, direction: KeyboardHandler.Direction) {
+        const rect = stack.element.getBoundingClientRect();
+        let neighbour: Stack | undefined;
+        let neighbourScore: KeyboardHandler.NeighbourScore | undefined;
+        for (const candidate of this.getVisibleStacks()) {
+            if (candidate !== stack) {
+                const score = KeyboardHandler.calculateNeighbourScore(rect, candidate.element.getBoundingClientRect(), direction);
+                if (score !== undefined && (neighbourScore === undefined || KeyboardHandler.isScoreBetter(score, neighbourScore))) {
+                    neighbour = candidate;
+                    neighbourScore = score;
+                }
+            }
+        }
+        return neighbour;
+    }
+
+    private getVisibleStacks() {
+        const groundItem = this._layoutManager.groundItem;
+        if (groundItem === undefined) {
+            throw new UnexpectedUndefinedError('KHGVS50812');
+        } else {
+            const stacks = groundItem.getAllContentItems().filter((item): item is Stack => ContentItem.isStack(item));
+            const maximisedStack = this._layoutManager.maximisedStack;
+            if (maximisedStack !== undefined) {
+                return stacks.filter((stack) => stack === maximisedStack);
+            } else {
+                return stacks;
+            }
+        }
+    }
+}
+
+/** @internal */
+export namespace KeyboardHandler {
+    export const enum Direction {
+        left,
+        right,
+        up,
+        down,
+    }
+
+    export interface KeyCombination {
+        action: ResolvedLayoutConfig.KeyBindings.Action;
+        key: string;
+        ctrlKey: boolean;
+        altKey: boolean;
+        shiftKey: boolean;
+        metaKey: boolean;
+    }
+
+    export interface NeighbourScore {
+        overlapping: boolean;
+        distance: number;
+        offset: number;
+    }
+
+    /** Key combinations which cannot be parsed are ignored */
+    export function parseKeyBindings(keyBindings: ResolvedLayoutConfig.KeyBindings): KeyCombination[] {
+        const result: KeyCombination[] = [];
+        for (const action of ResolvedLayoutConfig.KeyBindings.actions) {
+            for (const text of keyBindings[action]) {
+                const keyCombination = parseKeyCombination(action, text);
+                if (keyCombination !== undefined) {
+                    result.push(keyCombination);
+                }
+            }
+        }
+        return result;
+    }
+
+    export function parseKeyCombination(action: ResolvedLayoutConfig.KeyBindings.Action, text: string): KeyCombination | undefined {
+        const parts = text.split('+');
+        let key = parts.pop();
+        if (key === '' && parts.length > 0 && parts[parts.length - 1] === '') {
+            // combination ends with '++' so key is '+'
+            parts.pop();
+            key = '+';
+        }
+        if (key === undefined || key === '') {
+            return undefined;
+        } else {
+            const result: KeyCombination = {
+                action,
+                key: key.toLowerCase(),
+                ctrlKey: false,
+                altKey: false,
+                shiftKey: false,
+                metaKey: false,
+            };
+            for (const modifier of parts) {
+                switch (modifier.trim().toLowerCase()) {
+                    case 'ctrl':
+                    case 'control':
+                        result.ctrlKey = true;
+                        break;
+                    case 'alt':
+                        result.altKey = true;
+                        break;
+                    case 'shift':
+                        result.shiftKey = true;
+                        break;
+                    case 'meta':
+                    case 'cmd':
+                        result.metaKey = true;
+                        break;
+                    default:
+                        return undefined;
+                }
+            }
+            return result;
+        }
+    }
+
+    export function isKeyCombinationPressed(keyCombination: KeyCombination, ev: KeyboardEvent): boolean {
+        return ev.ctrlKey === keyCombination.ctrlKey &&
+            ev.altKey === keyCombination.altKey &&
+            ev.shiftKey === keyCombination.shiftKey &&
+            ev.metaKey === keyCombination.metaKey &&
+            isKeyPressed(keyCombination.key, ev);
+    }
+
+    function isKeyPressed(key: string, ev: KeyboardEvent) {
+        if (ev.key.toLowerCase() === key) {
+            return true;
+        } else {
+            // Modifiers (especially Alt on macOS) can change the character generated by a letter or digit key
+            if (key.length === 1) {
+                if (key >= 'a' && key <= 'z') {
+                    return ev.code === 'Key' + key.toUpperCase();
+                } else {
+                    if (key >= '0' && key <= '9') {
+                        return ev.code === 'Digit' + key;
+                    } else {
+                        return false;
+                    }
+                }
+            } else {
+                return false;
+            }
+        }
+    }
+
+    /** Returns undefined if candidate is not in direction from rect */
+    export function calculateNeighbourScore(rect: DOMRect, candidate: DOMRect, direction: Direction): NeighbourScore | undefined {
+        let distance: number;
+        let overlap: number;
+        let offset: number;
+        switch (direction) {
+            case Direction.left:
+                distance = rect.left - candidate.right;
+                break;
+            case Direction.right:
+                distance = candidate.left - rect.right;
+                break;
+            case Direction.up:
+                distance = rect.top - candidate.bottom;
+                break;
+            case Direction.down:
+                distance = candidate.top - rect.bottom;
+                break;
+            default:
+                throw new UnreachableCaseError('KHCNS50813', direction);
+        }
+        if (direction === Direction.left || direction === Direction.right) {
+            overlap = Math.min(rect.bottom, candidate.bottom) - Math.max(rect.top, candidate.top);
+            offset = Math.abs((rect.top + rect.bottom) - (candidate.top + candidate.bottom)) / 2;
+        } else {
+            overlap = Math.min(rect.right, candidate.right) - Math.max(rect.left, candidate.left);
+            offset = Math.abs((rect.left + rect.right) - (candidate.left + candidate.right)) / 2;
+        }
+
+        // allow for rounding of element positions
+        if (distance < -1) {
+            return undefined;
+        } else {
+            return {
+                overlapping: overlap > 0,
+                distance,
+                offset,
+            };
+        }
+    }
+
+    export function isScoreBetter(score: NeighbourScore, other: NeighbourScore): boolean {
+        if (score.overlapping !== other.overlapping) {
+            return score.overlapping;
+        } else {
+            if (score.distance !== other.distance) {
+                return score.distance < other.distance;
+            } else {
+                return score.offset < other.offset;
+            }
+        }
+    }
+}
@@ -0,0 +1,32 @@
+import { DomConstants } from '../utils/dom-constants';
+
+/**
+ * Visually hidden element which screen readers monitor so that layout changes (eg. maximising a stack) are announced
+ * @internal
+ */
+export class LiveRegion {
+    private _element: HTMLElement;
+
+    get element(): HTMLElement { return this._element; }
+
+    constructor(containerElement: HTMLElement) {
+        this._element = document.createElement('div');
+        this._element.classList.add(DomConstants.ClassName.LiveRegion);
+        this._element.setAttribute('role', 'status');
+        this._element.setAttribute('aria-live', 'polite');
+        this._element.setAttribute('aria-atomic', 'true');
+        containerElement.appendChild(this._element);
+    }
+
+    destroy(): void {
+        this._element.remove();
+    }
+
+    announce(message: string): void {
+        if (this._element.textContent === message) {
+            // screen readers only announce changes so make repeated messages differ
+            message += ' ';
+        }
+        this._element.textContent = message;
+    }
+}
@@ -0,0 +1,280 @@
+import { ResolvedLayoutConfig, ResolvedPopoutLayoutConfig } from '../config/resolved-config';
+import { UnreachableCaseError } from '../errors/internal-error';
+import { LayoutManager } from '../layout-manager';
+import { DragAction } from './drag-action';
+
+/**
+ * Connects a popout window and the window which opened it with postMessage.  Only serialisable messages are exchanged
+ * so the windows can be on different origins (or opaque origins in sandboxed iframes).
+ * Messages are only accepted from the other window and its expected origin, and only if they carry the popout's key.
+ * The channel takes part in drags between the windows: it relays the drag of the other window to a local DragAction
+ * and reports the drag targets found back.
+ * @internal
+ */
+export class PopoutChannel implements DragAction.Remote {
+    private _dragTargetReported = false;
+    /** DragAction for a drag started in the other window */
+    private _receivedDragAction: DragAction | null = null;
+    private _listening = false;
+    private _messageListener = (event: MessageEvent) => this.onMessage(event);
+
+    /** Whether the windows are on different origins.  If so, they cannot access each other's objects */
+    readonly crossOrigin: boolean;
+
+    get dragTargetReported(): boolean { return this._dragTargetReported; }
+
+    /**
+     * @param _targetWindow - The other window
+     * @param _targetOrigin - Origin of the other window.  'null' for an opaque origin
+     */
+    constructor(
+        private readonly _layoutManager: LayoutManager,
+        private readonly _targetWindow: Window,
+        private readonly _targetOrigin: string,
+        readonly key: string,
+        private readonly _messageEvent: PopoutChannel.MessageEvent,
+    ) {
+        this.crossOrigin = !PopoutChannel.isSameOrigin(_targetOrigin);
+    }
+
+    start(): void {
+        if (!this._listening) {
+            this._listening = true;
+            globalThis.addEventListener('message', this._messageListener, { passive: true });
+        }
+    }
+
+    destroy(): void {
+        if (this._listening) {
+            this._listening = false;
+            globalThis.removeEventListener('message', this._messageListener);
+        }
+        this.stopReceivedDrag(false);
+    }
+
+    postConfigRequest(): void {
+        this.post({ type: PopoutChannel.MessageType.configRequest, key: this.key });
+    }
+
+    postConfig(config: ResolvedPopoutLayoutConfig): void {
+        this.post({ type: PopoutChannel.MessageType.config, key: this.key, config });
+    }
+
+    postReady(layout: PopoutChannel.PopoutLayout): void {
+        this.post({ type: PopoutChannel.MessageType.ready, key: this.key, layout });
+    }
+
+    postLayout(layout: PopoutChannel.PopoutLayout): void {
+        this.post({ type: PopoutChannel.MessageType.layout, key: this.key, layout });
+    }
+
+    postPopIn(layout: PopoutChannel.PopoutLayout): void {
+        this.post({ type: PopoutChannel.MessageType.popIn, key: this.key, layout });
+    }
+
+    postClosing(layout: PopoutChannel.PopoutLayout): void {
+        this.post({ type: PopoutChannel.MessageType.closing, key: this.key, layout });
+    }
+
+    postClose(): void {
+        this.post({ type: PopoutChannel.MessageType.close, key: this.key });
+    }
+
+    postEventHubEvent(eventName: string, args: unknown[]): void {
+        this.post({ type: PopoutChannel.MessageType.eventHubEvent, key: this.key, eventName, args });
+    }
+
+    postDragStart(item: DragAction.RemoteItem): void {
+        this._dragTargetReported = false;
+        this.post({ type: PopoutChannel.MessageType.dragStart, key: this.key, item });
+    }
+
+    postDragMove(screenX: number, screenY: number): void {
+        this.post({ type: PopoutChannel.MessageType.dragMove, key: this.key, screenX, screenY });
+    }
+
+    postDragStop(drop: boolean): void {
+        this._dragTargetReported = false;
+        this.post({ type: PopoutChannel.MessageType.dragStop, key: this.key, drop });
+    }
+
+    private post(message: PopoutChannel.Message) {
+        // An opaque origin cannot be targeted.  The message can only be read by the window anyway.
+        const targetOrigin = this._targetOrigin === PopoutChannel.opaqueOrigin ? '*' : this._targetOrigin;
+        this._targetWindow.postMessage(message, targetOrigin);
+    }
+
+    private onMessage(event: MessageEvent) {
+        if (event.source === this._targetWindow && event.origin === this._targetOrigin) {
+            const message = event.data as PopoutChannel.Message;
+            if (PopoutChannel.isMessage(message) && message.key === this.key) {
+                switch (message.type) {
+                    case PopoutChannel.MessageType.dragStart:
+                        this.stopReceivedDrag(false);
+                        this._receivedDragAction = DragAction.startFromRemote(this._layoutManager, message.item);
+                        break;
+                    case PopoutChannel.MessageType.dragMove: {
+                        const action = this._receivedDragAction;
+                        if (action !== null) {
+                            const hasTarget = action.dragFromRemote(message.screenX, message.screenY);
+                            this.post({ type: PopoutChannel.MessageType.dragTarget, key: this.key, hasTarget });
+                        }
+                        break;
+                    }
+                    case PopoutChannel.MessageType.dragTarget:
+                        this._dragTargetReported = message.hasTarget;
+                        break;
+                    case PopoutChannel.MessageType.dragStop:
+                        this.stopReceivedDrag(message.drop);
+                        break;
+                    case PopoutChannel.MessageType.configRequest:
+                    case PopoutChannel.MessageType.config:
+                    case PopoutChannel.MessageType.ready:
+                    case PopoutChannel.MessageType.layout:
+                    case PopoutChannel.MessageType.popIn:
+                    case PopoutChannel.MessageType.closing:
+                    case PopoutChannel.MessageType.close:
+                    case PopoutChannel.MessageType.eventHubEvent:
+                        this._messageEvent(message);
+                        break;
+                    default:
+                        throw new UnreachableCaseError('PCOM50217', message);
+                }
+            }
+        }
+    }
+
+    private stopReceivedDrag(drop: boolean) {
+        const action = this._receivedDragAction;
+        if (action !== null) {
+            this._receivedDragAction = null;
+            action.stopFromRemote(drop);
+        }
+    }
+}
+
+/** @internal */
+export namespace PopoutChannel {
+    /** Receives the messages which are not handled by the channel itself */
+    export type MessageEvent = (this: void, message: WindowMessage) => void;
+
+    /** Origin of windows in sandboxed iframes (and popouts opened by them) */
+    export const opaqueOrigin = 'null';
+
+    export const enum MessageType {
+        /** Sent by the popout window to request its config */
+        configRequest = 'gl-popout-config-request',
+        /** Sent by the opening window in response to configRequest */
+        config = 'gl-popout-config',
+        /** Sent by the popout window once its layout is initialised */
+        ready = 'gl-popout-ready',
+        /** Sent by the popout window when its layout changes */
+        layout = 'gl-popout-layout',
+        /** Sent by the popout window when the user pops it back in */
+        popIn = 'gl-popout-pop-in',
+        /** Sent by the popout window when it is about to unload */
+        closing = 'gl-popout-closing',
+        /** Sent by the opening window to close the popout window */
+        close = 'gl-popout-close',
+        /** An EventHub event propagated between the windows (userBroadcast or a channel message) */
+        eventHubEvent = 'gl-popout-event-hub-event',
+        /** Sent by the window where a drag started to all other windows */
+        dragStart = 'gl-popout-drag-start',
+        dragMove = 'gl-popout-drag-move',
+        /** Sent in response to dragMove.  Reports whether the window has a drop target at the drag position */
+        dragTarget = 'gl-popout-drag-target',
+        /** Ends a drag.  Drop is only true for the window whose drop target was used */
+        dragStop = 'gl-popout-drag-stop',
+    }
+
+    const messageTypes: readonly string[] = [
+        MessageType.configRequest,
+        MessageType.config,
+        MessageType.ready,
+        MessageType.layout,
+        MessageType.popIn,
+        MessageType.closing,
+        MessageType.close,
+        MessageType.eventHubEvent,
+        MessageType.dragStart,
+        MessageType.dragMove,
+        MessageType.dragTarget,
+        MessageType.dragStop,
+    ];
+
+    /** The layout of a popout window as seen by the opening window */
+    export interface PopoutLayout {
+        readonly config: ResolvedLayoutConfig;
+        readonly window: ResolvedPopoutLayoutConfig.Window;
+    }
+
+    export interface KeyMessage<T extends MessageType> {
+        readonly type: T;
+        /** Identifies the popout window */
+        readonly key: string;
+    }
+
+    export interface ConfigMessage extends KeyMessage<MessageType.config> {
+        readonly config: ResolvedPopoutLayoutConfig;
+    }
+
+    export interface LayoutMessage<T extends MessageType.ready | MessageType.layout | MessageType.popIn | MessageType.closing>
+        extends KeyMessage<T>
+    {
+        readonly layout: PopoutLayout;
+    }
+
+    export interface EventHubEventMessage extends KeyMessage<MessageType.eventHubEvent> {
+        readonly eventName: string;
+        readonly args: unknown[];
+    }
+
+    export interface DragStartMessage extends KeyMessage<MessageType.dragStart> {
+        readonly item: DragAction.RemoteItem;
+    }
+
+    export interface DragMoveMessage extends KeyMessage<MessageType.dragMove> {
+        readonly screenX: number;
+        readonly screenY: number;
+    }
+
+    export interface DragTargetMessage extends KeyMessage<MessageType.dragTarget> {
+        readonly hasTarget: boolean;
+    }
+
+    export interface DragStopMessage extends KeyMessage<MessageType.dragStop> {
+        readonly drop: boolean;
+    }
+
+    export type WindowMessage =
+        KeyMessage<MessageType.configRequest> |
+        ConfigMessage |
+        LayoutMessage<MessageType.ready> |
+        LayoutMessage<MessageType.layout> |
+        LayoutMessage<MessageType.popIn> |
+        LayoutMessage<MessageType.closing> |
+        KeyMessage<MessageType.close> |
+        EventHubEventMessage;
+
+    export type DragMessage =
+        DragStartMessage |
+        DragMoveMessage |
+        DragTargetMessage |
+        DragStopMessage;
+
+    export type Message = WindowMessage | DragMessage;
+
+    export function isMessage(data: unknown): data is Message {
+        if (typeof data !== 'object' || data === null) {
+            return false;
+        } else {
+            const message = data as Partial<KeyMessage<MessageType>>;
+            return typeof message.key === 'string' && typeof message.type === 'string' && messageTypes.includes(message.type);
+        }
+    }
+
+    /** Whether a window with the origin can access the objects of this window */
+    export function isSameOrigin(origin: string): boolean {
+        return origin !== opaqueOrigin && origin === globalThis.location.origin;
+    }
+}
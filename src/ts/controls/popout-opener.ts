@@ -0,0 +1,149 @@
+import { ResolvedPopoutLayoutConfig } from '../config/resolved-config';
+import { UnreachableCaseError } from '../errors/internal-error';
+import { LayoutManager } from '../layout-manager';
+import { PopoutChannel } from './popout-channel';
+
+/**
+ * Connects the LayoutManager of a popout window to the window which opened it.  Receives the popout's config and
+ * EventHub events and, if the windows are on different origins, reports the popout's layout so the opening window
+ * can save it and pop it in.
+ * @internal
+ */
+export class PopoutOpener {
+    private readonly _channel: PopoutChannel;
+    private _configRequested = false;
+    private _configReceived = false;
+    private _connected = false;
+    private _layoutChangedTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    private _layoutChangedListener = () => this.handleLayoutChanged();
+    private _popInListener = () => this._channel.postPopIn(this.createPopoutLayout());
+    private _itemRemovedListener = () => this.closeWindowIfEmpty();
+    private _windowBeforeUnloadListener = () => this._channel.postClosing(this.createPopoutLayout());
+
+    /** Whether the opening window is on another origin and can only be reached with messages */
+    get crossOrigin(): boolean { return this._channel.crossOrigin; }
+    get channel(): PopoutChannel { return this._channel; }
+
+    constructor(private _layoutManager: LayoutManager,
+        opener: Window,
+        openerOrigin: string,
+        key: string,
+        private _configEvent: PopoutOpener.ConfigEvent,
+    ) {
+        this._channel = new PopoutChannel(this._layoutManager, opener, openerOrigin, key, (message) => this.handleMessage(message));
+        this._channel.start();
+    }
+
+    requestConfig(): void {
+        if (!this._configRequested) {
+            this._configRequested = true;
+            this._channel.postConfigRequest();
+        }
+    }
+
+    /** Tells the opening window that the popout's layout is initialised and starts reporting changes to it */
+    connect(): void {
+        if (!this._connected) {
+            this._connected = true;
+            this._layoutManager.on('popIn', this._popInListener);
+            this._layoutManager.on('itemDropped', this._itemRemovedListener);
+            this._layoutManager.on('itemDestroyed', this._itemRemovedListener);
+            if (this._channel.crossOrigin) {
+                this._layoutManager.on('stateChanged', this._layoutChangedListener);
+                globalThis.addEventListener('resize', this._layoutChangedListener, { passive: true });
+                globalThis.addEventListener('beforeunload', this._windowBeforeUnloadListener, { passive: true });
+            }
+            this._channel.postReady(this.createPopoutLayout());
+        }
+    }
+
+    postEventHubEvent(eventName: string, args: unknown[]): void {
+        this._channel.postEventHubEvent(eventName, args);
+    }
+
+    destroy(): void {
+        this.cancelLayoutChangedTimeout();
+        if (this._connected) {
+            this._connected = false;
+            this._layoutManager.off('popIn', this._popInListener);
+            this._layoutManager.off('itemDropped', this._itemRemovedListener);
+            this._layoutManager.off('itemDestroyed', this._itemRemovedListener);
+            if (this._channel.crossOrigin) {
+                this._layoutManager.off('stateChanged', this._layoutChangedListener);
+                globalThis.removeEventListener('resize', this._layoutChangedListener);
+                globalThis.removeEventListener('beforeunload', this._windowBeforeUnloadListener);
+            }
+        }
+        this._channel.destroy();
+    }
+
+    private handleMessage(message: PopoutChannel.WindowMessage) {
+        switch (message.type) {
+            case PopoutChannel.MessageType.config:
+                if (!this._configReceived) {
+                    this._configReceived = true;
+                    this._configEvent(message.config);
+                }
+                break;
+            case PopoutChannel.MessageType.close:
+                this._layoutManager.closeWindow();
+                break;
+            case PopoutChannel.MessageType.eventHubEvent:
+                this._layoutManager.eventHub.receiveOpenerEvent(message.eventName, message.args);
+                break;
+            case PopoutChannel.MessageType.configRequest:
+            case PopoutChannel.MessageType.ready:
+            case PopoutChannel.MessageType.layout:
+            case PopoutChannel.MessageType.popIn:
+            case PopoutChannel.MessageType.closing:
+                // only sent to opening windows
+                break;
+            default:
+                throw new UnreachableCaseError('POHM50219', message);
+        }
+    }
+
+    /** Reports the layout after it has settled (next tick) */
+    private handleLayoutChanged() {
+        this.cancelLayoutChangedTimeout();
+        this._layoutChangedTimeoutId = setTimeout(() => {
+            this._layoutChangedTimeoutId = undefined;
+            this._channel.postLayout(this.createPopoutLayout());
+        }, 0);
+    }
+
+    /** Closes the popout window when the last component item is removed */
+    private closeWindowIfEmpty() {
+        const layoutManager = this._layoutManager;
+        if (!layoutManager.isDragging && layoutManager.groundItem?.getAllComponentItems()?.length === 0 &&
+            layoutManager.floatingItems.length === 0 && layoutManager.edgeDockItems.length === 0
+        ) {
+            layoutManager.closeWindow();
+        }
+    }
+
+    private createPopoutLayout(): PopoutChannel.PopoutLayout {
+        return {
+            config: this._layoutManager.saveLayout(),
+            window: {
+                width: this._layoutManager.width,
+                height: this._layoutManager.height,
+                left: globalThis.screenX ?? globalThis.screenLeft,
+                top: globalThis.screenY ?? globalThis.screenTop,
+            },
+        };
+    }
+
+    private cancelLayoutChangedTimeout() {
+        if (this._layoutChangedTimeoutId !== undefined) {
+            clearTimeout(this._layoutChangedTimeoutId);
+            this._layoutChangedTimeoutId = undefined;
+        }
+    }
+}
+
+/** @internal */
+export namespace PopoutOpener {
+    export type ConfigEvent = (this: void, config: ResolvedPopoutLayoutConfig) => void;
+}
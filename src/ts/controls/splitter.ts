@@ -7,12 +7,15 @@ import { numberToPixels } from '../utils/utils';
 export class Splitter {
     private _grabSize;
     private _dragListener: DragListener;
+    private _keyDownListener = (ev: KeyboardEvent) => this.onKeyDown(ev);
 
     private readonly _element: HTMLDivElement;
 
     get element(): HTMLDivElement { return this._element; }
 
-    constructor(private _isVertical: boolean, private _size: number, grabSize: number) {
+    constructor(private _isVertical: boolean, private _size: number, grabSize: number,
+        private _keyboardMoveEvent: Splitter.KeyboardMoveEvent
+    ) {
         this._grabSize = grabSize < this._size ? this._size : grabSize;
 
         this._element = document.createElement('div');
@@ -38,13 +41,61 @@ export class Splitter {
         this._element.appendChild(dragHandleElement);
 
         this._dragListener = new DragListener(this._element, [dragHandleElement]);
+
+        // focusable so that it can be moved with the arrow keys
+        this._element.tabIndex = 0;
+        // a vertical splitter (in a column) separates items stacked vertically so it has horizontal orientation
+        this._element.setAttribute('role', 'separator');
+        this._element.setAttribute('aria-orientation', this._isVertical ? 'horizontal' : 'vertical');
+        this._element.setAttribute('aria-valuemin', '0');
+        this._element.setAttribute('aria-valuemax', '100');
+        this._element.addEventListener('keydown', this._keyDownListener);
     }
 
     destroy(): void {
+        this._element.removeEventListener('keydown', this._keyDownListener);
         this._element.remove();
     }
 
+    /** Sets the position announced by screen readers as the percentage of the adjacent items' size taken by the item before */
+    setValue(value: number): void {
+        this._element.setAttribute('aria-valuenow', value.toString(10));
+    }
+
     on<K extends keyof EventEmitter.EventParamsMap>(eventName: K, callback: EventEmitter.Callback<K>): void {
         this._dragListener.on<K>(eventName, callback);
     }
+
+    private onKeyDown(ev: KeyboardEvent) {
+        if (!ev.defaultPrevented && !ev.ctrlKey && !ev.altKey && !ev.shiftKey && !ev.metaKey) {
+            const direction = this.getKeyDirection(ev.key);
+            if (direction !== 0) {
+                ev.preventDefault();
+                ev.stopPropagation();
+                this._keyboardMoveEvent(direction);
+            }
+        }
+    }
+
+    /** Returns -1 if key moves splitter towards start, 1 if towards end, otherwise 0 */
+    private getKeyDirection(key: string) {
+        if (this._isVertical) {
+            switch (key) {
+                case 'ArrowUp': return -1;
+                case 'ArrowDown': return 1;
+                default: return 0;
+            }
+        } else {
+            switch (key) {
+                case 'ArrowLeft': return -1;
+                case 'ArrowRight': return 1;
+                default: return 0;
+            }
+        }
+    }
+}
+
+/** @internal */
+export namespace Splitter {
+    export type KeyboardMoveEvent = (this: void, direction: number) => void;
 }
@@ -3,6 +3,7 @@ import { ComponentItem } from '../items/component-item';
 import { LayoutManager } from '../layout-manager';
 import { DomConstants } from '../utils/dom-constants';
 import { DragListener } from '../utils/drag-listener';
+import { getUniqueId } from '../utils/utils';
 
 /**
  * Represents an individual tab within a Stack's header
@@ -19,6 +20,8 @@ export class Tab {
     /** @internal */
     private _dragListener: DragListener | undefined;
     /** @internal */
+    private readonly _configReorderEnabled: boolean;
+    /** @internal */
     private _isActive = false;
 
     /** @internal */
@@ -26,6 +29,8 @@ export class Tab {
     /** @internal */
     private readonly _tabTouchStartListener = (ev: TouchEvent) => this.onTabTouchStart(ev);
     /** @internal */
+    private readonly _tabContextMenuListener = (ev: MouseEvent) => this.onTabContextMenu(ev);
+    /** @internal */
     private readonly _closeClickListener = () => this.onCloseClick();
     /** @internal */
     private readonly _closeTouchStartListener = () => this.onCloseTouchStart();
@@ -76,8 +81,11 @@ export class Tab {
         this._titleElement.classList.add(DomConstants.ClassName.Title);
         this._closeElement = document.createElement('div'); 
         this._closeElement.classList.add(DomConstants.ClassName.CloseTab);
+        // tab can be closed with Delete key so close element is not needed by assistive technologies
+        this._closeElement.setAttribute('aria-hidden', 'true');
         this._element.appendChild(this._titleElement);
         this._element.appendChild(this._closeElement);
+        this.initialiseAria();
 
         if (_componentItem.isClosable) {
             this._closeElement.style.display = '';
@@ -89,14 +97,13 @@ export class Tab {
         this.setTitle(_componentItem.title);
         this._componentItem.on('titleChanged', this._tabTitleChangedListener);
 
-        const reorderEnabled = _componentItem.reorderEnabled ?? this._layoutManager.layoutConfig.settings.reorderEnabled;
-
-        if (reorderEnabled) {
-            this.enableReorder();
-        }
+        this._configReorderEnabled = _componentItem.reorderEnabled ?? this._layoutManager.layoutConfig.settings.reorderEnabled;
 
         this._element.addEventListener('click', this._tabClickListener, { passive: true });
         this._element.addEventListener('touchstart', this._tabTouchStartListener, { passive: true });
+        if (this._layoutManager.layoutConfig.settings.pinTabOnContextMenu) {
+            this._element.addEventListener('contextmenu', this._tabContextMenuListener);
+        }
 
         if (this._componentItem.isClosable) {
             this._closeElement.addEventListener('click', this._closeClickListener, { passive: true });
@@ -107,10 +114,35 @@ export class Tab {
             this._closeElement = undefined;
         }
 
+        this.applyLocked();
+        this.applyPinned();
+
         this._componentItem.setTab(this);
         this._layoutManager.emit('tabCreated', this);
     }
 
+    /**
+     * Enables or disables reordering and closing of the tab to match whether its ComponentItem is locked
+     * @internal
+     */
+    applyLocked(): void {
+        this.reorderEnabled = this._configReorderEnabled && !this._componentItem.isLocked;
+        this.updateCloseElement();
+    }
+
+    /**
+     * Shows the tab as pinned or unpinned to match its ComponentItem.  Pinned tabs only show an icon and cannot be closed
+     * @internal
+     */
+    applyPinned(): void {
+        if (this._componentItem.pinned) {
+            this._element.classList.add(DomConstants.ClassName.Pinned);
+        } else {
+            this._element.classList.remove(DomConstants.ClassName.Pinned);
+        }
+        this.updateCloseElement();
+    }
+
     /**
      * Sets the tab's title to the provided string and sets
      * its title attribute to a pure text representation (without
@@ -136,6 +168,9 @@ export class Tab {
         } else {
             this._element.classList.remove(DomConstants.ClassName.Active);
         }
+        // roving tabindex: only the active tab is in the page tab sequence
+        this._element.setAttribute('aria-selected', isActive ? 'true' : 'false');
+        this._element.tabIndex = isActive ? 0 : -1;
     }
 
     /**
@@ -148,6 +183,7 @@ export class Tab {
         this._dragStartEvent = undefined;
         this._element.removeEventListener('click', this._tabClickListener);
         this._element.removeEventListener('touchstart', this._tabTouchStartListener);
+        this._element.removeEventListener('contextmenu', this._tabContextMenuListener);
         this._closeElement?.removeEventListener('click', this._closeClickListener);
         this._closeElement?.removeEventListener('touchstart', this._closeTouchStartListener);
         // this._closeElement?.removeEventListener('mousedown', this._closeMouseDownListener);
@@ -170,6 +206,24 @@ export class Tab {
         this._titleElement.classList.add(DomConstants.ClassName.Focused);
     }
 
+    /**
+     * Links the tab and its component's element using the WAI-ARIA tab and tabpanel roles
+     * @internal
+     */
+    private initialiseAria() {
+        const panelElement = this._componentItem.element;
+        if (panelElement.id === '') {
+            panelElement.id = 'lm_tabpanel_' + getUniqueId();
+        }
+        this._element.id = 'lm_tab_' + getUniqueId();
+        this._element.setAttribute('role', 'tab');
+        this._element.setAttribute('aria-selected', 'false');
+        this._element.setAttribute('aria-controls', panelElement.id);
+        this._element.tabIndex = -1;
+        panelElement.setAttribute('role', 'tabpanel');
+        panelElement.setAttribute('aria-labelledby', this._element.id);
+    }
+
     /**
      * Callback for the DragListener
      * @param x - The tabs absolute x position
@@ -210,7 +264,7 @@ export class Tab {
                 this.notifyFocus();
 
                 // middle mouse button
-            } else if (event.button === 1 && this._componentItem.isClosable) {
+            } else if (event.button === 1 && this.canClose()) {
                 // event.stopPropagation();
                 this.notifyClose();
             }
@@ -224,6 +278,38 @@ export class Tab {
         }
     }
 
+    /**
+     * Callback when the tab's context menu is requested (usually a right click).  Pins or unpins the tab's component
+     * @internal
+     */
+    private onTabContextMenu(event: MouseEvent) {
+        if (!event.defaultPrevented && !this._componentItem.isLocked) {
+            event.preventDefault();
+            this._componentItem.setPinned(!this._componentItem.pinned);
+        }
+    }
+
+    /**
+     * Whether the user can close the tab.  Pinned and locked tabs are protected from being closed by accident
+     * @internal
+     */
+    private canClose() {
+        return this._componentItem.isClosable && !this._componentItem.pinned && !this._componentItem.isLocked;
+    }
+
+    /** @internal */
+    private updateCloseElement() {
+        if (this._closeElement !== undefined) {
+            if (this.canClose()) {
+                this._closeElement.style.display = '';
+                this._element.classList.add(DomConstants.ClassName.Closable);
+            } else {
+                this._closeElement.style.display = 'none';
+                this._element.classList.remove(DomConstants.ClassName.Closable);
+            }
+        }
+    }
+
     /**
      * Callback when the tab's close button is clicked
      * @internal
@@ -15,6 +15,9 @@ export class TabsContainer {
     private readonly _element: HTMLElement;
     private _lastVisibleTabIndex = -1;
     private _dropdownActive = false;
+    private _verticalOrientation = false;
+
+    private _keyDownListener = (ev: KeyboardEvent) => this.onKeyDown(ev);
 
     get tabs(): Tab[] { return this._tabs; }
     get tabCount(): number { return this._tabs.length; }
@@ -32,18 +35,32 @@ export class TabsContainer {
     ) {
         this._element = document.createElement('section');
         this._element.classList.add(DomConstants.ClassName.Tabs);
+        this._element.setAttribute('role', 'tablist');
 
         this._dropdownElement = document.createElement('section');
         this._dropdownElement.classList.add(DomConstants.ClassName.TabDropdownList);
+        this._dropdownElement.setAttribute('role', 'tablist');
+        this._dropdownElement.setAttribute('aria-orientation', 'vertical');
         this._dropdownElement.style.display = 'none';
+
+        this._element.addEventListener('keydown', this._keyDownListener);
+        this._dropdownElement.addEventListener('keydown', this._keyDownListener);
     }
 
     destroy(): void {
+        this._element.removeEventListener('keydown', this._keyDownListener);
+        this._dropdownElement.removeEventListener('keydown', this._keyDownListener);
         for (let i = 0; i < this._tabs.length; i++) {
             this._tabs[i].destroy();
         }
     }
 
+    /** Tabs are laid out vertically when the header is on the left or right side of the stack */
+    setVerticalOrientation(value: boolean): void {
+        this._verticalOrientation = value;
+        this._element.setAttribute('aria-orientation', value ? 'vertical' : 'horizontal');
+    }
+
     /**
      * Creates a new tab and associates it with a contentItem
      * @param index - The position of the tab
@@ -66,6 +83,13 @@ export class TabsContainer {
         if (index === undefined) {
             index = this._tabs.length;
         }
+        // pinned tabs are always rendered before the other tabs
+        const pinnedTabCount = this.calculatePinnedTabCount();
+        if (componentItem.pinned) {
+            index = Math.min(index, pinnedTabCount);
+        } else {
+            index = Math.max(index, pinnedTabCount);
+        }
 
         this._tabs.splice(index, 0, tab);
 
@@ -90,6 +114,29 @@ export class TabsContainer {
         throw new Error('contentItem is not controlled by this header');
     }
 
+    /**
+     * Moves the tab of a ComponentItem which was pinned or unpinned to the boundary between the pinned and unpinned tabs
+     */
+    processTabPinnedChanged(componentItem: ComponentItem): void {
+        const index = this._tabs.findIndex((tab) => tab.componentItem === componentItem);
+        if (index < 0) {
+            throw new AssertError('TCPTPC50913');
+        } else {
+            const tab = this._tabs[index];
+            this._tabs.splice(index, 1);
+            const newIndex = this.calculatePinnedTabCount();
+            this._tabs.splice(newIndex, 0, tab);
+
+            // updateTabSizes() only moves tab elements between the tabs and dropdown elements so reposition it here
+            const nextTab = this._tabs.slice(newIndex + 1).find((tab) => tab.element.parentElement === this._element);
+            if (nextTab === undefined) {
+                this._element.appendChild(tab.element);
+            } else {
+                this._element.insertBefore(tab.element, nextTab.element);
+            }
+        }
+    }
+
     processActiveComponentChanged(newActiveComponentItem: ComponentItem): void {
         let activeIndex = -1;
         for (let i = 0; i < this._tabs.length; i++) {
@@ -109,11 +156,13 @@ export class TabsContainer {
                  * This will make sure the most used tabs stay visible.
                  */
                 if (this._lastVisibleTabIndex !== -1 && activeIndex > this._lastVisibleTabIndex) {
+                    // pinned tabs are never in the dropdown and stay in front
+                    const firstUnpinnedIndex = this.calculatePinnedTabCount();
                     const activeTab = this._tabs[activeIndex];
-                    for (let j = activeIndex; j > 0; j--) {
+                    for (let j = activeIndex; j > firstUnpinnedIndex; j--) {
                         this._tabs[j] = this._tabs[j - 1];
                     }
-                    this._tabs[0] = activeTab;
+                    this._tabs[firstUnpinnedIndex] = activeTab;
 
                     // updateTabSizes will always be called after this and it will reposition tab elements
                 }
@@ -156,6 +205,7 @@ export class TabsContainer {
 
             for (let i = 0; i < this._tabs.length; i++) {
                 const tabElement = this._tabs[i].element;
+                const pinned = this._tabs[i].componentItem.pinned;
 
                 //Put the tab in the tabContainer so its true width can be checked
                 if (tabElement.parentElement !== this._element) {
@@ -208,8 +258,8 @@ export class TabsContainer {
                             tabOverlapAllowanceExceeded = true;
                         }
 
-                    } else if (i === activeIndex) {
-                        //Active tab should show even if allowance exceeded. (We left room.)
+                    } else if (i === activeIndex || pinned) {
+                        //Active and pinned tabs should show even if allowance exceeded. (We left room for the active tab.)
                         tabElement.style.zIndex = 'auto';
                         tabElement.style.marginLeft = '';
                         if (tabElement.parentElement !== this._element) {
@@ -217,7 +267,7 @@ export class TabsContainer {
                         }
                     }
 
-                    if (tabOverlapAllowanceExceeded && i !== activeIndex) {
+                    if (tabOverlapAllowanceExceeded && i !== activeIndex && !pinned) {
                         if (dropdownActive) {
                             //Tab menu already shown, so we just add to it.
                             tabElement.style.zIndex = 'auto';
@@ -260,6 +310,69 @@ export class TabsContainer {
         this._dropdownElement.style.display = 'none';
     }
 
+    /**
+     * Implements keyboard interaction for the WAI-ARIA tabs pattern.  Arrow keys, Home and End activate and focus
+     * another tab.  Delete closes the focused tab.
+     */
+    private onKeyDown(ev: KeyboardEvent) {
+        if (!ev.defaultPrevented && !ev.ctrlKey && !ev.altKey && !ev.shiftKey && !ev.metaKey) {
+            const index = this._tabs.findIndex((tab) => tab.element === ev.target);
+            if (index >= 0) {
+                const handled = this.processTabKey(ev.key, index);
+                if (handled) {
+                    ev.preventDefault();
+                    ev.stopPropagation();
+                }
+            }
+        }
+    }
+
+    private processTabKey(key: string, index: number) {
+        const tab = this._tabs[index];
+        const lastIndex = this._tabs.length - 1;
+        const previousKey = this._verticalOrientation ? 'ArrowUp' : 'ArrowLeft';
+        const nextKey = this._verticalOrientation ? 'ArrowDown' : 'ArrowRight';
+        switch (key) {
+            case previousKey:
+                this.focusTab(index === 0 ? lastIndex : index - 1);
+                return true;
+            case nextKey:
+                this.focusTab(index === lastIndex ? 0 : index + 1);
+                return true;
+            case 'Home':
+                this.focusTab(0);
+                return true;
+            case 'End':
+                this.focusTab(lastIndex);
+                return true;
+            case 'Enter':
+            case ' ':
+                this.focusTab(index);
+                return true;
+            case 'Delete':
+                if (!tab.componentItem.isClosable || tab.componentItem.pinned || tab.componentItem.isLocked) {
+                    return false;
+                } else {
+                    this._componentRemoveEvent(tab.componentItem);
+                    const activeTab = this._tabs.find((tab) => tab.isActive);
+                    activeTab?.element.focus();
+                    return true;
+                }
+            default:
+                return false;
+        }
+    }
+
+    private calculatePinnedTabCount() {
+        return this._tabs.filter((tab) => tab.componentItem.pinned).length;
+    }
+
+    private focusTab(index: number) {
+        const tab = this._tabs[index];
+        this._componentFocusEvent(tab.componentItem);
+        tab.element.focus();
+    }
+
     private handleTabCloseEvent(componentItem: ComponentItem) {
         this._componentRemoveEvent(componentItem);
     }
@@ -0,0 +1,61 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { ConfigurationError } from '../errors/external-error';
+
+/**
+ * A timestamped log of the structural events of a layout together with snapshots of the layout.
+ * Created by {@link LayoutEventRecorder} and replayed by {@link LayoutEventReplayer}.
+ * @public
+ */
+export interface LayoutEventLog {
+    readonly version: number;
+    /** Time (milliseconds since the epoch) at which recording started */
+    readonly startTime: number;
+    /** The layout when recording started */
+    readonly initialLayout: ResolvedLayoutConfig;
+    readonly entries: LayoutEventLog.Entry[];
+}
+
+/** @public */
+export namespace LayoutEventLog {
+    export const version = 1;
+
+    export interface Entry {
+        /** Milliseconds since recording started */
+        readonly time: number;
+        readonly eventName: string;
+        /** The item or popout window the event is about.  Undefined if the event is about the whole layout */
+        readonly target: Target | undefined;
+        /** The layout after the event.  Only recorded when the layout has settled after changes */
+        readonly snapshot: ResolvedLayoutConfig | undefined;
+    }
+
+    export interface Target {
+        /** Item type or 'popout' for popout windows */
+        readonly type: string;
+        /** Item id or the popout's {@link (BrowserPopout:class).windowId} */
+        readonly id: string;
+        /** Title of component items.  Undefined for other targets */
+        readonly title: string | undefined;
+    }
+
+    /** Converts a log to JSON which can be attached to bug reports */
+    export function toJson(log: LayoutEventLog): string {
+        return JSON.stringify(log);
+    }
+
+    /** Converts JSON created by {@link (LayoutEventLog:namespace).toJson} back to a log */
+    export function fromJson(text: string): LayoutEventLog {
+        const log = JSON.parse(text) as LayoutEventLog;
+        if (typeof log !== 'object' || log === null || typeof log.version !== 'number' || typeof log.startTime !== 'number' ||
+            typeof log.initialLayout !== 'object' || log.initialLayout === null || !Array.isArray(log.entries)
+        ) {
+            throw new ConfigurationError('Layout event log is not valid');
+        } else {
+            if (log.version > version) {
+                throw new ConfigurationError(`Layout event log version not supported: ${log.version}`);
+            } else {
+                return log;
+            }
+        }
+    }
+}
@@ -0,0 +1,277 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { BrowserPopout } from '../controls/browser-popout';
+import { ApiError } from '../errors/external-error';
+import { ComponentItem } from '../items/component-item';
+import { ContentItem } from '../items/content-item';
+import { LayoutManager } from '../layout-manager';
+import { EventEmitter } from '../utils/event-emitter';
+import { LayoutEventLog } from './layout-event-log';
+
+/**
+ * Records the structural events of a layout in a {@link LayoutEventLog} for diagnostics.
+ * Subscribes to the {@link (EventEmitter:namespace).ALL_EVENT} stream of the LayoutManager and of every ContentItem.
+ * The layout is saved with {@link (LayoutManager:class).saveLayout} at the start of recording and then, as a snapshot,
+ * whenever it has changed.  Attach the log's JSON to bug reports and replay it with {@link LayoutEventReplayer}.
+ * @public
+ */
+export class LayoutEventRecorder {
+    /** @internal */
+    private readonly _eventNames: ReadonlySet<string>;
+    /** @internal */
+    private readonly _maxEntries: number;
+    /** @internal */
+    private _recording = false;
+    /** @internal */
+    private _startTime = 0;
+    /** @internal */
+    private _initialLayout: ResolvedLayoutConfig | undefined;
+    /** @internal */
+    private _entries: LayoutEventLog.Entry[] = [];
+    /** @internal */
+    private _lastSnapshotJson: string | undefined;
+    /** @internal */
+    private _itemListeners = new Map<ContentItem, EventEmitter.UnknownCallback>();
+
+    /** @internal */
+    private _layoutManagerListener = (...args: EventEmitter.UnknownParams) => this.handleLayoutManagerEvent(args);
+
+    get isRecording(): boolean { return this._recording; }
+
+    constructor(
+        /** @internal */
+        private readonly _layoutManager: LayoutManager,
+        options?: LayoutEventRecorder.Options,
+    ) {
+        this._eventNames = new Set(options?.eventNames ?? LayoutEventRecorder.Options.defaults.eventNames);
+        this._maxEntries = options?.maxEntries ?? LayoutEventRecorder.Options.defaults.maxEntries;
+    }
+
+    /**
+     * Starts recording.  The entries recorded previously are cleared.
+     * The layout must be initialised.
+     */
+    start(): void {
+        if (!this._layoutManager.isInitialised) {
+            throw new ApiError('Cannot record layout events before init');
+        } else {
+            this.stop();
+            this._entries = [];
+            this._startTime = Date.now();
+            this._initialLayout = this._layoutManager.saveLayout();
+            this._lastSnapshotJson = JSON.stringify(this._initialLayout);
+            this._recording = true;
+            this._layoutManager.on(EventEmitter.ALL_EVENT, this._layoutManagerListener);
+            for (const item of this.getAllContentItems()) {
+                this.subscribeItem(item);
+            }
+        }
+    }
+
+    stop(): void {
+        if (this._recording) {
+            this._recording = false;
+            this._layoutManager.off(EventEmitter.ALL_EVENT, this._layoutManagerListener);
+            for (const [item, listener] of this._itemListeners) {
+                item.off(EventEmitter.ALL_EVENT, listener);
+            }
+            this._itemListeners.clear();
+        }
+    }
+
+    /**
+     * Records a snapshot of the layout (if it changed since the last one) under the eventName 'snapshot'.
+     * Use to mark points of interest in the log.
+     */
+    snapshot(): void {
+        if (this._recording) {
+            this.addEntry(LayoutEventRecorder.snapshotEventName, undefined, true);
+        }
+    }
+
+    /** The log recorded so far */
+    getLog(): LayoutEventLog {
+        if (this._initialLayout === undefined) {
+            throw new ApiError('Layout events have not been recorded');
+        } else {
+            return {
+                version: LayoutEventLog.version,
+                startTime: this._startTime,
+                initialLayout: this._initialLayout,
+                entries: this._entries.slice(),
+            };
+        }
+    }
+
+    toJson(): string {
+        return LayoutEventLog.toJson(this.getLog());
+    }
+
+    /** @internal */
+    private handleLayoutManagerEvent(args: EventEmitter.UnknownParams) {
+        const eventName = args[0] as string;
+        const param = args[1];
+        // Bubbling events (including stateChanged from items) are about their target
+        const subject = param instanceof EventEmitter.BubblingEvent ? param.target : param;
+        if (subject instanceof ContentItem) {
+            if (eventName === 'itemCreated') {
+                this.subscribeItem(subject);
+            } else {
+                if (eventName === 'itemDestroyed') {
+                    this.unsubscribeItem(subject);
+                }
+            }
+        }
+
+        // Item events which do not reach the LayoutManager are recorded by the item subscriptions
+        if (this._eventNames.has(eventName) && !LayoutEventRecorder.itemEventNames.includes(eventName)) {
+            const wantSnapshot = LayoutEventRecorder.snapshotEventNames.includes(eventName);
+            this.addEntry(eventName, LayoutEventRecorder.createTarget(subject), wantSnapshot);
+        }
+    }
+
+    /** @internal */
+    private handleItemEvent(item: ContentItem, args: EventEmitter.UnknownParams) {
+        const eventName = args[0] as string;
+        if (this._eventNames.has(eventName) && LayoutEventRecorder.itemEventNames.includes(eventName)) {
+            this.addEntry(eventName, LayoutEventRecorder.createTarget(item), false);
+        }
+    }
+
+    /**
+     * Adds an entry.  If wantSnapshot, the layout is saved in the entry if it changed since the last snapshot.
+     * Entries for stateChanged are only added if the layout changed.
+     * @internal
+     */
+    private addEntry(eventName: string, target: LayoutEventLog.Target | undefined, wantSnapshot: boolean) {
+        let snapshot: ResolvedLayoutConfig | undefined;
+        if (wantSnapshot && this._layoutManager.isInitialised) {
+            const layout = this._layoutManager.saveLayout();
+            const layoutJson = JSON.stringify(layout);
+            if (layoutJson !== this._lastSnapshotJson) {
+                this._lastSnapshotJson = layoutJson;
+                snapshot = layout;
+            }
+        }
+
+        if (eventName !== 'stateChanged' || snapshot !== undefined) {
+            this._entries.push({
+                time: Date.now() - this._startTime,
+                eventName,
+                target,
+                snapshot,
+            });
+            if (this._entries.length > this._maxEntries) {
+                this._entries.shift();
+            }
+        }
+    }
+
+    /** @internal */
+    private subscribeItem(item: ContentItem) {
+        if (!this._itemListeners.has(item)) {
+            const listener = (...args: EventEmitter.UnknownParams) => this.handleItemEvent(item, args);
+            this._itemListeners.set(item, listener);
+            item.on(EventEmitter.ALL_EVENT, listener);
+        }
+    }
+
+    /** @internal */
+    private unsubscribeItem(item: ContentItem) {
+        const listener = this._itemListeners.get(item);
+        if (listener !== undefined) {
+            this._itemListeners.delete(item);
+            item.off(EventEmitter.ALL_EVENT, listener);
+        }
+    }
+
+    /** @internal */
+    private getAllContentItems(): ContentItem[] {
+        const result = this._layoutManager.groundItem?.getAllContentItems() ?? [];
+        const detachedItems: ContentItem[] = [...this._layoutManager.floatingItems, ...this._layoutManager.edgeDockItems];
+        LayoutEventRecorder.deepGetContentItems(detachedItems, result);
+        return result;
+    }
+}
+
+/** @public */
+export namespace LayoutEventRecorder {
+    export interface Options {
+        /**
+         * Names of the events to record
+         * Default: itemCreated, itemDestroyed, itemDropped, maximised, minimised, activeContentItemChanged, titleChanged,
+         * slidIn, slidOut, windowOpened, windowClosed, presetChanged and stateChanged
+         */
+        eventNames?: readonly string[];
+        /**
+         * The maximum number of entries kept.  The oldest entries are discarded first
+         * Default: 1000
+         */
+        maxEntries?: number;
+    }
+
+    export namespace Options {
+        /** @internal */
+        export const defaults: Required<Options> = {
+            eventNames: [
+                'itemCreated',
+                'itemDestroyed',
+                'itemDropped',
+                'maximised',
+                'minimised',
+                'activeContentItemChanged',
+                'titleChanged',
+                'slidIn',
+                'slidOut',
+                'windowOpened',
+                'windowClosed',
+                'presetChanged',
+                'stateChanged',
+            ],
+            maxEntries: 1000,
+        } as const;
+    }
+
+    /** The eventName of entries added with {@link (LayoutEventRecorder:class).snapshot} */
+    export const snapshotEventName = 'snapshot';
+
+    /**
+     * Events which are only emitted on ContentItems and neither bubble to the LayoutManager nor are emitted by it
+     * @internal
+     */
+    export const itemEventNames: readonly string[] = ['maximised', 'minimised', 'titleChanged', 'slidIn', 'slidOut'];
+
+    /**
+     * LayoutManager events after which the layout is saved as a snapshot
+     * @internal
+     */
+    export const snapshotEventNames: readonly string[] = ['stateChanged', 'windowOpened', 'windowClosed', 'presetChanged'];
+
+    /** @internal */
+    export function deepGetContentItems(items: readonly ContentItem[], result: ContentItem[]): void {
+        for (const item of items) {
+            result.push(item);
+            deepGetContentItems(item.contentItems, result);
+        }
+    }
+
+    /** @internal */
+    export function createTarget(value: unknown): LayoutEventLog.Target | undefined {
+        if (value instanceof ContentItem) {
+            return {
+                type: value.type,
+                id: value.id,
+                title: value instanceof ComponentItem ? value.title : undefined,
+            };
+        } else {
+            if (value instanceof BrowserPopout) {
+                return {
+                    type: 'popout',
+                    id: value.windowId,
+                    title: undefined,
+                };
+            } else {
+                return undefined;
+            }
+        }
+    }
+}
@@ -0,0 +1,65 @@
+import { LayoutConfig } from '../config/config';
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { LayoutManager } from '../layout-manager';
+import { LayoutEventLog } from './layout-event-log';
+
+/**
+ * Rebuilds the layout recorded in a {@link LayoutEventLog} step by step, for example in a test harness reproducing a
+ * bug report.  Each step applies the next snapshot in the log with {@link (LayoutManager:class).applyLayout}.
+ * Popouts are not opened: the replayed layouts are applied without them.
+ * @public
+ */
+export class LayoutEventReplayer {
+    /** @internal */
+    private _position = 0;
+
+    /** Index of the next entry in the log */
+    get position(): number { return this._position; }
+    /** Whether all the entries of the log have been replayed */
+    get isFinished(): boolean { return this._position >= this.log.entries.length; }
+
+    constructor(
+        /** @internal */
+        private readonly _layoutManager: LayoutManager,
+        readonly log: LayoutEventLog,
+    ) {
+    }
+
+    /** Loads the layout at the start of the log.  Call before the first step */
+    reset(): void {
+        this._position = 0;
+        this._layoutManager.loadLayout(LayoutEventReplayer.createLayoutConfig(this.log.initialLayout));
+    }
+
+    /**
+     * Replays the entries up to and including the next entry with a snapshot
+     * @returns The entry whose snapshot was applied or undefined if the log has no more snapshots
+     */
+    step(): LayoutEventLog.Entry | undefined {
+        const entries = this.log.entries;
+        let appliedEntry: LayoutEventLog.Entry | undefined;
+        while (appliedEntry === undefined && this._position < entries.length) {
+            const entry = entries[this._position++];
+            if (entry.snapshot !== undefined) {
+                this._layoutManager.applyLayout(LayoutEventReplayer.createLayoutConfig(entry.snapshot));
+                appliedEntry = entry;
+            }
+        }
+        return appliedEntry;
+    }
+
+    /** Replays the remaining entries.  The layout then matches the last snapshot in the log */
+    replayAll(): void {
+        while (!this.isFinished) {
+            this.step();
+        }
+    }
+}
+
+/** @public */
+export namespace LayoutEventReplayer {
+    /** @internal */
+    export function createLayoutConfig(layout: ResolvedLayoutConfig): LayoutConfig {
+        return LayoutConfig.fromResolved({ ...layout, openPopouts: [] });
+    }
+}
@@ -1,3 +1,5 @@
+import { LayoutConfig } from '../config/config';
+
 /** @public */
 export abstract class ExternalError extends Error {
     /** @internal */
@@ -14,6 +16,17 @@ export class ConfigurationError extends ExternalError {
     }
 }
 
+/**
+ * Thrown when a LayoutConfig fails validation
+ * @public
+ */
+export class ConfigurationValidationError extends ConfigurationError {
+    /** @internal */
+    constructor(message: string, public readonly errors: readonly LayoutConfig.ValidationError[]) {
+        super(message);
+    }
+}
+
 /** @public */
 export class PopoutBlockedError extends ExternalError {
     /** @internal */
@@ -37,3 +50,14 @@ export class BindError extends ExternalError {
         super('Bind', message);
     }
 }
+
+/**
+ * Rejects an {@link EventHubChannel} request which failed or timed out
+ * @public
+ */
+export class EventHubRequestError extends ExternalError {
+    /** @internal */
+    constructor(message: string) {
+        super('EventHubRequest', message);
+    }
+}
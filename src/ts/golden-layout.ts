@@ -3,6 +3,7 @@ import { ResolvedComponentItemConfig } from './config/resolved-config';
 import { ComponentContainer } from './container/component-container';
 import { ApiError, BindError } from './errors/external-error';
 import { AssertError, UnexpectedUndefinedError } from './errors/internal-error';
+import { DomConstants } from './utils/dom-constants';
 import { I18nStringId, i18nStrings } from './utils/i18n-strings';
 import { JsonValue, LogicalZIndex } from './utils/types';
 import { deepExtendValue, ensureElementPositionAbsolute, numberToPixels, setElementDisplayVisibility, setElementHeight, setElementWidth } from './utils/utils';
@@ -20,6 +21,8 @@ export class GoldenLayout extends VirtualLayout {
     /** @internal */
     private _virtuableComponentMap = new Map<ComponentContainer, GoldenLayout.VirtuableComponent>();
     /** @internal */
+    private _unknownComponentTypePlaceholderMap = new Map<ComponentContainer, HTMLElement>();
+    /** @internal */
     private _goldenLayoutBoundingClientRect: DOMRect;
 
     /** @internal */
@@ -101,9 +104,12 @@ export class GoldenLayout extends VirtualLayout {
         this._componentTypesMap.set(typeName, {
                 constructor: componentConstructor,
                 factoryFunction: undefined,
+                asyncFactoryFunction: undefined,
                 virtual,
             }
         );
+
+        this.upgradeUnknownComponentTypePlaceholders(typeName);
     }
 
     /**
@@ -123,9 +129,42 @@ export class GoldenLayout extends VirtualLayout {
         this._componentTypesMap.set(typeName, {
                 constructor: undefined,
                 factoryFunction: componentFactoryFunction,
+                asyncFactoryFunction: undefined,
+                virtual,
+            }
+        );
+
+        this.upgradeUnknownComponentTypePlaceholders(typeName);
+    }
+
+    /**
+     * Register a component factory function which creates its component asynchronously, for example after lazily loading
+     * the component's code.  Until the returned Promise resolves, the component's container shows a loading placeholder.
+     * If the Promise rejects, the container shows an error placeholder with a button to retry.
+     */
+    registerAsyncComponentFactoryFunction(typeName: string,
+        asyncComponentFactoryFunction: GoldenLayout.AsyncComponentFactoryFunction,
+        virtual = false
+    ): void {
+        if (typeof asyncComponentFactoryFunction !== 'function') {
+            throw new BindError('Please register a factory function');
+        }
+
+        const existingComponentType = this._componentTypesMap.get(typeName);
+
+        if (existingComponentType !== undefined) {
+            throw new BindError(`${i18nStrings[I18nStringId.ComponentIsAlreadyRegistered]}: ${typeName}`);
+        }
+
+        this._componentTypesMap.set(typeName, {
+                constructor: undefined,
+                factoryFunction: undefined,
+                asyncFactoryFunction: asyncComponentFactoryFunction,
                 virtual,
             }
         );
+
+        this.upgradeUnknownComponentTypePlaceholders(typeName);
     }
 
     /**
@@ -157,6 +196,8 @@ export class GoldenLayout extends VirtualLayout {
         }
 
         this._getComponentConstructorFtn = callback;
+
+        this.upgradeUnknownComponentTypePlaceholders(undefined);
     }
 
     getRegisteredComponentTypeNames(): string[] {
@@ -185,6 +226,7 @@ export class GoldenLayout extends VirtualLayout {
                 instantiator = {
                     constructor: this._getComponentConstructorFtn(config),
                     factoryFunction: undefined,
+                    asyncFactoryFunction: undefined,
                     virtual: false,
                 }
             }
@@ -194,7 +236,8 @@ export class GoldenLayout extends VirtualLayout {
     }
 
     /** @internal */
-    override bindComponent(container: ComponentContainer, itemConfig: ResolvedComponentItemConfig): ComponentContainer.BindableComponent {
+    override bindComponent(container: ComponentContainer, itemConfig: ResolvedComponentItemConfig):
+        ComponentContainer.BindableComponent | Promise<ComponentContainer.BindableComponent> {
         let instantiator: GoldenLayout.ComponentInstantiator | undefined;
 
         const typeName = ResolvedComponentItemConfig.resolveComponentTypeName(itemConfig);
@@ -206,12 +249,13 @@ export class GoldenLayout extends VirtualLayout {
                 instantiator = {
                     constructor: this._getComponentConstructorFtn(itemConfig),
                     factoryFunction: undefined,
+                    asyncFactoryFunction: undefined,
                     virtual: false,
                 }
             }
         }
 
-        let result: ComponentContainer.BindableComponent;
+        let result: ComponentContainer.BindableComponent | Promise<ComponentContainer.BindableComponent>;
         if (instantiator !== undefined) {
             const virtual = instantiator.virtual;
             // handle case where component is obtained by name or component constructor callback
@@ -223,48 +267,33 @@ export class GoldenLayout extends VirtualLayout {
                 componentState = deepExtendValue({}, itemConfig.componentState) as JsonValue;
             }
 
-            let component: ComponentContainer.Component | undefined;
             const componentConstructor = instantiator.constructor;
             if (componentConstructor !== undefined) {
-                component = new componentConstructor(container, componentState, virtual);
+                const component = new componentConstructor(container, componentState, virtual);
+                result = this.registerBoundComponent(container, component, virtual, typeName);
             } else {
                 const factoryFunction = instantiator.factoryFunction;
                 if (factoryFunction !== undefined) {
-                    component = factoryFunction(container, componentState, virtual);
-                } else {
-                    throw new AssertError('LMBCFFU10008');
-                }
-            }
-
-            if (virtual) {
-                if (component === undefined) {
-                    throw new UnexpectedUndefinedError('GLBCVCU988774');
+                    const component = factoryFunction(container, componentState, virtual);
+                    result = this.registerBoundComponent(container, component, virtual, typeName);
                 } else {
-                    const virtuableComponent = component as GoldenLayout.VirtuableComponent;
-                    const componentRootElement = virtuableComponent.rootHtmlElement;
-                    if (componentRootElement === undefined) {
-                        throw new BindError(`${i18nStrings[I18nStringId.VirtualComponentDoesNotHaveRootHtmlElement]}: ${typeName}`);
+                    const asyncFactoryFunction = instantiator.asyncFactoryFunction;
+                    if (asyncFactoryFunction !== undefined) {
+                        result = asyncFactoryFunction(container, componentState, virtual).then(
+                            (component) => this.registerBoundComponent(container, component, virtual, typeName)
+                        );
                     } else {
-                        ensureElementPositionAbsolute(componentRootElement);
-                        this.container.appendChild(componentRootElement);
-                        this._virtuableComponentMap.set(container, virtuableComponent);
-                        container.virtualRectingRequiredEvent = this._containerVirtualRectingRequiredEventListener;
-                        container.virtualVisibilityChangeRequiredEvent = this._containerVirtualVisibilityChangeRequiredEventListener;
-                        container.virtualZIndexChangeRequiredEvent = this._containerVirtualZIndexChangeRequiredEventListener;
+                        throw new AssertError('LMBCFFU10008');
                     }
                 }
             }
-
-            this._registeredComponentMap.set(container, component);
-
-            result = {
-                virtual: instantiator.virtual,
-                component,
-            };
-
         } else {
-            // Use getComponentEvent
-            result = super.bindComponent(container, itemConfig);
+            if (this.bindComponentEvent === undefined && this.getComponentEvent === undefined) {
+                result = this.bindUnknownComponentTypePlaceholder(container, itemConfig);
+            } else {
+                // Use getComponentEvent
+                result = super.bindComponent(container, itemConfig);
+            }
         }
 
         return result;
@@ -273,7 +302,11 @@ export class GoldenLayout extends VirtualLayout {
     /** @internal */
     override unbindComponent(container: ComponentContainer, virtual: boolean, component: ComponentContainer.Component | undefined): void {
         const registeredComponent = this._registeredComponentMap.get(container);
-        if (registeredComponent === undefined) {
+        const unknownComponentTypePlaceholder = this._unknownComponentTypePlaceholderMap.get(container);
+        if (unknownComponentTypePlaceholder !== undefined) {
+            unknownComponentTypePlaceholder.remove();
+            this._unknownComponentTypePlaceholderMap.delete(container);
+        } else if (registeredComponent === undefined) {
             super.unbindComponent(container, virtual, component); // was not created from registration so use virtual unbind events
         } else {
             const virtuableComponent = this._virtuableComponentMap.get(container);
@@ -345,6 +378,72 @@ export class GoldenLayout extends VirtualLayout {
             }
         }
     }
+
+    /** @internal */
+    private registerBoundComponent(container: ComponentContainer, component: ComponentContainer.Component | undefined, virtual: boolean,
+        typeName: string | undefined
+    ): ComponentContainer.BindableComponent {
+        if (virtual) {
+            if (component === undefined) {
+                throw new UnexpectedUndefinedError('GLBCVCU988774');
+            } else {
+                const virtuableComponent = component as GoldenLayout.VirtuableComponent;
+                const componentRootElement = virtuableComponent.rootHtmlElement;
+                if (componentRootElement === undefined) {
+                    throw new BindError(`${i18nStrings[I18nStringId.VirtualComponentDoesNotHaveRootHtmlElement]}: ${typeName}`);
+                } else {
+                    ensureElementPositionAbsolute(componentRootElement);
+                    this.container.appendChild(componentRootElement);
+                    this._virtuableComponentMap.set(container, virtuableComponent);
+                    container.virtualRectingRequiredEvent = this._containerVirtualRectingRequiredEventListener;
+                    container.virtualVisibilityChangeRequiredEvent = this._containerVirtualVisibilityChangeRequiredEventListener;
+                    container.virtualZIndexChangeRequiredEvent = this._containerVirtualZIndexChangeRequiredEventListener;
+                }
+            }
+        }
+
+        this._registeredComponentMap.set(container, component);
+
+        return {
+            virtual,
+            component,
+        };
+    }
+
+    /**
+     * Shows a placeholder in place of a component whose type is not registered.  The container keeps the component's type, state
+     * and title so the component is saved unchanged.  The placeholder is replaced by the component when its type is registered.
+     * @internal
+     */
+    private bindUnknownComponentTypePlaceholder(container: ComponentContainer,
+        itemConfig: ResolvedComponentItemConfig
+    ): ComponentContainer.BindableComponent {
+        const typeName = ResolvedComponentItemConfig.resolveComponentTypeName(itemConfig) ?? JSON.stringify(itemConfig.componentType);
+        const placeholderElement = document.createElement('div');
+        placeholderElement.classList.add(DomConstants.ClassName.ComponentPlaceholder, DomConstants.ClassName.UnknownComponentType);
+        placeholderElement.innerText = `${i18nStrings[I18nStringId.ComponentTypeNotAvailable]}: ${typeName}`;
+        container.element.appendChild(placeholderElement);
+        this._unknownComponentTypePlaceholderMap.set(container, placeholderElement);
+
+        return {
+            virtual: false,
+            component: undefined,
+        };
+    }
+
+    /**
+     * Binds the components of placeholders whose type is now registered
+     * @param typeName - The registered type or undefined if components of any type can now be bound
+     * @internal
+     */
+    private upgradeUnknownComponentTypePlaceholders(typeName: string | undefined) {
+        const containers = Array.from(this._unknownComponentTypePlaceholderMap.keys());
+        for (const container of containers) {
+            if (typeName === undefined || container.componentType === typeName) {
+                container.rebindComponent();
+            }
+        }
+    }
 }
 
 /** @public */
@@ -355,11 +454,14 @@ export namespace GoldenLayout {
 
     export type ComponentConstructor = new(container: ComponentContainer, state: JsonValue | undefined, virtual: boolean) => ComponentContainer.Component;
     export type ComponentFactoryFunction = (container: ComponentContainer, state: JsonValue | undefined, virtual: boolean) => ComponentContainer.Component | undefined;
+    export type AsyncComponentFactoryFunction =
+        (container: ComponentContainer, state: JsonValue | undefined, virtual: boolean) => Promise<ComponentContainer.Component | undefined>;
     export type GetComponentConstructorCallback = (this: void, config: ResolvedComponentItemConfig) => ComponentConstructor;
 
     export interface ComponentInstantiator {
         constructor: ComponentConstructor | undefined;
         factoryFunction: ComponentFactoryFunction | undefined;
+        asyncFactoryFunction: AsyncComponentFactoryFunction | undefined;
         virtual: boolean;
     }
 }
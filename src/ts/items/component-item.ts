@@ -4,6 +4,8 @@ import { Tab } from '../controls/tab';
 import { UnexpectedNullError } from '../errors/internal-error';
 import { LayoutManager } from '../layout-manager';
 import { DomConstants } from '../utils/dom-constants';
+import { EventEmitter } from '../utils/event-emitter';
+import { I18nStringId } from '../utils/i18n-strings';
 import { ItemType, JsonValue } from '../utils/types';
 import { getElementWidthAndHeight, setElementHeight, setElementWidth } from '../utils/utils';
 import { ComponentParentableItem } from './component-parentable-item';
@@ -14,6 +16,10 @@ export class ComponentItem extends ContentItem {
     /** @internal */
     private _reorderEnabled: boolean;
     /** @internal */
+    private _pinned: boolean;
+    /** @internal */
+    private _dropConstraints: ResolvedComponentItemConfig.DropConstraints | undefined;
+    /** @internal */
     private _headerConfig: ResolvedHeaderedItemConfig.Header | undefined;
     /** @internal */
     private _title: string;
@@ -25,11 +31,17 @@ export class ComponentItem extends ContentItem {
     private _tab: Tab;
     /** @internal */
     private _focused = false;
+    /** @internal */
+    private _closeConfirmationPending = false;
 
     /** @internal @deprecated use {@link (ComponentItem:class).componentType} */
     get componentName(): JsonValue { return this._container.componentType; }
     get componentType(): JsonValue { return this._container.componentType; }
     get reorderEnabled(): boolean { return this._reorderEnabled; }
+    /** See {@link (ComponentItemConfig:interface).pinned} */
+    get pinned(): boolean { return this._pinned; }
+    get dropConstraints(): ResolvedComponentItemConfig.DropConstraints | undefined { return this._dropConstraints; }
+    override get popoutEnabled(): boolean { return this._dropConstraints?.popout ?? ResolvedComponentItemConfig.DropConstraints.defaultPopout; }
     /** @internal */
     get initialWantMaximise(): boolean { return this._initialWantMaximise; }
     get component(): ComponentContainer.Component | undefined { return this._container.component; }
@@ -53,6 +65,8 @@ export class ComponentItem extends ContentItem {
         this.isComponent = true;
 
         this._reorderEnabled = config.reorderEnabled;
+        this._pinned = config.pinned;
+        this._dropConstraints = config.dropConstraints;
 
         this.applyUpdatableConfig(config);
 
@@ -95,7 +109,10 @@ export class ComponentItem extends ContentItem {
             id: this.id,
             maximised: false,
             isClosable: this.isClosable,
+            locked: this.locked,
             reorderEnabled: this._reorderEnabled,
+            pinned: this._pinned,
+            dropConstraints: ResolvedComponentItemConfig.DropConstraints.createCopy(this._dropConstraints),
             title: this._title,
             header: ResolvedHeaderedItemConfig.Header.createCopy(this._headerConfig),
             componentType: ResolvedComponentItemConfig.copyComponentType(this.componentType),
@@ -105,11 +122,23 @@ export class ComponentItem extends ContentItem {
         return result;
     }
 
+    /**
+     * Closes the component unless a listener of its 'beforeClose' event vetoes it.  If a listener called
+     * {@link (EventEmitter:namespace).(BeforeCloseBubblingEvent:class).waitUntil}, the component is closed once the veto resolves.
+     */
     close(): void {
         if (this.parent === null) {
             throw new UnexpectedNullError('CIC68883');
         } else {
-            this.parent.removeChild(this, false);
+            if (!this._closeConfirmationPending) {
+                this._closeConfirmationPending = true;
+                ComponentItem.confirmClose([this], (confirmed) => {
+                    this._closeConfirmationPending = false;
+                    if (confirmed) {
+                        this.closeConfirmed();
+                    }
+                });
+            }
         }
     }
 
@@ -186,12 +215,39 @@ export class ComponentItem extends ContentItem {
         this.emit('stateChanged');
     }
 
+    /**
+     * Pins or unpins the component.  A pinned component's tab is moved before the unpinned tabs of its stack.
+     * See {@link (ComponentItemConfig:interface).pinned}
+     */
+    setPinned(value: boolean): void {
+        if (value !== this._pinned) {
+            this._pinned = value;
+            // the tab is not created until the component is added to a stack
+            if (this._tab !== undefined) {
+                this._tab.applyPinned();
+                if (ContentItem.isStack(this._parentItem)) {
+                    this._parentItem.processChildPinnedChanged(this);
+                }
+            }
+            this.emit('stateChanged');
+        }
+    }
+
     setTab(tab: Tab): void {
         this._tab = tab;
         this.emit('tab', tab)
         this._container.setTab(tab);
     }
 
+    /** @internal */
+    protected override applyLocked(): void {
+        super.applyLocked();
+        // the tab is not created until the component is added to a stack
+        if (this._tab !== undefined) {
+            this._tab.applyLocked();
+        }
+    }
+
     /** @internal */
     override hide(): void {
         super.hide();
@@ -201,6 +257,8 @@ export class ComponentItem extends ContentItem {
     /** @internal */
     override show(): void {
         super.show();
+        // lazily bound components are bound when they are first shown
+        this._container.ensureBound();
         this._container.setVisibility(true);
     }
 
@@ -249,6 +307,22 @@ export class ComponentItem extends ContentItem {
         this.applyUpdatableConfig(itemConfig);
     }
 
+    /** @internal */
+    private closeConfirmed() {
+        const parent = this.parent;
+        // The item may have been removed while the close was being confirmed
+        if (parent !== null && parent.contentItems.includes(this)) {
+            this._container.emit('close');
+            this.layoutManager.beginHistoryGroup();
+            try {
+                parent.removeChild(this, false);
+            } finally {
+                this.layoutManager.endHistoryGroup();
+            }
+            this.layoutManager.announce(I18nStringId.ItemClosed, this._title);
+        }
+    }
+
     /** @internal */
     private updateNodeSize(force: boolean): void {
         if (this.element.style.display !== 'none') {
@@ -266,4 +340,40 @@ export type Component = ComponentItem;
 /** @public */
 export namespace ComponentItem {
     export type Component = ComponentContainer.Component;
+
+    /** @internal */
+    export type CloseConfirmedEvent = (this: void, confirmed: boolean) => void;
+
+    /**
+     * Emits 'beforeClose' on each of the component items until one prevents it, then reports whether the close was
+     * confirmed.  If listeners added vetoes with waitUntil(), the result is reported once they have all settled.
+     * @internal
+     */
+    export function confirmClose(componentItems: readonly ComponentItem[], closeConfirmedEvent: CloseConfirmedEvent): void {
+        const vetoes: PromiseLike<boolean>[] = [];
+        let prevented = false;
+        for (let i = 0; i < componentItems.length && !prevented; i++) {
+            const componentItem = componentItems[i];
+            const event = new EventEmitter.BeforeCloseBubblingEvent('beforeClose', componentItem);
+            componentItem.emit('beforeClose', event);
+            if (event.isDefaultPrevented) {
+                prevented = true;
+            } else {
+                vetoes.push(...event.vetoes);
+            }
+        }
+
+        if (prevented) {
+            closeConfirmedEvent(false);
+        } else {
+            if (vetoes.length === 0) {
+                closeConfirmedEvent(true);
+            } else {
+                Promise.all(vetoes).then(
+                    (results) => closeConfirmedEvent(!results.includes(false)),
+                    () => closeConfirmedEvent(false)
+                );
+            }
+        }
+    }
 }
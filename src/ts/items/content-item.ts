@@ -1,12 +1,16 @@
 import { ResolvedItemConfig } from '../config/resolved-config'
 import { BrowserPopout } from '../controls/browser-popout'
+import { ApiError } from '../errors/external-error'
 import { AssertError, UnexpectedNullError } from '../errors/internal-error'
 import { LayoutManager } from '../layout-manager'
+import { DomConstants } from '../utils/dom-constants'
 import { EventEmitter } from '../utils/event-emitter'
 import { AreaLinkedRect, ItemType, SizeUnitEnum } from '../utils/types'
 import { getUniqueId, setElementDisplayVisibility } from '../utils/utils'
 import { ComponentItem } from './component-item'
 import { ComponentParentableItem } from './component-parentable-item'
+import { EdgeDockItem } from './edge-dock-item'
+import { FloatingItem } from './floating-item'
 import { Stack } from './stack'
 
 /**
@@ -29,6 +33,8 @@ export abstract class ContentItem extends EventEmitter {
     /** @internal */
     private _isClosable;
     /** @internal */
+    private _locked: boolean;
+    /** @internal */
     private _pendingEventPropagations: Record<string, unknown>;
     /** @internal */
     private _throttledEvents: string[];
@@ -49,6 +55,8 @@ export abstract class ContentItem extends EventEmitter {
     isColumn: boolean
     isStack: boolean
     isComponent: boolean
+    isFloating: boolean
+    isEdgeDock: boolean
 
     get type(): ItemType { return this._type; }
     get id(): string { return this._id; }
@@ -58,8 +66,21 @@ export abstract class ContentItem extends EventEmitter {
     get parent(): ContentItem | null { return this._parent; }
     get contentItems(): ContentItem[] { return this._contentItems; }
     get isClosable(): boolean { return this._isClosable; }
+    /** Whether the item itself is locked against being rearranged.  See {@link (ItemConfig:interface).locked} */
+    get locked(): boolean { return this._locked; }
+    set locked(value: boolean) {
+        if (value !== this._locked) {
+            this._locked = value;
+            this.updateLocked();
+            this.emitBaseBubblingEvent('stateChanged');
+        }
+    }
+    /** Whether the item is locked by itself, by one of its ancestors or by the layout */
+    get isLocked(): boolean { return this._locked || this.layoutManager.locked || (this._parent?.isLocked ?? false); }
     get element(): HTMLElement { return this._element; }
     get isInitialised(): boolean { return this._isInitialised; }
+    /** Whether the drop constraints of all the components in the item allow it to be popped out */
+    get popoutEnabled(): boolean { return this._contentItems.every((item) => item.popoutEnabled); }
 
     static isStack(item: ContentItem): item is Stack {
         return item.isStack;
@@ -69,6 +90,14 @@ export abstract class ContentItem extends EventEmitter {
         return item.isComponent;
     }
 
+    static isFloatingItem(item: ContentItem): item is FloatingItem {
+        return item.isFloating;
+    }
+
+    static isEdgeDockItem(item: ContentItem): item is EdgeDockItem {
+        return item.isEdgeDock;
+    }
+
     static isComponentParentableItem(item: ContentItem): item is ComponentParentableItem {
         return item.isStack || item.isGround;
     }
@@ -92,6 +121,8 @@ export abstract class ContentItem extends EventEmitter {
         this.isColumn = false;
         this.isStack = false;
         this.isComponent = false;
+        this.isFloating = false;
+        this.isEdgeDock = false;
 
         this.size = config.size;
         this.sizeUnit = config.sizeUnit;
@@ -99,6 +130,7 @@ export abstract class ContentItem extends EventEmitter {
         this.minSizeUnit = config.minSizeUnit;
 
         this._isClosable = config.isClosable;
+        this._locked = config.locked;
 
         this._pendingEventPropagations = {};
         this._throttledEvents = ['stateChanged'];
@@ -157,11 +189,21 @@ export abstract class ContentItem extends EventEmitter {
              * If this was the last content item, remove this node as well
              */
             // if (!this.isGround && this._isClosable === true) {
-            if (!this.isGround) {
-                if (this._parent === null) {
-                    throw new UnexpectedNullError('CIUC00874');
+            if (!this.isGround && !this.layoutManager.emptyItemRemovalSuspended) {
+                if (ContentItem.isFloatingItem(this)) {
+                    // FloatingItems do not have a parent.  They are owned by LayoutManager
+                    this.layoutManager.removeFloatingItem(this);
                 } else {
-                    this._parent.removeChild(this);
+                    if (ContentItem.isEdgeDockItem(this)) {
+                        // Neither do EdgeDockItems
+                        this.layoutManager.removeEdgeDockItem(this);
+                    } else {
+                        if (this._parent === null) {
+                            throw new UnexpectedNullError('CIUC00874');
+                        } else {
+                            this._parent.removeChild(this);
+                        }
+                    }
                 }
             }
         }
@@ -250,19 +292,55 @@ export abstract class ContentItem extends EventEmitter {
         if (this._parent === null) {
             throw new UnexpectedNullError('CIR11110');
         } else {
-            this._parent.removeChild(this);
+            this.layoutManager.beginHistoryGroup();
+            try {
+                this._parent.removeChild(this);
+            } finally {
+                this.layoutManager.endHistoryGroup();
+            }
         }
     }
 
     /**
      * Removes the component from the layout and creates a new
-     * browser window with the component and its children inside
+     * browser window with the component and its children inside.
+     * Throws an ApiError if the item is not {@link (ContentItem:class).popoutEnabled} or a listener of the item's
+     * 'beforePopout' event prevented it.  Use {@link (ContentItem:class).tryPopout} if the popout may be refused.
      */
     popout(): BrowserPopout {
-        const parentId = getUniqueId();
-        const browserPopout = this.layoutManager.createPopoutFromContentItem(this, undefined, parentId, undefined);
-        this.emitBaseBubblingEvent('stateChanged');
-        return browserPopout;
+        const browserPopout = this.tryPopout();
+        if (browserPopout === undefined) {
+            throw new ApiError('Popout was prevented');
+        } else {
+            return browserPopout;
+        }
+    }
+
+    /**
+     * Same as {@link (ContentItem:class).popout} however it does not throw if the popout is refused
+     * @returns The popout or undefined if the item is not {@link (ContentItem:class).popoutEnabled} or a listener of
+     * the item's 'beforePopout' event prevented it
+     */
+    tryPopout(): BrowserPopout | undefined {
+        if (!this.popoutEnabled) {
+            return undefined;
+        } else {
+            const event = new EventEmitter.CancellableBubblingEvent('beforePopout', this);
+            this.emit('beforePopout', event);
+            if (event.isDefaultPrevented) {
+                return undefined;
+            } else {
+                const parentId = getUniqueId();
+                this.layoutManager.beginHistoryGroup();
+                try {
+                    const browserPopout = this.layoutManager.createPopoutFromContentItem(this, undefined, parentId, undefined);
+                    this.emitBaseBubblingEvent('stateChanged');
+                    return browserPopout;
+                } finally {
+                    this.layoutManager.endHistoryGroup();
+                }
+            }
+        }
     }
 
     abstract toConfig(): ResolvedItemConfig;
@@ -394,6 +472,7 @@ export abstract class ContentItem extends EventEmitter {
      */
     init(): void {
         this._isInitialised = true;
+        this.applyLocked();
         this.emitBaseBubblingEvent('itemCreated');
         this.emitUnknownBubblingEvent(this.type + 'Created');
     }
@@ -401,6 +480,33 @@ export abstract class ContentItem extends EventEmitter {
     /** @internal */
     protected setParent(parent: ContentItem): void {
         this._parent = parent;
+        // the item may have been moved into or out of a locked item
+        if (this._isInitialised) {
+            this.updateLocked();
+        }
+    }
+
+    /**
+     * Updates the item and its descendants to match whether they are locked
+     * @internal
+     */
+    updateLocked(): void {
+        this.applyLocked();
+        for (const contentItem of this._contentItems) {
+            contentItem.updateLocked();
+        }
+    }
+
+    /**
+     * Updates the item (but not its descendants) to match whether it is locked
+     * @internal
+     */
+    protected applyLocked(): void {
+        if (this.isLocked) {
+            this._element.classList.add(DomConstants.ClassName.Locked);
+        } else {
+            this._element.classList.remove(DomConstants.ClassName.Locked);
+        }
     }
 
     /** @internal */
@@ -539,6 +645,8 @@ export namespace ContentItem {
     export interface Area extends AreaLinkedRect {
         surface: number;
         contentItem: ContentItem;
+        /** Whether the dragged component cannot be dropped onto the area */
+        rejected?: boolean;
     }
     /** @public */
     export interface DockPoint {
@@ -0,0 +1,271 @@
+import { ResolvedEdgeDockItemConfig } from '../config/resolved-config';
+import { AssertError } from '../errors/internal-error';
+import { LayoutManager } from '../layout-manager';
+import { DomConstants } from '../utils/dom-constants';
+import { ItemType, Side } from '../utils/types';
+import { numberToPixels, setElementDisplayVisibility, setElementHeight, setElementWidth } from '../utils/utils';
+import { ContentItem } from './content-item';
+import { Stack } from './stack';
+
+/**
+ * A Stack which has been collapsed to a tab on an edge of the layout (auto-hide).  Clicking the tab slides the Stack out
+ * over the layout.  It slides back when focus leaves it or the layout is clicked elsewhere.
+ * EdgeDockItems do not have a parent.  They are created and owned by the LayoutManager
+ * (see {@link (LayoutManager:class).edgeDockItems}).
+ * @public
+ */
+export class EdgeDockItem extends ContentItem {
+    /** @internal */
+    private readonly _side: Side;
+    /** @internal */
+    private _slideOutSize: number;
+    /** @internal */
+    private _isSlidOut = false;
+    /** @internal */
+    private readonly _tabElement: HTMLButtonElement;
+
+    /** @internal */
+    private _tabClickListener = () => this.toggleSlideOut();
+    /** @internal */
+    private _documentPointerDownListener = (ev: PointerEvent) => this.onDocumentPointerDown(ev);
+    /** @internal */
+    private _focusOutListener = (ev: FocusEvent) => this.onFocusOut(ev);
+    /** @internal */
+    private _tabUpdateListener = () => this.updateTab();
+
+    /** The edge of the layout on which the tab is displayed */
+    get side(): Side { return this._side; }
+    /** Width (left and right edges) or height (top and bottom edges) in pixels of the Stack when it has slid out */
+    get slideOutSize(): number { return this._slideOutSize; }
+    get isSlidOut(): boolean { return this._isSlidOut; }
+    /** The collapsed Stack.  Only undefined while the EdgeDockItem is being removed */
+    get stack(): Stack | undefined {
+        const contentItems = this.contentItems;
+        return contentItems.length === 0 ? undefined : contentItems[0] as Stack;
+    }
+    /** @internal */
+    get tabElement(): HTMLElement { return this._tabElement; }
+
+    /** @internal */
+    constructor(layoutManager: LayoutManager, config: ResolvedEdgeDockItemConfig, containerElement: HTMLElement) {
+        super(layoutManager, config, null, EdgeDockItem.createElement(document, config.side));
+
+        this.isEdgeDock = true;
+        this._side = config.side;
+        this._slideOutSize = config.slideOutSize;
+
+        this._tabElement = EdgeDockItem.createTabElement(document);
+        this._tabElement.addEventListener('click', this._tabClickListener, { passive: true });
+
+        setElementDisplayVisibility(this.element, false);
+        this.element.addEventListener('focusout', this._focusOutListener, { passive: true });
+        this.on('titleChanged', this._tabUpdateListener);
+        this.on('activeContentItemChanged', this._tabUpdateListener);
+
+        containerElement.appendChild(this.element);
+    }
+
+    /** @internal */
+    override init(): void {
+        if (this.isInitialised === true) return;
+
+        for (let i = 0; i < this.contentItems.length; i++) {
+            this.element.appendChild(this.contentItems[i].element);
+        }
+
+        super.init();
+
+        this.initContentItems();
+        this.updateTab();
+    }
+
+    /** Slides the Stack out over the layout.  Any other EdgeDockItem which has slid out, slides back. */
+    slideOut(): void {
+        if (!this._isSlidOut) {
+            for (const item of this.layoutManager.edgeDockItems) {
+                if (item !== this) {
+                    item.slideIn();
+                }
+            }
+            this._isSlidOut = true;
+            this._tabElement.classList.add(DomConstants.ClassName.Active);
+            this._tabElement.setAttribute('aria-expanded', 'true');
+            setElementDisplayVisibility(this.element, true);
+            this.updateSize(true);
+            document.addEventListener('pointerdown', this._documentPointerDownListener, { capture: true, passive: true });
+            this.stack?.focusActiveContentItem();
+            this.emit('slidOut');
+        }
+    }
+
+    /** Slides the Stack back to its tab */
+    slideIn(): void {
+        if (this._isSlidOut) {
+            this._isSlidOut = false;
+            document.removeEventListener('pointerdown', this._documentPointerDownListener, { capture: true });
+            this._tabElement.classList.remove(DomConstants.ClassName.Active);
+            this._tabElement.setAttribute('aria-expanded', 'false');
+            setElementDisplayVisibility(this.element, false);
+            this.emit('slidIn');
+        }
+    }
+
+    /** Moves the Stack back into the layout on the side of its edge */
+    pin(): void {
+        this.layoutManager.pinEdgeDockItem(this);
+    }
+
+    /** Sets the width (left and right edges) or height (top and bottom edges) in pixels of the Stack when it has slid out */
+    setSlideOutSize(size: number): void {
+        if (size !== this._slideOutSize) {
+            this._slideOutSize = size;
+            this.updateSize(false);
+            this.emitBaseBubblingEvent('stateChanged');
+        }
+    }
+
+    /**
+     * Removes the EdgeDockItem (and its Stack) from the layout
+     */
+    override remove(): void {
+        this.layoutManager.beginHistoryGroup();
+        try {
+            this.layoutManager.removeEdgeDockItem(this);
+        } finally {
+            this.layoutManager.endHistoryGroup();
+        }
+    }
+
+    /**
+     * Adds the collapsed Stack.
+     * @internal
+     */
+    override addChild(contentItem: ContentItem, index?: number): number {
+        if (this.contentItems.length > 0) {
+            throw new Error('EdgeDockItem can only have a single child');
+        } else {
+            if (!ContentItem.isStack(contentItem)) {
+                throw new AssertError('EDIAC30556'); // Components are wrapped in a Stack before being added
+            } else {
+                this.element.appendChild(contentItem.element);
+                index = super.addChild(contentItem, index);
+
+                this.updateSize(false);
+                this.updateTab();
+                this.emitBaseBubblingEvent('stateChanged');
+
+                return index;
+            }
+        }
+    }
+
+    /** @internal */
+    override updateSize(force: boolean): void {
+        if (this._isSlidOut) {
+            this.layoutManager.beginVirtualSizedContainerAdding();
+            try {
+                this.updateNodeSize();
+                this.updateContentItemsSize(force);
+            } finally {
+                this.layoutManager.endVirtualSizedContainerAdding();
+            }
+        }
+    }
+
+    toConfig(): ResolvedEdgeDockItemConfig {
+        const result: ResolvedEdgeDockItemConfig = {
+            type: ItemType.edgeDock,
+            content: this.calculateConfigContent() as ResolvedEdgeDockItemConfig.ChildItemConfig[],
+            size: this.size,
+            sizeUnit: this.sizeUnit,
+            minSize: this.minSize,
+            minSizeUnit: this.minSizeUnit,
+            id: this.id,
+            isClosable: this.isClosable,
+            locked: this.locked,
+            side: this._side,
+            slideOutSize: this._slideOutSize,
+        };
+        return result;
+    }
+
+    /** @internal */
+    override destroy(): void {
+        this.slideIn();
+        this.off('titleChanged', this._tabUpdateListener);
+        this.off('activeContentItemChanged', this._tabUpdateListener);
+        this.element.removeEventListener('focusout', this._focusOutListener);
+        this._tabElement.removeEventListener('click', this._tabClickListener);
+        this._tabElement.remove();
+        super.destroy();
+    }
+
+    /** @internal */
+    private updateNodeSize(): void {
+        const rect = this.layoutManager.calculateEdgeDockItemRect(this);
+        this.element.style.left = numberToPixels(rect.left);
+        this.element.style.top = numberToPixels(rect.top);
+        setElementWidth(this.element, rect.width);
+        setElementHeight(this.element, rect.height);
+
+        const stack = this.stack;
+        // a maximised stack is temporarily displayed in the GroundItem and sized by the LayoutManager
+        if (stack !== undefined && !stack.isMaximised) {
+            setElementWidth(stack.element, rect.width);
+            setElementHeight(stack.element, rect.height);
+        }
+    }
+
+    /** The tab shows the title of the Stack's active component */
+    private updateTab() {
+        const title = this.stack?.getActiveComponentItem()?.title ?? '';
+        this._tabElement.textContent = title;
+        this._tabElement.title = title;
+    }
+
+    /** @internal */
+    private toggleSlideOut() {
+        if (this._isSlidOut) {
+            this.slideIn();
+        } else {
+            this.slideOut();
+        }
+    }
+
+    /** @internal */
+    private onDocumentPointerDown(ev: PointerEvent) {
+        const target = ev.target;
+        if (target instanceof Node && !this.element.contains(target) && !this._tabElement.contains(target)) {
+            this.slideIn();
+        }
+    }
+
+    /** Only slide in if focus has moved to another element.  Clicking a non focusable part of the Stack also removes focus */
+    private onFocusOut(ev: FocusEvent) {
+        const relatedTarget = ev.relatedTarget;
+        if (relatedTarget instanceof Node && !this.element.contains(relatedTarget) && !this._tabElement.contains(relatedTarget)) {
+            this.slideIn();
+        }
+    }
+}
+
+/** @public */
+export namespace EdgeDockItem {
+    /** @internal */
+    export function createElement(document: Document, side: Side): HTMLDivElement {
+        const element = document.createElement('div');
+        element.classList.add(DomConstants.ClassName.Item);
+        element.classList.add(DomConstants.ClassName.EdgeDockItem);
+        element.classList.add('lm_' + side);
+        return element;
+    }
+
+    /** @internal */
+    export function createTabElement(document: Document): HTMLButtonElement {
+        const element = document.createElement('button');
+        element.type = 'button';
+        element.classList.add(DomConstants.ClassName.EdgeDockTab);
+        element.setAttribute('aria-expanded', 'false');
+        return element;
+    }
+}
@@ -0,0 +1,317 @@
+import { FloatingItemConfig } from '../config/config';
+import { ResolvedFloatingItemConfig } from '../config/resolved-config';
+import { AssertError, UnexpectedUndefinedError } from '../errors/internal-error';
+import { LayoutManager } from '../layout-manager';
+import { DomConstants } from '../utils/dom-constants';
+import { DragListener } from '../utils/drag-listener';
+import { ItemType } from '../utils/types';
+import { numberToPixels, setElementHeight, setElementWidth } from '../utils/utils';
+import { ContentItem } from './content-item';
+import { Stack } from './stack';
+
+/**
+ * A floating (in-page) window which is displayed over the GroundItem.  Its one child is a Stack.
+ * FloatingItems do not have a parent.  They are created and owned by the LayoutManager
+ * (see {@link (LayoutManager:class).floatingItems}).
+ * A FloatingItem is moved by dragging its header and resized by dragging its bottom right corner.
+ * @public
+ */
+export class FloatingItem extends ContentItem {
+    /** @internal */
+    private _bounds: ResolvedFloatingItemConfig.Bounds;
+    /** @internal */
+    private _dragStartBounds: ResolvedFloatingItemConfig.Bounds | undefined;
+    /** @internal */
+    private _moveDragListener: DragListener | undefined;
+    /** @internal */
+    private readonly _resizeDragListener: DragListener;
+    /** @internal */
+    private readonly _resizeHandleElement: HTMLElement;
+
+    /** @internal */
+    private _pointerDownListener = () => this.layoutManager.bringFloatingItemToFront(this);
+    /** @internal */
+    private _dragStartListener = () => this.onDragStart();
+    /** @internal */
+    private _moveDragListenerDrag = (offsetX: number, offsetY: number) => this.onMoveDrag(offsetX, offsetY);
+    /** @internal */
+    private _resizeDragListenerDrag = (offsetX: number, offsetY: number) => this.onResizeDrag(offsetX, offsetY);
+    /** @internal */
+    private _dragStopListener = () => this.onDragStop();
+
+    /** Position and size in pixels, relative to the layout container */
+    get bounds(): ResolvedFloatingItemConfig.Bounds { return this._bounds; }
+    /** The Stack displayed in the FloatingItem.  Only undefined while the FloatingItem is being removed */
+    get stack(): Stack | undefined {
+        const contentItems = this.contentItems;
+        return contentItems.length === 0 ? undefined : contentItems[0] as Stack;
+    }
+
+    /** @internal */
+    constructor(layoutManager: LayoutManager, config: ResolvedFloatingItemConfig, containerElement: HTMLElement) {
+        super(layoutManager, config, null, FloatingItem.createElement(document));
+
+        this.isFloating = true;
+        this._bounds = ResolvedFloatingItemConfig.Bounds.createCopy(config.bounds);
+
+        this._resizeHandleElement = document.createElement('div');
+        this._resizeHandleElement.classList.add(DomConstants.ClassName.FloatingResizeHandle);
+        this.element.appendChild(this._resizeHandleElement);
+
+        this._resizeDragListener = new DragListener(this._resizeHandleElement, []);
+        this._resizeDragListener.on('dragStart', this._dragStartListener);
+        this._resizeDragListener.on('drag', this._resizeDragListenerDrag);
+        this._resizeDragListener.on('dragStop', this._dragStopListener);
+
+        this.element.addEventListener('pointerdown', this._pointerDownListener, { capture: true, passive: true });
+
+        containerElement.appendChild(this.element);
+    }
+
+    /** @internal */
+    override init(): void {
+        if (this.isInitialised === true) return;
+
+        this.updateNodeSize();
+
+        for (let i = 0; i < this.contentItems.length; i++) {
+            this.element.insertBefore(this.contentItems[i].element, this._resizeHandleElement);
+        }
+
+        super.init();
+
+        this.initContentItems();
+
+        const stack = this.stack;
+        if (stack !== undefined) {
+            this.attachMoveDragListener(stack);
+        }
+        this.updateSize(false);
+    }
+
+    /**
+     * Moves and/or resizes the FloatingItem.  Bounds which are not specified are left unchanged.
+     */
+    setBounds(bounds: FloatingItemConfig.Bounds): void {
+        this._bounds = {
+            left: bounds.left ?? this._bounds.left,
+            top: bounds.top ?? this._bounds.top,
+            width: bounds.width ?? this._bounds.width,
+            height: bounds.height ?? this._bounds.height,
+        };
+        this.updateSize(false);
+        this.emitBaseBubblingEvent('stateChanged');
+    }
+
+    /** Displays the FloatingItem in front of all other FloatingItems */
+    bringToFront(): void {
+        this.layoutManager.bringFloatingItemToFront(this);
+    }
+
+    /**
+     * Removes the FloatingItem (and its Stack) from the layout
+     */
+    override remove(): void {
+        this.layoutManager.beginHistoryGroup();
+        try {
+            this.layoutManager.removeFloatingItem(this);
+        } finally {
+            this.layoutManager.endHistoryGroup();
+        }
+    }
+
+    /**
+     * Adds the Stack displayed in the FloatingItem.
+     * @internal
+     */
+    override addChild(contentItem: ContentItem, index?: number): number {
+        if (this.contentItems.length > 0) {
+            throw new Error('FloatingItem can only have a single child');
+        } else {
+            if (!ContentItem.isStack(contentItem)) {
+                throw new AssertError('FIAC30551'); // Components are wrapped in a Stack before being added
+            } else {
+                this.element.insertBefore(contentItem.element, this._resizeHandleElement);
+                index = super.addChild(contentItem, index);
+                this.attachMoveDragListener(contentItem);
+
+                this.updateSize(false);
+                this.emitBaseBubblingEvent('stateChanged');
+
+                return index;
+            }
+        }
+    }
+
+    /** @internal */
+    override removeChild(contentItem: ContentItem, keepChild = false): void {
+        this.detachMoveDragListener();
+        super.removeChild(contentItem, keepChild);
+    }
+
+    /** @internal */
+    override updateSize(force: boolean): void {
+        this.layoutManager.beginVirtualSizedContainerAdding();
+        try {
+            this.updateNodeSize();
+            this.updateContentItemsSize(force);
+        } finally {
+            this.layoutManager.endVirtualSizedContainerAdding();
+        }
+    }
+
+    /** @internal */
+    setZIndex(zIndex: number): void {
+        this.element.style.zIndex = zIndex.toString(10);
+    }
+
+    toConfig(): ResolvedFloatingItemConfig {
+        const result: ResolvedFloatingItemConfig = {
+            type: ItemType.floating,
+            content: this.calculateConfigContent() as ResolvedFloatingItemConfig.ChildItemConfig[],
+            size: this.size,
+            sizeUnit: this.sizeUnit,
+            minSize: this.minSize,
+            minSizeUnit: this.minSizeUnit,
+            id: this.id,
+            isClosable: this.isClosable,
+            locked: this.locked,
+            bounds: ResolvedFloatingItemConfig.Bounds.createCopy(this._bounds),
+        };
+        return result;
+    }
+
+    /** @internal */
+    override destroy(): void {
+        if (this._dragStartBounds !== undefined) {
+            // destroyed while being moved or resized
+            this._dragStartBounds = undefined;
+            this.layoutManager.endHistoryGroup();
+        }
+        this.detachMoveDragListener();
+        this._resizeDragListener.off('dragStart', this._dragStartListener);
+        this._resizeDragListener.off('drag', this._resizeDragListenerDrag);
+        this._resizeDragListener.off('dragStop', this._dragStopListener);
+        this._resizeDragListener.destroy();
+        this.element.removeEventListener('pointerdown', this._pointerDownListener, { capture: true });
+        super.destroy();
+    }
+
+    /** @internal */
+    private updateNodeSize(): void {
+        const { left, top, width, height } = this._bounds;
+        this.element.style.left = numberToPixels(left);
+        this.element.style.top = numberToPixels(top);
+        setElementWidth(this.element, width);
+        setElementHeight(this.element, height);
+
+        const stack = this.stack;
+        // a maximised stack is temporarily displayed in the GroundItem and sized by the LayoutManager
+        if (stack !== undefined && !stack.isMaximised) {
+            setElementWidth(stack.element, width);
+            setElementHeight(stack.element, height);
+        }
+    }
+
+    /**
+     * The FloatingItem is moved by dragging the empty part of its Stack's header
+     * @internal
+     */
+    private attachMoveDragListener(stack: Stack) {
+        this.detachMoveDragListener();
+        const header = stack.header;
+        this._moveDragListener = new DragListener(header.element, [header.tabsContainerElement]);
+        this._moveDragListener.on('dragStart', this._dragStartListener);
+        this._moveDragListener.on('drag', this._moveDragListenerDrag);
+        this._moveDragListener.on('dragStop', this._dragStopListener);
+    }
+
+    /** @internal */
+    private detachMoveDragListener() {
+        if (this._moveDragListener !== undefined) {
+            this._moveDragListener.off('dragStart', this._dragStartListener);
+            this._moveDragListener.off('drag', this._moveDragListenerDrag);
+            this._moveDragListener.off('dragStop', this._dragStopListener);
+            this._moveDragListener.destroy();
+            this._moveDragListener = undefined;
+        }
+    }
+
+    /** @internal */
+    private onDragStart() {
+        // The history group is ended in onDragStop() so a move or resize is undone as one step
+        this.layoutManager.beginHistoryGroup();
+        this._dragStartBounds = this._bounds;
+    }
+
+    /** @internal */
+    private onMoveDrag(offsetX: number, offsetY: number) {
+        const startBounds = this._dragStartBounds;
+        if (startBounds === undefined) {
+            throw new UnexpectedUndefinedError('FIOMD30552');
+        } else if (this.isLocked) {
+            // locked floating windows are not moved
+        } else {
+            let left = startBounds.left + offsetX;
+            let top = startBounds.top + offsetY;
+            // keep within the layout container
+            const layoutWidth = this.layoutManager.width;
+            if (layoutWidth !== null) {
+                left = Math.min(left, layoutWidth - startBounds.width);
+            }
+            const layoutHeight = this.layoutManager.height;
+            if (layoutHeight !== null) {
+                top = Math.min(top, layoutHeight - startBounds.height);
+            }
+            this._bounds = { ...startBounds, left: Math.max(0, left), top: Math.max(0, top) };
+            this.element.style.left = numberToPixels(this._bounds.left);
+            this.element.style.top = numberToPixels(this._bounds.top);
+        }
+    }
+
+    /** @internal */
+    private onResizeDrag(offsetX: number, offsetY: number) {
+        const startBounds = this._dragStartBounds;
+        if (startBounds === undefined) {
+            throw new UnexpectedUndefinedError('FIORD30553');
+        } else if (this.isLocked) {
+            // locked floating windows are not resized
+        } else {
+            const dimensions = this.layoutManager.layoutConfig.dimensions;
+            let width = startBounds.width + offsetX;
+            let height = startBounds.height + offsetY;
+            const layoutWidth = this.layoutManager.width;
+            if (layoutWidth !== null) {
+                width = Math.min(width, layoutWidth - startBounds.left);
+            }
+            const layoutHeight = this.layoutManager.height;
+            if (layoutHeight !== null) {
+                height = Math.min(height, layoutHeight - startBounds.top);
+            }
+            width = Math.max(width, dimensions.defaultMinItemWidth);
+            height = Math.max(height, dimensions.headerHeight + dimensions.defaultMinItemHeight);
+            this._bounds = { ...startBounds, width, height };
+            this.updateSize(false);
+        }
+    }
+
+    /** @internal */
+    private onDragStop() {
+        if (this._dragStartBounds !== undefined) {
+            this._dragStartBounds = undefined;
+            this.emitBaseBubblingEvent('stateChanged');
+            this.layoutManager.endHistoryGroup();
+        }
+    }
+}
+
+/** @public */
+export namespace FloatingItem {
+    /** @internal */
+    export function createElement(document: Document): HTMLDivElement {
+        const element = document.createElement('div');
+        element.classList.add(DomConstants.ClassName.Item);
+        element.classList.add(DomConstants.ClassName.Floating);
+        return element;
+    }
+}
@@ -4,7 +4,7 @@ import { AssertError, UnexpectedNullError } from '../errors/internal-error';
 import { LayoutManager } from '../layout-manager';
 import { DomConstants } from '../utils/dom-constants';
 import { AreaLinkedRect, ItemType, SizeUnitEnum } from '../utils/types';
-import { getElementClientWidthAndHeight, setElementHeight, setElementWidth } from '../utils/utils';
+import { getElementClientWidthAndHeight, numberToPixels, setElementHeight, setElementWidth } from '../utils/utils';
 import { ComponentItem } from './component-item';
 import { ComponentParentableItem } from './component-parentable-item';
 import { ContentItem } from './content-item';
@@ -19,6 +19,10 @@ import { RowOrColumn } from './row-or-column';
 export class GroundItem extends ComponentParentableItem {
     private readonly _childElementContainer: HTMLElement;
     private readonly _containerElement: HTMLElement;
+    private _edgeInsets: GroundItem.EdgeInsets = GroundItem.EdgeInsets.none;
+
+    /** Space reserved on the edges of the layout.  See {@link GroundItem.setEdgeInsets} */
+    get edgeInsets(): GroundItem.EdgeInsets { return this._edgeInsets; }
 
     constructor(layoutManager: LayoutManager, rootItemConfig: ResolvedRootItemConfig | undefined, containerElement: HTMLElement) {
 
@@ -150,6 +154,16 @@ export class GroundItem extends ComponentParentableItem {
         }
     }
 
+    override removeChild(contentItem: ContentItem, keepChild = false): void {
+        GroundItem.clearRootElementInsets(contentItem.element);
+        super.removeChild(contentItem, keepChild);
+    }
+
+    override replaceChild(oldChild: ContentItem, newChild: ContentItem, destroyOldChild = false): void {
+        GroundItem.clearRootElementInsets(oldChild.element);
+        super.replaceChild(oldChild, newChild, destroyOldChild);
+    }
+
     /** @internal */
     override calculateConfigContent(): ResolvedRootItemConfig[] {
         const contentItems = this.contentItems;
@@ -174,12 +188,7 @@ export class GroundItem extends ComponentParentableItem {
         } else {
             setElementWidth(this.element, width);
             setElementHeight(this.element, height);
-
-            // GroundItem can be empty
-            if (this.contentItems.length > 0) {
-                setElementWidth(this.contentItems[0].element, width);
-                setElementHeight(this.contentItems[0].element, height);
-            }
+            this.setRootElementSize(width, height);
 
             this.updateContentItemsSize(true);
         }
@@ -199,6 +208,18 @@ export class GroundItem extends ComponentParentableItem {
         }
     }
 
+    /**
+     * Reserves space on the edges of the layout (for the tabs of EdgeDockItems).  The root ContentItem is sized to fit
+     * within the remaining space.
+     */
+    setEdgeInsets(insets: GroundItem.EdgeInsets): void {
+        const existing = this._edgeInsets;
+        if (insets.left !== existing.left || insets.top !== existing.top || insets.right !== existing.right || insets.bottom !== existing.bottom) {
+            this._edgeInsets = insets;
+            this.updateSize(true);
+        }
+    }
+
     createSideAreas(): GroundItem.Area[] {
         const areaSize = 50;
 
@@ -344,13 +365,24 @@ export class GroundItem extends ComponentParentableItem {
 
         setElementWidth(this.element, width);
         setElementHeight(this.element, height);
+        this.setRootElementSize(width, height);
+    }
 
+    private setRootElementSize(width: number, height: number): void {
         /*
          * GroundItem can be empty
          */
         if (this.contentItems.length > 0) {
-            setElementWidth(this.contentItems[0].element, width);
-            setElementHeight(this.contentItems[0].element, height);
+            const { left, top, right, bottom } = this._edgeInsets;
+            const rootElement = this.contentItems[0].element;
+            if (left === 0 && top === 0) {
+                GroundItem.clearRootElementInsets(rootElement);
+            } else {
+                rootElement.style.marginLeft = numberToPixels(left);
+                rootElement.style.marginTop = numberToPixels(top);
+            }
+            setElementWidth(rootElement, Math.max(0, width - left - right));
+            setElementHeight(rootElement, Math.max(0, height - top - bottom));
         }
     }
 
@@ -400,6 +432,23 @@ export namespace GroundItem {
         };
     }
 
+    /** Space in pixels reserved on each edge of the layout */
+    export interface EdgeInsets {
+        readonly left: number;
+        readonly top: number;
+        readonly right: number;
+        readonly bottom: number;
+    }
+
+    export namespace EdgeInsets {
+        export const none: EdgeInsets = { left: 0, top: 0, right: 0, bottom: 0 } as const;
+    }
+
+    export function clearRootElementInsets(element: HTMLElement): void {
+        element.style.marginLeft = '';
+        element.style.marginTop = '';
+    }
+
     export function createElement(document: Document): HTMLDivElement {
         const element = document.createElement('div');
         element.classList.add(DomConstants.ClassName.GoldenLayout);
@@ -266,6 +266,7 @@ export class RowOrColumn extends ContentItem {
             minSizeUnit: this.minSizeUnit,
             id: this.id,
             isClosable: this.isClosable,
+            locked: this.locked,
         }
         return result;
     }
@@ -296,9 +297,12 @@ export class RowOrColumn extends ContentItem {
     private setAbsoluteSizes() {
         const absoluteSizes = this.calculateAbsoluteSizes();
 
+        let additionalPixel = absoluteSizes.additionalPixel;
         for (let i = 0; i < this.contentItems.length; i++) {
-            if (absoluteSizes.additionalPixel - i > 0) {
+            // collapsed Stacks keep their header size
+            if (additionalPixel > 0 && !absoluteSizes.collapsed[i]) {
                 absoluteSizes.itemSizes[i]++;
+                additionalPixel--;
             }
 
             if (this._isColumn) {
@@ -309,10 +313,20 @@ export class RowOrColumn extends ContentItem {
                 setElementHeight(this.contentItems[i].element, absoluteSizes.crossAxisSize);
             }
         }
+
+        const splitterCount = Math.min(this._splitter.length, absoluteSizes.itemSizes.length - 1);
+        for (let i = 0; i < splitterCount; i++) {
+            const sizeBefore = absoluteSizes.itemSizes[i];
+            const sizeAfter = absoluteSizes.itemSizes[i + 1];
+            const totalSize = sizeBefore + sizeAfter;
+            this._splitter[i].setValue(totalSize > 0 ? Math.round(100 * sizeBefore / totalSize) : 50);
+        }
     }
 
     /**
      * Calculates the absolute sizes of all of the children of this Item.
+     * Stacks collapsed to their header are given the header size.  The remaining space is shared by the other
+     * children in proportion to their relative sizes.
      * @returns Set with absolute sizes and additional pixels.
      * @internal
      */
@@ -330,32 +344,89 @@ export class RowOrColumn extends ContentItem {
             crossAxisSize = elementHeight;
         }
 
+        const collapsedSizes = this.calculateCollapsedSizes();
+        let expandedTotalSize = totalSize;
+        let expandedTotalPercent = 100;
+        if (collapsedSizes !== undefined) {
+            expandedTotalPercent = 0;
+            for (let i = 0; i < this.contentItems.length; i++) {
+                const collapsedSize = collapsedSizes[i];
+                if (collapsedSize === undefined) {
+                    expandedTotalPercent += this.contentItems[i].size;
+                } else {
+                    expandedTotalSize -= collapsedSize;
+                }
+            }
+            expandedTotalSize = Math.max(0, expandedTotalSize);
+        }
+
         let totalAssigned = 0;
         const itemSizes: number[] = [];
+        const collapsed: boolean[] = [];
 
         for (let i = 0; i < this.contentItems.length; i++) {
             const contentItem = this.contentItems[i];
+            const collapsedSize = collapsedSizes?.[i];
             let itemSize: number;
-            if (contentItem.sizeUnit === SizeUnitEnum.Percent) {
-                itemSize = Math.floor(totalSize * (contentItem.size / 100));
+            if (collapsedSize !== undefined) {
+                itemSize = collapsedSize;
             } else {
-                throw new AssertError('ROCCAS6692');
+                if (contentItem.sizeUnit === SizeUnitEnum.Percent) {
+                    itemSize = Math.floor(expandedTotalSize * (contentItem.size / expandedTotalPercent));
+                } else {
+                    throw new AssertError('ROCCAS6692');
+                }
             }
 
             totalAssigned += itemSize;
             itemSizes.push(itemSize);
+            collapsed.push(collapsedSize !== undefined);
         }
 
         const additionalPixel = Math.floor(totalSize - totalAssigned);
 
         return {
             itemSizes,
+            collapsed,
             additionalPixel,
             totalSize,
+            expandedTotalSize,
+            expandedTotalPercent,
             crossAxisSize,
         };
     }
 
+    /**
+     * Size in pixels of each child which is a Stack collapsed to its header (undefined for other children).
+     * @returns undefined if no children are collapsed or if all of them are (in which case none are shrunk)
+     * @internal
+     */
+    private calculateCollapsedSizes(): (number | undefined)[] | undefined {
+        let collapsedCount = 0;
+        const collapsedSizes = this.contentItems.map((contentItem) => {
+            const collapsedSize = this.calculateCollapsedSize(contentItem);
+            if (collapsedSize !== undefined) {
+                collapsedCount++;
+            }
+            return collapsedSize;
+        });
+
+        if (collapsedCount === 0 || collapsedCount === collapsedSizes.length) {
+            return undefined;
+        } else {
+            return collapsedSizes;
+        }
+    }
+
+    /** @internal */
+    private calculateCollapsedSize(contentItem: ContentItem): number | undefined {
+        if (ContentItem.isStack(contentItem) && contentItem.isCollapsed && contentItem.collapsible) {
+            return this.layoutManager.layoutConfig.dimensions.headerHeight;
+        } else {
+            return undefined;
+        }
+    }
+
     /**
      * Calculates the relative sizes of all children of this Item. The logic
      * is as follows:
@@ -467,37 +538,44 @@ export class RowOrColumn extends ContentItem {
             let totalUnderMin = 0;
             const entriesOverMin: Entry[] = [];
             const allEntries: Entry[] = [];
+            let lastExpandedEntry: Entry | undefined;
 
             const absoluteSizes = this.calculateAbsoluteSizes();
 
             /**
              * Figure out how much we are under the min item size total and how much room we have to use.
+             * Collapsed Stacks are left at their header size.
              */
             for (let i = 0; i < absoluteSizes.itemSizes.length; i++) {
                 const itemSize = absoluteSizes.itemSizes[i];
 
-                let entry: Entry;
-                if (itemSize < minItemSize) {
-                    totalUnderMin += minItemSize - itemSize;
-                    entry = {
-                        size: minItemSize
-                    };
-
+                if (absoluteSizes.collapsed[i]) {
+                    allEntries.push({ size: itemSize });
                 } else {
-                    totalOverMin += itemSize - minItemSize;
-                    entry = {
-                        size: itemSize
-                    };
-                    entriesOverMin.push(entry);
-                }
+                    let entry: Entry;
+                    if (itemSize < minItemSize) {
+                        totalUnderMin += minItemSize - itemSize;
+                        entry = {
+                            size: minItemSize
+                        };
+
+                    } else {
+                        totalOverMin += itemSize - minItemSize;
+                        entry = {
+                            size: itemSize
+                        };
+                        entriesOverMin.push(entry);
+                    }
 
-                allEntries.push(entry);
+                    allEntries.push(entry);
+                    lastExpandedEntry = entry;
+                }
             }
 
             /**
              * If there is nothing under min, or there is not enough over to make up the difference, do nothing.
              */
-            if (totalUnderMin === 0 || totalUnderMin > totalOverMin) {
+            if (totalUnderMin === 0 || totalUnderMin > totalOverMin || lastExpandedEntry === undefined) {
                 return;
             } else {
                 /**
@@ -516,15 +594,18 @@ export class RowOrColumn extends ContentItem {
                  * Take anything remaining from the last item.
                  */
                 if (remainingSize !== 0) {
-                    allEntries[allEntries.length - 1].size -= remainingSize;
+                    lastExpandedEntry.size -= remainingSize;
                 }
 
                 /**
-                 * Set every items size relative to 100 relative to its size to total
+                 * Set every items size relative to 100 relative to its size to total.
+                 * Collapsed Stacks keep the size they are restored to when expanded.
                  */
                 for (let i = 0; i < this.contentItems.length; i++) {
-                    const contentItem = this.contentItems[i];
-                    contentItem.size = (allEntries[i].size / absoluteSizes.totalSize) * 100;
+                    if (!absoluteSizes.collapsed[i]) {
+                        const contentItem = this.contentItems[i];
+                        contentItem.size = (allEntries[i].size / absoluteSizes.expandedTotalSize) * absoluteSizes.expandedTotalPercent;
+                    }
                 }
             }
         }
@@ -542,7 +623,9 @@ export class RowOrColumn extends ContentItem {
      * @internal
      */
     private createSplitter(index: number): Splitter {
-        const splitter = new Splitter(this._isColumn, this._splitterSize, this._splitterGrabSize);
+        const splitter: Splitter = new Splitter(this._isColumn, this._splitterSize, this._splitterGrabSize,
+            (direction) => this.onSplitterKeyboardMove(splitter, direction)
+        );
         splitter.on('drag', (offsetX, offsetY) => this.onSplitterDrag(splitter, offsetX, offsetY));
         splitter.on('dragStop', () => this.onSplitterDragStop(splitter));
         splitter.on('dragStart', () => this.onSplitterDragStart(splitter));
@@ -609,6 +692,9 @@ export class RowOrColumn extends ContentItem {
      * @internal
      */
     private onSplitterDragStart(splitter: Splitter) {
+        // ended in onSplitterDragStop()
+        this.layoutManager.beginHistoryGroup();
+
         const items = this.getSplitItems(splitter);
 
         const beforeWidth = pixelsToNumber(items.before.element.style[this._dimension]);
@@ -617,8 +703,13 @@ export class RowOrColumn extends ContentItem {
         const afterMinSize = this.calculateContentItemsTotalMinSize(items.after);
 
         this._splitterPosition = 0;
-        this._splitterMinPosition = Math.min(0, -1 * (beforeWidth - beforeMinSize));
-        this._splitterMaxPosition = Math.max(0, afterSize - afterMinSize);
+        if (this.isSplitterFixed(items.before, items.after)) {
+            this._splitterMinPosition = 0;
+            this._splitterMaxPosition = 0;
+        } else {
+            this._splitterMinPosition = Math.min(0, -1 * (beforeWidth - beforeMinSize));
+            this._splitterMaxPosition = Math.max(0, afterSize - afterMinSize);
+        }
     }
 
     /**
@@ -659,21 +750,46 @@ export class RowOrColumn extends ContentItem {
             throw new UnexpectedNullError('ROCOSDS66932');
         } else {
             const items = this.getSplitItems(splitter);
-            const sizeBefore = pixelsToNumber(items.before.element.style[this._dimension]);
-            const sizeAfter = pixelsToNumber(items.after.element.style[this._dimension]);
-            const splitterPositionInRange = (this._splitterPosition + sizeBefore) / (sizeBefore + sizeAfter);
-            const totalRelativeSize = items.before.size + items.after.size;
-
-            items.before.size = splitterPositionInRange * totalRelativeSize;
-            items.after.size = (1 - splitterPositionInRange) * totalRelativeSize;
+            // the size of a collapsed Stack is kept for when it is expanded
+            if (!this.isSplitterFixed(items.before, items.after)) {
+                const sizeBefore = pixelsToNumber(items.before.element.style[this._dimension]);
+                const sizeAfter = pixelsToNumber(items.after.element.style[this._dimension]);
+                const splitterPositionInRange = (this._splitterPosition + sizeBefore) / (sizeBefore + sizeAfter);
+                const totalRelativeSize = items.before.size + items.after.size;
+
+                items.before.size = splitterPositionInRange * totalRelativeSize;
+                items.after.size = (1 - splitterPositionInRange) * totalRelativeSize;
+            }
 
             splitter.element.style.top = numberToPixels(0);
             splitter.element.style.left = numberToPixels(0);
 
+            this.layoutManager.endHistoryGroup();
+
             globalThis.requestAnimationFrame(() => this.updateSize(false));
         }
     }
 
+    /**
+     * A splitter next to a Stack collapsed to its header cannot be moved
+     * @internal
+     */
+    private isSplitterFixed(before: ContentItem, after: ContentItem) {
+        return this.isLocked || this.calculateCollapsedSize(before) !== undefined || this.calculateCollapsedSize(after) !== undefined;
+    }
+
+    /**
+     * Invoked when an arrow key is pressed while a splitter has focus. Moves the splitter by the configured step
+     * using the same logic as dragging it
+     * @internal
+     */
+    private onSplitterKeyboardMove(splitter: Splitter, direction: number) {
+        const offset = direction * this.layoutManager.layoutConfig.settings.splitterKeyboardStep;
+        this.onSplitterDragStart(splitter);
+        this.onSplitterDrag(splitter, offset, offset);
+        this.onSplitterDragStop(splitter);
+    }
+
     /** @internal */
     private emitStateChangedEvent(debounce = false) {
         if (debounce) {
@@ -689,8 +805,14 @@ export namespace RowOrColumn {
     /** @internal */
     export interface AbsoluteSizes {
         itemSizes: number[],
+        /** Whether each item is a Stack collapsed to its header */
+        collapsed: boolean[],
         additionalPixel: number,
         totalSize: number,
+        /** Size shared by the items which are not collapsed */
+        expandedTotalSize: number,
+        /** Total relative size of the items which are not collapsed */
+        expandedTotalPercent: number,
         crossAxisSize: number
     }
 
@@ -6,6 +6,7 @@ import { LayoutManager } from '../layout-manager';
 import { DomConstants } from '../utils/dom-constants';
 import { DragListener } from '../utils/drag-listener';
 import { EventEmitter } from '../utils/event-emitter';
+import { I18nStringId } from '../utils/i18n-strings';
 import { AreaLinkedRect, ItemType, JsonValue, Side, SizeUnitEnum, WidthAndHeight, WidthOrHeightPropertyName } from '../utils/types';
 import {
     debounce,
@@ -17,6 +18,8 @@ import {
 import { ComponentItem } from './component-item';
 import { ComponentParentableItem } from './component-parentable-item';
 import { ContentItem } from './content-item';
+import { EdgeDockItem } from './edge-dock-item';
+import { FloatingItem } from './floating-item';
 
 /** @public */
 export class Stack extends ComponentParentableItem {
@@ -42,6 +45,12 @@ export class Stack extends ComponentParentableItem {
     private readonly _initialWantMaximise: boolean;
     /** @internal */
     private _initialActiveItemIndex: number;
+    /** @internal */
+    private _collapsed: boolean;
+    /** @internal */
+    private readonly _tabDropEnabled: boolean;
+    /** @internal */
+    private _closeConfirmationPending = false;
 
     /** @internal */
     private _resizeListener = () => this.handleResize();
@@ -62,6 +71,23 @@ export class Stack extends ComponentParentableItem {
     /** @internal */
     get initialWantMaximise(): boolean { return this._initialWantMaximise; }
     get isMaximised(): boolean { return this === this.layoutManager.maximisedStack; }
+    get maximiseEnabled(): boolean { return this._maximisedEnabled; }
+    /** Whether the Stack has been collapsed to its header.  See {@link (Stack:class).collapse} */
+    get isCollapsed(): boolean { return this._collapsed; }
+    /** Whether components can be dropped onto the Stack's header as new tabs */
+    get tabDropEnabled(): boolean { return this._tabDropEnabled; }
+    /**
+     * Whether collapsing the Stack shrinks it to its header.  The Stack must have siblings in a column and a top or
+     * bottom header, or siblings in a row and a left or right header.
+     */
+    get collapsible(): boolean {
+        const parent = this.parent;
+        if (parent === null || parent.contentItems.length <= 1 || !this._header.show) {
+            return false;
+        } else {
+            return (parent.isColumn && !this._header.leftRightSided) || (parent.isRow && this._header.leftRightSided);
+        }
+    }
     get stackParent(): ContentItem {
         if (!this.parent) {
             throw new Error('Stack should always have a parent');
@@ -87,10 +113,16 @@ export class Stack extends ComponentParentableItem {
 
         this._initialWantMaximise = config.maximised;
         this._initialActiveItemIndex = config.activeItemIndex ?? 0; // make sure defined
+        this._collapsed = config.collapsed;
+        this._tabDropEnabled = config.tabDropEnabled;
 
         // check for defined value for each item in order of Stack (this Item), Component (first child), Manager.
         const show = this._headerConfig?.show ?? componentHeaderConfig?.show ?? layoutHeaderConfig.show;
         const popout = this._headerConfig?.popout ?? componentHeaderConfig?.popout ?? layoutHeaderConfig.popout;
+        const float = this._headerConfig?.float ?? componentHeaderConfig?.float ?? layoutHeaderConfig.float;
+        const autoHide = this._headerConfig?.autoHide ?? componentHeaderConfig?.autoHide ?? layoutHeaderConfig.autoHide;
+        const collapse = this._headerConfig?.collapse ?? componentHeaderConfig?.collapse ?? layoutHeaderConfig.collapse;
+        const expand = this._headerConfig?.expand ?? componentHeaderConfig?.expand ?? layoutHeaderConfig.expand;
         const maximise = this._headerConfig?.maximise ?? componentHeaderConfig?.maximise ?? layoutHeaderConfig.maximise;
         const close = this._headerConfig?.close ?? componentHeaderConfig?.close ?? layoutHeaderConfig.close;
         const minimise = this._headerConfig?.minimise ?? componentHeaderConfig?.minimise ?? layoutHeaderConfig.minimise;
@@ -101,6 +133,13 @@ export class Stack extends ComponentParentableItem {
             side: show === false ? Side.top : show,
             popoutEnabled: popout !== false,
             popoutLabel: popout === false ? '' : popout,
+            floatEnabled: float !== false,
+            floatLabel: float === false ? '' : float,
+            autoHideEnabled: autoHide !== false,
+            autoHideLabel: autoHide === false ? '' : autoHide,
+            collapseEnabled: collapse !== false,
+            collapseLabel: collapse === false ? '' : collapse,
+            expandLabel: expand,
             maximiseEnabled: this._maximisedEnabled,
             maximiseLabel: maximise === false ? '' : maximise,
             closeEnabled: close !== false,
@@ -114,8 +153,11 @@ export class Stack extends ComponentParentableItem {
         this._header = new Header(layoutManager,
             this, headerSettings,
             () => this.getActiveComponentItem(),
-            () => this.remove(),
+            () => this.handleHeaderCloseEvent(),
             () => this.handlePopoutEvent(),
+            () => this.handleFloatEvent(),
+            () => this.handleAutoHideEvent(),
+            () => this.toggleCollapse(),
             () => this.toggleMaximise(),
             (ev) => this.handleHeaderClickEvent(ev),
             (ev) => this.handleHeaderTouchStartEvent(ev),
@@ -140,6 +182,10 @@ export class Stack extends ComponentParentableItem {
         this.element.appendChild(this._header.element);
         this.element.appendChild(this._childElementContainer);
 
+        if (this._collapsed) {
+            this.applyCollapsed(true);
+        }
+
         this.setupHeaderPosition();
     }
 
@@ -238,11 +284,25 @@ export class Stack extends ComponentParentableItem {
         return this._activeComponentItem;
     }
 
+    /**
+     * Moves the tab of a child whose pinned state changed to the end of the pinned tabs or the start of the unpinned tabs
+     * @internal
+     */
+    processChildPinnedChanged(componentItem: ComponentItem): void {
+        this._header.processTabPinnedChanged(componentItem);
+    }
+
     /** @internal */
     focusActiveContentItem(): void {
         this._activeComponentItem?.focus();
     }
 
+    /** @internal */
+    protected override applyLocked(): void {
+        super.applyLocked();
+        this._header.processLockedChanged();
+    }
+
     /** @internal */
     override setFocusedValue(value: boolean): void {
         this._header.applyFocusedValue(value);
@@ -318,6 +378,9 @@ export class Stack extends ComponentParentableItem {
                 // the index of contentItem is 0, otherwise we just use the previous content item.
                 const newActiveComponentIdx = index === 0 ? 1 : index - 1;
                 this.setActiveComponentItem(this.contentItems[newActiveComponentIdx] as ComponentItem, false);
+            } else {
+                // Stack may be kept while empty (see LayoutManager.emptyItemRemovalSuspended)
+                this._activeComponentItem = undefined;
             }
         }
 
@@ -339,40 +402,107 @@ export class Stack extends ComponentParentableItem {
         }
     }
 
+    /** Maximises the stack unless a listener of its 'beforeMaximise' event prevents it */
     maximise(): void {
         if (!this.isMaximised) {
-            this.layoutManager.setMaximisedStack(this);
-            const contentItems = this.contentItems;
-            const contentItemCount = contentItems.length;
-            for (let i = 0; i < contentItemCount; i++) {
-                const contentItem = contentItems[i];
-                if (contentItem instanceof ComponentItem) {
-                    contentItem.enterStackMaximised();
-                } else {
-                    throw new AssertError('SMAXI87773');
+            const event = new EventEmitter.CancellableBubblingEvent('beforeMaximise', this);
+            this.emit('beforeMaximise', event);
+            if (!event.isDefaultPrevented) {
+                this.applyMaximise();
+            }
+        }
+    }
+
+    /**
+     * Maximises the stack without emitting 'beforeMaximise'.  Used when a layout with a maximised stack is loaded
+     * @internal
+     */
+    applyMaximise(): void {
+        if (!this.isMaximised) {
+            this.layoutManager.beginHistoryGroup();
+            try {
+                this.layoutManager.setMaximisedStack(this);
+                const contentItems = this.contentItems;
+                const contentItemCount = contentItems.length;
+                for (let i = 0; i < contentItemCount; i++) {
+                    const contentItem = contentItems[i];
+                    if (contentItem instanceof ComponentItem) {
+                        contentItem.enterStackMaximised();
+                    } else {
+                        throw new AssertError('SMAXI87773');
+                    }
                 }
+                this.emitStateChangedEvent();
+            } finally {
+                this.layoutManager.endHistoryGroup();
             }
-            this.emitStateChangedEvent();
+            this.layoutManager.announce(I18nStringId.StackMaximised, this._activeComponentItem?.title ?? '');
         }
     }
 
     minimise(): void {
         if (this.isMaximised) {
-            this.layoutManager.setMaximisedStack(undefined);
-            const contentItems = this.contentItems;
-            const contentItemCount = contentItems.length;
-            for (let i = 0; i < contentItemCount; i++) {
-                const contentItem = contentItems[i];
-                if (contentItem instanceof ComponentItem) {
-                    contentItem.exitStackMaximised();
-                } else {
-                    throw new AssertError('SMINI87773');
+            this.layoutManager.beginHistoryGroup();
+            try {
+                this.layoutManager.setMaximisedStack(undefined);
+                const contentItems = this.contentItems;
+                const contentItemCount = contentItems.length;
+                for (let i = 0; i < contentItemCount; i++) {
+                    const contentItem = contentItems[i];
+                    if (contentItem instanceof ComponentItem) {
+                        contentItem.exitStackMaximised();
+                    } else {
+                        throw new AssertError('SMINI87773');
+                    }
                 }
+                this.emitStateChangedEvent();
+            } finally {
+                this.layoutManager.endHistoryGroup();
             }
-            this.emitStateChangedEvent();
+            this.layoutManager.announce(I18nStringId.StackMinimised, this._activeComponentItem?.title ?? '');
+        }
+    }
+
+    /**
+     * Collapses the Item or expands it if it is already collapsed
+     */
+    toggleCollapse(): void {
+        if (this._collapsed) {
+            this.expand();
+        } else {
+            this.collapse();
         }
     }
 
+    /**
+     * Shrinks the Stack to its header so that the other items in its row or column take its space.  The Stack's size
+     * is kept and restored when it is expanded.  Has no visible effect if the Stack is not {@link (Stack:class).collapsible}.
+     */
+    collapse(): void {
+        this.setCollapsed(true);
+    }
+
+    /** Restores a collapsed Stack to its size before it was collapsed */
+    expand(): void {
+        this.setCollapsed(false);
+    }
+
+    /**
+     * Removes the Stack from the layout and displays it in a new floating (in-page) window
+     */
+    float(): FloatingItem {
+        return this.layoutManager.floatContentItem(this);
+    }
+
+    /**
+     * Removes the Stack from the layout and collapses it to a tab on an edge of the layout.  Clicking the tab slides the
+     * Stack out over the layout.
+     * @param side - Edge of the layout.  Defaults to the edge nearest to the Stack.
+     */
+    autoHide(side?: Side): EdgeDockItem {
+        return this.layoutManager.autoHideContentItem(this, side);
+    }
+
     /** @internal */
     override destroy(): void {
         if (this._activeComponentItem?.focused) {
@@ -407,9 +537,12 @@ export class Stack extends ComponentParentableItem {
                 minSizeUnit: this.minSizeUnit,
                 id: this.id,
                 isClosable: this.isClosable,
+                locked: this.locked,
                 maximised: this.isMaximised,
                 header: this.createHeaderConfig(),
                 activeItemIndex,
+                collapsed: this._collapsed,
+                tabDropEnabled: this._tabDropEnabled,
             }
             return result;
         }
@@ -856,6 +989,42 @@ export class Stack extends ComponentParentableItem {
         }
     }
 
+    /**
+     * Sets whether the Stack is collapsed without resizing its parent
+     * @internal
+     */
+    applyCollapsed(value: boolean): void {
+        this._collapsed = value;
+        if (value) {
+            this.element.classList.add(DomConstants.ClassName.Collapsed);
+            this._header.processCollapsed();
+        } else {
+            this.element.classList.remove(DomConstants.ClassName.Collapsed);
+            this._header.processExpanded();
+        }
+    }
+
+    /** @internal */
+    private setCollapsed(value: boolean) {
+        if (value !== this._collapsed) {
+            this.layoutManager.beginHistoryGroup();
+            try {
+                if (this.isMaximised) {
+                    this.minimise();
+                }
+                this.applyCollapsed(value);
+                if (this.parent !== null) {
+                    this.parent.updateSize(false);
+                }
+                this.emitStateChangedEvent();
+            } finally {
+                this.layoutManager.endHistoryGroup();
+            }
+            const stringId = value ? I18nStringId.StackCollapsed : I18nStringId.StackExpanded;
+            this.layoutManager.announce(stringId, this._activeComponentItem?.title ?? '');
+        }
+    }
+
     /** @internal */
     private handleResize() {
         this._header.updateTabSizes()
@@ -873,7 +1042,22 @@ export class Stack extends ComponentParentableItem {
 
     /** @internal */
     private handlePopoutEvent() {
-        this.popout();
+        this.tryPopout();
+    }
+
+    /** @internal */
+    private handleFloatEvent() {
+        this.float();
+    }
+
+    /** @internal */
+    private handleAutoHideEvent() {
+        const parent = this.parent;
+        if (parent !== null && ContentItem.isEdgeDockItem(parent)) {
+            parent.pin();
+        } else {
+            this.autoHide();
+        }
     }
 
     /** @internal */
@@ -890,9 +1074,26 @@ export class Stack extends ComponentParentableItem {
         this.emit(eventName, bubblingEvent);
     }
 
+    /** @internal */
+    private handleHeaderCloseEvent() {
+        if (!this._closeConfirmationPending) {
+            this._closeConfirmationPending = true;
+            const componentItems = this.contentItems.filter(ContentItem.isComponentItem);
+            ComponentItem.confirmClose(componentItems, (confirmed) => {
+                this._closeConfirmationPending = false;
+                // The stack may have been removed while the close was being confirmed
+                if (confirmed && this.parent !== null && this.parent.contentItems.includes(this)) {
+                    const title = this._activeComponentItem?.title ?? '';
+                    this.remove();
+                    this.layoutManager.announce(I18nStringId.ItemClosed, title);
+                }
+            });
+        }
+    }
+
     /** @internal */
     private handleHeaderComponentRemoveEvent(item: ComponentItem) {
-        this.removeChild(item, false);
+        item.close();
     }
 
     /** @internal */
@@ -902,10 +1103,16 @@ export class Stack extends ComponentParentableItem {
 
     /** @internal */
     private handleHeaderComponentStartDragEvent(x: number, y: number, dragListener: DragListener, componentItem: ComponentItem) {
-        if (this.isMaximised === true) {
-            this.toggleMaximise();
+        // The drag proxy keeps the history group open until it is dropped so minimising is undone together with the drag
+        this.layoutManager.beginHistoryGroup();
+        try {
+            if (this.isMaximised === true) {
+                this.toggleMaximise();
+            }
+            this.layoutManager.startComponentDrag(x, y, dragListener, componentItem);
+        } finally {
+            this.layoutManager.endHistoryGroup();
         }
-        this.layoutManager.startComponentDrag(x, y, dragListener, componentItem);
     }
 
     /** @internal */
@@ -920,6 +1127,10 @@ export class Stack extends ComponentParentableItem {
                 result = {
                     show,
                     popout: undefined,
+                    float: undefined,
+                    autoHide: undefined,
+                    collapse: undefined,
+                    expand: undefined,
                     maximise: undefined,
                     close: undefined,
                     minimise: undefined,
@@ -1,6 +1,10 @@
-import { ComponentItemConfig, ItemConfig, LayoutConfig, RowOrColumnItemConfig, StackItemConfig } from './config/config';
+import { ComponentItemConfig, EdgeDockItemConfig, FloatingItemConfig, ItemConfig, LayoutConfig, RowOrColumnItemConfig, StackItemConfig } from './config/config';
+import { LayoutConfigMigrationRegistry } from './config/layout-config-migration';
+import { LayoutDiff } from './config/layout-diff';
 import {
     ResolvedComponentItemConfig,
+    ResolvedEdgeDockItemConfig,
+    ResolvedFloatingItemConfig,
     ResolvedItemConfig,
     ResolvedLayoutConfig,
     ResolvedPopoutLayoutConfig,
@@ -9,30 +13,43 @@ import {
     ResolvedStackItemConfig
 } from "./config/resolved-config";
 import { ComponentContainer } from './container/component-container';
+import { ComponentHibernator } from './container/component-hibernator';
 import { BrowserPopout } from './controls/browser-popout';
 import { DragAction } from './controls/drag-action';
 import { DragSource } from './controls/drag-source';
 import { DropTargetIndicator } from './controls/drop-target-indicator';
+import { KeyboardHandler } from './controls/keyboard-handler';
+import { LiveRegion } from './controls/live-region';
+import { PopoutOpener } from './controls/popout-opener';
 import { TransitionIndicator } from './controls/transition-indicator';
-import { ConfigurationError } from './errors/external-error';
+import { ApiError, ConfigurationError } from './errors/external-error';
 import { AssertError, UnexpectedNullError, UnexpectedUndefinedError, UnreachableCaseError } from './errors/internal-error';
 import { ComponentItem } from './items/component-item';
 import { ComponentParentableItem } from './items/component-parentable-item';
 import { ContentItem } from './items/content-item';
+import { EdgeDockItem } from './items/edge-dock-item';
+import { FloatingItem } from './items/floating-item';
 import { GroundItem } from './items/ground-item';
 import { RowOrColumn } from './items/row-or-column';
 import { Stack } from './items/stack';
+import { LayoutAutosaver } from './storage/layout-autosaver';
+import { LayoutStorage } from './storage/layout-storage';
+import { LayoutSyncTransport } from './sync/layout-sync-transport';
+import { LayoutSynchroniser } from './sync/layout-synchroniser';
 import { ConfigMinifier } from './utils/config-minifier';
 import { DomConstants } from './utils/dom-constants';
 import { DragListener } from './utils/drag-listener';
 import { EventEmitter } from './utils/event-emitter';
 import { EventHub } from './utils/event-hub';
 import { I18nStringId, I18nStrings, i18nStrings } from './utils/i18n-strings';
-import { ItemType, JsonValue, Rect, ResponsiveMode, WidthAndHeight } from './utils/types';
+import { LayoutHistory } from './utils/layout-history';
+import { ItemType, JsonValue, LayoutSyncMode, Rect, ResponsiveMode, Side, WidthAndHeight } from './utils/types';
 import {
     getElementClientWidthAndHeight,
     getWindowInnerScreenPosition,
+    numberToPixels,
     removeFromArray,
+    setElementDisplayVisibility,
     setElementHeight,
     setElementWidth
 } from './utils/utils';
@@ -62,6 +79,13 @@ export abstract class LayoutManager extends EventEmitter {
      * If it is false, the layout will resize at intervals while its container is being resized.
      */
     resizeDebounceExtendedWhenPossible = true;
+    /** The maximum number of steps which can be undone.  Older steps are discarded.  0 disables undo/redo history */
+    historyLimit = 50;
+    /**
+     * Migrations which upgrade configs passed to {@link (LayoutManager:class).loadLayout} and
+     * {@link (LayoutManager:class).applyLayout}.  Register application migrations here.
+     */
+    readonly layoutConfigMigrations = new LayoutConfigMigrationRegistry();
 
     /** @internal */
     private _containerElement: HTMLElement;
@@ -70,16 +94,30 @@ export abstract class LayoutManager extends EventEmitter {
     /** @internal */
     private _groundItem: GroundItem | undefined = undefined;
     /** @internal */
+    private _floatingItems: FloatingItem[] = [];
+    /** @internal */
+    private _floatingItemsElement: HTMLElement | undefined;
+    /** @internal */
+    private _edgeDockItems: EdgeDockItem[] = [];
+    /** @internal */
+    private _edgeDockElements: Record<Side, HTMLElement> | undefined;
+    /** @internal */
     private _openPopouts: BrowserPopout[] = [];
     /** @internal */
     private _dropTargetIndicator: DropTargetIndicator | null = null;
     /** @internal */
     private _transitionIndicator: TransitionIndicator | null = null;
     /** @internal */
+    private _keyboardHandler: KeyboardHandler | undefined;
+    /** @internal */
+    private _liveRegion: LiveRegion | undefined;
+    /** @internal */
     private _resizeTimeoutId: ReturnType<typeof setTimeout> | undefined;
     /** @internal */
     private _itemAreas: ContentItem.Area[] = [];
     /** @internal */
+    private _rejectedItemAreas: ContentItem.Area[] = [];
+    /** @internal */
     private _maximisedStack: Stack | undefined;
     /** @internal */
     private _maximisePlaceholder = LayoutManager.createMaximisePlaceElement(document);
@@ -94,19 +132,40 @@ export abstract class LayoutManager extends EventEmitter {
     /** @internal */
     private _eventHub = new EventHub(this);
     /** @internal */
+    private _history = new LayoutHistory(this,
+        (snapshot) => this.restoreHistorySnapshot(snapshot),
+        () => this.emit('historyChanged'),
+    );
+    /** @internal */
+    private _presets = new Map<string, ResolvedLayoutConfig>();
+    /** @internal */
+    private _currentPresetName: string | undefined;
+    /** @internal */
+    private _layoutAutosaver: LayoutAutosaver | undefined;
+    /** @internal */
+    private _layoutSynchroniser: LayoutSynchroniser | undefined;
+    /** @internal */
     private _width: number | null = null;
     /** @internal */
     private _height: number | null = null;
     /** @internal */
     private _focusedComponentItem: ComponentItem | undefined;
     /** @internal */
+    private _componentHibernator = new ComponentHibernator();
+    /** @internal */
     private _virtualSizedContainers: ComponentContainer[] = [];
     /** @internal */
     private _virtualSizedContainerAddingBeginCount = 0;
     /** @internal */
     private _sizeInvalidationBeginCount = 0;
     /** @internal */
+    private _emptyItemRemovalSuspendCount = 0;
+    /** @internal */
     protected _constructorOrSubWindowLayoutConfig: LayoutConfig | undefined; // protected for backwards compatibility
+    /** @internal Identifies the popout window's config in the opening window. Undefined if not a sub window */
+    protected readonly _subWindowConfigKey: string | undefined;
+    /** @internal Connection to the window which opened this popout window.  Undefined if not a sub window or no opener */
+    private readonly _popoutOpener: PopoutOpener | undefined;
     /** @internal */
     private _parent: LayoutManager | null = null;
 
@@ -124,6 +183,12 @@ export abstract class LayoutManager extends EventEmitter {
 
     beforeVirtualRectingEvent: LayoutManager.BeforeVirtualRectingEvent | undefined;
     afterVirtualRectingEvent: LayoutManager.AfterVirtualRectingEvent | undefined;
+    /**
+     * Called for each drop target when a component starts being dragged.  Return false to prevent the component from
+     * being dropped onto the target.  Only called for targets allowed by the component's
+     * {@link (ComponentItemConfig:interface).dropConstraints} and the Stacks' {@link (StackItemConfig:interface).tabDropEnabled}
+     */
+    canDropEvent: LayoutManager.CanDropEvent | undefined;
 
     /**
      * Moves the associated window to the front.
@@ -141,11 +206,30 @@ export abstract class LayoutManager extends EventEmitter {
 
     get container(): HTMLElement { return this._containerElement; }
     get isInitialised(): boolean { return this._isInitialised; }
+    /**
+     * Whether the whole layout is locked against being rearranged.  Can be switched at any time.
+     * See {@link (LayoutConfig:namespace).(Settings:interface).locked}
+     */
+    get locked(): boolean { return this.layoutConfig.settings.locked; }
+    set locked(value: boolean) {
+        if (value !== this.layoutConfig.settings.locked) {
+            this.layoutConfig = { ...this.layoutConfig, settings: { ...this.layoutConfig.settings, locked: value } };
+            this._groundItem?.updateLocked();
+            for (const item of [...this._floatingItems, ...this._edgeDockItems]) {
+                item.updateLocked();
+            }
+            this.emit('stateChanged');
+        }
+    }
     get isDragging(): boolean { return document.body.classList.contains(DomConstants.ClassName.Dragging); }
     /** @internal */
     get groundItem(): GroundItem | undefined { return this._groundItem; }
     /** @internal @deprecated use {@link (LayoutManager:class).groundItem} instead */
     get root(): GroundItem | undefined { return this._groundItem; }
+    /** Floating (in-page) windows displayed over the layout in z-order (topmost last) */
+    get floatingItems(): readonly FloatingItem[] { return this._floatingItems; }
+    /** Stacks which have been collapsed to tabs on the edges of the layout (auto-hide) */
+    get edgeDockItems(): readonly EdgeDockItem[] { return this._edgeDockItems; }
     get openPopouts(): BrowserPopout[] { return this._openPopouts; }
     /** @internal */
     get dropTargetIndicator(): DropTargetIndicator | null { return this._dropTargetIndicator; }
@@ -174,7 +258,35 @@ export abstract class LayoutManager extends EventEmitter {
     get focusedComponentItem(): ComponentItem | undefined { return this._focusedComponentItem; }
     /** @internal */
     get tabDropPlaceholder(): HTMLElement { return this._tabDropPlaceholder; }
+    /** @internal */
+    get componentHibernator(): ComponentHibernator { return this._componentHibernator; }
+    /**
+     * Decides when the components of hidden containers are hibernated (unbound) to reclaim memory.  They are bound again
+     * when shown.  Undefined (the default) never hibernates components.  See {@link (ComponentContainer:class).hibernate}
+     */
+    get hibernationPolicy(): LayoutManager.HibernationPolicy | undefined { return this._componentHibernator.policy; }
+    set hibernationPolicy(value: LayoutManager.HibernationPolicy | undefined) { this._componentHibernator.policy = value; }
     get maximisedStack(): Stack | undefined { return this._maximisedStack; }
+    /**
+     * While true, ContentItems which lose their last child are not removed from their parent.
+     * @internal
+     */
+    get emptyItemRemovalSuspended(): boolean { return this._emptyItemRemovalSuspendCount > 0; }
+    /** Whether there is a step in the history which {@link (LayoutManager:class).undo} can revert */
+    get canUndo(): boolean { return this._history.canUndo; }
+    /** Whether there is an undone step which {@link (LayoutManager:class).redo} can reapply */
+    get canRedo(): boolean { return this._history.canRedo; }
+    /** Names of the saved layout presets in the order they were first saved */
+    get presetNames(): string[] { return Array.from(this._presets.keys()); }
+    /**
+     * Name of the preset which was last saved or switched to.  Undefined if there is none, if it has been deleted or if
+     * a layout has since been loaded with {@link (LayoutManager:class).loadLayout}
+     */
+    get currentPresetName(): string | undefined { return this._currentPresetName; }
+    /** Storage in which the layout is saved.  See {@link (LayoutManager:class).setLayoutStorage} */
+    get layoutStorage(): LayoutStorage | undefined { return this._layoutAutosaver?.storage; }
+    /** How the layout is synchronised with other LayoutManagers.  Undefined if not synchronised.  See {@link (LayoutManager:class).startSync} */
+    get syncMode(): LayoutSyncMode | undefined { return this._layoutSynchroniser?.mode; }
 
     /** @deprecated indicates deprecated constructor use */
     get deprecatedConstructor(): boolean { return !this.isSubWindow && this._constructorOrSubWindowLayoutConfig !== undefined; }
@@ -182,6 +294,7 @@ export abstract class LayoutManager extends EventEmitter {
     get parent(): LayoutManager | null { return this._parent; }
     set parent(value: LayoutManager | null) { this._parent = value; }
 
+    /** The LayoutManagers of this window's layout tree which can be accessed.  Excludes windows on other origins */
     get instances(): LayoutManager[] {
         const result: LayoutManager[] = [];
 
@@ -189,8 +302,38 @@ export abstract class LayoutManager extends EventEmitter {
         result.push(root);
 
         for (let popout of root.openPopouts) {
-            const child = popout.getGlInstance();
-            result.push(child);
+            if (!popout.isCrossOrigin) {
+                const child = popout.getGlInstance();
+                result.push(child);
+            }
+        }
+
+        return result;
+    }
+
+    /** @internal */
+    get popoutOpener(): PopoutOpener | undefined { return this._popoutOpener; }
+    /** @internal */
+    get subWindowConfigKey(): string | undefined { return this._subWindowConfigKey; }
+
+    /**
+     * Windows of this window's layout tree which can only take part in drags through messages
+     * @internal
+     */
+    get dragRemotes(): DragAction.Remote[] {
+        const result: DragAction.Remote[] = [];
+
+        const root = this.parent ?? this;
+        const popoutOpener = root._popoutOpener;
+        if (popoutOpener !== undefined && popoutOpener.crossOrigin) {
+            result.push(popoutOpener.channel);
+        }
+
+        for (const popout of root.openPopouts) {
+            const channel = popout.crossOriginChannel;
+            if (channel !== undefined) {
+                result.push(channel);
+            }
         }
 
         return result;
@@ -206,6 +349,16 @@ export abstract class LayoutManager extends EventEmitter {
         this.isSubWindow = parameters.isSubWindow;
 
         this._constructorOrSubWindowLayoutConfig = parameters.constructorOrSubWindowLayoutConfig;
+        this._subWindowConfigKey = parameters.subWindowConfigKey;
+
+        const opener = globalThis.opener as Window | null;
+        if (parameters.isSubWindow && parameters.subWindowConfigKey !== undefined && parameters.subWindowOpenerOrigin !== undefined &&
+            opener !== null
+        ) {
+            this._popoutOpener = new PopoutOpener(this, opener, parameters.subWindowOpenerOrigin, parameters.subWindowConfigKey,
+                (config) => this.receiveSubWindowConfig(config)
+            );
+        }
 
         I18nStrings.checkInitialise();
         ConfigMinifier.checkInitialise();
@@ -224,6 +377,10 @@ export abstract class LayoutManager extends EventEmitter {
      * be released.
      */
     destroy(): void {
+        if (this._popoutOpener !== undefined) {
+            this._popoutOpener.destroy();
+        }
+
         if (this._isInitialised) {
             if (this._windowBeforeUnloadListening) {
                 globalThis.removeEventListener('beforeunload', this._windowBeforeUnloadListener);
@@ -237,6 +394,18 @@ export abstract class LayoutManager extends EventEmitter {
             this._resizeObserver.disconnect();
             this.checkClearResizeTimeout();
 
+            this.clearFloatingItems();
+            if (this._floatingItemsElement !== undefined) {
+                this._floatingItemsElement.remove();
+                this._floatingItemsElement = undefined;
+            }
+            this.clearEdgeDockItems();
+            if (this._edgeDockElements !== undefined) {
+                for (const element of Object.values(this._edgeDockElements)) {
+                    element.remove();
+                }
+                this._edgeDockElements = undefined;
+            }
             if (this._groundItem !== undefined) {
                 this._groundItem.destroy();
             }
@@ -247,7 +416,21 @@ export abstract class LayoutManager extends EventEmitter {
             if (this._transitionIndicator !== null) {
                 this._transitionIndicator.destroy();
             }
+            if (this._keyboardHandler !== undefined) {
+                this._keyboardHandler.destroy();
+                this._keyboardHandler = undefined;
+            }
+            this._componentHibernator.destroy();
+            if (this._liveRegion !== undefined) {
+                this._liveRegion.destroy();
+                this._liveRegion = undefined;
+            }
             this._eventHub.destroy();
+            if (this._layoutAutosaver !== undefined) {
+                this._layoutAutosaver.destroy();
+                this._layoutAutosaver = undefined;
+            }
+            this.stopSync();
 
             for (const dragSource of this._dragSources) {
                 dragSource.destroy();
@@ -278,7 +461,8 @@ export abstract class LayoutManager extends EventEmitter {
     }
 
     /** @internal */
-    abstract bindComponent(container: ComponentContainer, itemConfig: ResolvedComponentItemConfig): ComponentContainer.BindableComponent;
+    abstract bindComponent(container: ComponentContainer, itemConfig: ResolvedComponentItemConfig):
+        ComponentContainer.BindableComponent | Promise<ComponentContainer.BindableComponent>;
     /** @internal */
     abstract unbindComponent(container: ComponentContainer, virtual: boolean, component: ComponentContainer.Component | undefined): void;
 
@@ -295,10 +479,18 @@ export abstract class LayoutManager extends EventEmitter {
         this.layoutConfig = ResolvedLayoutConfig.createDefault(); // will overwritten be loaded via loadLayout
         this._groundItem = new GroundItem(this, this.layoutConfig.root, this._containerElement);
         this._groundItem.init();
+        this._floatingItemsElement = LayoutManager.createFloatingItemsElement(document);
+        this._groundItem.element.appendChild(this._floatingItemsElement);
+        this._edgeDockElements = LayoutManager.createEdgeDockElements(document);
+        for (const element of Object.values(this._edgeDockElements)) {
+            this._groundItem.element.appendChild(element);
+        }
 
         this.checkLoadedLayoutMaximiseItem();
 
         this._resizeObserver.observe(this._containerElement);
+        this._keyboardHandler = new KeyboardHandler(this, this._containerElement);
+        this._liveRegion = new LiveRegion(this._containerElement);
         this._isInitialised = true;
         this.adjustColumnsResponsive();
         this.emit('initialised');
@@ -316,13 +508,33 @@ export abstract class LayoutManager extends EventEmitter {
 
             this.loadLayout(layout);
         }
+
+        if (this._layoutAutosaver !== undefined && !this.isSubWindow) {
+            this._layoutAutosaver.start();
+        }
+        if (this._layoutSynchroniser !== undefined && !this.isSubWindow) {
+            this._layoutSynchroniser.start();
+        }
+        if (this._popoutOpener !== undefined) {
+            this._popoutOpener.connect();
+        }
+    }
+
+    /**
+     * Called when the config of this popout window is received from the opening window
+     * @internal
+     */
+    protected receiveSubWindowConfig(config: ResolvedPopoutLayoutConfig): void {
+        this._constructorOrSubWindowLayoutConfig = LayoutConfig.fromResolved(config);
     }
 
     /**
      * Loads a new layout
      * @param layoutConfig - New layout to be loaded
+     * @param validationMode - Whether layoutConfig is checked (and rejected or repaired if invalid) before the current
+     * layout is changed.  See {@link (LayoutConfig:namespace).ValidationMode}.
      */
-    loadLayout(layoutConfig: LayoutConfig): void {
+    loadLayout(layoutConfig: LayoutConfig, validationMode: LayoutConfig.ValidationMode = LayoutConfig.ValidationMode.none): void {
         if (!this.isInitialised) {
             // In case application not correctly using legacy constructor
             throw new Error('GoldenLayout: Need to call init() if LayoutConfig with defined root passed to constructor')
@@ -330,12 +542,81 @@ export abstract class LayoutManager extends EventEmitter {
             if (this._groundItem === undefined) {
                 throw new UnexpectedUndefinedError('LMLL11119');
             } else {                
-                this.layoutConfig = LayoutConfig.resolve(layoutConfig);
-                this.createSubWindows(); // still needs to be tested
-                this._groundItem.loadRoot(this.layoutConfig.root);
-                this.checkLoadedLayoutMaximiseItem();
-                this.adjustColumnsResponsive();
+                // Legacy configs are brought up to date before being checked against the current schema
+                const migrationResult = this.layoutConfigMigrations.migrate(layoutConfig);
+                const migrationNames = migrationResult.migrationNames;
+                let migratedLayoutConfig = migrationResult.config;
+                switch (validationMode) {
+                    case LayoutConfig.ValidationMode.none:
+                        break;
+                    case LayoutConfig.ValidationMode.reject: {
+                        const errors = LayoutConfig.validate(migratedLayoutConfig);
+                        if (errors.length > 0) {
+                            throw LayoutConfig.createValidationError(errors);
+                        }
+                        break;
+                    }
+                    case LayoutConfig.ValidationMode.repair:
+                        migratedLayoutConfig = LayoutConfig.repair(migratedLayoutConfig).config;
+                        break;
+                    default:
+                        throw new UnreachableCaseError('LMLLVM11120', validationMode);
+                }
+
+                this._history.suspend();
+                try {
+                    this.layoutConfig = LayoutConfig.resolve(migratedLayoutConfig);
+                    this.createSubWindows(this.layoutConfig.openPopouts); // still needs to be tested
+                    this._groundItem.loadRoot(this.layoutConfig.root);
+                    this.clearFloatingItems();
+                    for (const floatingItemConfig of this.layoutConfig.floatingItems) {
+                        this.createFloatingItem(floatingItemConfig);
+                    }
+                    this.clearEdgeDockItems();
+                    for (const edgeDockItemConfig of this.layoutConfig.edgeDockItems) {
+                        this.createEdgeDockItem(edgeDockItemConfig);
+                    }
+                    this.checkLoadedLayoutMaximiseItem();
+                    this.adjustColumnsResponsive();
+                } finally {
+                    this._history.resume();
+                }
+                // steps recorded against the previous layout no longer apply
+                this._history.clear();
+                this.setCurrentPresetName(undefined);
+                if (migrationNames.length > 0) {
+                    this.emit('layoutConfigMigrated', migrationNames);
+                }
+            }
+        }
+    }
+
+    /**
+     * Updates the current layout to match a new layout without reloading it.
+     * Items in the new layout are matched to existing ContentItems by id (or by position within a matched parent if they
+     * do not have an id).  Only the differences are then applied: unmatched items are removed or inserted and matched items
+     * are moved and resized.  Matched components keep their DOM and state and are not released and bound again.
+     * Open popouts and floating items are also updated to match.  The settings, dimensions and header of the current layout are not changed.
+     * @param layoutConfig - Layout to be applied
+     * @returns The differences between the previous layout and the new layout
+     */
+    applyLayout(layoutConfig: LayoutConfig): LayoutDiff {
+        if (!this.isInitialised) {
+            throw new Error('Cannot apply layout before init');
+        } else {
+            const { config: migratedLayoutConfig, migrationNames } = this.layoutConfigMigrations.migrate(layoutConfig);
+            const resolvedLayoutConfig = LayoutConfig.resolve(migratedLayoutConfig);
+            let diff: LayoutDiff;
+            this.beginHistoryGroup();
+            try {
+                diff = this.applyResolvedLayout(resolvedLayoutConfig);
+            } finally {
+                this.endHistoryGroup();
             }
+            if (migrationNames.length > 0) {
+                this.emit('layoutConfigMigrated', migrationNames);
+            }
+            return diff;
         }
     }
 
@@ -381,11 +662,15 @@ export abstract class LayoutManager extends EventEmitter {
                 }
 
                 const config: ResolvedLayoutConfig = {
+                    version: this.layoutConfig.version,
+                    applicationVersion: this.layoutConfig.applicationVersion,
                     root: rootItemConfig,
                     openPopouts,
                     settings:  ResolvedLayoutConfig.Settings.createCopy(this.layoutConfig.settings),
                     dimensions: ResolvedLayoutConfig.Dimensions.createCopy(this.layoutConfig.dimensions),
                     header: ResolvedLayoutConfig.Header.createCopy(this.layoutConfig.header),
+                    floatingItems: this._floatingItems.map((item) => item.toConfig()),
+                    edgeDockItems: this._edgeDockItems.map((item) => item.toConfig()),
                     resolved: true,
                 }
 
@@ -402,7 +687,17 @@ export abstract class LayoutManager extends EventEmitter {
         if (this._groundItem === undefined) {
             throw new UnexpectedUndefinedError('LMCL11129');
         } else {
-            this._groundItem.clearRoot();
+            this.beginHistoryGroup();
+            try {
+                this._groundItem.clearRoot();
+                if (this._floatingItems.length > 0 || this._edgeDockItems.length > 0) {
+                    this.clearFloatingItems();
+                    this.clearEdgeDockItems();
+                    this.emit('stateChanged');
+                }
+            } finally {
+                this.endHistoryGroup();
+            }
         }
     }
 
@@ -413,6 +708,199 @@ export abstract class LayoutManager extends EventEmitter {
         return this.saveLayout();
     }
 
+    /**
+     * Reverts the most recent step in the layout's history (for example, a component being added, closed, dragged,
+     * resized, maximised or popped out).
+     * @returns true if a step was undone, false if there was nothing to undo
+     */
+    undo(): boolean {
+        return this._history.undo();
+    }
+
+    /**
+     * Reapplies the most recently undone step.  Any new change to the layout clears the steps which can be redone.
+     * @returns true if a step was redone, false if there was nothing to redo
+     */
+    redo(): boolean {
+        return this._history.redo();
+    }
+
+    /**
+     * Starts grouping changes.  All changes made until the matching {@link (LayoutManager:class).endHistoryGroup} call
+     * are recorded as one step in the history and will be undone together.  Groups can be nested.
+     */
+    beginHistoryGroup(): void {
+        this._history.beginStep();
+    }
+
+    /** Ends a group of changes started with {@link (LayoutManager:class).beginHistoryGroup} */
+    endHistoryGroup(): void {
+        this._history.endStep();
+    }
+
+    /** Discards all undo and redo steps */
+    clearHistory(): void {
+        this._history.clear();
+    }
+
+    /**
+     * Saves a named layout preset.  An existing preset with the same name is replaced.
+     * @param name - Name of the preset
+     * @param layoutConfig - Layout to be saved under name.  If undefined, the current layout is saved and the preset
+     * becomes the current preset.
+     */
+    savePreset(name: string, layoutConfig?: LayoutConfig): void {
+        if (layoutConfig === undefined) {
+            this._presets.set(name, this.saveLayout());
+            this.setCurrentPresetName(name);
+        } else {
+            const { config: migratedLayoutConfig } = this.layoutConfigMigrations.migrate(layoutConfig);
+            this._presets.set(name, LayoutConfig.resolve(migratedLayoutConfig));
+        }
+    }
+
+    /**
+     * Gets the layout saved in a preset.  Can be used to persist presets and restore them with
+     * {@link (LayoutManager:class).savePreset}.
+     * @returns The preset's layout or undefined if no preset has this name
+     */
+    getPreset(name: string): ResolvedLayoutConfig | undefined {
+        return this._presets.get(name);
+    }
+
+    /**
+     * Deletes a layout preset.  The current layout is not changed.
+     * @returns true if the preset was deleted, false if no preset has this name
+     */
+    deletePreset(name: string): boolean {
+        if (!this._presets.delete(name)) {
+            return false;
+        } else {
+            if (name === this._currentPresetName) {
+                this.setCurrentPresetName(undefined);
+            }
+            return true;
+        }
+    }
+
+    /**
+     * Changes the layout to the one saved in a preset.  The layout is applied with {@link (LayoutManager:class).applyLayout}
+     * so components whose ids exist in both the current layout and the preset are kept alive and only moved.  Changes made
+     * to the current layout are not saved to the previous preset.  Use {@link (LayoutManager:class).savePreset} first to keep them.
+     * @param name - Name of the preset
+     * @returns The differences between the previous layout and the preset's layout
+     */
+    switchPreset(name: string): LayoutDiff {
+        const preset = this._presets.get(name);
+        if (preset === undefined) {
+            throw new ApiError(`Layout preset not found: ${name}`);
+        } else {
+            if (!this.isInitialised) {
+                throw new Error('Cannot switch preset before init');
+            } else {
+                let diff: LayoutDiff;
+                this.beginHistoryGroup();
+                try {
+                    diff = this.applyResolvedLayout(preset);
+                } finally {
+                    this.endHistoryGroup();
+                }
+                this.setCurrentPresetName(name);
+                return diff;
+            }
+        }
+    }
+
+    /**
+     * Sets the storage in which the layout is saved.  If autosave is enabled, the layout (including its popout windows) is
+     * saved whenever it changes.  If restore is enabled, the layout saved in storage replaces the current layout when the
+     * layout is initialised (or straight away if it already is).  Storage is not used in popout windows as their layouts are
+     * saved by the main window.
+     * If another instance of the application (for example, in another browser tab) saves the same layout, the next save will
+     * conflict and a 'layoutSaveConflict' event is emitted.  Autosave then stops until either
+     * {@link (LayoutManager:class).restoreLayout} or {@link (LayoutManager:class).saveLayoutToStorage} with overwrite is called.
+     * Errors while autosaving or restoring are emitted in 'layoutStorageError' events.
+     * @param storage - Storage in which the layout is saved.  Undefined stops using the previous storage.
+     */
+    setLayoutStorage(storage: LayoutStorage | undefined, options?: LayoutManager.LayoutStorageOptions): void {
+        if (this._layoutAutosaver !== undefined) {
+            this._layoutAutosaver.destroy();
+            this._layoutAutosaver = undefined;
+        }
+
+        if (storage !== undefined) {
+            this._layoutAutosaver = new LayoutAutosaver(this,
+                storage,
+                options?.key ?? LayoutManager.LayoutStorageOptions.defaults.key,
+                options?.autosave ?? LayoutManager.LayoutStorageOptions.defaults.autosave,
+                options?.autosaveDebounceInterval ?? LayoutManager.LayoutStorageOptions.defaults.autosaveDebounceInterval,
+                options?.restore ?? LayoutManager.LayoutStorageOptions.defaults.restore,
+                () => this.emit('layoutSaveConflict'),
+                (error) => this.emit('layoutStorageError', error),
+            );
+            if (this.isInitialised && !this.isSubWindow) {
+                this._layoutAutosaver.start();
+            }
+        }
+    }
+
+    /**
+     * Replaces the current layout with the layout saved in storage.  Resolves a save conflict in favour of the saved layout.
+     * @returns Promise which resolves to true if a saved layout was loaded or false if there is none
+     */
+    restoreLayout(): Promise<boolean> {
+        if (this._layoutAutosaver === undefined) {
+            throw new ApiError('restoreLayout() requires layout storage.  See setLayoutStorage()');
+        } else {
+            return this._layoutAutosaver.restore();
+        }
+    }
+
+    /**
+     * Saves the current layout to storage straight away
+     * @param overwrite - Whether to save even if another instance of the application has saved the layout since it was last
+     * loaded or saved.  Resolves a save conflict in favour of the current layout.
+     * @returns Promise which resolves to true if saved or false if there was a conflict
+     */
+    saveLayoutToStorage(overwrite = false): Promise<boolean> {
+        if (this._layoutAutosaver === undefined) {
+            throw new ApiError('saveLayoutToStorage() requires layout storage.  See setLayoutStorage()');
+        } else {
+            return this._layoutAutosaver.save(overwrite);
+        }
+    }
+
+    /**
+     * Starts synchronising the layout with other LayoutManagers (for example, in other browser tabs of the same origin
+     * using {@link BroadcastChannelLayoutSyncTransport}).  Structural changes (items being added, removed, moved or
+     * resized) are shared.  Components whose ids exist in both layouts are kept alive and only moved.  Popout windows
+     * are not shared.  When synchronising starts, the current layout is requested from the other LayoutManagers (unless
+     * mode is 'primary').  Synchronising starts when the layout is initialised (or straight away if it already is).  It is
+     * not used in popout windows.
+     * @param transport - Carries messages to the other LayoutManagers.  It is closed when synchronising stops.
+     */
+    startSync(transport: LayoutSyncTransport, options?: LayoutManager.SyncOptions): void {
+        this.stopSync();
+        this._layoutSynchroniser = new LayoutSynchroniser(this,
+            transport,
+            options?.mode ?? LayoutManager.SyncOptions.defaults.mode,
+            options?.shareUserBroadcasts ?? LayoutManager.SyncOptions.defaults.shareUserBroadcasts,
+            (layout) => this.applySyncedLayout(layout),
+            (args) => this._eventHub.receiveSyncedUserBroadcast(args),
+        );
+        if (this.isInitialised && !this.isSubWindow) {
+            this._layoutSynchroniser.start();
+        }
+    }
+
+    /** Stops synchronising the layout started with {@link (LayoutManager:class).startSync} */
+    stopSync(): void {
+        if (this._layoutSynchroniser !== undefined) {
+            this._layoutSynchroniser.destroy();
+            this._layoutSynchroniser = undefined;
+        }
+    }
+
     /**
      * Adds a new ComponentItem.  Will use default location selectors to ensure a location is found and
      * component is successfully added
@@ -570,54 +1058,65 @@ export abstract class LayoutManager extends EventEmitter {
             if (location === undefined) {
                 return undefined;
             } else {
-                let parentItem = location.parentItem;
-                let addIdx: number;
-                switch (parentItem.type) {
-                    case ItemType.ground: {
-                        const groundItem = parentItem as GroundItem;
-                        addIdx = groundItem.addItem(itemConfig, location.index);
-                        if (addIdx >= 0) {
-                            parentItem = this._groundItem.contentItems[0]; // was added to rootItem
-                        } else {
-                            addIdx = 0; // was added as rootItem (which is the first and only ContentItem in GroundItem)
+                this.beginHistoryGroup();
+                try {
+                    let parentItem = location.parentItem;
+                    let addIdx: number;
+                    switch (parentItem.type) {
+                        case ItemType.ground: {
+                            const groundItem = parentItem as GroundItem;
+                            addIdx = groundItem.addItem(itemConfig, location.index);
+                            if (addIdx >= 0) {
+                                parentItem = this._groundItem.contentItems[0]; // was added to rootItem
+                            } else {
+                                addIdx = 0; // was added as rootItem (which is the first and only ContentItem in GroundItem)
+                            }
+                            break;
                         }
-                        break;
-                    }
-                    case ItemType.row:
-                    case ItemType.column: {
-                        const rowOrColumn = parentItem as RowOrColumn;
-                        addIdx = rowOrColumn.addItem(itemConfig, location.index);
-                        break;
-                    }
-                    case ItemType.stack: {
-                        if (!ItemConfig.isComponent(itemConfig)) {
-                            throw Error(i18nStrings[I18nStringId.ItemConfigIsNotTypeComponent]);
-                        } else {
-                            const stack = parentItem as Stack;
-                            addIdx = stack.addItem(itemConfig, location.index);
+                        case ItemType.row:
+                        case ItemType.column: {
+                            const rowOrColumn = parentItem as RowOrColumn;
+                            addIdx = rowOrColumn.addItem(itemConfig, location.index);
                             break;
                         }
+                        case ItemType.stack: {
+                            if (!ItemConfig.isComponent(itemConfig)) {
+                                throw Error(i18nStrings[I18nStringId.ItemConfigIsNotTypeComponent]);
+                            } else {
+                                const stack = parentItem as Stack;
+                                addIdx = stack.addItem(itemConfig, location.index);
+                                break;
+                            }
+                        }
+                        case ItemType.component: {
+                            throw new AssertError('LMAIALC87444602');
+                        }
+                        case ItemType.floating: {
+                            throw new AssertError('LMAIALF87444603');
+                        }
+                        case ItemType.edgeDock: {
+                            throw new AssertError('LMAIALE87444604');
+                        }
+                        default:
+                            throw new UnreachableCaseError('LMAIALU98881733', parentItem.type);
                     }
-                    case ItemType.component: {
-                        throw new AssertError('LMAIALC87444602');
-                    }
-                    default:
-                        throw new UnreachableCaseError('LMAIALU98881733', parentItem.type);
-                }
 
-                if (ItemConfig.isComponent(itemConfig)) {
-                    // see if stack was inserted
-                    const item = parentItem.contentItems[addIdx];
-                    if (ContentItem.isStack(item)) {
-                        parentItem = item;
-                        addIdx = 0;
+                    if (ItemConfig.isComponent(itemConfig)) {
+                        // see if stack was inserted
+                        const item = parentItem.contentItems[addIdx];
+                        if (ContentItem.isStack(item)) {
+                            parentItem = item;
+                            addIdx = 0;
+                        }
                     }
-                }
 
-                location.parentItem = parentItem;
-                location.index = addIdx;
+                    location.parentItem = parentItem;
+                    location.index = addIdx;
 
-                return location;
+                    return location;
+                } finally {
+                    this.endHistoryGroup();
+                }
             }
         }
     }
@@ -634,6 +1133,155 @@ export abstract class LayoutManager extends EventEmitter {
         }
     }
 
+    /**
+     * Adds a floating (in-page) window which is displayed over the layout.
+     * @param itemConfig - Config of floating item.  Its content is a single Stack or Component.
+     * @returns The new FloatingItem.  It is displayed in front of any existing FloatingItems.
+     */
+    addFloatingItem(itemConfig: FloatingItemConfig): FloatingItem {
+        if (this._groundItem === undefined) {
+            throw new Error('Cannot add floating item before init');
+        } else {
+            const resolvedItemConfig = FloatingItemConfig.resolve(itemConfig);
+            this.beginHistoryGroup();
+            try {
+                const floatingItem = this.createFloatingItem(resolvedItemConfig);
+                this.emit('stateChanged');
+                return floatingItem;
+            } finally {
+                this.endHistoryGroup();
+            }
+        }
+    }
+
+    /**
+     * Removes a Stack or Component from its current position in the layout and displays it in a new floating (in-page)
+     * window.  A Component is placed in a new Stack.
+     * @param item - The Stack or Component to be floated
+     * @param bounds - Position and size of the floating window relative to the layout container.  Defaults to the
+     * current position and size of the item.
+     */
+    floatContentItem(item: Stack | ComponentItem, bounds?: FloatingItemConfig.Bounds): FloatingItem {
+        const groundItem = this._groundItem;
+        if (groundItem === undefined) {
+            throw new Error('Cannot float item before init');
+        } else {
+            const groundRect = groundItem.element.getBoundingClientRect();
+            const itemRect = ContentItem.isComponentItem(item) ? item.getOuterBoundingClientRect() : item.element.getBoundingClientRect();
+            const title = LayoutManager.getContentItemTitle(item);
+
+            this.beginHistoryGroup();
+            try {
+                this.checkMinimiseMaximisedStack();
+
+                const parent = item.parent;
+                if (parent !== null && parent.contentItems.includes(item)) {
+                    parent.removeChild(item, true);
+                }
+
+                const defaultBounds = ResolvedFloatingItemConfig.Bounds.defaults;
+                const config: ResolvedFloatingItemConfig = {
+                    ...ResolvedFloatingItemConfig.createDefault(),
+                    bounds: {
+                        left: bounds?.left ?? Math.max(0, itemRect.left - groundRect.left),
+                        top: bounds?.top ?? Math.max(0, itemRect.top - groundRect.top),
+                        width: bounds?.width ?? (itemRect.width > 0 ? itemRect.width : defaultBounds.width),
+                        height: bounds?.height ?? (itemRect.height > 0 ? itemRect.height : defaultBounds.height),
+                    },
+                };
+                const floatingItem = this.createFloatingItem(config);
+
+                if (ContentItem.isStack(item)) {
+                    floatingItem.addChild(item);
+                } else {
+                    // Stack takes its header settings from its first component
+                    const stack = this.createAndInitContentItem(ResolvedStackItemConfig.createDefault(), floatingItem) as Stack;
+                    stack.addChild(item);
+                    floatingItem.addChild(stack);
+                }
+
+                this.announce(I18nStringId.ItemFloated, title);
+                this.emit('stateChanged');
+                return floatingItem;
+            } finally {
+                this.endHistoryGroup();
+            }
+        }
+    }
+
+    /**
+     * Adds a Stack which is collapsed to a tab on an edge of the layout (auto-hide).
+     * @param itemConfig - Config of edge dock item.  Its content is a single Stack or Component.
+     * @returns The new EdgeDockItem.  Its tab is displayed after the tabs of existing EdgeDockItems on the same edge.
+     */
+    addEdgeDockItem(itemConfig: EdgeDockItemConfig): EdgeDockItem {
+        if (this._groundItem === undefined) {
+            throw new Error('Cannot add edge dock item before init');
+        } else {
+            const resolvedItemConfig = EdgeDockItemConfig.resolve(itemConfig);
+            this.beginHistoryGroup();
+            try {
+                const edgeDockItem = this.createEdgeDockItem(resolvedItemConfig);
+                this.emit('stateChanged');
+                return edgeDockItem;
+            } finally {
+                this.endHistoryGroup();
+            }
+        }
+    }
+
+    /**
+     * Removes a Stack or Component from its current position in the layout and collapses it to a tab on an edge of
+     * the layout.  A Component is placed in a new Stack.  Clicking the tab slides the Stack out over the layout.
+     * @param item - The Stack or Component to be collapsed
+     * @param side - The edge on which the tab is displayed.  Defaults to the edge nearest the item.
+     */
+    autoHideContentItem(item: Stack | ComponentItem, side?: Side): EdgeDockItem {
+        const groundItem = this._groundItem;
+        if (groundItem === undefined) {
+            throw new Error('Cannot auto-hide item before init');
+        } else {
+            const itemRect = ContentItem.isComponentItem(item) ? item.getOuterBoundingClientRect() : item.element.getBoundingClientRect();
+            if (side === undefined) {
+                side = LayoutManager.calculateNearestSide(groundItem.element.getBoundingClientRect(), itemRect);
+            }
+            const itemSize = side === Side.left || side === Side.right ? itemRect.width : itemRect.height;
+            const title = LayoutManager.getContentItemTitle(item);
+
+            this.beginHistoryGroup();
+            try {
+                this.checkMinimiseMaximisedStack();
+
+                const parent = item.parent;
+                if (parent !== null && parent.contentItems.includes(item)) {
+                    parent.removeChild(item, true);
+                }
+
+                const config: ResolvedEdgeDockItemConfig = {
+                    ...ResolvedEdgeDockItemConfig.createDefault(),
+                    side,
+                    slideOutSize: itemSize > 0 ? itemSize : ResolvedEdgeDockItemConfig.defaults.slideOutSize,
+                };
+                const edgeDockItem = this.createEdgeDockItem(config);
+
+                if (ContentItem.isStack(item)) {
+                    edgeDockItem.addChild(item);
+                } else {
+                    // Stack takes its header settings from its first component
+                    const stack = this.createAndInitContentItem(ResolvedStackItemConfig.createDefault(), edgeDockItem) as Stack;
+                    stack.addChild(item);
+                    edgeDockItem.addChild(stack);
+                }
+
+                this.announce(I18nStringId.ItemAutoHidden, title);
+                this.emit('stateChanged');
+                return edgeDockItem;
+            } finally {
+                this.endHistoryGroup();
+            }
+        }
+    }
+
     /** @deprecated Use {@link (LayoutManager:class).setSize} */
     updateSize(width: number, height: number): void {
         this.setSize(width, height);
@@ -654,6 +1302,7 @@ export abstract class LayoutManager extends EventEmitter {
                 throw new UnexpectedUndefinedError('LMUS18881');
             } else {
                 this._groundItem.setSize(this._width, this._height);
+                this.layoutEdgeDocks();
 
                 if (this._maximisedStack) {
                     const { width, height } = getElementClientWidthAndHeight(this._containerElement);
@@ -746,7 +1395,10 @@ export abstract class LayoutManager extends EventEmitter {
                 id: config.id,
                 maximised: config.maximised,
                 isClosable: config.isClosable,
+                locked: ResolvedItemConfig.defaults.locked,
                 activeItemIndex: 0,
+                collapsed: ResolvedStackItemConfig.defaultCollapsed,
+                tabDropEnabled: ResolvedStackItemConfig.defaultTabDropEnabled,
                 header: undefined,
             };
 
@@ -761,7 +1413,14 @@ export abstract class LayoutManager extends EventEmitter {
         if (this._groundItem === undefined) {
             throw new UnexpectedUndefinedError('LMFFCIBI82446');
         } else {
-            return this.findFirstContentItemTypeByIdRecursive(ItemType.component, id, this._groundItem) as ComponentItem;
+            let result = this.findFirstContentItemTypeByIdRecursive(ItemType.component, id, this._groundItem);
+            for (let i = 0; result === undefined && i < this._floatingItems.length; i++) {
+                result = this.findFirstContentItemTypeByIdRecursive(ItemType.component, id, this._floatingItems[i]);
+            }
+            for (let i = 0; result === undefined && i < this._edgeDockItems.length; i++) {
+                result = this.findFirstContentItemTypeByIdRecursive(ItemType.component, id, this._edgeDockItems[i]);
+            }
+            return result as ComponentItem;
         }
     }
 
@@ -801,6 +1460,7 @@ export abstract class LayoutManager extends EventEmitter {
             }
 
             const itemConfig = item.toConfig();
+            const title = LayoutManager.getContentItemTitle(item);
             if (item.parent?.contentItems.includes(item)) {
                 item.remove();
             }
@@ -808,15 +1468,120 @@ export abstract class LayoutManager extends EventEmitter {
             if (!ResolvedRootItemConfig.isRootItemConfig(itemConfig)) {
                 throw new Error(`${i18nStrings[I18nStringId.PopoutCannotBeCreatedWithGroundItemConfig]}`);
             } else {
-                return this.createPopoutFromItemConfig(itemConfig, window, parentId, dock.index);
+                const popout = this.createPopoutFromItemConfig(itemConfig, window, parentId, dock.index);
+                this.announce(I18nStringId.ItemPoppedOut, title);
+                return popout;
             }
         }
     }
 
+    /**
+     * Called when a FloatingItem is closed or its last Stack is removed
+     * @internal
+     */
+    removeFloatingItem(item: FloatingItem): void {
+        removeFromArray(item, this._floatingItems);
+        item.destroy();
+        this.updateFloatingItemZIndexes();
+        this.emit('stateChanged');
+    }
+
     /** @internal */
-    beginVirtualSizedContainerAdding(): void {
-        if (++this._virtualSizedContainerAddingBeginCount === 0) {
-            this._virtualSizedContainers.length = 0;
+    bringFloatingItemToFront(item: FloatingItem): void {
+        const floatingItems = this._floatingItems;
+        const index = floatingItems.indexOf(item);
+        if (index >= 0 && index !== floatingItems.length - 1) {
+            floatingItems.splice(index, 1);
+            floatingItems.push(item);
+            this.updateFloatingItemZIndexes();
+            this.emit('stateChanged');
+        }
+    }
+
+    /**
+     * Called when an EdgeDockItem is closed or its Stack is removed
+     * @internal
+     */
+    removeEdgeDockItem(item: EdgeDockItem): void {
+        removeFromArray(item, this._edgeDockItems);
+        item.destroy();
+        this.updateEdgeDocks();
+        this.emit('stateChanged');
+    }
+
+    /**
+     * Moves the Stack of an EdgeDockItem back into the layout on the side of its edge.  The EdgeDockItem is removed.
+     * @internal
+     */
+    pinEdgeDockItem(item: EdgeDockItem): void {
+        const groundItem = this._groundItem;
+        const stack = item.stack;
+        if (groundItem === undefined) {
+            throw new UnexpectedUndefinedError('LMPEDIG55201');
+        } else {
+            if (stack === undefined) {
+                throw new UnexpectedUndefinedError('LMPEDIS55202');
+            } else {
+                const areaSide = LayoutManager.edgeDockGroundAreaSides[item.side];
+                const area = groundItem.createSideAreas().find((sideArea) => sideArea.side === areaSide);
+                if (area === undefined) {
+                    throw new UnexpectedUndefinedError('LMPEDIA55203');
+                } else {
+                    const title = LayoutManager.getContentItemTitle(stack);
+                    this.beginHistoryGroup();
+                    try {
+                        this.checkMinimiseMaximisedStack();
+                        // removing its only Stack also removes the EdgeDockItem
+                        item.removeChild(stack, true);
+                        groundItem.onDrop(stack, area);
+                        this.announce(I18nStringId.ItemPinned, title);
+                        this.emit('stateChanged');
+                    } finally {
+                        this.endHistoryGroup();
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Position and size, relative to the GroundItem, of an EdgeDockItem's Stack when it has slid out
+     * @internal
+     */
+    calculateEdgeDockItemRect(item: EdgeDockItem): Rect {
+        const groundItem = this._groundItem;
+        if (groundItem === undefined) {
+            throw new UnexpectedUndefinedError('LMCEDIR55204');
+        } else {
+            const { left, top, right, bottom } = groundItem.edgeInsets;
+            const { width, height } = getElementClientWidthAndHeight(groundItem.element);
+            const availableWidth = Math.max(0, width - left - right);
+            const availableHeight = Math.max(0, height - top - bottom);
+            switch (item.side) {
+                case Side.left: {
+                    return { left, top, width: Math.min(item.slideOutSize, availableWidth), height: availableHeight };
+                }
+                case Side.right: {
+                    const slideOutWidth = Math.min(item.slideOutSize, availableWidth);
+                    return { left: width - right - slideOutWidth, top, width: slideOutWidth, height: availableHeight };
+                }
+                case Side.top: {
+                    return { left, top, width: availableWidth, height: Math.min(item.slideOutSize, availableHeight) };
+                }
+                case Side.bottom: {
+                    const slideOutHeight = Math.min(item.slideOutSize, availableHeight);
+                    return { left, top: height - bottom - slideOutHeight, width: availableWidth, height: slideOutHeight };
+                }
+                default:
+                    throw new UnreachableCaseError('LMCEDIRU55205', item.side);
+            }
+        }
+    }
+
+    /** @internal */
+    beginVirtualSizedContainerAdding(): void {
+        if (++this._virtualSizedContainerAddingBeginCount === 0) {
+            this._virtualSizedContainers.length = 0;
         }
     }
 
@@ -864,11 +1629,15 @@ export abstract class LayoutManager extends EventEmitter {
         const layoutConfig = this.toConfig();
 
         const popoutLayoutConfig: ResolvedPopoutLayoutConfig = {
+            version: layoutConfig.version,
+            applicationVersion: layoutConfig.applicationVersion,
             root: rootItemConfig,
             openPopouts: [],
             settings: layoutConfig.settings,
             dimensions: layoutConfig.dimensions,
             header: layoutConfig.header,
+            floatingItems: [],
+            edgeDockItems: [],
             window,
             parentId,
             indexInParent,
@@ -895,21 +1664,8 @@ export abstract class LayoutManager extends EventEmitter {
 
         const browserPopout = new BrowserPopout(config, initialWindow, this);
 
-        browserPopout.on('initialised', () => {
-            const lm = browserPopout.getGlInstance();
-
-            // Close the popout when the last component item is destroyed.
-            const destroyIfEmpty = function () {
-                if (!lm.isDragging && lm.groundItem?.getAllComponentItems()?.length === 0) {
-                    browserPopout.close();
-                }
-            };
-
-            lm.on('itemDropped', destroyIfEmpty);
-            lm.on('itemDestroyed', destroyIfEmpty);
-
-            this.emit('windowOpened', browserPopout);
-        });
+        // The popout window closes itself when its last component item is destroyed (see PopoutOpener)
+        browserPopout.on('initialised', () => this.emit('windowOpened', browserPopout));
 
         browserPopout.on('closed', () => this.reconcilePopoutWindows());
 
@@ -986,24 +1742,31 @@ export abstract class LayoutManager extends EventEmitter {
 
     /** @internal */
     startComponentDrag(x: number, y: number, dragListener: DragListener, componentItem: ComponentItem): void {
-        const isLast = componentItem.findAncestorWithSiblings() === null;
+        const topLevelItemCount =
+            (this._groundItem?.contentItems.length ?? 0) + this._floatingItems.length + this._edgeDockItems.length;
+        const isLast = componentItem.findAncestorWithSiblings() === null && topLevelItemCount === 1;
 
         const allowPopout =
             this.layoutConfig.settings.dragToNewWindow &&
             (this.parent === null || !isLast);                  // Popout is destroyed when last component is removed, drag to new popout makes no sense
 
+        const allowFloating =
+            this.layoutConfig.settings.dragToFloatingItem &&
+            (this.parent === null || !isLast);
+
+        const dragRemotes = this.dragRemotes;
         const canMoveBetweenWindows =
             this.layoutConfig.settings.dragBetweenWindows &&
-            (this._parent ?? this)._openPopouts.length > 0;     // Are there even multiple windows?
+            ((this._parent ?? this)._openPopouts.length > 0 || dragRemotes.length > 0);     // Are there even multiple windows?
 
         // Cancel the drag if this is the last component and there are no valid external targets.
         // In this case, only the current layout configuration is possible, so there is no point in dragging.
-        if (isLast && !allowPopout && !canMoveBetweenWindows) {
+        if (isLast && !allowPopout && !allowFloating && !canMoveBetweenWindows) {
             dragListener.cancelDrag();
             return;
         }
 
-        const action = DragAction.start(this, dragListener, componentItem, x, y, allowPopout);
+        const action = DragAction.start(this, dragListener, componentItem, x, y, allowPopout || allowFloating);
 
         if (canMoveBetweenWindows) {
             for (let lm of this.instances) {
@@ -1011,6 +1774,21 @@ export abstract class LayoutManager extends EventEmitter {
                     lm.startExternalComponentDrag(action);
                 }
             }
+            // Windows on other origins take part through messages
+            for (const remote of dragRemotes) {
+                action.addRemote(remote);
+            }
+        }
+    }
+
+    /**
+     * Announces a change to the layout to screen readers
+     * @internal
+     */
+    announce(stringId: I18nStringId, title: string): void {
+        if (this._liveRegion !== undefined) {
+            const message = title === '' ? i18nStrings[stringId] : `${i18nStrings[stringId]}: ${title}`;
+            this._liveRegion.announce(message);
         }
     }
 
@@ -1090,6 +1868,8 @@ export abstract class LayoutManager extends EventEmitter {
             case ItemType.stack: return new Stack(this, config as ResolvedStackItemConfig, parent);
             case ItemType.component:
                 return new ComponentItem(this, config as ResolvedComponentItemConfig, parent as Stack);
+            case ItemType.floating: throw new AssertError('LMCCIFC68872'); // created with createFloatingItem()
+            case ItemType.edgeDock: throw new AssertError('LMCCIFC68873'); // created with createEdgeDockItem()
             default:
                 throw new UnreachableCaseError('CCC913564', config.type, 'Invalid Config Item type specified');
         }
@@ -1195,10 +1975,24 @@ export abstract class LayoutManager extends EventEmitter {
         let matchingArea: ContentItem.Area | null = null;
         let smallestSurface = Infinity;
 
-        for (let i = 0; i < this._itemAreas.length; i++) {
-            const area = this._itemAreas[i];
+        // Areas covered by a floating item cannot be dropped into. Only its own Stack can be.
+        let coveringStack: Stack | undefined;
+        for (let i = this._floatingItems.length - 1; i >= 0; i--) {
+            const floatingItem = this._floatingItems[i];
+            const floatingArea = floatingItem.getElementArea();
+            if (x >= floatingArea.x1 && x < floatingArea.x2 && y >= floatingArea.y1 && y < floatingArea.y2) {
+                coveringStack = floatingItem.stack;
+                break;
+            }
+        }
+
+        // Rejected areas are also matched so a drop target within them cannot be used
+        const areas = [...this._itemAreas, ...this._rejectedItemAreas];
+        for (let i = 0; i < areas.length; i++) {
+            const area = areas[i];
 
             if (
+                (coveringStack === undefined || area.contentItem === coveringStack) &&
                 x >= area.x1 &&
                 x < area.x2 && // x2 is not included in area
                 y >= area.y1 &&
@@ -1213,8 +2007,91 @@ export abstract class LayoutManager extends EventEmitter {
         return matchingArea;
     }
 
+    /**
+     * Calculates the areas the component can be dropped onto.  Areas of drop targets disallowed by the component's
+     * drop constraints, by Stacks locked against new tabs or by {@link (LayoutManager:class).canDropEvent} are skipped.
+     * They are kept as rejected areas so they can be indicated as such.
+     * @param originalParent - The item the component was dragged from.  Tabs can always be reordered within their Stack
+     * @internal
+     */
+    calculateItemAreas(componentItem: ComponentItem, originalParent: ContentItem): void {
+        const headerAreas = this.calculateAllItemAreas();
+
+        const allowedAreas: ContentItem.Area[] = [];
+        const rejectedAreas: ContentItem.Area[] = [];
+        for (const area of this._itemAreas) {
+            const dropTarget = this.createDropTarget(area, headerAreas.has(area));
+            if (this.isDropAllowed(componentItem, originalParent, dropTarget)) {
+                allowedAreas.push(area);
+            } else {
+                area.rejected = true;
+                rejectedAreas.push(area);
+            }
+        }
+        this._itemAreas = allowedAreas;
+        this._rejectedItemAreas = rejectedAreas;
+    }
+
     /** @internal */
-    calculateItemAreas(): void {
+    private createDropTarget(area: ContentItem.Area, isHeader: boolean): LayoutManager.DropTarget {
+        const contentItem = area.contentItem;
+        if (contentItem instanceof GroundItem) {
+            const side = (area as GroundItem.Area).side;
+            if (side === undefined) {
+                return { contentItem, kind: LayoutManager.DropTarget.Kind.root, side: undefined };
+            } else {
+                const edge = LayoutManager.edgeDockSides.find((dockSide) => LayoutManager.edgeDockGroundAreaSides[dockSide] === side);
+                return { contentItem, kind: LayoutManager.DropTarget.Kind.edge, side: edge };
+            }
+        } else {
+            // the whole area of an empty Stack is a drop target for new tabs
+            if (isHeader || contentItem.contentItems.length === 0) {
+                return { contentItem, kind: LayoutManager.DropTarget.Kind.tab, side: undefined };
+            } else {
+                return { contentItem, kind: LayoutManager.DropTarget.Kind.split, side: undefined };
+            }
+        }
+    }
+
+    /** @internal */
+    private isDropAllowed(componentItem: ComponentItem, originalParent: ContentItem, dropTarget: LayoutManager.DropTarget): boolean {
+        let allowed: boolean;
+        switch (dropTarget.kind) {
+            case LayoutManager.DropTarget.Kind.tab: {
+                const stack = dropTarget.contentItem as Stack;
+                allowed = (stack === originalParent || stack.tabDropEnabled) &&
+                    stack.contentItems.every((item) => !ContentItem.isComponentItem(item) || LayoutManager.areStackable(componentItem, item));
+                break;
+            }
+            case LayoutManager.DropTarget.Kind.edge: {
+                const dockEdges = componentItem.dropConstraints?.dockEdges;
+                allowed = dockEdges === undefined || (dropTarget.side !== undefined && dockEdges.includes(dropTarget.side));
+                break;
+            }
+            case LayoutManager.DropTarget.Kind.split:
+            case LayoutManager.DropTarget.Kind.root:
+                allowed = true;
+                break;
+            default:
+                throw new UnreachableCaseError('LMIDA55012', dropTarget.kind);
+        }
+
+        // nothing can be dropped into a locked item
+        allowed &&= !dropTarget.contentItem.isLocked;
+
+        if (allowed && this.canDropEvent !== undefined) {
+            allowed = this.canDropEvent(componentItem, dropTarget);
+        }
+        return allowed;
+    }
+
+    /**
+     * Calculates the areas of all drop targets
+     * @returns The areas which are Stack headers
+     * @internal
+     */
+    private calculateAllItemAreas(): Set<ContentItem.Area> {
+        const headerAreas = new Set<ContentItem.Area>();
         const allContentItems = this.getAllContentItems();
         /**
          * If the last item is dragged out, highlight the entire container size to
@@ -1235,7 +2112,6 @@ export abstract class LayoutManager extends EventEmitter {
                 } else {
                     this._itemAreas = [groundArea];
                 }
-                return;
             } else {
                 if (groundItem.contentItems[0].isStack) {
                     // if root is Stack, then split stack and sides of Layout are same, so skip sides
@@ -1270,12 +2146,34 @@ export abstract class LayoutManager extends EventEmitter {
                                     surface,
                                 };
                                 this._itemAreas.push(header);
+                                headerAreas.add(header);
                             }
                         }
                     }
                 }
             }
+
+            // Items can only be dropped into the header of a floating item's Stack
+            for (const floatingItem of this._floatingItems) {
+                const stack = floatingItem.stack;
+                if (stack !== undefined && stack.getArea() !== null) {
+                    const stackContentAreaDimensions = stack.contentAreaDimensions;
+                    if (stackContentAreaDimensions === undefined) {
+                        throw new UnexpectedUndefinedError('LMCIAFI45600');
+                    } else {
+                        const highlightArea = stackContentAreaDimensions.header.highlightArea;
+                        const header: ContentItem.Area = {
+                            ...highlightArea,
+                            contentItem: stack,
+                            surface: (highlightArea.x2 - highlightArea.x1) * (highlightArea.y2 - highlightArea.y1),
+                        };
+                        this._itemAreas.push(header);
+                        headerAreas.add(header);
+                    }
+                }
+            }
         }
+        return headerAreas;
     }
 
     /**
@@ -1302,12 +2200,472 @@ export abstract class LayoutManager extends EventEmitter {
                 if (!ContentItem.isStack(item)) {
                     throw new AssertError('LMCLLMI19993');
                 } else {
-                    item.maximise();
+                    item.applyMaximise();
                 }
             }
         }
     }
 
+    /** @internal */
+    postSyncedUserBroadcast(args: unknown[]): void {
+        if (this._layoutSynchroniser !== undefined) {
+            this._layoutSynchroniser.postUserBroadcast(args);
+        }
+    }
+
+    /**
+     * Applies a layout received from a synchronised LayoutManager.  Popouts and the settings, dimensions and header of
+     * the current layout are kept.
+     * @internal
+     */
+    private applySyncedLayout(layout: LayoutSyncTransport.SharedLayout) {
+        const layoutConfig: ResolvedLayoutConfig = {
+            ...this.saveLayout(),
+            root: layout.root,
+            floatingItems: layout.floatingItems,
+            edgeDockItems: layout.edgeDockItems,
+        };
+        this.beginHistoryGroup();
+        try {
+            this.applyResolvedLayout(layoutConfig);
+        } finally {
+            this.endHistoryGroup();
+        }
+    }
+
+    /** @internal */
+    private setCurrentPresetName(name: string | undefined) {
+        if (name !== this._currentPresetName) {
+            this._currentPresetName = name;
+            this.emit('presetChanged', name);
+        }
+    }
+
+    /**
+     * Applies a snapshot from the undo/redo history to the current layout
+     * @internal
+     */
+    private restoreHistorySnapshot(snapshot: ResolvedLayoutConfig) {
+        this.applyResolvedLayout(snapshot);
+    }
+
+    /** @internal */
+    private applyResolvedLayout(layoutConfig: ResolvedLayoutConfig): LayoutDiff {
+        const groundItem = this._groundItem;
+        if (groundItem === undefined) {
+            throw new UnexpectedUndefinedError('LMARL20415');
+        } else {
+            this.reconcileOpenPopouts(layoutConfig.openPopouts);
+
+            const groundContent = groundItem.calculateConfigContent();
+            const oldRoot = groundContent.length === 0 ? undefined : groundContent[0];
+            const { diff, newRoot, matches } = LayoutDiff.calculate(oldRoot, layoutConfig.root);
+
+            // Map matched configs to their ContentItems before anything is moved
+            const matchedItems = LayoutManager.mapMatchedItems(groundItem.contentItems[0], matches);
+
+            if (diff.inserted.length > 0 || diff.removed.length > 0 || diff.moved.length > 0) {
+                this.checkMinimiseMaximisedStack();
+            }
+
+            const orphanedItems = new Set<ContentItem>();
+            this._emptyItemRemovalSuspendCount++;
+            try {
+                const newGroundContent = newRoot === undefined ? [] : [newRoot];
+                this.reconcileContentItems(groundItem, newGroundContent, matchedItems, orphanedItems);
+            } finally {
+                this._emptyItemRemovalSuspendCount--;
+            }
+
+            // Orphaned items no longer contain any matched items so can be destroyed
+            for (const orphanedItem of orphanedItems) {
+                orphanedItem.destroy();
+            }
+
+            let maximisedStack: Stack | undefined;
+            if (newRoot !== undefined) {
+                maximisedStack = this.applyReconciledItemConfig(groundItem.contentItems[0], newRoot);
+            }
+            this.updateRootSize();
+
+            if (maximisedStack === undefined) {
+                this.checkMinimiseMaximisedStack();
+            } else {
+                maximisedStack.applyMaximise();
+            }
+            this.reconcileFloatingItems(layoutConfig.floatingItems);
+            this.reconcileEdgeDockItems(layoutConfig.edgeDockItems);
+            this.adjustColumnsResponsive();
+
+            return diff;
+        }
+    }
+
+    /**
+     * Arranges the children of parent to match content.  Matched items are moved into place, unmatched configs are
+     * created and children which are no longer wanted are detached and added to orphanedItems.
+     * @internal
+     */
+    private reconcileContentItems(parent: ContentItem, content: readonly ResolvedItemConfig[],
+        matchedItems: Map<ResolvedItemConfig, ContentItem>, orphanedItems: Set<ContentItem>
+    ) {
+        const wantedItems = content.map((config) => matchedItems.get(config));
+        for (const child of parent.contentItems.slice()) {
+            if (!wantedItems.includes(child)) {
+                parent.removeChild(child, true);
+                orphanedItems.add(child);
+            }
+        }
+
+        for (let i = 0; i < content.length; i++) {
+            const config = content[i];
+            let item = wantedItems[i];
+            if (item === undefined) {
+                // Containers are created empty and then filled so that matched items can be moved into them
+                const createConfig = ResolvedItemConfig.isComponentItem(config) ? config : ResolvedItemConfig.createCopy(config, []);
+                item = this.createAndInitContentItem(createConfig, parent);
+                parent.addChild(item, i);
+            } else {
+                if (parent.contentItems[i] !== item) {
+                    const currentParent = item.parent;
+                    if (currentParent !== null && currentParent.contentItems.includes(item)) {
+                        currentParent.removeChild(item, true);
+                    }
+                    orphanedItems.delete(item);
+                    parent.addChild(item, i);
+                }
+            }
+
+            if (!ResolvedItemConfig.isComponentItem(config)) {
+                this.reconcileContentItems(item, config.content, matchedItems, orphanedItems);
+            }
+        }
+    }
+
+    /**
+     * Applies sizes, active tabs and titles to a reconciled item tree
+     * @returns The Stack which should be maximised (if any)
+     * @internal
+     */
+    private applyReconciledItemConfig(item: ContentItem, config: ResolvedItemConfig): Stack | undefined {
+        item.size = config.size;
+        item.sizeUnit = config.sizeUnit;
+        item.minSize = config.minSize;
+        item.minSizeUnit = config.minSizeUnit;
+
+        let maximisedStack: Stack | undefined;
+        if (ContentItem.isComponentItem(item)) {
+            const componentConfig = config as ResolvedComponentItemConfig;
+            if (item.title !== componentConfig.title) {
+                item.setTitle(componentConfig.title);
+            }
+        } else {
+            if (ContentItem.isStack(item)) {
+                const stackConfig = config as ResolvedStackItemConfig;
+                const activeItemIndex = stackConfig.activeItemIndex;
+                if (activeItemIndex !== undefined && activeItemIndex < item.contentItems.length) {
+                    item.setActiveComponentItem(item.contentItems[activeItemIndex] as ComponentItem, false);
+                }
+                if (stackConfig.maximised) {
+                    maximisedStack = item;
+                }
+                if (item.isCollapsed !== stackConfig.collapsed) {
+                    item.applyCollapsed(stackConfig.collapsed);
+                }
+            }
+        }
+
+        const contentItems = item.contentItems;
+        for (let i = 0; i < contentItems.length; i++) {
+            const childMaximisedStack = this.applyReconciledItemConfig(contentItems[i], config.content[i]);
+            if (childMaximisedStack !== undefined) {
+                maximisedStack = childMaximisedStack;
+            } else {
+                if (ContentItem.isStack(item) && (config.content[i] as ResolvedComponentItemConfig).maximised) {
+                    maximisedStack = item;
+                }
+            }
+        }
+
+        return maximisedStack;
+    }
+
+    /**
+     * Popouts whose content matches a config are left open.  Other popouts are closed (without popping in)
+     * and configs without a matching popout are opened.
+     * @internal
+     */
+    private reconcileOpenPopouts(popoutConfigs: readonly ResolvedPopoutLayoutConfig[]) {
+        this.reconcilePopoutWindows();
+        const unmatchedPopoutConfigs = popoutConfigs.slice();
+        for (const popout of this._openPopouts.slice()) {
+            if (popout.isInitialised) {
+                const rootJson = JSON.stringify(popout.toConfig().root);
+                const idx = unmatchedPopoutConfigs.findIndex((config) => JSON.stringify(config.root) === rootJson);
+                if (idx >= 0) {
+                    unmatchedPopoutConfigs.splice(idx, 1);
+                } else {
+                    popout.close(true);
+                }
+            }
+        }
+        this.createSubWindows(unmatchedPopoutConfigs);
+    }
+
+    /**
+     * Creates a FloatingItem and displays it in front of existing FloatingItems
+     * @internal
+     */
+    private createFloatingItem(config: ResolvedFloatingItemConfig): FloatingItem {
+        const floatingItemsElement = this._floatingItemsElement;
+        if (floatingItemsElement === undefined) {
+            throw new UnexpectedUndefinedError('LMCFI30555');
+        } else {
+            const floatingItem = new FloatingItem(this, config, floatingItemsElement);
+            for (const childConfig of config.content) {
+                const child = this.createContentItem(childConfig, floatingItem);
+                floatingItem.addChild(child);
+            }
+            floatingItem.init();
+            this._floatingItems.push(floatingItem);
+            this.updateFloatingItemZIndexes();
+            return floatingItem;
+        }
+    }
+
+    /** @internal */
+    private clearFloatingItems() {
+        const floatingItems = this._floatingItems;
+        this._floatingItems = [];
+        for (const floatingItem of floatingItems) {
+            floatingItem.destroy();
+        }
+    }
+
+    /**
+     * FloatingItems are matched to configs by id.  FloatingItems without an id are matched to configs without an id
+     * in the same position.  The content of matched FloatingItems is reconciled with their config (in the same way as the
+     * root) and they are moved to the config's bounds.  Other FloatingItems are removed and configs without a matching
+     * FloatingItem are created.  FloatingItems are then ordered as in floatingConfigs.
+     * @internal
+     */
+    private reconcileFloatingItems(floatingConfigs: readonly ResolvedFloatingItemConfig[]) {
+        const oldFloatingItems = this._floatingItems;
+        const matchedFloatingItems = new Array<FloatingItem | undefined>(floatingConfigs.length);
+        for (let i = 0; i < floatingConfigs.length; i++) {
+            const id = floatingConfigs[i].id;
+            if (id !== '') {
+                matchedFloatingItems[i] = oldFloatingItems.find((item) => item.id === id && !matchedFloatingItems.includes(item));
+            }
+        }
+        for (let i = 0; i < floatingConfigs.length; i++) {
+            if (floatingConfigs[i].id === '' && i < oldFloatingItems.length) {
+                const candidate = oldFloatingItems[i];
+                if (candidate.id === '' && !matchedFloatingItems.includes(candidate)) {
+                    matchedFloatingItems[i] = candidate;
+                }
+            }
+        }
+
+        const floatingItems: FloatingItem[] = [];
+        this._floatingItems = [];
+        for (const floatingItem of oldFloatingItems) {
+            if (!matchedFloatingItems.includes(floatingItem)) {
+                floatingItem.destroy();
+            }
+        }
+        for (let i = 0; i < floatingConfigs.length; i++) {
+            const config = floatingConfigs[i];
+            const floatingItem = matchedFloatingItems[i];
+            if (floatingItem === undefined) {
+                floatingItems.push(this.createFloatingItem(config));
+            } else {
+                this.reconcileDetachedItemContent(floatingItem, config);
+                floatingItem.setBounds(config.bounds);
+                floatingItems.push(floatingItem);
+            }
+        }
+        this._floatingItems = floatingItems;
+        this.updateFloatingItemZIndexes();
+    }
+
+    /**
+     * Arranges the content of a FloatingItem or EdgeDockItem to match config.  Matched components keep their DOM and state.
+     * @internal
+     */
+    private reconcileDetachedItemContent(item: FloatingItem | EdgeDockItem, config: ResolvedFloatingItemConfig | ResolvedEdgeDockItemConfig) {
+        const { newRoot, matches } = LayoutDiff.calculate(item.toConfig(), config);
+        if (newRoot === undefined) {
+            throw new UnexpectedUndefinedError('LMRFIC30556');
+        } else {
+            const matchedItems = LayoutManager.mapMatchedItems(item, matches);
+            const orphanedItems = new Set<ContentItem>();
+            this._emptyItemRemovalSuspendCount++;
+            try {
+                this.reconcileContentItems(item, newRoot.content, matchedItems, orphanedItems);
+            } finally {
+                this._emptyItemRemovalSuspendCount--;
+            }
+
+            for (const orphanedItem of orphanedItems) {
+                orphanedItem.destroy();
+            }
+
+            const contentItems = item.contentItems;
+            for (let i = 0; i < contentItems.length; i++) {
+                this.applyReconciledItemConfig(contentItems[i], newRoot.content[i]);
+            }
+        }
+    }
+
+    /** @internal */
+    private updateFloatingItemZIndexes() {
+        const floatingItems = this._floatingItems;
+        for (let i = 0; i < floatingItems.length; i++) {
+            floatingItems[i].setZIndex(i + 1);
+        }
+    }
+
+    /**
+     * Creates an EdgeDockItem and displays its tab after the tabs of existing EdgeDockItems on the same edge
+     * @internal
+     */
+    private createEdgeDockItem(config: ResolvedEdgeDockItemConfig): EdgeDockItem {
+        const groundItem = this._groundItem;
+        if (groundItem === undefined) {
+            throw new UnexpectedUndefinedError('LMCEDI55206');
+        } else {
+            const edgeDockItem = new EdgeDockItem(this, config, groundItem.element);
+            for (const childConfig of config.content) {
+                const child = this.createContentItem(childConfig, edgeDockItem);
+                edgeDockItem.addChild(child);
+            }
+            edgeDockItem.init();
+            this._edgeDockItems.push(edgeDockItem);
+            this.updateEdgeDocks();
+            return edgeDockItem;
+        }
+    }
+
+    /** @internal */
+    private clearEdgeDockItems() {
+        const edgeDockItems = this._edgeDockItems;
+        if (edgeDockItems.length > 0) {
+            this._edgeDockItems = [];
+            for (const edgeDockItem of edgeDockItems) {
+                edgeDockItem.destroy();
+            }
+            this.updateEdgeDocks();
+        }
+    }
+
+    /**
+     * EdgeDockItems are matched to configs on the same side by id.  EdgeDockItems without an id are matched to configs
+     * without an id in the same position on that side.  The Stack of matched EdgeDockItems is reconciled with their config
+     * (in the same way as the root) and they are given the config's slide out size.  Other EdgeDockItems are removed and
+     * configs without a matching EdgeDockItem are created.  Tabs are then ordered as in edgeDockConfigs.
+     * @internal
+     */
+    private reconcileEdgeDockItems(edgeDockConfigs: readonly ResolvedEdgeDockItemConfig[]) {
+        const oldEdgeDockItems = this._edgeDockItems;
+        const matchedEdgeDockItems = new Array<EdgeDockItem | undefined>(edgeDockConfigs.length);
+        for (let i = 0; i < edgeDockConfigs.length; i++) {
+            const { id, side } = edgeDockConfigs[i];
+            if (id !== '') {
+                matchedEdgeDockItems[i] = oldEdgeDockItems.find(
+                    (item) => item.id === id && item.side === side && !matchedEdgeDockItems.includes(item)
+                );
+            }
+        }
+        for (const side of LayoutManager.edgeDockSides) {
+            const sideConfigIndexes: number[] = [];
+            for (let i = 0; i < edgeDockConfigs.length; i++) {
+                if (edgeDockConfigs[i].side === side) {
+                    sideConfigIndexes.push(i);
+                }
+            }
+            const sideEdgeDockItems = oldEdgeDockItems.filter((item) => item.side === side);
+            for (let position = 0; position < sideConfigIndexes.length && position < sideEdgeDockItems.length; position++) {
+                const configIndex = sideConfigIndexes[position];
+                const candidate = sideEdgeDockItems[position];
+                if (edgeDockConfigs[configIndex].id === '' && candidate.id === '' && !matchedEdgeDockItems.includes(candidate)) {
+                    matchedEdgeDockItems[configIndex] = candidate;
+                }
+            }
+        }
+
+        const edgeDockItems: EdgeDockItem[] = [];
+        this._edgeDockItems = [];
+        for (const edgeDockItem of oldEdgeDockItems) {
+            if (!matchedEdgeDockItems.includes(edgeDockItem)) {
+                edgeDockItem.destroy();
+            }
+        }
+        for (let i = 0; i < edgeDockConfigs.length; i++) {
+            const config = edgeDockConfigs[i];
+            const edgeDockItem = matchedEdgeDockItems[i];
+            if (edgeDockItem === undefined) {
+                edgeDockItems.push(this.createEdgeDockItem(config));
+            } else {
+                this.reconcileDetachedItemContent(edgeDockItem, config);
+                edgeDockItem.setSlideOutSize(config.slideOutSize);
+                edgeDockItems.push(edgeDockItem);
+            }
+        }
+        this._edgeDockItems = edgeDockItems;
+        this.updateEdgeDocks();
+    }
+
+    /**
+     * Displays the tabs of the EdgeDockItems in the strips on the edges of the layout.  Space is reserved for strips
+     * which have tabs.
+     * @internal
+     */
+    private updateEdgeDocks() {
+        const edgeDockElements = this._edgeDockElements;
+        const groundItem = this._groundItem;
+        if (edgeDockElements !== undefined && groundItem !== undefined) {
+            const thickness = this.layoutConfig.dimensions.headerHeight;
+            const insets = { left: 0, top: 0, right: 0, bottom: 0 };
+            for (const side of LayoutManager.edgeDockSides) {
+                const element = edgeDockElements[side];
+                let tabCount = 0;
+                for (const item of this._edgeDockItems) {
+                    if (item.side === side) {
+                        element.appendChild(item.tabElement);
+                        tabCount++;
+                    }
+                }
+                setElementDisplayVisibility(element, tabCount > 0);
+                insets[side] = tabCount > 0 ? thickness : 0;
+            }
+            groundItem.setEdgeInsets(insets);
+            this.layoutEdgeDocks();
+        }
+    }
+
+    /**
+     * Positions the strips on the edges of the layout and any EdgeDockItem which has slid out.  The top and bottom
+     * strips span the full width of the layout.
+     * @internal
+     */
+    private layoutEdgeDocks() {
+        const edgeDockElements = this._edgeDockElements;
+        const groundItem = this._groundItem;
+        if (edgeDockElements !== undefined && groundItem !== undefined) {
+            const { left, top, right, bottom } = groundItem.edgeInsets;
+            const { width, height } = getElementClientWidthAndHeight(groundItem.element);
+            const middleHeight = Math.max(0, height - top - bottom);
+            LayoutManager.setElementRect(edgeDockElements.top, { left: 0, top: 0, width, height: top });
+            LayoutManager.setElementRect(edgeDockElements.bottom, { left: 0, top: height - bottom, width, height: bottom });
+            LayoutManager.setElementRect(edgeDockElements.left, { left: 0, top, width: left, height: middleHeight });
+            LayoutManager.setElementRect(edgeDockElements.right, { left: width - right, top, width: right, height: middleHeight });
+            for (const item of this._edgeDockItems) {
+                item.updateSize(false);
+            }
+        }
+    }
+
     /** @internal */
     private processMaximiseStack(stack: Stack): void {
         this._maximisedStack = stack;
@@ -1342,6 +2700,9 @@ export abstract class LayoutManager extends EventEmitter {
                 this._maximisePlaceholder.remove();
                 this.updateRootSize(true);
                 this._maximisedStack = undefined;
+                if (stack.parent.isFloating || stack.parent.isEdgeDock) {
+                    stack.parent.updateSize(true);
+                }
                 stack.off('beforeItemDestroyed', this._maximisedStackBeforeDestroyedListener);
                 stack.emit('minimised');
                 this.emit('stateChanged');
@@ -1391,16 +2752,20 @@ export abstract class LayoutManager extends EventEmitter {
      * if popouts are blocked.
      * @internal
      */
-    private createSubWindows() {
-        for (const config of this.layoutConfig.openPopouts) {
+    private createSubWindows(popoutConfigs: readonly ResolvedPopoutLayoutConfig[]) {
+        for (const config of popoutConfigs) {
             const parentConfig = this.saveLayout();
 
             const popoutLayoutConfig: ResolvedPopoutLayoutConfig = {
+                version: config.version,
+                applicationVersion: parentConfig.applicationVersion,
                 root: config.root,
                 openPopouts: config.openPopouts,
                 settings: parentConfig.settings,
                 dimensions: parentConfig.dimensions,
                 header: parentConfig.header,
+                floatingItems: config.floatingItems,
+                edgeDockItems: config.edgeDockItems,
                 window: config.window,
                 parentId: config.parentId,
                 indexInParent: config.indexInParent,
@@ -1813,14 +3178,135 @@ export abstract class LayoutManager extends EventEmitter {
 export namespace LayoutManager {
     export type BeforeVirtualRectingEvent = (this: void, count: number) => void;
     export type AfterVirtualRectingEvent = (this: void) => void;
+    export type CanDropEvent = (this: void, componentItem: ComponentItem, dropTarget: DropTarget) => boolean;
+
+    /** A place a dragged component can be dropped onto */
+    export interface DropTarget {
+        /** The Stack or, for the edges of the layout and an empty layout, the GroundItem */
+        readonly contentItem: ContentItem;
+        readonly kind: DropTarget.Kind;
+        /** The edge of the layout if kind is edge */
+        readonly side: Side | undefined;
+    }
+
+    export namespace DropTarget {
+        /**
+         * tab: add as a tab to a Stack.
+         * split: split a Stack and place the component beside it.
+         * edge: dock to an edge of the layout.
+         * root: an empty layout
+         */
+        export type Kind = 'tab' | 'split' | 'edge' | 'root';
+
+        export namespace Kind {
+            export const tab = 'tab';
+            export const split = 'split';
+            export const edge = 'edge';
+            export const root = 'root';
+        }
+    }
+
+    /** See {@link (LayoutManager:class).hibernationPolicy} */
+    export interface HibernationPolicy {
+        /**
+         * The time (in milliseconds) a component must be hidden before it is hibernated.
+         * Undefined: components are not hibernated because of how long they have been hidden
+         */
+        readonly hiddenTimeout?: number;
+        /**
+         * The maximum number of hidden components which are kept bound.  When exceeded, the components which have been
+         * hidden the longest are hibernated.
+         * Undefined: no limit
+         */
+        readonly maxHiddenComponents?: number;
+        /** Return false to keep the component of a container bound.  Default: all components can be hibernated */
+        readonly canHibernate?: (this: void, container: ComponentContainer) => boolean;
+    }
 
     /** @internal */
     export interface ConstructorParameters {
         constructorOrSubWindowLayoutConfig: LayoutConfig | undefined;
         isSubWindow: boolean;
+        /** Undefined if not a sub window */
+        subWindowConfigKey: string | undefined;
+        /** Origin of the window which opened this sub window.  Undefined if not a sub window */
+        subWindowOpenerOrigin: string | undefined;
         containerElement: HTMLElement | undefined;
     }
 
+    /** See {@link (LayoutManager:class).setLayoutStorage} */
+    export interface LayoutStorageOptions {
+        /**
+         * Key under which the layout is saved in storage
+         * Default: 'layout'
+         */
+        key?: string;
+        /**
+         * Whether the layout is saved whenever it changes
+         * Default: true
+         */
+        autosave?: boolean;
+        /**
+         * The time (in milliseconds) after the last change before the layout is autosaved
+         * Default: 1000
+         */
+        autosaveDebounceInterval?: number;
+        /**
+         * Whether the layout saved in storage replaces the current layout
+         * Default: true
+         */
+        restore?: boolean;
+    }
+
+    /** See {@link (LayoutManager:class).startSync} */
+    export interface SyncOptions {
+        /**
+         * How the layout is synchronised.  See {@link LayoutSyncMode}
+         * Default: 'share'
+         */
+        mode?: LayoutSyncMode;
+        /**
+         * Whether EventHub 'userBroadcast' events are also sent to the synchronised LayoutManagers.  Their arguments must be
+         * able to be copied by the transport (with the structured clone algorithm for {@link BroadcastChannelLayoutSyncTransport}).
+         * Default: false
+         */
+        shareUserBroadcasts?: boolean;
+    }
+
+    export namespace SyncOptions {
+        /** @internal */
+        export const defaults: Required<SyncOptions> = {
+            mode: LayoutSyncMode.share,
+            shareUserBroadcasts: false,
+        } as const;
+    }
+
+    export namespace LayoutStorageOptions {
+        /** @internal */
+        export const defaults: Required<LayoutStorageOptions> = {
+            key: 'layout',
+            autosave: true,
+            autosaveDebounceInterval: 1000,
+            restore: true,
+        } as const;
+    }
+
+    /**
+     * The title used when announcing changes to an item.  Stacks use the title of their active component
+     * @internal
+     */
+    export function getContentItemTitle(item: ContentItem): string {
+        if (ContentItem.isComponentItem(item)) {
+            return item.title;
+        } else {
+            if (ContentItem.isStack(item)) {
+                return item.getActiveComponentItem()?.title ?? '';
+            } else {
+                return '';
+            }
+        }
+    }
+
     /** @internal */
     export function createMaximisePlaceElement(document: Document): HTMLElement {
         const element = document.createElement('div');
@@ -1835,6 +3321,107 @@ export namespace LayoutManager {
         return element;
     }
 
+    /** @internal */
+    export function createFloatingItemsElement(document: Document): HTMLElement {
+        const element = document.createElement('div');
+        element.classList.add(DomConstants.ClassName.FloatingItems);
+        return element;
+    }
+
+    /**
+     * Whether the drop constraints of both components allow them to share a Stack
+     * @internal
+     */
+    export function areStackable(componentItem: ComponentItem, otherComponentItem: ComponentItem): boolean {
+        return isStackableWith(componentItem.dropConstraints?.stackableWith, otherComponentItem.componentType) &&
+            isStackableWith(otherComponentItem.dropConstraints?.stackableWith, componentItem.componentType);
+    }
+
+    /** @internal */
+    function isStackableWith(stackableWith: readonly JsonValue[] | undefined, componentType: JsonValue): boolean {
+        if (stackableWith === undefined) {
+            return true;
+        } else {
+            const componentTypeJson = JSON.stringify(componentType);
+            return stackableWith.some((stackableType) => JSON.stringify(stackableType) === componentTypeJson);
+        }
+    }
+
+    /** @internal */
+    export const edgeDockSides: readonly Side[] = [Side.top, Side.left, Side.right, Side.bottom];
+
+    /**
+     * The GroundItem side area into which the Stack of an EdgeDockItem on an edge is pinned
+     * @internal
+     */
+    export const edgeDockGroundAreaSides: Record<Side, GroundItem.Area['side']> = {
+        left: 'x2',
+        right: 'x1',
+        top: 'y2',
+        bottom: 'y1',
+    };
+
+    /** @internal */
+    export function createEdgeDockElements(document: Document): Record<Side, HTMLElement> {
+        const result = {} as Record<Side, HTMLElement>;
+        for (const side of edgeDockSides) {
+            const element = document.createElement('div');
+            element.classList.add(DomConstants.ClassName.EdgeDock);
+            element.classList.add('lm_' + side);
+            setElementDisplayVisibility(element, false);
+            result[side] = element;
+        }
+        return result;
+    }
+
+    /**
+     * Maps the configs matched by {@link LayoutDiff.calculate} to the ContentItems of the old item tree.  Needs to be
+     * called before any items are moved
+     * @internal
+     */
+    export function mapMatchedItems(rootItem: ContentItem, matches: Map<ResolvedItemConfig, LayoutDiff.OldItem>
+    ): Map<ResolvedItemConfig, ContentItem> {
+        const matchedItems = new Map<ResolvedItemConfig, ContentItem>();
+        for (const [config, oldItem] of matches) {
+            let item = rootItem;
+            for (const index of oldItem.path) {
+                item = item.contentItems[index];
+            }
+            matchedItems.set(config, item);
+        }
+        return matchedItems;
+    }
+
+    /** @internal */
+    export function setElementRect(element: HTMLElement, rect: Rect): void {
+        element.style.left = numberToPixels(rect.left);
+        element.style.top = numberToPixels(rect.top);
+        setElementWidth(element, rect.width);
+        setElementHeight(element, rect.height);
+    }
+
+    /**
+     * The edge of an outer rectangle which is nearest the center of an inner rectangle
+     * @internal
+     */
+    export function calculateNearestSide(outerRect: DOMRect, innerRect: DOMRect): Side {
+        const centerX = innerRect.left + innerRect.width / 2;
+        const centerY = innerRect.top + innerRect.height / 2;
+        const distances: [Side, number][] = [
+            [Side.left, centerX - outerRect.left],
+            [Side.right, outerRect.right - centerX],
+            [Side.top, centerY - outerRect.top],
+            [Side.bottom, outerRect.bottom - centerY],
+        ];
+        let result = distances[0];
+        for (let i = 1; i < distances.length; i++) {
+            if (distances[i][1] < result[1]) {
+                result = distances[i];
+            }
+        }
+        return result[0];
+    }
+
     /**
      * Specifies a location of a ContentItem without referencing the content item.
      * Used to specify where a new item is to be added
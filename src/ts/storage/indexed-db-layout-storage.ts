@@ -0,0 +1,127 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { LayoutStorage } from './layout-storage';
+
+/**
+ * Saves layouts in an IndexedDB database.  Suited to large layouts which may exceed localStorage quotas.
+ * Layouts are shared by all tabs of the application in the same origin.
+ * @public
+ */
+export class IndexedDbLayoutStorage implements LayoutStorage {
+    /** @internal */
+    private _databasePromise: Promise<IDBDatabase> | undefined;
+
+    /**
+     * @param _databaseName - Name of the IndexedDB database.  It is created if it does not exist
+     * @param _storeName - Name of the object store in the database in which layouts are saved
+     */
+    constructor(
+        /** @internal */
+        private readonly _databaseName = 'golden-layout',
+        /** @internal */
+        private readonly _storeName = 'layouts',
+    ) {
+    }
+
+    load(key: string): Promise<LayoutStorage.Entry | undefined> {
+        return this.transact('readonly', (store) => {
+            const request = store.get(key);
+            return () => IndexedDbLayoutStorage.parseValue(request.result);
+        });
+    }
+
+    save(key: string, layoutConfig: ResolvedLayoutConfig, baseRevision?: number): Promise<LayoutStorage.SaveResult> {
+        return this.transact('readwrite', (store) => {
+            // The get and put are in the same transaction so no other tab can save between them
+            let result: LayoutStorage.SaveResult | undefined;
+            const request = store.get(key);
+            request.onsuccess = () => {
+                const savedRevision = IndexedDbLayoutStorage.parseValue(request.result)?.revision;
+                result = LayoutStorage.calculateSaveResult(savedRevision, baseRevision);
+                if (result.saved) {
+                    store.put(LayoutStorage.stringifyEntry({ layoutConfig, revision: result.revision }), key);
+                }
+            };
+            return () => {
+                if (result === undefined) {
+                    throw new Error('IndexedDB layout save did not complete');
+                } else {
+                    return result;
+                }
+            };
+        });
+    }
+
+    list(): Promise<string[]> {
+        return this.transact('readonly', (store) => {
+            const request = store.getAllKeys();
+            return () => request.result.map((key) => key.toString());
+        });
+    }
+
+    delete(key: string): Promise<boolean> {
+        return this.transact('readwrite', (store) => {
+            let deleted = false;
+            const request = store.getKey(key);
+            request.onsuccess = () => {
+                if (request.result !== undefined) {
+                    store.delete(key);
+                    deleted = true;
+                }
+            };
+            return () => deleted;
+        });
+    }
+
+    /** Closes the database.  It will be reopened if the storage is used again. */
+    close(): void {
+        const databasePromise = this._databasePromise;
+        if (databasePromise !== undefined) {
+            this._databasePromise = undefined;
+            databasePromise.then((database) => database.close(), () => { /* open failed so nothing to close */ });
+        }
+    }
+
+    /**
+     * Runs requests in a transaction
+     * @param requester - Makes the requests and returns a function which calculates the result once the transaction completes
+     * @internal
+     */
+    private transact<T>(mode: IDBTransactionMode, requester: (store: IDBObjectStore) => () => T): Promise<T> {
+        return this.openDatabase().then((database) => new Promise<T>((resolve, reject) => {
+            const transaction = database.transaction(this._storeName, mode);
+            const resultCalculator = requester(transaction.objectStore(this._storeName));
+            transaction.oncomplete = () => {
+                try {
+                    resolve(resultCalculator());
+                } catch (e) {
+                    reject(e);
+                }
+            };
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        }));
+    }
+
+    /** @internal */
+    private openDatabase(): Promise<IDBDatabase> {
+        if (this._databasePromise === undefined) {
+            this._databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(this._databaseName);
+                request.onupgradeneeded = () => request.result.createObjectStore(this._storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // allow a later call to try again
+            this._databasePromise.catch(() => this._databasePromise = undefined);
+        }
+        return this._databasePromise;
+    }
+}
+
+/** @public */
+export namespace IndexedDbLayoutStorage {
+    /** @internal */
+    export function parseValue(value: unknown): LayoutStorage.Entry | undefined {
+        return typeof value === 'string' ? LayoutStorage.parseEntry(value) : undefined;
+    }
+}
@@ -0,0 +1,145 @@
+import { LayoutConfig } from '../config/config';
+import { LayoutManager } from '../layout-manager';
+import { LayoutStorage } from './layout-storage';
+
+/**
+ * Saves the layout of a LayoutManager to a LayoutStorage and restores it.
+ * The revision of the saved layout is tracked so that saves made elsewhere (for example, in another browser tab) are
+ * detected.  After a conflict, autosave stops until the layout is restored or saved with overwrite.
+ * @internal
+ */
+export class LayoutAutosaver {
+    /** Revision of the layout last loaded from or saved to storage. Undefined until known */
+    private _revision: number | undefined;
+    private _conflicted = false;
+    private _loading = false;
+    private _destroyed = false;
+    private _saveTimeoutId: ReturnType<typeof setTimeout> | undefined;
+    /** Saves are made one after the other so each uses the revision of the previous one */
+    private _lastSavePromise: Promise<boolean> = Promise.resolve(true);
+
+    private _layoutChangedListener = () => this.handleLayoutChanged();
+
+    get isConflicted(): boolean { return this._conflicted; }
+
+    constructor(private _layoutManager: LayoutManager,
+        readonly storage: LayoutStorage,
+        readonly key: string,
+        readonly autosave: boolean,
+        readonly autosaveDebounceInterval: number,
+        private readonly _restoreOnStart: boolean,
+        private _conflictEvent: LayoutAutosaver.ConflictEvent,
+        private _errorEvent: LayoutAutosaver.ErrorEvent,
+    ) {
+        this._layoutManager.on('stateChanged', this._layoutChangedListener);
+        // popouts are included in the saved layout
+        this._layoutManager.on('windowOpened', this._layoutChangedListener);
+        this._layoutManager.on('windowClosed', this._layoutChangedListener);
+    }
+
+    /** Restores the saved layout (if restoreOnStart) or otherwise only gets its revision.  Autosave begins once done */
+    start(): void {
+        this.storage.load(this.key).then(
+            (entry) => {
+                if (!this._destroyed) {
+                    if (entry !== undefined && this._restoreOnStart) {
+                        this.loadEntry(entry);
+                    } else {
+                        this._revision = entry === undefined ? 0 : entry.revision;
+                    }
+                }
+            },
+            (error) => this._errorEvent(error)
+        );
+    }
+
+    restore(): Promise<boolean> {
+        return this.storage.load(this.key).then((entry) => {
+            if (this._destroyed) {
+                return false;
+            } else {
+                if (entry === undefined) {
+                    this._revision = 0;
+                    this._conflicted = false;
+                    return false;
+                } else {
+                    this.loadEntry(entry);
+                    return true;
+                }
+            }
+        });
+    }
+
+    save(overwrite: boolean): Promise<boolean> {
+        this.cancelScheduledSave();
+        const saveNow = () => this.saveNow(overwrite);
+        const savePromise = this._lastSavePromise.then(saveNow, saveNow);
+        this._lastSavePromise = savePromise;
+        return savePromise;
+    }
+
+    destroy(): void {
+        this._destroyed = true;
+        this.cancelScheduledSave();
+        this._layoutManager.off('stateChanged', this._layoutChangedListener);
+        this._layoutManager.off('windowOpened', this._layoutChangedListener);
+        this._layoutManager.off('windowClosed', this._layoutChangedListener);
+    }
+
+    private saveNow(overwrite: boolean): Promise<boolean> {
+        if (this._destroyed) {
+            return Promise.resolve(false);
+        } else {
+            const baseRevision = overwrite ? undefined : (this._revision ?? 0);
+            return this.storage.save(this.key, this._layoutManager.saveLayout(), baseRevision).then((result) => {
+                if (result.saved) {
+                    this._revision = result.revision;
+                    this._conflicted = false;
+                    return true;
+                } else {
+                    if (!this._conflicted) {
+                        this._conflicted = true;
+                        this._conflictEvent();
+                    }
+                    return false;
+                }
+            });
+        }
+    }
+
+    private loadEntry(entry: LayoutStorage.Entry) {
+        this.cancelScheduledSave();
+        this._loading = true;
+        try {
+            this._layoutManager.loadLayout(LayoutConfig.fromResolved(entry.layoutConfig));
+        } finally {
+            this._loading = false;
+        }
+        this._revision = entry.revision;
+        this._conflicted = false;
+    }
+
+    private handleLayoutChanged() {
+        // Nothing is saved until the revision in storage is known
+        if (this.autosave && !this._loading && !this._conflicted && this._revision !== undefined) {
+            this.cancelScheduledSave();
+            this._saveTimeoutId = setTimeout(() => {
+                this._saveTimeoutId = undefined;
+                this.save(false).catch((error) => this._errorEvent(error));
+            }, this.autosaveDebounceInterval);
+        }
+    }
+
+    private cancelScheduledSave() {
+        if (this._saveTimeoutId !== undefined) {
+            clearTimeout(this._saveTimeoutId);
+            this._saveTimeoutId = undefined;
+        }
+    }
+}
+
+/** @internal */
+export namespace LayoutAutosaver {
+    export type ConflictEvent = (this: void) => void;
+    export type ErrorEvent = (this: void, error: unknown) => void;
+}
@@ -0,0 +1,91 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { ConfigurationError } from '../errors/external-error';
+
+/**
+ * Persistent storage for layouts.  Implement this interface to save layouts to a backend.
+ * Each saved layout has a revision which is incremented whenever it is saved.  Revisions are used to detect when another
+ * instance of the application (for example, in another browser tab) has saved the same layout.
+ * See {@link (LayoutManager:class).setLayoutStorage}.
+ * @public
+ */
+export interface LayoutStorage {
+    /**
+     * Loads a layout.
+     * @returns The saved layout or undefined if no layout has been saved under key
+     */
+    load(key: string): Promise<LayoutStorage.Entry | undefined>;
+    /**
+     * Saves a layout.  If baseRevision is defined, the layout must only be saved if the revision currently saved under key
+     * is baseRevision (0 if no layout is saved under key).  Otherwise the save conflicts with a save made elsewhere.
+     * @param baseRevision - Revision of the layout which this layout replaces.  Undefined to save regardless of any conflict.
+     */
+    save(key: string, layoutConfig: ResolvedLayoutConfig, baseRevision?: number): Promise<LayoutStorage.SaveResult>;
+    /** @returns The keys under which layouts are saved */
+    list(): Promise<string[]>;
+    /** @returns true if a layout was deleted, false if no layout was saved under key */
+    delete(key: string): Promise<boolean>;
+}
+
+/** @public */
+export namespace LayoutStorage {
+    export interface Entry {
+        readonly layoutConfig: ResolvedLayoutConfig;
+        /** Starts at 1 and is incremented each time the layout is saved */
+        readonly revision: number;
+    }
+
+    export interface SaveResult {
+        /** False if the save conflicted with the revision currently saved */
+        readonly saved: boolean;
+        /** The revision of the layout now saved.  If not saved, this is the revision which caused the conflict */
+        readonly revision: number;
+    }
+
+    /** @internal */
+    interface StoredEntry {
+        readonly revision: number;
+        readonly layoutConfig: ResolvedLayoutConfig;
+    }
+
+    /**
+     * Converts an entry to JSON.  The layout (including its popout windows) is minified with
+     * {@link (ResolvedLayoutConfig:namespace).minifyConfig}.  Can be used by storage adapters which save text.
+     */
+    export function stringifyEntry(entry: Entry): string {
+        const storedEntry: StoredEntry = {
+            revision: entry.revision,
+            layoutConfig: ResolvedLayoutConfig.minifyConfig(entry.layoutConfig),
+        };
+        return JSON.stringify(storedEntry);
+    }
+
+    /** Converts JSON created by {@link (LayoutStorage:namespace).stringifyEntry} back to an entry */
+    export function parseEntry(text: string): Entry {
+        const storedEntry = JSON.parse(text) as StoredEntry;
+        if (typeof storedEntry !== 'object' || storedEntry === null || typeof storedEntry.revision !== 'number' ||
+            typeof storedEntry.layoutConfig !== 'object' || storedEntry.layoutConfig === null
+        ) {
+            throw new ConfigurationError('Stored layout is not valid');
+        } else {
+            return {
+                revision: storedEntry.revision,
+                layoutConfig: ResolvedLayoutConfig.unminifyConfig(storedEntry.layoutConfig),
+            };
+        }
+    }
+
+    /**
+     * Checks a save against the revision currently saved.  Can be used by storage adapters.
+     * @param savedRevision - Revision currently saved.  Undefined if nothing is saved
+     * @param baseRevision - Revision passed to {@link (LayoutStorage:interface).save}
+     * @returns The result of the save. If saved is true, the layout should be stored with the returned revision
+     */
+    export function calculateSaveResult(savedRevision: number | undefined, baseRevision: number | undefined): SaveResult {
+        const currentRevision = savedRevision ?? 0;
+        if (baseRevision !== undefined && baseRevision !== currentRevision) {
+            return { saved: false, revision: currentRevision };
+        } else {
+            return { saved: true, revision: currentRevision + 1 };
+        }
+    }
+}
@@ -0,0 +1,72 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { LayoutStorage } from './layout-storage';
+
+/**
+ * Saves layouts in the browser's localStorage.  Layouts are shared by all tabs of the application in the same origin.
+ * @public
+ */
+export class LocalStorageLayoutStorage implements LayoutStorage {
+    /**
+     * @param _keyPrefix - Prepended to keys to form the localStorage keys.  Separates layouts from other data in localStorage
+     */
+    constructor(
+        /** @internal */
+        private readonly _keyPrefix = 'golden-layout:',
+    ) {
+    }
+
+    load(key: string): Promise<LayoutStorage.Entry | undefined> {
+        try {
+            const text = localStorage.getItem(this._keyPrefix + key);
+            return Promise.resolve(text === null ? undefined : LayoutStorage.parseEntry(text));
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    }
+
+    save(key: string, layoutConfig: ResolvedLayoutConfig, baseRevision?: number): Promise<LayoutStorage.SaveResult> {
+        try {
+            // localStorage is synchronous so no other tab can save between reading and writing
+            const storageKey = this._keyPrefix + key;
+            const text = localStorage.getItem(storageKey);
+            const savedRevision = text === null ? undefined : LayoutStorage.parseEntry(text).revision;
+            const result = LayoutStorage.calculateSaveResult(savedRevision, baseRevision);
+            if (result.saved) {
+                localStorage.setItem(storageKey, LayoutStorage.stringifyEntry({ layoutConfig, revision: result.revision }));
+            }
+            return Promise.resolve(result);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    }
+
+    list(): Promise<string[]> {
+        try {
+            const keys: string[] = [];
+            const prefixLength = this._keyPrefix.length;
+            for (let i = 0; i < localStorage.length; i++) {
+                const storageKey = localStorage.key(i);
+                if (storageKey !== null && storageKey.startsWith(this._keyPrefix)) {
+                    keys.push(storageKey.substring(prefixLength));
+                }
+            }
+            return Promise.resolve(keys);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    }
+
+    delete(key: string): Promise<boolean> {
+        try {
+            const storageKey = this._keyPrefix + key;
+            if (localStorage.getItem(storageKey) === null) {
+                return Promise.resolve(false);
+            } else {
+                localStorage.removeItem(storageKey);
+                return Promise.resolve(true);
+            }
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    }
+}
@@ -0,0 +1,35 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { LayoutStorage } from './layout-storage';
+
+/**
+ * Keeps layouts in memory.  Layouts are lost when the page is unloaded.  Useful for testing and for sharing layouts between
+ * LayoutManagers in the same page.
+ * @public
+ */
+export class MemoryLayoutStorage implements LayoutStorage {
+    /** @internal */
+    private _entries = new Map<string, string>();
+
+    load(key: string): Promise<LayoutStorage.Entry | undefined> {
+        const text = this._entries.get(key);
+        return Promise.resolve(text === undefined ? undefined : LayoutStorage.parseEntry(text));
+    }
+
+    save(key: string, layoutConfig: ResolvedLayoutConfig, baseRevision?: number): Promise<LayoutStorage.SaveResult> {
+        const text = this._entries.get(key);
+        const savedRevision = text === undefined ? undefined : LayoutStorage.parseEntry(text).revision;
+        const result = LayoutStorage.calculateSaveResult(savedRevision, baseRevision);
+        if (result.saved) {
+            this._entries.set(key, LayoutStorage.stringifyEntry({ layoutConfig, revision: result.revision }));
+        }
+        return Promise.resolve(result);
+    }
+
+    list(): Promise<string[]> {
+        return Promise.resolve(Array.from(this._entries.keys()));
+    }
+
+    delete(key: string): Promise<boolean> {
+        return Promise.resolve(this._entries.delete(key));
+    }
+}
@@ -0,0 +1,31 @@
+import { LayoutSyncTransport } from './layout-sync-transport';
+
+/**
+ * Synchronises LayoutManagers in all browser tabs and windows of the same origin over a BroadcastChannel
+ * @public
+ */
+export class BroadcastChannelLayoutSyncTransport implements LayoutSyncTransport {
+    messageEvent: LayoutSyncTransport.MessageEvent | undefined;
+
+    /** @internal */
+    private readonly _channel: BroadcastChannel;
+    /** @internal */
+    private _messageListener = (event: MessageEvent) => this.messageEvent?.(event.data as LayoutSyncTransport.Message);
+
+    /**
+     * @param channelName - Name of the BroadcastChannel.  Only LayoutManagers using the same name are synchronised
+     */
+    constructor(channelName = 'golden-layout') {
+        this._channel = new BroadcastChannel(channelName);
+        this._channel.addEventListener('message', this._messageListener, { passive: true });
+    }
+
+    postMessage(message: LayoutSyncTransport.Message): void {
+        this._channel.postMessage(message);
+    }
+
+    close(): void {
+        this._channel.removeEventListener('message', this._messageListener);
+        this._channel.close();
+    }
+}
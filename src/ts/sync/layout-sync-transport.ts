@@ -0,0 +1,50 @@
+import { ResolvedEdgeDockItemConfig, ResolvedFloatingItemConfig, ResolvedRootItemConfig } from '../config/resolved-config';
+
+/**
+ * Carries messages between LayoutManagers which synchronise their layouts.  See {@link (LayoutManager:class).startSync}.
+ * Messages posted by a transport must be delivered to all other transports on the same channel but not to itself.
+ * @public
+ */
+export interface LayoutSyncTransport {
+    /** Set by the LayoutManager to receive messages posted by other LayoutManagers */
+    messageEvent: LayoutSyncTransport.MessageEvent | undefined;
+    /** Sends a message to all other LayoutManagers on the channel */
+    postMessage(message: LayoutSyncTransport.Message): void;
+    /** Stops sending and receiving messages */
+    close(): void;
+}
+
+/** @public */
+export namespace LayoutSyncTransport {
+    export type MessageEvent = (this: void, message: Message) => void;
+
+    export type Message = LayoutMessage | RequestLayoutMessage | UserBroadcastMessage;
+
+    /** The parts of a layout which are synchronised.  Popout windows belong to a browser tab and are not synchronised */
+    export interface SharedLayout {
+        readonly root: ResolvedRootItemConfig | undefined;
+        readonly floatingItems: ResolvedFloatingItemConfig[];
+        readonly edgeDockItems: ResolvedEdgeDockItemConfig[];
+    }
+
+    /** Sent when the layout changes or in response to a {@link (LayoutSyncTransport:namespace).RequestLayoutMessage} */
+    export interface LayoutMessage {
+        readonly type: 'layout';
+        /** Identifies the LayoutManager which sent the message */
+        readonly senderId: string;
+        readonly layout: SharedLayout;
+    }
+
+    /** Sent by a LayoutManager when it starts synchronising so that it receives the current layout */
+    export interface RequestLayoutMessage {
+        readonly type: 'requestLayout';
+        readonly senderId: string;
+    }
+
+    /** An EventHub 'userBroadcast' event */
+    export interface UserBroadcastMessage {
+        readonly type: 'userBroadcast';
+        readonly senderId: string;
+        readonly args: unknown[];
+    }
+}
@@ -0,0 +1,152 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { LayoutManager } from '../layout-manager';
+import { LayoutSyncMode } from '../utils/types';
+import { getUniqueId } from '../utils/utils';
+import { LayoutSyncTransport } from './layout-sync-transport';
+
+/**
+ * Shares the layout of a LayoutManager with other LayoutManagers over a LayoutSyncTransport.
+ * Changes are sent after the layout has settled (next tick).  The last layout sent or received is remembered so that a
+ * received layout is not sent back (which would otherwise echo between LayoutManagers).
+ * @internal
+ */
+export class LayoutSynchroniser {
+    private readonly _id = getUniqueId();
+    /** JSON of the shared layout last sent or received */
+    private _lastLayoutJson: string | undefined;
+    /** In follow mode, the layout which local changes are reverted to */
+    private _followedLayout: LayoutSyncTransport.SharedLayout | undefined;
+    private _applying = false;
+    private _started = false;
+    private _layoutChangedTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    private _layoutChangedListener = () => this.handleLayoutChanged();
+    private _messageListener = (message: LayoutSyncTransport.Message) => this.handleMessage(message);
+
+    constructor(private _layoutManager: LayoutManager,
+        readonly transport: LayoutSyncTransport,
+        readonly mode: LayoutSyncMode,
+        readonly userBroadcastsShared: boolean,
+        private _applyEvent: LayoutSynchroniser.ApplyEvent,
+        private _userBroadcastEvent: LayoutSynchroniser.UserBroadcastEvent,
+    ) {
+    }
+
+    start(): void {
+        if (!this._started) {
+            this._started = true;
+            this.transport.messageEvent = this._messageListener;
+            this._layoutManager.on('stateChanged', this._layoutChangedListener);
+            if (this.mode !== LayoutSyncMode.primary) {
+                this.transport.postMessage({ type: 'requestLayout', senderId: this._id });
+            }
+        }
+    }
+
+    postUserBroadcast(args: unknown[]): void {
+        if (this._started && this.userBroadcastsShared) {
+            this.transport.postMessage({ type: 'userBroadcast', senderId: this._id, args });
+        }
+    }
+
+    destroy(): void {
+        this.cancelLayoutChangedTimeout();
+        if (this._started) {
+            this._layoutManager.off('stateChanged', this._layoutChangedListener);
+            this.transport.messageEvent = undefined;
+        }
+        this.transport.close();
+    }
+
+    private handleLayoutChanged() {
+        if (!this._applying) {
+            this.cancelLayoutChangedTimeout();
+            this._layoutChangedTimeoutId = setTimeout(() => {
+                this._layoutChangedTimeoutId = undefined;
+                if (this.mode === LayoutSyncMode.follow) {
+                    this.revertToFollowedLayout();
+                } else {
+                    this.postLayout(false);
+                }
+            }, 0);
+        }
+    }
+
+    private handleMessage(message: LayoutSyncTransport.Message) {
+        switch (message.type) {
+            case 'layout':
+                if (this.mode !== LayoutSyncMode.primary) {
+                    const layoutJson = JSON.stringify(message.layout);
+                    this._lastLayoutJson = layoutJson;
+                    this._followedLayout = message.layout;
+                    if (layoutJson !== this.calculateCurrentLayoutJson()) {
+                        this.apply(message.layout);
+                    }
+                }
+                break;
+            case 'requestLayout':
+                if (this.mode !== LayoutSyncMode.follow) {
+                    this.postLayout(true);
+                }
+                break;
+            case 'userBroadcast':
+                if (this.userBroadcastsShared) {
+                    this._userBroadcastEvent(message.args);
+                }
+                break;
+            default:
+                // ignore messages from newer versions
+        }
+    }
+
+    private postLayout(force: boolean) {
+        const layout = LayoutSynchroniser.createSharedLayout(this._layoutManager.saveLayout());
+        const layoutJson = JSON.stringify(layout);
+        if (force || layoutJson !== this._lastLayoutJson) {
+            this._lastLayoutJson = layoutJson;
+            this.transport.postMessage({ type: 'layout', senderId: this._id, layout });
+        }
+    }
+
+    private revertToFollowedLayout() {
+        const followedLayout = this._followedLayout;
+        if (followedLayout !== undefined && JSON.stringify(followedLayout) !== this.calculateCurrentLayoutJson()) {
+            this.apply(followedLayout);
+        }
+    }
+
+    private apply(layout: LayoutSyncTransport.SharedLayout) {
+        this.cancelLayoutChangedTimeout();
+        this._applying = true;
+        try {
+            this._applyEvent(layout);
+        } finally {
+            this._applying = false;
+        }
+    }
+
+    private calculateCurrentLayoutJson() {
+        return JSON.stringify(LayoutSynchroniser.createSharedLayout(this._layoutManager.saveLayout()));
+    }
+
+    private cancelLayoutChangedTimeout() {
+        if (this._layoutChangedTimeoutId !== undefined) {
+            clearTimeout(this._layoutChangedTimeoutId);
+            this._layoutChangedTimeoutId = undefined;
+        }
+    }
+}
+
+/** @internal */
+export namespace LayoutSynchroniser {
+    export type ApplyEvent = (this: void, layout: LayoutSyncTransport.SharedLayout) => void;
+    export type UserBroadcastEvent = (this: void, args: unknown[]) => void;
+
+    export function createSharedLayout(layoutConfig: ResolvedLayoutConfig): LayoutSyncTransport.SharedLayout {
+        return {
+            root: layoutConfig.root,
+            floatingItems: layoutConfig.floatingItems,
+            edgeDockItems: layoutConfig.edgeDockItems,
+        };
+    }
+}
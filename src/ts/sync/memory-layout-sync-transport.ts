@@ -0,0 +1,85 @@
+import { LayoutSyncTransport } from './layout-sync-transport';
+
+/**
+ * Synchronises LayoutManagers in the same page.  Behaves like {@link BroadcastChannelLayoutSyncTransport}: messages are
+ * copied and delivered asynchronously.  Intended as a stand-in for tests.
+ * @public
+ */
+export class MemoryLayoutSyncTransport implements LayoutSyncTransport {
+    messageEvent: LayoutSyncTransport.MessageEvent | undefined;
+
+    /** @internal */
+    private _closed = false;
+
+    /**
+     * @param _channelName - Only transports using the same channel name exchange messages
+     */
+    constructor(
+        /** @internal */
+        private readonly _channelName = 'golden-layout',
+    ) {
+        MemoryLayoutSyncTransport.addToChannel(this._channelName, this);
+    }
+
+    postMessage(message: LayoutSyncTransport.Message): void {
+        if (this._closed) {
+            throw new Error('MemoryLayoutSyncTransport is closed');
+        } else {
+            const text = JSON.stringify(message);
+            for (const transport of MemoryLayoutSyncTransport.getChannelTransports(this._channelName)) {
+                if (transport !== this) {
+                    setTimeout(() => transport.deliver(JSON.parse(text) as LayoutSyncTransport.Message), 0);
+                }
+            }
+        }
+    }
+
+    close(): void {
+        if (!this._closed) {
+            this._closed = true;
+            MemoryLayoutSyncTransport.removeFromChannel(this._channelName, this);
+        }
+    }
+
+    /** @internal */
+    private deliver(message: LayoutSyncTransport.Message) {
+        if (!this._closed) {
+            this.messageEvent?.(message);
+        }
+    }
+}
+
+/** @public */
+export namespace MemoryLayoutSyncTransport {
+    /** @internal */
+    const channels = new Map<string, MemoryLayoutSyncTransport[]>();
+
+    /** @internal */
+    export function addToChannel(channelName: string, transport: MemoryLayoutSyncTransport): void {
+        const transports = channels.get(channelName);
+        if (transports === undefined) {
+            channels.set(channelName, [transport]);
+        } else {
+            transports.push(transport);
+        }
+    }
+
+    /** @internal */
+    export function removeFromChannel(channelName: string, transport: MemoryLayoutSyncTransport): void {
+        const transports = channels.get(channelName);
+        if (transports !== undefined) {
+            const index = transports.indexOf(transport);
+            if (index >= 0) {
+                transports.splice(index, 1);
+            }
+            if (transports.length === 0) {
+                channels.delete(channelName);
+            }
+        }
+    }
+
+    /** @internal */
+    export function getChannelTransports(channelName: string): readonly MemoryLayoutSyncTransport[] {
+        return channels.get(channelName)?.slice() ?? [];
+    }
+}
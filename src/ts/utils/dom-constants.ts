@@ -19,16 +19,21 @@ export namespace DomConstants {
         Tab = 'lm_tab',
         CloseTab = 'lm_close_tab',
         Closable = 'lm_closable',
+        Pinned = 'lm_pinned',
         Controls = 'lm_controls',
         TabDropdown = 'lm_tabdropdown',
         TabDropdownList = 'lm_tabdropdown_list',
         Title = 'lm_title',
         Popout = 'lm_popout',
+        Float = 'lm_float',
+        AutoHide = 'lm_auto_hide',
+        Collapse = 'lm_collapse',
         Popin = 'lm_popin',
         Maximise = 'lm_maximise',
         Close = 'lm_close',
         Active = 'lm_active',
         Maximised = 'lm_maximised',
+        Collapsed = 'lm_collapsed',
         Content = 'lm_content',
         Left = 'lm_left',
         Right = 'lm_right',
@@ -39,7 +44,22 @@ export namespace DomConstants {
         Icon = 'lm_icon',
         Bg = 'lm_bg',
         DropTargetIndicator = 'lm_dropTargetIndicator',
+        Rejected = 'lm_rejected',
+        Locked = 'lm_locked',
         Inner = 'lm_inner',
+        LiveRegion = 'lm_live_region',
+        ComponentPlaceholder = 'lm_component_placeholder',
+        Loading = 'lm_loading',
+        Error = 'lm_error',
+        Retry = 'lm_retry',
+        Remove = 'lm_remove',
+        UnknownComponentType = 'lm_unknown_component_type',
+        Floating = 'lm_floating',
+        FloatingItems = 'lm_floating_items',
+        FloatingResizeHandle = 'lm_floating_resize',
+        EdgeDock = 'lm_edge_dock',
+        EdgeDockTab = 'lm_edge_dock_tab',
+        EdgeDockItem = 'lm_edge_dock_item',
         /** @deprecated */
         TransitionIndicator = 'lm_transition_indicator',
     }
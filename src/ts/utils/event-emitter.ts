@@ -1,6 +1,8 @@
+import { ComponentContainer } from '../container/component-container';
 import { BrowserPopout } from '../controls/browser-popout';
 import { Tab } from '../controls/tab';
 import { ComponentItem } from '../items/component-item';
+import { ContentItem } from '../items/content-item';
 
 /**
  * A generic and very fast EventEmitter implementation. On top of emitting the actual event it emits an
@@ -177,21 +179,30 @@ export namespace EventEmitter {
     export interface EventParamsMap {
         "__all": UnknownParams;
         "activeContentItemChanged": ComponentItemParam;
+        "bound": ComponentBoundParams;
         "close": NoParams;
         "closed": NoParams;
+        "componentError": ComponentErrorParams;
         "destroy": NoParams;
         "drag": DragParams;
         "dragStart": DragStartParams;
         "dragStop": DragStopParams;
         "hide": NoParams;
+        "historyChanged": NoParams;
         "initialised": NoParams;
         "itemDropped": ComponentItemParam;
+        "layoutConfigMigrated": MigrationNamesParam;
+        "layoutSaveConflict": NoParams;
+        "layoutStorageError": UnknownParam;
         "maximised": NoParams;
         "minimised": NoParams;
         "open": NoParams;
         "popIn": NoParams;
+        "presetChanged": PresetNameParam;
         "resize": NoParams;
         "show": NoParams;
+        "slidIn": NoParams;
+        "slidOut": NoParams;
         /** @deprecated - use show instead */
         "shown": NoParams;
         "stateChanged": NoParams;
@@ -201,6 +212,12 @@ export namespace EventEmitter {
         "windowClosed": PopoutParam;
         "windowOpened": PopoutParam;
         "beforeComponentRelease": BeforeComponentReleaseParams;
+        "beforeHibernate": NoParams;
+        "resumed": NoParams;
+        "beforeClose": BeforeCloseBubblingEventParam;
+        "beforeDrop": BeforeDropBubblingEventParam;
+        "beforeMaximise": CancellableBubblingEventParam;
+        "beforePopout": CancellableBubblingEventParam;
         "beforeItemDestroyed": BubblingEventParam;
         "itemCreated": BubblingEventParam;
         "itemDestroyed": BubblingEventParam;
@@ -218,11 +235,18 @@ export namespace EventEmitter {
     export type ComponentItemParam = [ComponentItem];
     export type TabParam = [Tab];
     export type BubblingEventParam = [EventEmitter.BubblingEvent]
+    export type CancellableBubblingEventParam = [CancellableBubblingEvent];
+    export type BeforeCloseBubblingEventParam = [BeforeCloseBubblingEvent];
+    export type BeforeDropBubblingEventParam = [BeforeDropBubblingEvent];
     export type StringParam = [string];
+    export type MigrationNamesParam = [migrationNames: string[]];
+    export type PresetNameParam = [presetName: string | undefined];
     export type DragStartParams = [originalX: number, originalY: number];
     export type DragStopParams = [event: PointerEvent | undefined];
     export type DragParams = [offsetX: number, offsetY: number, event: EventEmitter.DragEvent];
     export type BeforeComponentReleaseParams = [component: unknown];
+    export type ComponentBoundParams = [component: unknown];
+    export type ComponentErrorParams = [container: ComponentContainer, error: unknown, operation: 'bind' | 'unbind'];
     export type ClickBubblingEventParam = [ClickBubblingEvent];
     export type TouchStartBubblingEventParam = [TouchStartBubblingEvent];
 
@@ -256,6 +280,52 @@ export namespace EventEmitter {
         }
     }
 
+    /**
+     * A bubbling event emitted before an action.  Calling {@link (EventEmitter:namespace).(CancellableBubblingEvent:class).preventDefault}
+     * in a listener (on the target, one of its ancestors or the LayoutManager) stops the action.
+     */
+    export class CancellableBubblingEvent extends BubblingEvent {
+        /** @internal */
+        private _isDefaultPrevented = false;
+
+        get isDefaultPrevented(): boolean { return this._isDefaultPrevented; }
+
+        preventDefault(): void {
+            this._isDefaultPrevented = true;
+        }
+    }
+
+    /** Emitted on each ComponentItem about to be closed */
+    export class BeforeCloseBubblingEvent extends CancellableBubblingEvent {
+        /** @internal */
+        private _vetoes: PromiseLike<boolean>[] = [];
+
+        /** @internal */
+        get vetoes(): readonly PromiseLike<boolean>[] { return this._vetoes; }
+
+        /**
+         * Delays the close until the promise settles, for example while the user is asked to save changes.
+         * The close is cancelled if the promise resolves to false or rejects.
+         */
+        waitUntil(veto: PromiseLike<boolean>): void {
+            this._vetoes.push(veto);
+        }
+    }
+
+    /** Emitted on a ComponentItem about to be dropped into a ContentItem */
+    export class BeforeDropBubblingEvent extends CancellableBubblingEvent {
+        /** The ContentItem the ComponentItem will be added to */
+        get dropTarget(): ContentItem { return this._dropTarget; }
+
+        /** @internal */
+        constructor(name: string, target: EventEmitter,
+            /** @internal */
+            private readonly _dropTarget: ContentItem
+        ) {
+            super(name, target);
+        }
+    }
+
     export class ClickBubblingEvent extends BubblingEvent {
         get mouseEvent(): MouseEvent { return this._mouseEvent; }
 
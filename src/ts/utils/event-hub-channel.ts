@@ -0,0 +1,315 @@
+import { ApiError, EventHubRequestError } from '../errors/external-error';
+import { EventHub } from './event-hub';
+import { getUniqueId } from './utils';
+
+/**
+ * A named channel of the {@link EventHub} with typed events and requests.  Obtain one with
+ * {@link (EventHub:class).channel}.
+ *
+ * Messages are delivered to the channel with the same name in every window of the layout (the main window and its
+ * popouts) or, if a target is specified, only in the targeted window or the window containing the targeted component.
+ * Payloads and responses must be structured-cloneable as they are posted to popout windows on other origins.
+ *
+ * @typeParam TEvents - Maps each event name to its payload type
+ * @typeParam TRequests - Maps each request name to its request payload and response types
+ * @public
+ */
+export class EventHubChannel<TEvents = EventHubChannel.EventMap, TRequests = EventHubChannel.RequestMap> {
+    /** @internal */
+    private _subscriptions = new Map<string, EventHubChannel.Subscription[]>();
+    /** @internal */
+    private _handlers = new Map<string, EventHubChannel.RequestHandler<unknown, unknown>>();
+    /** @internal */
+    private _pendingRequests = new Map<string, EventHubChannel.PendingRequest>();
+
+    /** @internal */
+    constructor(
+        /** @internal */
+        private readonly _eventHub: EventHub,
+        readonly name: string,
+    ) {
+    }
+
+    /**
+     * Subscribes to an event of the channel
+     * @param componentId - If specified, events targeted at other components are not received
+     */
+    on<K extends keyof TEvents & string>(eventName: K, listener: EventHubChannel.Listener<TEvents[K]>, componentId?: string): void {
+        const subscription: EventHubChannel.Subscription = {
+            listener: listener as EventHubChannel.Listener<unknown>,
+            componentId,
+        };
+        const subscriptions = this._subscriptions.get(eventName);
+        if (subscriptions === undefined) {
+            this._subscriptions.set(eventName, [subscription]);
+        } else {
+            subscriptions.push(subscription);
+        }
+    }
+
+    off<K extends keyof TEvents & string>(eventName: K, listener: EventHubChannel.Listener<TEvents[K]>): void {
+        const subscriptions = this._subscriptions.get(eventName);
+        if (subscriptions !== undefined) {
+            const index = subscriptions.findIndex((subscription) => subscription.listener === listener);
+            if (index >= 0) {
+                subscriptions.splice(index, 1);
+            }
+        }
+    }
+
+    /**
+     * Sends an event to the channel in all windows, or only to the target
+     */
+    emit<K extends keyof TEvents & string>(eventName: K, payload: TEvents[K], target?: EventHubChannel.Target): void {
+        this._eventHub.sendChannelEnvelope({
+            channelName: this.name,
+            kind: EventHubChannel.EnvelopeKind.event,
+            name: eventName,
+            payload,
+            senderWindowId: this._eventHub.windowId,
+            target,
+            requestId: undefined,
+            error: undefined,
+        });
+    }
+
+    /**
+     * Registers the handler which responds to a request in this window.  Only one handler can be registered for each
+     * request name.
+     */
+    handle<K extends keyof TRequests & string>(requestName: K,
+        handler: EventHubChannel.RequestHandler<EventHubChannel.RequestPayload<TRequests[K]>, EventHubChannel.ResponsePayload<TRequests[K]>>
+    ): void {
+        if (this._handlers.has(requestName)) {
+            throw new ApiError(`Channel ${this.name} already has a handler for request: ${requestName}`);
+        } else {
+            this._handlers.set(requestName, handler as EventHubChannel.RequestHandler<unknown, unknown>);
+        }
+    }
+
+    removeHandler<K extends keyof TRequests & string>(requestName: K): void {
+        this._handlers.delete(requestName);
+    }
+
+    /**
+     * Sends a request to the channel in all windows, or only to the target.  Resolves with the first response.
+     * Rejects with an {@link EventHubRequestError} if the handler fails or no response is received in time.
+     */
+    request<K extends keyof TRequests & string>(requestName: K,
+        payload: EventHubChannel.RequestPayload<TRequests[K]>,
+        options?: EventHubChannel.RequestOptions,
+    ): Promise<EventHubChannel.ResponsePayload<TRequests[K]>> {
+        const timeout = options?.timeout ?? EventHubChannel.RequestOptions.defaults.timeout;
+        const requestId = getUniqueId();
+        const promise = new Promise<unknown>((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+                this._pendingRequests.delete(requestId);
+                reject(new EventHubRequestError(`Request ${requestName} on channel ${this.name} timed out`));
+            }, timeout);
+            this._pendingRequests.set(requestId, { resolve, reject, timeoutId });
+        });
+
+        this._eventHub.sendChannelEnvelope({
+            channelName: this.name,
+            kind: EventHubChannel.EnvelopeKind.request,
+            name: requestName,
+            payload,
+            senderWindowId: this._eventHub.windowId,
+            target: options?.target,
+            requestId,
+            error: undefined,
+        });
+
+        return promise as Promise<EventHubChannel.ResponsePayload<TRequests[K]>>;
+    }
+
+    /**
+     * Delivers an envelope which reached this window
+     * @internal
+     */
+    receive(envelope: EventHubChannel.Envelope): void {
+        const targetComponentId = EventHubChannel.getTargetComponentId(envelope.target);
+        const context: EventHubChannel.MessageContext = {
+            senderWindowId: envelope.senderWindowId,
+            componentId: targetComponentId,
+        };
+
+        switch (envelope.kind) {
+            case EventHubChannel.EnvelopeKind.event: {
+                const subscriptions = this._subscriptions.get(envelope.name);
+                if (subscriptions !== undefined) {
+                    // copy in case listeners subscribe or unsubscribe
+                    for (const subscription of subscriptions.slice()) {
+                        if (targetComponentId === undefined || subscription.componentId === undefined ||
+                            subscription.componentId === targetComponentId
+                        ) {
+                            subscription.listener(envelope.payload, context);
+                        }
+                    }
+                }
+                break;
+            }
+            case EventHubChannel.EnvelopeKind.request: {
+                const handler = this._handlers.get(envelope.name);
+                const requestId = envelope.requestId;
+                // Windows without a handler leave the request to other windows
+                if (handler !== undefined && requestId !== undefined) {
+                    new Promise<unknown>((resolve) => resolve(handler(envelope.payload, context))).then(
+                        (response) => this.respond(envelope, requestId, response, undefined),
+                        (reason: unknown) => this.respond(envelope, requestId, undefined,
+                            reason instanceof Error ? reason.message : String(reason)
+                        ),
+                    );
+                }
+                break;
+            }
+            case EventHubChannel.EnvelopeKind.response: {
+                const requestId = envelope.requestId;
+                const pendingRequest = requestId === undefined ? undefined : this._pendingRequests.get(requestId);
+                // Only the first response is used
+                if (requestId !== undefined && pendingRequest !== undefined) {
+                    this._pendingRequests.delete(requestId);
+                    clearTimeout(pendingRequest.timeoutId);
+                    if (envelope.error === undefined) {
+                        pendingRequest.resolve(envelope.payload);
+                    } else {
+                        pendingRequest.reject(new EventHubRequestError(envelope.error));
+                    }
+                }
+                break;
+            }
+            default:
+                // ignore envelopes from newer versions
+        }
+    }
+
+    /**
+     * Rejects pending requests
+     * @internal
+     */
+    destroy(): void {
+        for (const pendingRequest of this._pendingRequests.values()) {
+            clearTimeout(pendingRequest.timeoutId);
+            pendingRequest.reject(new EventHubRequestError(`Channel ${this.name} destroyed`));
+        }
+        this._pendingRequests.clear();
+        this._subscriptions.clear();
+        this._handlers.clear();
+    }
+
+    /** @internal */
+    private respond(request: EventHubChannel.Envelope, requestId: string, response: unknown, error: string | undefined) {
+        this._eventHub.sendChannelEnvelope({
+            channelName: this.name,
+            kind: EventHubChannel.EnvelopeKind.response,
+            name: request.name,
+            payload: response,
+            senderWindowId: this._eventHub.windowId,
+            target: { windowId: request.senderWindowId },
+            requestId,
+            error,
+        });
+    }
+}
+
+/** @public */
+export namespace EventHubChannel {
+    export type EventMap = Record<string, unknown>;
+    export type RequestMap = Record<string, RequestTypes>;
+
+    /** The payload and response types of a request */
+    export interface RequestTypes {
+        request: unknown;
+        response: unknown;
+    }
+
+    export type RequestPayload<T> = T extends { request: infer R } ? R : unknown;
+    export type ResponsePayload<T> = T extends { response: infer R } ? R : unknown;
+
+    export type Listener<T> = (this: void, payload: T, context: MessageContext) => void;
+    export type RequestHandler<TRequest, TResponse> =
+        (this: void, payload: TRequest, context: MessageContext) => TResponse | PromiseLike<TResponse>;
+
+    export interface MessageContext {
+        /** The {@link (EventHub:class).windowId} of the window which sent the message */
+        readonly senderWindowId: string;
+        /** The id of the component the message was targeted at.  Undefined if not targeted at a component */
+        readonly componentId: string | undefined;
+    }
+
+    /** Selects the window with the {@link (EventHub:class).windowId} */
+    export interface WindowTarget {
+        readonly windowId: string;
+    }
+
+    /** Selects the window containing a component with the id */
+    export interface ComponentTarget {
+        readonly componentId: string;
+    }
+
+    export type Target = WindowTarget | ComponentTarget;
+
+    export interface RequestOptions {
+        /** Only the target responds */
+        target?: Target;
+        /**
+         * The time (in milliseconds) to wait for a response
+         * Default: 5000
+         */
+        timeout?: number;
+    }
+
+    export namespace RequestOptions {
+        /** @internal */
+        export const defaults: Required<Omit<RequestOptions, 'target'>> = {
+            timeout: 5000,
+        } as const;
+    }
+
+    /** @internal */
+    export interface Subscription {
+        readonly listener: Listener<unknown>;
+        readonly componentId: string | undefined;
+    }
+
+    /** @internal */
+    export interface PendingRequest {
+        readonly resolve: (this: void, response: unknown) => void;
+        readonly reject: (this: void, reason: EventHubRequestError) => void;
+        readonly timeoutId: ReturnType<typeof setTimeout>;
+    }
+
+    /** @internal */
+    export const enum EnvelopeKind {
+        event = 'event',
+        request = 'request',
+        response = 'response',
+    }
+
+    /**
+     * A channel message as propagated between windows.  Structured-cloneable
+     * @internal
+     */
+    export interface Envelope {
+        readonly channelName: string;
+        readonly kind: EnvelopeKind;
+        /** Event or request name */
+        readonly name: string;
+        readonly payload: unknown;
+        readonly senderWindowId: string;
+        readonly target: Target | undefined;
+        /** Identifies a request and its responses */
+        readonly requestId: string | undefined;
+        /** Message of the error which failed a request.  Only set in responses */
+        readonly error: string | undefined;
+    }
+
+    /** @internal */
+    export function getTargetComponentId(target: Target | undefined): string | undefined {
+        if (target !== undefined && 'componentId' in target) {
+            return target.componentId;
+        } else {
+            return undefined;
+        }
+    }
+}
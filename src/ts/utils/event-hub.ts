@@ -1,6 +1,7 @@
 import { UnexpectedNullError } from '../errors/internal-error';
 import { LayoutManager } from '../layout-manager';
 import { EventEmitter } from './event-emitter';
+import { EventHubChannel } from './event-hub-channel';
 
 // Add our ChildEvent to WindowEventMap for type safety
 /** @public */
@@ -22,7 +23,10 @@ declare global {
  * - Propagate events to this layout and to all children
  *   - Repeat until all layouts got the event
  *
- * **WARNING**: Only userBroadcast events are propagated between windows.
+ * Popout windows on other origins cannot be reached directly.  Events are propagated to and from them with postMessage
+ * (so the arguments must be serialisable).
+ *
+ * **WARNING**: Only userBroadcast events and {@link EventHubChannel} messages are propagated between windows.
  * This means the you have to take care of propagating state changes between windows yourself.
  *
  * @public
@@ -31,6 +35,14 @@ export class EventHub extends EventEmitter {
 
     /** @internal */
     private _childEventListener = (childEvent: CustomEvent<EventHub.ChildEventDetail>) => this.onEventFromChild(childEvent);
+    /** @internal */
+    private _channels = new Map<string, EventHubChannel>();
+
+    /**
+     * Identifies this window in {@link EventHubChannel} targets.  A popout window's id is its
+     * {@link (BrowserPopout:class).windowId}.  The main window's id is {@link (EventHub:namespace).mainWindowId}.
+     */
+    get windowId(): string { return this._layoutManager.subWindowConfigKey ?? EventHub.mainWindowId; }
 
     /**
      * Creates a new EventHub instance
@@ -70,12 +82,65 @@ export class EventHub extends EventEmitter {
         this.handleUserBroadcastEvent('userBroadcast', args);
     }
 
+    /**
+     * Gets the channel with the name.  Channels with the same name in all windows of the layout exchange messages.
+     * @typeParam TEvents - Maps each event name to its payload type
+     * @typeParam TRequests - Maps each request name to its request payload and response types
+     */
+    channel<TEvents = EventHubChannel.EventMap, TRequests = EventHubChannel.RequestMap>(
+        name: string
+    ): EventHubChannel<TEvents, TRequests> {
+        let channel = this._channels.get(name);
+        if (channel === undefined) {
+            channel = new EventHubChannel(this, name);
+            this._channels.set(name, channel);
+        }
+        return channel as unknown as EventHubChannel<TEvents, TRequests>;
+    }
+
+    /**
+     * Propagates a channel message to the windows of the layout
+     * @internal
+     */
+    sendChannelEnvelope(envelope: EventHubChannel.Envelope): void {
+        this.handleUserBroadcastEvent(EventHub.ChannelEventName, [envelope]);
+    }
+
+    /**
+     * Emits a user broadcast received from a synchronised layout (see {@link (LayoutManager:class).startSync}) in this
+     * window and its popouts
+     * @internal
+     */
+    receiveSyncedUserBroadcast(args: unknown[]): void {
+        this.propagateToThisAndSubtree('userBroadcast', args);
+    }
+
+    /**
+     * Handles an event received with postMessage from a popout window on another origin
+     * @internal
+     */
+    receivePopoutEvent(eventName: string, args: unknown[]): void {
+        this.handleUserBroadcastEvent(eventName, args);
+    }
+
+    /**
+     * Emits an event received with postMessage from the opening window on another origin
+     * @internal
+     */
+    receiveOpenerEvent(eventName: string, args: unknown[]): void {
+        this.propagateToThisAndSubtree(eventName, args);
+    }
+
     /**
      * Destroys the EventHub
      * @internal
      */
     destroy(): void {
         globalThis.removeEventListener(EventHub.ChildEventName, this._childEventListener);
+        for (const channel of this._channels.values()) {
+            channel.destroy();
+        }
+        this._channels.clear();
     }
 
     /**
@@ -88,8 +153,12 @@ export class EventHub extends EventEmitter {
             // So propagate it to the Root.
             this.propagateToParent(eventName, args);
         } else {
-            // We are the root window, propagate it to the subtree below us.
+            // We are the root window, propagate it to the subtree below us and to any synchronised layouts.
+            // Channel messages stay within this window's layout tree.
             this.propagateToThisAndSubtree(eventName, args);
+            if (eventName === 'userBroadcast') {
+                this._layoutManager.postSyncedUserBroadcast(args);
+            }
         }
     }
 
@@ -104,10 +173,23 @@ export class EventHub extends EventEmitter {
 
     /**
      * Propagates the event to the parent by emitting
-     * it on the parent's DOM window
+     * it on the parent's DOM window (or posting it if the parent is on another origin)
      * @internal
      */
     private propagateToParent(eventName: string, args: unknown[]) {
+        const popoutOpener = this._layoutManager.popoutOpener;
+        if (popoutOpener !== undefined && popoutOpener.crossOrigin) {
+            popoutOpener.postEventHubEvent(eventName, args);
+        } else {
+            this.dispatchOnOpener(eventName, args);
+        }
+    }
+
+    /**
+     * Emits the event on the parent's DOM window
+     * @internal
+     */
+    private dispatchOnOpener(eventName: string, args: unknown[]) {
         const detail: EventHub.ChildEventDetail = {
             layoutManager: this._layoutManager,
             eventName,
@@ -134,19 +216,56 @@ export class EventHub extends EventEmitter {
      * @internal
      */
     private propagateToThisAndSubtree(eventName: string, args: unknown[]) {
-        this.emitUnknown(eventName, ...args);
+        if (eventName === EventHub.ChannelEventName) {
+            this.receiveChannelEnvelope(args[0] as EventHubChannel.Envelope);
+        } else {
+            this.emitUnknown(eventName, ...args);
+        }
         for (let i = 0; i < this._layoutManager.openPopouts.length; i++) {
-            const childGl = this._layoutManager.openPopouts[i].getGlInstance();
+            const popout = this._layoutManager.openPopouts[i];
+            if (popout.isCrossOrigin) {
+                popout.postEventHubEvent(eventName, args);
+            } else {
+                const childGl = popout.getGlInstance();
 
-            if (childGl) {
-                childGl.eventHub.propagateToThisAndSubtree(eventName, args);
+                if (childGl) {
+                    childGl.eventHub.propagateToThisAndSubtree(eventName, args);
+                }
             }
         }
     }
+
+    /**
+     * Delivers a channel message to this window's channel if this window is targeted
+     * @internal
+     */
+    private receiveChannelEnvelope(envelope: EventHubChannel.Envelope) {
+        const target = envelope.target;
+        let targeted: boolean;
+        if (target === undefined) {
+            targeted = true;
+        } else {
+            const componentId = EventHubChannel.getTargetComponentId(target);
+            if (componentId === undefined) {
+                targeted = 'windowId' in target && target.windowId === this.windowId;
+            } else {
+                targeted = this._layoutManager.findFirstComponentItemById(componentId) !== undefined;
+            }
+        }
+
+        if (targeted) {
+            this._channels.get(envelope.channelName)?.receive(envelope);
+        }
+    }
 }
 
 /** @public */
 export namespace EventHub {
+    /** The {@link (EventHub:class).windowId} of the main window (the window which is not a popout) */
+    export const mainWindowId = 'main';
+
+    /** @internal */
+    export const ChannelEventName = 'gl_channel_message';
 
     /** @internal */
     export const ChildEventName = 'gl_child_event';
@@ -12,6 +12,20 @@ export const enum I18nStringId {
     InvalidNumberPartInSizeString,
     UnknownUnitInSizeString,
     UnsupportedUnitInSizeString,
+    StackMaximised,
+    StackMinimised,
+    ItemPoppedOut,
+    ItemClosed,
+    ItemFloated,
+    ItemAutoHidden,
+    ItemPinned,
+    StackCollapsed,
+    StackExpanded,
+    ComponentLoading,
+    ComponentLoadFailed,
+    RetryComponentLoad,
+    RemoveComponent,
+    ComponentTypeNotAvailable,
 }
 
 /** @public */
@@ -71,6 +85,63 @@ export namespace I18nStrings {
             id: I18nStringId.UnsupportedUnitInSizeString,
             default: 'Unsupported unit in size string',
         },
+
+        StackMaximised: {
+            id: I18nStringId.StackMaximised,
+            default: 'Maximised',
+        },
+        StackMinimised: {
+            id: I18nStringId.StackMinimised,
+            default: 'Minimised',
+        },
+        ItemPoppedOut: {
+            id: I18nStringId.ItemPoppedOut,
+            default: 'Opened in new window',
+        },
+        ItemClosed: {
+            id: I18nStringId.ItemClosed,
+            default: 'Closed',
+        },
+        ItemFloated: {
+            id: I18nStringId.ItemFloated,
+            default: 'Opened in floating window',
+        },
+        ItemAutoHidden: {
+            id: I18nStringId.ItemAutoHidden,
+            default: 'Collapsed to edge',
+        },
+        ItemPinned: {
+            id: I18nStringId.ItemPinned,
+            default: 'Pinned',
+        },
+        StackCollapsed: {
+            id: I18nStringId.StackCollapsed,
+            default: 'Collapsed',
+        },
+        StackExpanded: {
+            id: I18nStringId.StackExpanded,
+            default: 'Expanded',
+        },
+        ComponentLoading: {
+            id: I18nStringId.ComponentLoading,
+            default: 'Loading',
+        },
+        ComponentLoadFailed: {
+            id: I18nStringId.ComponentLoadFailed,
+            default: 'Component failed to load',
+        },
+        RetryComponentLoad: {
+            id: I18nStringId.RetryComponentLoad,
+            default: 'Retry',
+        },
+        RemoveComponent: {
+            id: I18nStringId.RemoveComponent,
+            default: 'Remove',
+        },
+        ComponentTypeNotAvailable: {
+            id: I18nStringId.ComponentTypeNotAvailable,
+            default: 'Component type is not available',
+        },
     }
 
     export const idCount = Object.keys(infosObject).length;
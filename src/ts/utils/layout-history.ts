@@ -0,0 +1,139 @@
+import { ResolvedLayoutConfig } from '../config/resolved-config';
+import { AssertError, UnexpectedUndefinedError } from '../errors/internal-error';
+import { LayoutManager } from '../layout-manager';
+
+/**
+ * Keeps the undo and redo stacks of a LayoutManager.
+ * Each step is a snapshot of the layout (as returned by saveLayout()) taken before a change was made.
+ * Steps can be nested.  Only the outermost step records a snapshot so that related changes are undone together.
+ * @internal
+ */
+export class LayoutHistory {
+    private _undoSnapshots: ResolvedLayoutConfig[] = [];
+    private _redoSnapshots: ResolvedLayoutConfig[] = [];
+    private _stepBeginCount = 0;
+    private _stepSnapshot: ResolvedLayoutConfig | undefined;
+    private _suspendCount = 0;
+
+    get canUndo(): boolean { return this._undoSnapshots.length > 0 && this._stepBeginCount === 0; }
+    get canRedo(): boolean { return this._redoSnapshots.length > 0 && this._stepBeginCount === 0; }
+
+    constructor(private _layoutManager: LayoutManager,
+        private _restoreEvent: LayoutHistory.RestoreEvent,
+        private _changedEvent: LayoutHistory.ChangedEvent,
+    ) {
+    }
+
+    beginStep(): void {
+        if (this._stepBeginCount++ === 0) {
+            if (this._suspendCount === 0 && this._layoutManager.isInitialised && this._layoutManager.historyLimit > 0) {
+                this._stepSnapshot = this._layoutManager.saveLayout();
+            }
+        }
+    }
+
+    endStep(): void {
+        if (this._stepBeginCount === 0) {
+            throw new AssertError('LHES44091', 'endStep() without matching beginStep()');
+        } else {
+            if (--this._stepBeginCount === 0) {
+                const snapshot = this._stepSnapshot;
+                if (snapshot !== undefined) {
+                    this._stepSnapshot = undefined;
+                    // Steps which did not end up changing the layout (eg. a tab dropped back where it was) are discarded
+                    if (!LayoutHistory.isSnapshotEqual(snapshot, this._layoutManager.saveLayout())) {
+                        this._undoSnapshots.push(snapshot);
+                        this.trim(this._undoSnapshots);
+                        this._redoSnapshots.length = 0;
+                        this._changedEvent();
+                    }
+                }
+            }
+        }
+    }
+
+    /** Changes made while suspended are not recorded. Used while loading a layout or restoring a snapshot */
+    suspend(): void {
+        this._suspendCount++;
+    }
+
+    resume(): void {
+        if (this._suspendCount === 0) {
+            throw new AssertError('LHR44092', 'resume() without matching suspend()');
+        } else {
+            this._suspendCount--;
+        }
+    }
+
+    undo(): boolean {
+        if (!this.canUndo) {
+            return false;
+        } else {
+            const snapshot = this._undoSnapshots.pop();
+            if (snapshot === undefined) {
+                throw new UnexpectedUndefinedError('LHU44093');
+            } else {
+                this._redoSnapshots.push(this._layoutManager.saveLayout());
+                this.restore(snapshot);
+                return true;
+            }
+        }
+    }
+
+    redo(): boolean {
+        if (!this.canRedo) {
+            return false;
+        } else {
+            const snapshot = this._redoSnapshots.pop();
+            if (snapshot === undefined) {
+                throw new UnexpectedUndefinedError('LHR44094');
+            } else {
+                this._undoSnapshots.push(this._layoutManager.saveLayout());
+                this.trim(this._undoSnapshots);
+                this.restore(snapshot);
+                return true;
+            }
+        }
+    }
+
+    clear(): void {
+        const changed = this._undoSnapshots.length > 0 || this._redoSnapshots.length > 0;
+        this._undoSnapshots.length = 0;
+        this._redoSnapshots.length = 0;
+        this._stepSnapshot = undefined;
+        if (changed) {
+            this._changedEvent();
+        }
+    }
+
+    private restore(snapshot: ResolvedLayoutConfig) {
+        this.suspend();
+        try {
+            this._restoreEvent(snapshot);
+        } finally {
+            this.resume();
+        }
+        this._changedEvent();
+    }
+
+    private trim(snapshots: ResolvedLayoutConfig[]) {
+        const excess = snapshots.length - Math.max(0, this._layoutManager.historyLimit);
+        if (excess > 0) {
+            // oldest snapshots are at start of array
+            snapshots.splice(0, excess);
+        }
+    }
+}
+
+/** @internal */
+export namespace LayoutHistory {
+    export type RestoreEvent = (this: void, snapshot: ResolvedLayoutConfig) => void;
+    export type ChangedEvent = (this: void) => void;
+
+    export function isSnapshotEqual(left: ResolvedLayoutConfig, right: ResolvedLayoutConfig): boolean {
+        return JSON.stringify(left.root) === JSON.stringify(right.root) &&
+            JSON.stringify(left.openPopouts) === JSON.stringify(right.openPopouts) &&
+            JSON.stringify(left.floatingItems) === JSON.stringify(right.floatingItems) &&
+            JSON.stringify(left.edgeDockItems) === JSON.stringify(right.edgeDockItems);
+    }
+}
@@ -86,7 +86,7 @@ export namespace JsonValue {
 }
 
 /** @public */
-export type ItemType = 'ground' | 'row' | 'column' | 'stack' | 'component';
+export type ItemType = 'ground' | 'row' | 'column' | 'stack' | 'component' | 'floating' | 'edgeDock';
 
 /** @public */
 export namespace ItemType {
@@ -95,6 +95,8 @@ export namespace ItemType {
     export const column = 'column';
     export const stack = 'stack';
     export const component = 'component';
+    export const floating = 'floating';
+    export const edgeDock = 'edgeDock';
 }
 
 /** @public */
@@ -106,6 +108,21 @@ export namespace ResponsiveMode {
     export const onload = 'onload';
 }
 
+/**
+ * How a LayoutManager synchronises its layout with other LayoutManagers.  See {@link (LayoutManager:class).startSync}.
+ * share: Changes are sent to and received from all other LayoutManagers.
+ * primary: Changes are sent to other LayoutManagers.  Changes made by them are ignored.
+ * follow: The layout mirrors the other LayoutManagers and cannot be changed.  Changes made locally are reverted.
+ * @public
+ */
+export type LayoutSyncMode = 'share' | 'primary' | 'follow';
+/** @public */
+export namespace LayoutSyncMode {
+    export const share = 'share';
+    export const primary = 'primary';
+    export const follow = 'follow';
+}
+
 /**
  * Length units which can specify the size of a Component Item
  * @public
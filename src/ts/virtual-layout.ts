@@ -35,6 +35,8 @@ export class VirtualLayout extends LayoutManager {
      * If bindComponentEventHandler is defined, then constructor will be determinate. It will always call the init()
      * function and the init() function will always complete. This means that the bindComponentEventHandler will be called
      * if constructor is for a popout window. Make sure bindComponentEventHandler is ready for events.
+     * The exception is a popout window which receives its config from the opening window with postMessage.  Its init()
+     * completes once the config has been received.
      */
     constructor(
         container?: HTMLElement,
@@ -76,15 +78,9 @@ export class VirtualLayout extends LayoutManager {
                 // Set up layoutConfig since constructor is not determinate and may exit early. Other functions may need
                 // this.layoutConfig. this.layoutConfig is again calculated in the same way when init() completes.
                 // Remove this when constructor is determinate.
-                if (this._constructorOrSubWindowLayoutConfig === undefined) {
-                    throw new UnexpectedUndefinedError('VLC98823');
-                } else {
-                    const resolvedLayoutConfig = LayoutConfig.resolve(this._constructorOrSubWindowLayoutConfig);
-                    // remove root from layoutConfig
-                    this.layoutConfig = {
-                        ...resolvedLayoutConfig,
-                        root: undefined,
-                    }
+                // If the config is received from the opening window, this is done when it arrives.
+                if (this._constructorOrSubWindowLayoutConfig !== undefined) {
+                    this.setSubWindowLayoutConfig(this._constructorOrSubWindowLayoutConfig);
                 }
             }
         }
@@ -125,6 +121,14 @@ export class VirtualLayout extends LayoutManager {
             return;
         }
 
+        /**
+         * If this is a subwindow whose config has not yet been received from the opening window, request it and wait
+         */
+        if (this.isSubWindow === true && this._constructorOrSubWindowLayoutConfig === undefined) {
+            this.requestSubWindowConfig();
+            return;
+        }
+
         /**
          * If this is a subwindow, wait a few milliseconds for the original
          * page's js calls to be executed, then replace the bodies content
@@ -210,8 +214,51 @@ export class VirtualLayout extends LayoutManager {
         }
     }
 
+    /**
+     * Starts the postMessage handshake which gets the popout window's config from the opening window
+     * @internal
+     */
+    private requestSubWindowConfig() {
+        const popoutOpener = this.popoutOpener;
+        if (popoutOpener === undefined) {
+            throw new UnexpectedUndefinedError('VLRSWC33471');
+        } else {
+            popoutOpener.requestConfig();
+        }
+    }
+
+    /**
+     * Receives the config from the opening window
+     * @internal
+     */
+    protected override receiveSubWindowConfig(config: ResolvedPopoutLayoutConfig): void {
+        super.receiveSubWindowConfig(config);
+        if (!this._bindComponentEventHanlderPassedInConstructor && this._constructorOrSubWindowLayoutConfig !== undefined) {
+            this.setSubWindowLayoutConfig(this._constructorOrSubWindowLayoutConfig);
+        }
+        this.init();
+    }
+
+    /**
+     * Set up layoutConfig since constructor is not determinate and may exit early. Other functions may need
+     * this.layoutConfig. this.layoutConfig is again calculated in the same way when init() completes.
+     * Remove this when constructor is determinate.
+     * @internal
+     */
+    private setSubWindowLayoutConfig(config: LayoutConfig) {
+        // The config is migrated again (and layoutConfigMigrated emitted) when it is loaded by init()
+        const { config: migratedLayoutConfig } = this.layoutConfigMigrations.migrate(config);
+        const resolvedLayoutConfig = LayoutConfig.resolve(migratedLayoutConfig);
+        // remove root from layoutConfig
+        this.layoutConfig = {
+            ...resolvedLayoutConfig,
+            root: undefined,
+        }
+    }
+
     /** @internal */
-    override bindComponent(container: ComponentContainer, itemConfig: ResolvedComponentItemConfig): ComponentContainer.BindableComponent {
+    override bindComponent(container: ComponentContainer, itemConfig: ResolvedComponentItemConfig):
+        ComponentContainer.BindableComponent | Promise<ComponentContainer.BindableComponent> {
         if (this.bindComponentEvent !== undefined) {
             const bindableComponent = this.bindComponentEvent(container, itemConfig);
             return bindableComponent;
@@ -262,8 +309,13 @@ export namespace VirtualLayout {
     export type ReleaseComponentEventHandler =
         (this: void, container: ComponentContainer, component: ComponentContainer.Component) => void;
 
+    /**
+     * Binds a component to a container.  If a Promise is returned, the container shows a loading placeholder until it resolves
+     * and an error placeholder with a retry button if it rejects
+     */
     export type BindComponentEventHandler =
-        (this: void, container: ComponentContainer, itemConfig: ResolvedComponentItemConfig) => ComponentContainer.BindableComponent;
+        (this: void, container: ComponentContainer, itemConfig: ResolvedComponentItemConfig) =>
+            ComponentContainer.BindableComponent | Promise<ComponentContainer.BindableComponent>;
     export type UnbindComponentEventHandler =
         (this: void, container: ComponentContainer) => void;
 
@@ -280,21 +332,30 @@ export namespace VirtualLayout {
         containerOrBindComponentEventHandler?: HTMLElement |  VirtualLayout.BindComponentEventHandler):
         LayoutManager.ConstructorParameters
     {
-        const windowConfigKey = subWindowChecked ? null : new URL(document.location.href).searchParams.get('gl-window');
+        const searchParams = new URL(document.location.href).searchParams;
+        const windowConfigKey = subWindowChecked ? null : searchParams.get('gl-window');
         subWindowChecked = true;
         const isSubWindow = windowConfigKey !== null;
+        // Popouts opened by older versions do not pass the origin of the opening window.  They are always same origin.
+        const openerOrigin = isSubWindow ? (searchParams.get('gl-opener-origin') ?? globalThis.location.origin) : undefined;
 
         let containerElement: HTMLElement | undefined;
         let config: LayoutConfig | undefined;
         if (windowConfigKey !== null) {
-            const windowConfigStr = localStorage.getItem(windowConfigKey);
-            if (windowConfigStr === null) {
-                throw new Error('Null gl-window Config');
+            if (globalThis.opener !== null) {
+                // config is received from the opening window with a postMessage handshake when init() is called
+                config = undefined;
+            } else {
+                // fallback for windows which cannot reach their opener
+                const windowConfigStr = localStorage.getItem(windowConfigKey);
+                if (windowConfigStr === null) {
+                    throw new Error('Null gl-window Config');
+                }
+                localStorage.removeItem(windowConfigKey);
+                const minifiedWindowConfig = JSON.parse(windowConfigStr) as ResolvedPopoutLayoutConfig;
+                const resolvedConfig = ResolvedLayoutConfig.unminifyConfig(minifiedWindowConfig);
+                config = LayoutConfig.fromResolved(resolvedConfig)
             }
-            localStorage.removeItem(windowConfigKey);
-            const minifiedWindowConfig = JSON.parse(windowConfigStr) as ResolvedPopoutLayoutConfig;
-            const resolvedConfig = ResolvedLayoutConfig.unminifyConfig(minifiedWindowConfig);
-            config = LayoutConfig.fromResolved(resolvedConfig)
 
             if (configOrOptionalContainer instanceof HTMLElement) {
                 containerElement = configOrOptionalContainer;
@@ -322,6 +383,8 @@ export namespace VirtualLayout {
         return {
             constructorOrSubWindowLayoutConfig: config,
             isSubWindow,
+            subWindowConfigKey: windowConfigKey ?? undefined,
+            subWindowOpenerOrigin: openerOrigin,
             containerElement,
         };
     }
@@ -0,0 +1,75 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'accessibility', function(){
+
+	let layout: GoldenLayout;
+	let stack: Stack;
+
+	beforeEach(function () {
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'stack', content: [
+						{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'a' },
+						{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'b' },
+					]},
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'c' },
+				]
+			},
+			header: { maximise: 'enlarge' },
+		};
+		layout = TestTools.createLayout(config);
+		stack = layout.rootItem?.contentItems[0] as Stack;
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'links tabs to their component with tab roles', function(){
+		expect( stack.header.tabsContainerElement.getAttribute('role') ).toBe( 'tablist' );
+		const activeItem = stack.getActiveComponentItem() as ComponentItem;
+		const tabElement = activeItem.tab.element;
+		expect( tabElement.getAttribute('role') ).toBe( 'tab' );
+		expect( tabElement.getAttribute('aria-selected') ).toBe( 'true' );
+		expect( tabElement.tabIndex ).toBe( 0 );
+		expect( tabElement.getAttribute('aria-controls') ).toBe( activeItem.element.id );
+		expect( activeItem.element.getAttribute('role') ).toBe( 'tabpanel' );
+		expect( activeItem.element.getAttribute('aria-labelledby') ).toBe( tabElement.id );
+
+		const inactiveItem = stack.contentItems.find((item) => item !== activeItem) as ComponentItem;
+		const inactiveTabElement = inactiveItem.tab.element;
+		expect( inactiveTabElement.getAttribute('aria-selected') ).toBe( 'false' );
+		expect( inactiveTabElement.tabIndex ).toBe( -1 );
+	});
+
+	it( 'activates the next tab with the arrow keys', function(){
+		const activeItem = stack.getActiveComponentItem() as ComponentItem;
+		const otherItem = stack.contentItems.find((item) => item !== activeItem) as ComponentItem;
+		activeItem.tab.element.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true, cancelable: true }));
+		expect( stack.getActiveComponentItem() ).toBe( otherItem );
+		expect( document.activeElement ).toBe( otherItem.tab.element );
+	});
+
+	it( 'renders header controls as labelled buttons', function(){
+		const maximiseElement = stack.header.controlsContainerElement.querySelector('.lm_maximise') as HTMLElement;
+		expect( maximiseElement.tagName ).toBe( 'BUTTON' );
+		expect( maximiseElement.getAttribute('aria-label') ).toBe( 'enlarge' );
+	});
+
+	it( 'gives splitters the separator role', function(){
+		const splitterElement = layout.container.querySelector('.lm_splitter') as HTMLElement;
+		expect( splitterElement.getAttribute('role') ).toBe( 'separator' );
+		expect( splitterElement.getAttribute('aria-orientation') ).toBe( 'vertical' );
+		expect( splitterElement.getAttribute('aria-valuenow') ).toBe( '50' );
+	});
+
+	it( 'announces maximising a stack', function(){
+		const activeItem = stack.getActiveComponentItem() as ComponentItem;
+		stack.toggleMaximise();
+		const liveRegionElement = layout.container.querySelector('[aria-live]') as HTMLElement;
+		expect( liveRegionElement.textContent ).toBe( 'Maximised: ' + activeItem.title );
+	});
+});
@@ -0,0 +1,154 @@
+import { ComponentContainer, ComponentItem, GoldenLayout, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'async component binding', function(){
+
+	const ASYNC_COMPONENT_NAME = 'asyncComponent';
+
+	let layout: GoldenLayout;
+	let resolvers: ((component: ComponentContainer.Component) => void)[];
+	let rejecters: ((reason: unknown) => void)[];
+
+	function waitForPromises() {
+		return new Promise((resolve) => setTimeout(resolve, 0));
+	}
+
+	beforeEach(function () {
+		resolvers = [];
+		rejecters = [];
+		layout = new GoldenLayout();
+		layout.registerComponentFactoryFunction(TestTools.TEST_COMPONENT_NAME, TestTools.createTestComponent);
+		layout.registerAsyncComponentFactoryFunction(ASYNC_COMPONENT_NAME, () => {
+			return new Promise((resolve, reject) => {
+				resolvers.push(resolve);
+				rejecters.push(reject);
+			});
+		});
+		layout.loadLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: ASYNC_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'shows a loading placeholder until the component is bound', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		const boundListener = jasmine.createSpy('bound');
+		chart.container.on('bound', boundListener);
+		expect( chart.container.bindingPending ).toBeTrue();
+		expect( chart.container.bound ).toBeFalse();
+		expect( chart.container.element.querySelector('.lm_component_placeholder.lm_loading') ).not.toBeNull();
+
+		const component = { name: 'chart' };
+		resolvers[0](component);
+		return waitForPromises().then(() => {
+			expect( chart.container.bindingPending ).toBeFalse();
+			expect( chart.container.component ).toBe( component );
+			expect( boundListener ).toHaveBeenCalledOnceWith( component );
+			expect( chart.container.element.querySelector('.lm_component_placeholder') ).toBeNull();
+		});
+	});
+
+	it( 'shows an error placeholder which retries binding', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		rejecters[0](new Error('network down'));
+		return waitForPromises().then(() => {
+			expect( chart.container.bindingFailed ).toBeTrue();
+			const placeholder = chart.container.element.querySelector('.lm_component_placeholder.lm_error') as HTMLElement;
+			expect( placeholder?.innerText ).toContain( 'network down' );
+
+			(placeholder.querySelector('.lm_retry') as HTMLElement).click();
+			expect( chart.container.bindingFailed ).toBeFalse();
+			expect( chart.container.bindingPending ).toBeTrue();
+			expect( resolvers.length ).toBe( 2 );
+			resolvers[1]({ name: 'chart' });
+			return waitForPromises();
+		}).then(() => {
+			expect( chart.container.bound ).toBeTrue();
+			expect( chart.container.element.querySelector('.lm_component_placeholder') ).toBeNull();
+		});
+	});
+
+	it( 'binds components from promises which are not instances of Promise', function(){
+		let resolveBinding: ((bindableComponent: ComponentContainer.BindableComponent) => void) | undefined;
+		const bindingPromise = new Promise<ComponentContainer.BindableComponent>((resolve) => resolveBinding = resolve);
+		// for example, a promise created in another window
+		const thenable = { then: bindingPromise.then.bind(bindingPromise) } as Promise<ComponentContainer.BindableComponent>;
+		layout.bindComponentEvent = () => thenable;
+		const external = layout.newComponent('external', undefined, 'external');
+		expect( external.container.bindingPending ).toBeTrue();
+
+		const component = { name: 'external' };
+		resolveBinding?.({ component, virtual: true });
+		return waitForPromises().then(() => {
+			expect( external.container.bound ).toBeTrue();
+			expect( external.container.component ).toBe( component );
+		});
+	});
+
+	it( 'shows an error placeholder if processing the bound component fails', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		const errorListener = jasmine.createSpy('componentError');
+		layout.on('componentError', errorListener);
+		chart.container.on('bound', () => {
+			throw new Error('render failed');
+		});
+
+		resolvers[0]({ name: 'chart' });
+		return waitForPromises().then(() => {
+			expect( chart.container.bindingFailed ).toBeTrue();
+			expect( chart.container.bound ).toBeFalse();
+			expect( errorListener ).toHaveBeenCalledOnceWith( chart.container, jasmine.any(Error), 'bind' );
+			const placeholder = chart.container.element.querySelector('.lm_component_placeholder.lm_error') as HTMLElement;
+			expect( placeholder?.innerText ).toContain( 'render failed' );
+		});
+	});
+
+	it( 'can close a pending container and cancels its binding', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		const boundListener = jasmine.createSpy('bound');
+		chart.container.on('bound', boundListener);
+
+		chart.close();
+		expect( layout.findFirstComponentItemById('chart') ).toBeUndefined();
+		resolvers[0]({ name: 'chart' });
+		return waitForPromises().then(() => {
+			expect( boundListener ).not.toHaveBeenCalled();
+			expect( chart.container.bound ).toBeFalse();
+		});
+	});
+
+	it( 'can drag a pending container to another stack', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		const newsStack = layout.findFirstComponentItemById('news')?.parent as Stack;
+		const tabElement = chart.tab.element;
+		const headerRect = newsStack.header.element.getBoundingClientRect();
+		tabElement.dispatchEvent(new PointerEvent('pointerdown', {
+			bubbles: true,
+			clientX: tabElement.getBoundingClientRect().left,
+			clientY: tabElement.getBoundingClientRect().top,
+			isPrimary: true,
+		}));
+		tabElement.dispatchEvent(new PointerEvent('pointermove', {
+			bubbles: true,
+			clientX: headerRect.left + headerRect.width * 0.9,
+			clientY: headerRect.top + headerRect.height * 0.5,
+		}));
+		tabElement.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+
+		expect( chart.parent ).toBe( newsStack );
+		expect( chart.container.bindingPending ).toBeTrue();
+		resolvers[0]({ name: 'chart' });
+		return waitForPromises().then(() => {
+			expect( chart.container.bound ).toBeTrue();
+		});
+	});
+});
@@ -0,0 +1,129 @@
+import { BrowserPopout, ComponentItem, GoldenLayout } from '../..';
+import TestTools from './test-tools';
+
+describe( 'browser popout messages', function(){
+
+	const POPOUT_ORIGIN = 'https://popout.example.com';
+
+	let layout: GoldenLayout;
+	let popoutWindow: jasmine.SpyObj<Window>;
+	let popout: BrowserPopout;
+
+	function postFromWindow(data: unknown, source: unknown = popoutWindow, origin = POPOUT_ORIGIN) {
+		const event = new MessageEvent('message', { data, origin });
+		// MessageEvent only accepts real windows as its source
+		Object.defineProperty(event, 'source', { value: source });
+		globalThis.dispatchEvent(event);
+	}
+
+	function getPostedMessageTypes() {
+		return popoutWindow.postMessage.calls.allArgs().map((args) => (args[0] as { type: string }).type);
+	}
+
+	function postLayoutFromWindow(type: string, width = 400) {
+		const layoutConfig = layout.saveLayout();
+		postFromWindow({ type, key: popout.windowId, layout: { config: layoutConfig, window: { width, height: 300, left: 10, top: 20 } } });
+	}
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			},
+			settings: { popoutUrl: POPOUT_ORIGIN + '/popout.html' },
+		});
+		popoutWindow = jasmine.createSpyObj<Window>('popoutWindow', ['postMessage', 'addEventListener', 'close'], { closed: false });
+		spyOn(globalThis, 'open').and.returnValue(popoutWindow);
+		popout = (layout.findFirstComponentItemById('news') as ComponentItem).popout();
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'opens the popout url with the config key and origin of the opening window', function(){
+		const url = new URL((globalThis.open as jasmine.Spy).calls.mostRecent().args[0] as string);
+		expect( url.origin ).toBe( POPOUT_ORIGIN );
+		expect( url.searchParams.get('gl-window') ).toBe( popout.windowId );
+		expect( url.searchParams.get('gl-opener-origin') ).toBe( location.origin );
+		expect( popout.isCrossOrigin ).toBeTrue();
+		expect( popout.isInitialised ).toBeFalse();
+	});
+
+	it( 'sends the config once in response to a config request', function(){
+		expect( localStorage.getItem(popout.windowId) ).not.toBeNull();
+
+		postFromWindow({ type: 'gl-popout-config-request', key: popout.windowId });
+
+		expect( popoutWindow.postMessage ).toHaveBeenCalledTimes( 1 );
+		const [message, targetOrigin] = popoutWindow.postMessage.calls.mostRecent().args as [{ type: string, key: string }, string];
+		expect( message.type ).toBe( 'gl-popout-config' );
+		expect( message.key ).toBe( popout.windowId );
+		expect( targetOrigin ).toBe( POPOUT_ORIGIN );
+		// the fallback config is not needed once the handshake has started
+		expect( localStorage.getItem(popout.windowId) ).toBeNull();
+	});
+
+	it( 'ignores messages from other windows', function(){
+		const otherWindow = jasmine.createSpyObj<Window>('otherWindow', ['postMessage']);
+		postFromWindow({ type: 'gl-popout-config-request', key: popout.windowId }, otherWindow);
+		postFromWindow({ type: 'gl-popout-config-request', key: popout.windowId }, null);
+		expect( popoutWindow.postMessage ).not.toHaveBeenCalled();
+		expect( otherWindow.postMessage ).not.toHaveBeenCalled();
+	});
+
+	it( 'ignores messages from other origins', function(){
+		postFromWindow({ type: 'gl-popout-config-request', key: popout.windowId }, popoutWindow, 'https://other.example.com');
+		postFromWindow({ type: 'gl-popout-config-request', key: popout.windowId }, popoutWindow, location.origin);
+		expect( popoutWindow.postMessage ).not.toHaveBeenCalled();
+	});
+
+	it( 'ignores messages with another key or which are not popout messages', function(){
+		postFromWindow({ type: 'gl-popout-config-request', key: 'gl-window-config-other' });
+		postFromWindow({ type: 'gl-popout-config-request' });
+		postFromWindow({ type: 'unknown', key: popout.windowId });
+		postFromWindow('gl-popout-config-request');
+		expect( popoutWindow.postMessage ).not.toHaveBeenCalled();
+	});
+
+	it( 'is initialised once when the popout window is ready', function(){
+		const initialisedListener = jasmine.createSpy('initialised');
+		popout.on('initialised', initialisedListener);
+
+		postLayoutFromWindow('gl-popout-ready');
+		postLayoutFromWindow('gl-popout-ready');
+
+		expect( popout.isInitialised ).toBeTrue();
+		expect( initialisedListener ).toHaveBeenCalledTimes( 1 );
+	});
+
+	it( 'saves the layout last reported by the popout window', function(){
+		postLayoutFromWindow('gl-popout-ready');
+		postLayoutFromWindow('gl-popout-layout', 600);
+
+		expect( popout.toConfig().window.width ).toBe( 600 );
+		expect( layout.saveLayout().openPopouts[0].window.width ).toBe( 600 );
+	});
+
+	it( 'relays user broadcasts between the windows', function(){
+		const broadcastListener = jasmine.createSpy('userBroadcast');
+		layout.eventHub.on('userBroadcast', broadcastListener);
+		postLayoutFromWindow('gl-popout-ready');
+
+		postFromWindow({ type: 'gl-popout-event-hub-event', key: popout.windowId, eventName: 'userBroadcast', args: ['ABC', 10] });
+
+		expect( broadcastListener ).toHaveBeenCalledOnceWith( 'ABC', 10 );
+		expect( getPostedMessageTypes() ).toEqual( ['gl-popout-event-hub-event'] );
+	});
+
+	it( 'asks the popout window to close itself', function(){
+		postLayoutFromWindow('gl-popout-ready');
+		popout.close();
+		expect( getPostedMessageTypes() ).toEqual( ['gl-popout-close'] );
+		expect( popoutWindow.close ).not.toHaveBeenCalled();
+	});
+});
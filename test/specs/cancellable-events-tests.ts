@@ -0,0 +1,101 @@
+import { ComponentItem, EventEmitter, GoldenLayout, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'cancellable before events', function(){
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'editor', title: 'editor' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'preview', title: 'preview' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'prevents a close', function(){
+		const editor = layout.findFirstComponentItemById('editor') as ComponentItem;
+		const closeListener = jasmine.createSpy('close');
+		editor.container.on('close', closeListener);
+		editor.on('beforeClose', (event) => event.preventDefault());
+
+		editor.container.close();
+		expect( layout.findFirstComponentItemById('editor') ).toBe( editor );
+		expect( closeListener ).not.toHaveBeenCalled();
+	});
+
+	it( 'closes once an async veto resolves to true', function(){
+		const editor = layout.findFirstComponentItemById('editor') as ComponentItem;
+		const preview = layout.findFirstComponentItemById('preview') as ComponentItem;
+		layout.on('beforeClose', (event) => {
+			event.waitUntil(Promise.resolve(event.target === preview));
+		});
+
+		editor.close();
+		preview.close();
+		expect( layout.findFirstComponentItemById('preview') ).toBe( preview );
+
+		return new Promise((resolve) => setTimeout(resolve, 0)).then(() => {
+			expect( layout.findFirstComponentItemById('editor') ).toBe( editor );
+			expect( layout.findFirstComponentItemById('preview') ).toBeUndefined();
+		});
+	});
+
+	it( 'prevents maximise and popout', function(){
+		const stack = layout.findFirstComponentItemById('editor')?.parent as Stack;
+		const listener = (event: EventEmitter.CancellableBubblingEvent) => event.preventDefault();
+		layout.on('beforeMaximise', listener);
+		layout.on('beforePopout', listener);
+
+		stack.toggleMaximise();
+		expect( stack.isMaximised ).toBeFalse();
+		expect( stack.tryPopout() ).toBeUndefined();
+		expect( () => stack.popout() ).toThrowError( 'Popout was prevented' );
+		expect( layout.openPopouts.length ).toBe( 0 );
+
+		layout.off('beforeMaximise', listener);
+		stack.toggleMaximise();
+		expect( stack.isMaximised ).toBeTrue();
+	});
+
+	it( 'prevents a drop', function(){
+		const dragSourceElement = document.createElement('div');
+		document.body.appendChild(dragSourceElement);
+		layout.newDragSource(dragSourceElement, TestTools.TEST_COMPONENT_NAME, undefined, 'dragged');
+		const beforeDropListener = jasmine.createSpy('beforeDrop').and.callFake(
+			(event: EventEmitter.BeforeDropBubblingEvent) => event.preventDefault()
+		);
+		layout.on('beforeDrop', beforeDropListener);
+
+		const rootRect = layout.rootItem?.element.getBoundingClientRect();
+		if (rootRect === undefined) {
+			throw new Error ('no root rectangle!');
+		}
+		dragSourceElement.dispatchEvent(new PointerEvent('pointerdown', {
+			bubbles: true,
+			clientX: dragSourceElement.clientLeft,
+			clientY: dragSourceElement.clientTop,
+			isPrimary: true,
+		}));
+		dragSourceElement.dispatchEvent(new PointerEvent('pointermove', {
+			bubbles: true,
+			clientX: rootRect.left + rootRect.width * 0.9,
+			clientY: rootRect.top + rootRect.height * 0.5,
+		}));
+		dragSourceElement.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+
+		expect( beforeDropListener ).toHaveBeenCalledTimes( 1 );
+		expect( TestTools.getDragProxy() ).toBeNull();
+		expect( layout.saveLayout().root?.content.length ).toBe( 2 );
+
+		dragSourceElement.remove();
+	});
+});
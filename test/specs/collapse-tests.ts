@@ -0,0 +1,73 @@
+import { GoldenLayout, LayoutConfig, ResolvedStackItemConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'collapsing a stack', function(){
+
+	let layout: GoldenLayout;
+
+	function createLayout(collapsed?: boolean) {
+		const config: LayoutConfig = {
+			root: {
+				type: 'column',
+				content: [
+					{ type: 'stack', collapsed, content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'a' }] },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'b' },
+				]
+			},
+			header: { collapse: 'collapse' },
+		};
+		layout = TestTools.createLayout(config);
+	}
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'shrinks the stack to its header and the sibling takes its space', function(){
+		createLayout();
+		const first = TestTools.verifyPath('column.0', layout) as Stack;
+		const second = TestTools.verifyPath('column.1', layout) as Stack;
+		expect( first.collapsible ).toBe( true );
+
+		first.collapse();
+		expect( first.isCollapsed ).toBe( true );
+		expect( first.element.offsetHeight ).toBe( layout.layoutConfig.dimensions.headerHeight );
+		expect( first.element.classList.contains('lm_collapsed') ).toBe( true );
+		expect( second.element.offsetHeight ).toBeGreaterThan( first.element.offsetHeight );
+	});
+
+	it( 'remembers its size and saves its collapsed state', function(){
+		createLayout();
+		const first = TestTools.verifyPath('column.0', layout) as Stack;
+		const size = (layout.saveLayout().root?.content[0] as ResolvedStackItemConfig).size;
+		const height = first.element.offsetHeight;
+		first.collapse();
+
+		const config = layout.saveLayout();
+		const stackConfig = config.root?.content[0] as ResolvedStackItemConfig;
+		expect( stackConfig.collapsed ).toBe( true );
+		expect( stackConfig.size ).toBe( size );
+
+		first.expand();
+		expect( first.isCollapsed ).toBe( false );
+		expect( first.element.offsetHeight ).toBe( height );
+	});
+
+	it( 'loads a collapsed stack', function(){
+		createLayout(true);
+		const first = TestTools.verifyPath('column.0', layout) as Stack;
+		expect( first.isCollapsed ).toBe( true );
+		expect( first.element.offsetHeight ).toBe( layout.layoutConfig.dimensions.headerHeight );
+	});
+
+	it( 'toggles from the header button', function(){
+		createLayout();
+		const first = TestTools.verifyPath('column.0', layout) as Stack;
+		const button = first.element.querySelector('.lm_collapse') as HTMLElement;
+		expect( button ).not.toBeNull();
+		button.click();
+		expect( first.isCollapsed ).toBe( true );
+		button.click();
+		expect( first.isCollapsed ).toBe( false );
+	});
+});
@@ -0,0 +1,71 @@
+import { ComponentContainer, ComponentItem, GoldenLayout } from '../..';
+import TestTools from './test-tools';
+
+describe( 'component error boundary', function(){
+
+	const FAILING_COMPONENT_NAME = 'failingComponent';
+
+	let layout: GoldenLayout;
+	let errorListener: jasmine.Spy;
+
+	beforeEach(function () {
+		layout = new GoldenLayout();
+		errorListener = jasmine.createSpy('componentError');
+		layout.on('componentError', errorListener);
+		layout.registerComponentFactoryFunction(TestTools.TEST_COMPONENT_NAME, TestTools.createTestComponent);
+		layout.registerComponentFactoryFunction(FAILING_COMPONENT_NAME, () => {
+			throw new Error('chart library missing');
+		});
+		layout.loadLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: FAILING_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: FAILING_COMPONENT_NAME, id: 'orders', title: 'orders' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'loads the rest of the layout', function(){
+		expect( layout.isInitialised ).toBeTrue();
+		expect( layout.rootItem?.contentItems.length ).toBe( 3 );
+		expect( layout.findFirstComponentItemById('news')?.container.bound ).toBeTrue();
+		expect( errorListener ).toHaveBeenCalledTimes( 2 );
+	});
+
+	it( 'shows a fallback view with the error message', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		expect( chart.container.bindingFailed ).toBeTrue();
+		expect( chart.container.bound ).toBeFalse();
+		const fallback = chart.container.element.querySelector('.lm_component_placeholder.lm_error') as HTMLElement;
+		expect( fallback?.innerText ).toContain( 'chart library missing' );
+		expect( errorListener ).toHaveBeenCalledWith( chart.container, jasmine.any(Error), 'bind' );
+	});
+
+	it( 'removes a failed component with the fallback view', function(){
+		const orders = layout.findFirstComponentItemById('orders') as ComponentItem;
+		const removeElement = orders.container.element.querySelector('.lm_remove') as HTMLElement;
+		removeElement.click();
+		expect( layout.findFirstComponentItemById('orders') ).toBeUndefined();
+		expect( layout.rootItem?.contentItems.length ).toBe( 2 );
+	});
+
+	it( 'reports an error thrown while unbinding and still removes the component', function(){
+		layout.bindComponentEvent = () => ({ component: {}, virtual: true });
+		layout.unbindComponentEvent = (container: ComponentContainer) => {
+			throw new Error(`cannot unbind ${container.title}`);
+		};
+		const external = layout.newComponent('external', undefined, 'external');
+		expect( external.container.bound ).toBeTrue();
+
+		external.remove();
+		expect( layout.rootItem?.contentItems.length ).toBe( 3 );
+		expect( errorListener ).toHaveBeenCalledWith( external.container, jasmine.any(Error), 'unbind' );
+	});
+});
@@ -0,0 +1,65 @@
+import { LayoutConfig } from '../..';
+
+describe( 'LayoutConfig validation', function(){
+
+	it( 'accepts a valid config', function(){
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: 'a', size: '30%' },
+					{ type: 'stack', activeItemIndex: 1, content: [
+						{ type: 'component', componentType: 'b' },
+						{ type: 'component', componentType: 'c' },
+					]},
+				]
+			},
+			settings: { responsiveMode: 'onload' },
+		};
+		expect( LayoutConfig.validate( config ) ).toEqual( [] );
+	});
+
+	it( 'reports errors with their path', function(){
+		const config = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: 'a' },
+					{ type: 'component', componentType: 'b', size: '30px' },
+					{ type: 'stack', activeItemIndex: 3, content: [
+						{ type: 'row', content: [] },
+						{ type: 'component', componentType: 'c' },
+					]},
+				]
+			},
+		};
+		const errors = LayoutConfig.validate( config );
+		const paths = errors.map((error) => error.path);
+		expect( paths ).toEqual( [
+			'root.content[1].size',
+			'root.content[2].content[0]',
+			'root.content[2].activeItemIndex',
+		] );
+		expect( errors[1].message ).toBe( 'stack children must be components' );
+	});
+
+	it( 'repairs a config without changing it', function(){
+		const stackContent = [
+			{ type: 'column' },
+			{ type: 'component', componentType: 'c', isClosable: 'no' },
+		];
+		const config = {
+			root: { type: 'stack', activeItemIndex: 5, content: stackContent },
+		};
+		const { config: repairedConfig, errors } = LayoutConfig.repair( config );
+		expect( errors.length ).toBe( 3 );
+		expect( LayoutConfig.validate( repairedConfig ) ).toEqual( [] );
+		expect( repairedConfig.root?.content?.length ).toBe( 1 );
+		expect( config.root.content ).toBe( stackContent );
+		expect( stackContent[1].isClosable ).toBe( 'no' );
+	});
+
+	it( 'cannot repair a config which is not an object', function(){
+		expect( () => LayoutConfig.repair( 'row' ) ).toThrow();
+	});
+});
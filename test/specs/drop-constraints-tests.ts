@@ -0,0 +1,125 @@
+import {
+	ComponentItem, GoldenLayout, LayoutConfig, LayoutManager, ResolvedRowOrColumnItemConfig, ResolvedStackItemConfig, Stack
+} from '../..';
+import TestTools from './test-tools';
+
+describe( 'drop constraints', function(){
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{
+						type: 'stack',
+						id: 'locked',
+						tabDropEnabled: false,
+						content: [
+							{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+						]
+					},
+					{
+						type: 'component',
+						componentType: TestTools.TEST_COMPONENT_NAME,
+						id: 'console',
+						title: 'console',
+						dropConstraints: { stackableWith: [], dockEdges: ['bottom'], popout: false },
+					},
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	function dragSourceToHeader(dragSourceElement: HTMLElement, stack: Stack, beforeDrop: () => void) {
+		const headerRect = stack.header.element.getBoundingClientRect();
+		dragSourceElement.dispatchEvent(new PointerEvent('pointerdown', {
+			bubbles: true,
+			clientX: dragSourceElement.clientLeft,
+			clientY: dragSourceElement.clientTop,
+			isPrimary: true,
+		}));
+		dragSourceElement.dispatchEvent(new PointerEvent('pointermove', {
+			bubbles: true,
+			clientX: headerRect.left + headerRect.width * 0.9,
+			clientY: headerRect.top + headerRect.height * 0.5,
+		}));
+		beforeDrop();
+		dragSourceElement.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+	}
+
+	it( 'are saved with the layout', function(){
+		const saved = layout.saveLayout();
+		const consoleItem = layout.findFirstComponentItemById('console') as ComponentItem;
+		expect( consoleItem.dropConstraints?.stackableWith?.length ).toBe( 0 );
+		expect( consoleItem.dropConstraints?.dockEdges ).toEqual( ['bottom'] );
+
+		layout.loadLayout(LayoutConfig.fromResolved(saved));
+		const resolvedRoot = layout.saveLayout().root as ResolvedRowOrColumnItemConfig;
+		const lockedStackConfig = resolvedRoot.content[0] as ResolvedStackItemConfig;
+		const consoleStackConfig = resolvedRoot.content[1] as ResolvedStackItemConfig;
+		expect( lockedStackConfig.tabDropEnabled ).toBeFalse();
+		expect( consoleStackConfig.tabDropEnabled ).toBeTrue();
+		const consoleConstraints = consoleStackConfig.content[0].dropConstraints;
+		expect( consoleConstraints?.stackableWith?.length ).toBe( 0 );
+		expect( consoleConstraints?.dockEdges ).toEqual( ['bottom'] );
+		expect( consoleConstraints?.popout ).toBeFalse();
+		expect( lockedStackConfig.content[0].dropConstraints ).toBeUndefined();
+	});
+
+	it( 'prevent popping out a component', function(){
+		const consoleItem = layout.findFirstComponentItemById('console') as ComponentItem;
+		expect( consoleItem.popoutEnabled ).toBeFalse();
+		expect( consoleItem.parent?.popoutEnabled ).toBeFalse();
+		expect( consoleItem.tryPopout() ).toBeUndefined();
+		expect( consoleItem.parent?.tryPopout() ).toBeUndefined();
+		expect( () => consoleItem.popout() ).toThrowError( 'Popout was prevented' );
+		expect( layout.openPopouts.length ).toBe( 0 );
+		expect( layout.findFirstComponentItemById('chart')?.popoutEnabled ).toBeTrue();
+	});
+
+	it( 'reject dropping new tabs onto a locked stack', function(){
+		const dragSourceElement = document.createElement('div');
+		document.body.appendChild(dragSourceElement);
+		layout.newDragSource(dragSourceElement, TestTools.TEST_COMPONENT_NAME, undefined, 'dragged');
+		const lockedStack = layout.findFirstComponentItemById('chart')?.parent as Stack;
+
+		dragSourceToHeader(dragSourceElement, lockedStack, () => {
+			const indicator = document.querySelector('.lm_dropTargetIndicator');
+			expect( indicator?.classList.contains('lm_rejected') ).toBeTrue();
+		});
+
+		expect( TestTools.getDragProxy() ).toBeNull();
+		expect( lockedStack.contentItems.length ).toBe( 1 );
+		expect( layout.saveLayout().root?.content.length ).toBe( 2 );
+
+		dragSourceElement.remove();
+	});
+
+	it( 'calls canDropEvent for each drop target', function(){
+		const dragSourceElement = document.createElement('div');
+		document.body.appendChild(dragSourceElement);
+		layout.newDragSource(dragSourceElement, TestTools.TEST_COMPONENT_NAME, undefined, 'dragged');
+		const consoleStack = layout.findFirstComponentItemById('console')?.parent as Stack;
+		const dropTargets: LayoutManager.DropTarget[] = [];
+		layout.canDropEvent = (componentItem, dropTarget) => {
+			dropTargets.push(dropTarget);
+			return dropTarget.kind !== LayoutManager.DropTarget.Kind.tab;
+		};
+
+		dragSourceToHeader(dragSourceElement, consoleStack, () => {
+			// not called for the header of the console's stack since the console's constraints already reject it
+			expect( dropTargets.some((dropTarget) => dropTarget.contentItem === consoleStack && dropTarget.kind === 'tab') ).toBeFalse();
+			expect( dropTargets.some((dropTarget) => dropTarget.contentItem === consoleStack && dropTarget.kind === 'split') ).toBeTrue();
+		});
+
+		expect( consoleStack.contentItems.length ).toBe( 1 );
+
+		dragSourceElement.remove();
+	});
+});
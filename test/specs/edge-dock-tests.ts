@@ -0,0 +1,143 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, ResolvedLayoutConfig, ResolvedStackItemConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'edge docks', function(){
+
+	let layout: GoldenLayout;
+
+	function createLayout(edgeDockItems?: LayoutConfig['edgeDockItems']) {
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'a' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'b' },
+				]
+			},
+			edgeDockItems,
+		};
+		layout = TestTools.createLayout(config);
+	}
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'collapses a stack to a tab and saves its side and slide out size', function(){
+		createLayout();
+		const stack = TestTools.verifyPath('row.0', layout) as Stack;
+		const edgeDockItem = stack.autoHide('left');
+		expect( layout.rootItem?.contentItems.length ).toBe( 1 );
+		expect( edgeDockItem.stack ).toBe( stack );
+		expect( (layout.container.querySelector('.lm_edge_dock_tab') as HTMLElement).textContent ).toBe( 'a' );
+		expect( edgeDockItem.isSlidOut ).toBe( false );
+
+		const config = layout.saveLayout();
+		expect( config.edgeDockItems.length ).toBe( 1 );
+		expect( config.edgeDockItems[0].side ).toBe( 'left' );
+		expect( config.edgeDockItems[0].slideOutSize ).toBe( edgeDockItem.slideOutSize );
+	});
+
+	it( 'loads edge dock items', function(){
+		createLayout([{
+			type: 'edgeDock',
+			content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'c' }],
+			side: 'bottom',
+			slideOutSize: 120,
+		}]);
+		expect( layout.edgeDockItems.length ).toBe( 1 );
+		const edgeDockItem = layout.edgeDockItems[0];
+		expect( edgeDockItem.side ).toBe( 'bottom' );
+		expect( edgeDockItem.slideOutSize ).toBe( 120 );
+		expect( (edgeDockItem.stack?.getActiveComponentItem() as ComponentItem).title ).toBe( 'c' );
+	});
+
+	it( 'slides out over the layout and back in', function(){
+		createLayout([{
+			type: 'edgeDock',
+			content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'c' }],
+			side: 'right',
+			slideOutSize: 100,
+		}]);
+		const edgeDockItem = layout.edgeDockItems[0];
+		(layout.container.querySelector('.lm_edge_dock_tab') as HTMLElement).click();
+		expect( edgeDockItem.isSlidOut ).toBe( true );
+		expect( edgeDockItem.element.style.display ).not.toBe( 'none' );
+		expect( edgeDockItem.element.style.width ).toBe( '100px' );
+
+		edgeDockItem.slideIn();
+		expect( edgeDockItem.isSlidOut ).toBe( false );
+		expect( edgeDockItem.element.style.display ).toBe( 'none' );
+	});
+
+	it( 'pins a stack back into the layout', function(){
+		createLayout();
+		const componentItem = TestTools.verifyPath('row.1.stack.0', layout) as ComponentItem;
+		const edgeDockItem = layout.autoHideContentItem(componentItem, 'right');
+		edgeDockItem.pin();
+		expect( layout.edgeDockItems.length ).toBe( 0 );
+		expect( layout.rootItem?.contentItems.length ).toBe( 2 );
+		expect( (layout.rootItem?.contentItems[1] as Stack).contentItems[0] ).toBe( componentItem );
+	});
+
+	it( 'removes the edge dock item with its last component', function(){
+		createLayout();
+		const componentItem = TestTools.verifyPath('row.0.stack.0', layout) as ComponentItem;
+		layout.autoHideContentItem(componentItem);
+		componentItem.container.close();
+		expect( layout.edgeDockItems.length ).toBe( 0 );
+		expect( layout.saveLayout().edgeDockItems.length ).toBe( 0 );
+	});
+
+	it( 'keeps the components of matched edge dock items when a layout is applied', function(){
+		createLayout([
+			{
+				type: 'edgeDock',
+				id: 'tools',
+				content: [{
+					type: 'component',
+					componentType: TestTools.TEST_COMPONENT_NAME,
+					id: 'watchlist',
+					title: 'watchlist',
+					componentState: { symbol: 'ABC' },
+				}],
+				side: 'left',
+				slideOutSize: 120,
+			},
+			{
+				type: 'edgeDock',
+				content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'alerts', title: 'alerts' }],
+				side: 'left',
+				slideOutSize: 120,
+			},
+		]);
+		const [toolsEdgeDockItem, alertsEdgeDockItem] = layout.edgeDockItems;
+		const watchlist = layout.findFirstComponentItemById('watchlist') as ComponentItem;
+		const watchlistContainer = watchlist.container;
+		const watchlistElement = watchlist.container.element;
+		const alertsContainer = layout.findFirstComponentItemById('alerts')?.container;
+
+		const saved = layout.saveLayout();
+		const toolsConfig = saved.edgeDockItems[0];
+		const toolsStackConfig = toolsConfig.content[0] as ResolvedStackItemConfig;
+		const changed: ResolvedLayoutConfig = {
+			...saved,
+			edgeDockItems: [
+				{
+					...toolsConfig,
+					slideOutSize: 150,
+					content: [{ ...toolsStackConfig, content: [{ ...toolsStackConfig.content[0], componentState: { symbol: 'XYZ' } }] }],
+				},
+				saved.edgeDockItems[1],
+			],
+		};
+		layout.applyLayout(LayoutConfig.fromResolved(changed));
+
+		expect( layout.edgeDockItems[0] ).toBe( toolsEdgeDockItem );
+		expect( layout.edgeDockItems[1] ).toBe( alertsEdgeDockItem );
+		expect( toolsEdgeDockItem.slideOutSize ).toBe( 150 );
+		expect( layout.findFirstComponentItemById('watchlist')?.container ).toBe( watchlistContainer );
+		expect( watchlistContainer.element ).toBe( watchlistElement );
+		expect( layout.findFirstComponentItemById('alerts')?.container ).toBe( alertsContainer );
+	});
+});
@@ -0,0 +1,98 @@
+import { EventHub, EventHubRequestError, GoldenLayout } from '../..';
+import TestTools from './test-tools';
+
+describe( 'event hub channels', function(){
+
+	interface PricingEvents {
+		priceChanged: { symbol: string, price: number };
+	}
+
+	interface PricingRequests {
+		getPrice: { request: string, response: number };
+	}
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'delivers events to subscribers of the same channel', function(){
+		const pricing = layout.eventHub.channel<PricingEvents>('pricing');
+		const listener = jasmine.createSpy('priceChanged');
+		const otherListener = jasmine.createSpy('other');
+		pricing.on('priceChanged', listener);
+		layout.eventHub.channel('other').on('priceChanged', otherListener);
+
+		pricing.emit('priceChanged', { symbol: 'ABC', price: 10 });
+
+		expect( layout.eventHub.channel('pricing') ).toBe( pricing );
+		expect( listener ).toHaveBeenCalledOnceWith( { symbol: 'ABC', price: 10 },
+			{ senderWindowId: EventHub.mainWindowId, componentId: undefined } );
+		expect( otherListener ).not.toHaveBeenCalled();
+
+		pricing.off('priceChanged', listener);
+		pricing.emit('priceChanged', { symbol: 'ABC', price: 11 });
+		expect( listener ).toHaveBeenCalledTimes( 1 );
+	});
+
+	it( 'delivers targeted events only to the targeted component and window', function(){
+		const pricing = layout.eventHub.channel<PricingEvents>('pricing');
+		const chartListener = jasmine.createSpy('chart');
+		const newsListener = jasmine.createSpy('news');
+		pricing.on('priceChanged', chartListener, 'chart');
+		pricing.on('priceChanged', newsListener, 'news');
+
+		pricing.emit('priceChanged', { symbol: 'ABC', price: 10 }, { componentId: 'chart' });
+		expect( chartListener ).toHaveBeenCalledTimes( 1 );
+		expect( newsListener ).not.toHaveBeenCalled();
+
+		pricing.emit('priceChanged', { symbol: 'ABC', price: 10 }, { componentId: 'missing' });
+		pricing.emit('priceChanged', { symbol: 'ABC', price: 10 }, { windowId: 'other-window' });
+		expect( chartListener ).toHaveBeenCalledTimes( 1 );
+
+		pricing.emit('priceChanged', { symbol: 'ABC', price: 10 }, { windowId: layout.eventHub.windowId });
+		expect( chartListener ).toHaveBeenCalledTimes( 2 );
+		expect( newsListener ).toHaveBeenCalledTimes( 1 );
+	});
+
+	it( 'responds to requests', function(){
+		const pricing = layout.eventHub.channel<PricingEvents, PricingRequests>('pricing');
+		pricing.handle('getPrice', (symbol) => Promise.resolve(symbol.length));
+
+		return pricing.request('getPrice', 'ABCD').then((price) => {
+			expect( price ).toBe( 4 );
+		});
+	});
+
+	it( 'rejects requests which fail or time out', function(){
+		const pricing = layout.eventHub.channel<PricingEvents, PricingRequests>('pricing');
+
+		return pricing.request('getPrice', 'ABC', { timeout: 10 }).then(
+			() => fail('request should time out'),
+			(error) => {
+				expect( error ).toBeInstanceOf( EventHubRequestError );
+				pricing.handle('getPrice', () => { throw new Error('no price'); });
+				return pricing.request('getPrice', 'ABC');
+			}
+		).then(
+			() => fail('request should fail'),
+			(error: EventHubRequestError) => {
+				expect( error ).toBeInstanceOf( EventHubRequestError );
+				expect( error.message ).toBe( 'no price' );
+			}
+		);
+	});
+});
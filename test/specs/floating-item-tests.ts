@@ -0,0 +1,80 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'floating items', function(){
+
+	let layout: GoldenLayout;
+
+	function createLayout(floatingItems?: LayoutConfig['floatingItems']) {
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'a' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'b' },
+				]
+			},
+			floatingItems,
+		};
+		layout = TestTools.createLayout(config);
+	}
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'saves floating items with their bounds and z-order', function(){
+		createLayout();
+		layout.addFloatingItem({
+			type: 'floating',
+			content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'c' }],
+			bounds: { left: 10, top: 20, width: 200, height: 150 },
+		});
+		const secondItem = layout.addFloatingItem({
+			type: 'floating',
+			content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'd' }],
+		});
+		layout.floatingItems[0].bringToFront();
+
+		const config = layout.saveLayout();
+		expect( config.floatingItems.length ).toBe( 2 );
+		expect( config.floatingItems[0].bounds ).toEqual( secondItem.bounds );
+		expect( config.floatingItems[1].bounds ).toEqual({ left: 10, top: 20, width: 200, height: 150 });
+		expect( config.floatingItems[1].content[0].type ).toBe( 'stack' );
+	});
+
+	it( 'loads floating items', function(){
+		createLayout([{
+			type: 'floating',
+			content: [{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'c' }],
+			bounds: { left: 30, top: 40, width: 250, height: 180 },
+		}]);
+		expect( layout.floatingItems.length ).toBe( 1 );
+		const floatingItem = layout.floatingItems[0];
+		expect( floatingItem.bounds ).toEqual({ left: 30, top: 40, width: 250, height: 180 });
+		expect( floatingItem.element.style.left ).toBe( '30px' );
+		expect( (floatingItem.stack?.getActiveComponentItem() as ComponentItem).title ).toBe( 'c' );
+	});
+
+	it( 'floats a component and closes the floating item with its last component', function(){
+		createLayout();
+		const componentItem = TestTools.verifyPath('row.0.stack.0', layout) as ComponentItem;
+		const floatingItem = layout.floatContentItem(componentItem, { left: 5, top: 5, width: 100, height: 100 });
+		expect( layout.rootItem?.contentItems.length ).toBe( 1 );
+		expect( (floatingItem.stack as Stack).contentItems[0] ).toBe( componentItem );
+
+		componentItem.container.close();
+		expect( layout.floatingItems.length ).toBe( 0 );
+		expect( layout.saveLayout().floatingItems.length ).toBe( 0 );
+	});
+
+	it( 'undoes floating a component', function(){
+		createLayout();
+		const componentItem = TestTools.verifyPath('row.0.stack.0', layout) as ComponentItem;
+		layout.floatContentItem(componentItem);
+		expect( layout.floatingItems.length ).toBe( 1 );
+		layout.undo();
+		expect( layout.floatingItems.length ).toBe( 0 );
+		expect( layout.rootItem?.contentItems.length ).toBe( 2 );
+	});
+});
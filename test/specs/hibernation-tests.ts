@@ -0,0 +1,85 @@
+import { ComponentContainer, ComponentItem, GoldenLayout, JsonValue } from '../..';
+import TestTools from './test-tools';
+
+describe( 'component hibernation', function(){
+
+	let layout: GoldenLayout;
+	let boundStates: (JsonValue | undefined)[];
+
+	beforeEach(function () {
+		boundStates = [];
+		layout = new GoldenLayout();
+		layout.registerComponentFactoryFunction(TestTools.TEST_COMPONENT_NAME, (container: ComponentContainer, state?: JsonValue) => {
+			boundStates.push(state);
+			const component = { scrollTop: (state as { scrollTop: number } | undefined)?.scrollTop ?? 0 };
+			container.stateRequestEvent = () => ({ scrollTop: component.scrollTop });
+			return component;
+		});
+		layout.loadLayout({
+			root: {
+				type: 'stack',
+				activeItemIndex: 0,
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'first', componentState: { scrollTop: 1 } },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'second', componentState: { scrollTop: 2 } },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'third', componentState: { scrollTop: 3 } },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	function getComponentItem(id: string) {
+		return layout.findFirstComponentItemById(id) as ComponentItem;
+	}
+
+	it( 'saves the state of a hibernated component and resumes it when shown', function(){
+		const second = getComponentItem('second');
+		(second.component as { scrollTop: number }).scrollTop = 20;
+		const beforeHibernateListener = jasmine.createSpy('beforeHibernate');
+		const resumedListener = jasmine.createSpy('resumed');
+		second.container.on('beforeHibernate', beforeHibernateListener);
+		second.container.on('resumed', resumedListener);
+
+		expect( getComponentItem('first').container.hibernate() ).toBeFalse();
+		expect( second.container.hibernate() ).toBeTrue();
+		expect( beforeHibernateListener ).toHaveBeenCalledTimes( 1 );
+		expect( second.container.hibernated ).toBeTrue();
+		expect( second.container.bound ).toBeFalse();
+		expect( JSON.stringify(second.toConfig().componentState) ).toBe( '{"scrollTop":20}' );
+
+		second.focus();
+		expect( resumedListener ).toHaveBeenCalledTimes( 1 );
+		expect( second.container.hibernated ).toBeFalse();
+		expect( (second.component as { scrollTop: number }).scrollTop ).toBe( 20 );
+		expect( boundStates.length ).toBe( 4 );
+	});
+
+	it( 'hibernates the components hidden the longest when over budget', function(){
+		const canHibernate = jasmine.createSpy('canHibernate').and.callFake((container: ComponentContainer) => container !== getComponentItem('third').container);
+		layout.hibernationPolicy = { maxHiddenComponents: 0, canHibernate };
+		expect( canHibernate ).toHaveBeenCalled();
+		expect( getComponentItem('second').container.hibernated ).toBeTrue();
+		expect( getComponentItem('third').container.hibernated ).toBeFalse();
+		expect( getComponentItem('first').container.bound ).toBeTrue();
+	});
+
+	it( 'hibernates components hidden for longer than the timeout', function(){
+		jasmine.clock().install();
+		try {
+			jasmine.clock().mockDate();
+			layout.hibernationPolicy = { hiddenTimeout: 1000 };
+			getComponentItem('second').focus();
+			jasmine.clock().tick(500);
+			expect( getComponentItem('first').container.hibernated ).toBeFalse();
+			jasmine.clock().tick(600);
+			expect( getComponentItem('first').container.hibernated ).toBeTrue();
+			expect( getComponentItem('second').container.hibernated ).toBeFalse();
+		} finally {
+			jasmine.clock().uninstall();
+		}
+	});
+});
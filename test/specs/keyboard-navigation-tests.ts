@@ -0,0 +1,76 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'keyboard navigation', function(){
+
+	let layout: GoldenLayout;
+	let leftStack: Stack;
+	let rightStack: Stack;
+
+	function createLayout(settings?: LayoutConfig.Settings) {
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'stack', content: [
+						{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'a' },
+						{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'b' },
+					]},
+					{ type: 'stack', content: [
+						{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'c' },
+					]},
+				]
+			},
+			settings,
+		};
+		layout = TestTools.createLayout(config);
+		leftStack = layout.rootItem?.contentItems[0] as Stack;
+		rightStack = layout.rootItem?.contentItems[1] as Stack;
+	}
+
+	function pressKey(target: HTMLElement, init: KeyboardEventInit) {
+		target.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+	}
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'moves focus to the neighbouring stack', function(){
+		createLayout();
+		const focusedItem = leftStack.getActiveComponentItem() as ComponentItem;
+		layout.focusComponent(focusedItem);
+		pressKey(focusedItem.element, { key: 'ArrowRight', ctrlKey: true, altKey: true });
+		expect( layout.focusedComponentItem ).toBe( rightStack.getActiveComponentItem() );
+	});
+
+	it( 'cycles the tabs of the focused stack', function(){
+		createLayout();
+		const firstItem = leftStack.contentItems[0] as ComponentItem;
+		layout.focusComponent(firstItem);
+		pressKey(firstItem.element, { key: 'PageDown', ctrlKey: true });
+		expect( leftStack.getActiveComponentItem() ).toBe( leftStack.contentItems[1] as ComponentItem );
+		pressKey(firstItem.element, { key: 'PageDown', ctrlKey: true });
+		expect( leftStack.getActiveComponentItem() ).toBe( firstItem );
+	});
+
+	it( 'moves the focused component to the neighbouring stack', function(){
+		createLayout();
+		const movedItem = leftStack.getActiveComponentItem() as ComponentItem;
+		layout.focusComponent(movedItem);
+		pressKey(movedItem.element, { key: 'ArrowRight', ctrlKey: true, altKey: true, shiftKey: true });
+		expect( leftStack.contentItems.length ).toBe( 1 );
+		expect( rightStack.contentItems.length ).toBe( 2 );
+		expect( layout.focusedComponentItem ).toBe( movedItem );
+	});
+
+	it( 'uses key bindings from settings', function(){
+		createLayout({ keyBindings: { toggleMaximise: ['Alt+Enter'] } });
+		const focusedItem = leftStack.getActiveComponentItem() as ComponentItem;
+		layout.focusComponent(focusedItem);
+		pressKey(focusedItem.element, { key: 'M', ctrlKey: true, altKey: true });
+		expect( leftStack.isMaximised ).toBe( false );
+		pressKey(focusedItem.element, { key: 'Enter', altKey: true });
+		expect( leftStack.isMaximised ).toBe( true );
+	});
+});
@@ -0,0 +1,74 @@
+import { ComponentItemConfig, LayoutConfig, LayoutConfigMigrationRegistry, ResolvedLayoutConfig } from '../..';
+import TestTools from './test-tools';
+
+describe( 'LayoutConfig migration', function(){
+
+	it( 'converts legacy fields', function(){
+		// deserialised configs may use fields which are no longer in the interfaces
+		const legacyConfig = {
+			settings: { hasHeaders: false },
+			content: [{
+				type: 'row',
+				content: [
+					{ type: 'component', componentName: 'a', width: 30 },
+					{ type: 'component', componentType: 'b' },
+				]
+			}]
+		} as unknown as LayoutConfig;
+		const registry = new LayoutConfigMigrationRegistry();
+		const { config, migrationNames } = registry.migrate( legacyConfig );
+		expect( migrationNames ).toEqual( ['goldenLayout.legacyFields'] );
+		expect( config.version ).toBe( ResolvedLayoutConfig.currentVersion );
+		expect( config.content ).toBeUndefined();
+		expect( config.header?.show ).toBe( false );
+		const firstItemConfig = config.root?.content?.[0] as ComponentItemConfig;
+		expect( firstItemConfig.type ).toBe( 'component' );
+		expect( JSON.stringify(firstItemConfig.componentType) ).toBe( JSON.stringify('a') );
+		expect( firstItemConfig.size ).toBe( '30%' );
+		expect( 'componentName' in firstItemConfig ).toBeFalse();
+		expect( 'width' in firstItemConfig ).toBeFalse();
+		expect( config.root?.content?.[1].size ).toBe( '50%' );
+		expect( legacyConfig.content?.length ).toBe( 1 );
+	});
+
+	it( 'runs application migrations in order', function(){
+		const registry = new LayoutConfigMigrationRegistry();
+		registry.register( {
+			name: 'renameB',
+			fromVersion: 1,
+			toVersion: 2,
+			migrate: (layoutConfig) => LayoutConfigMigrationRegistry.mapComponentItemConfigs( layoutConfig,
+				(itemConfig) => itemConfig.componentType === 'b' ? { ...itemConfig, componentType: 'c' } : itemConfig )
+		} );
+		registry.register( { name: 'initial', fromVersion: 0, toVersion: 1, migrate: (layoutConfig) => layoutConfig } );
+
+		const { config, migrationNames } = registry.migrate( {
+			version: ResolvedLayoutConfig.currentVersion,
+			root: { type: 'stack', content: [{ type: 'component', componentType: 'b' }] },
+		} );
+		expect( migrationNames ).toEqual( ['initial', 'renameB'] );
+		expect( config.applicationVersion ).toBe( 2 );
+		expect( JSON.stringify((config.root?.content?.[0] as ComponentItemConfig).componentType) ).toBe( JSON.stringify('c') );
+
+		expect( registry.migrate( config ).migrationNames ).toEqual( [] );
+	});
+
+	it( 'migrates legacy configs before they are validated', function(){
+		const legacyConfig = {
+			content: [{ type: 'row', content: [{ type: 'component', componentName: TestTools.TEST_COMPONENT_NAME, width: 30 }] }]
+		} as unknown as LayoutConfig;
+		const layout = TestTools.createLayout({ root: undefined });
+		const migratedListener = jasmine.createSpy('layoutConfigMigrated');
+		layout.on('layoutConfigMigrated', migratedListener);
+
+		expect( () => layout.loadLayout( legacyConfig, LayoutConfig.ValidationMode.reject ) ).not.toThrow();
+		expect( migratedListener ).toHaveBeenCalledTimes( 1 );
+		expect( layout.rootItem?.contentItems.length ).toBe( 1 );
+		layout.destroy();
+	});
+
+	it( 'rejects configs from later versions', function(){
+		const registry = new LayoutConfigMigrationRegistry();
+		expect( () => registry.migrate( { version: ResolvedLayoutConfig.currentVersion + 1, root: undefined } ) ).toThrow();
+	});
+});
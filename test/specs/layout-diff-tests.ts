@@ -0,0 +1,174 @@
+import { ComponentItem, ComponentItemConfig, GoldenLayout, LayoutConfig, LayoutDiff, ResolvedRootItemConfig, RowOrColumnItemConfig } from '../..';
+import TestTools from './test-tools';
+
+describe( 'layout diff', function(){
+
+	let layout: GoldenLayout;
+
+	function createComponent(id: string, size?: string): ComponentItemConfig {
+		return { type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id, title: id, size };
+	}
+
+	function createRowConfig(...content: RowOrColumnItemConfig.ChildItemConfig[]): LayoutConfig {
+		return { root: { type: 'row', content } };
+	}
+
+	function saveRoot(config: LayoutConfig): ResolvedRootItemConfig | undefined {
+		layout.loadLayout(config);
+		return layout.saveLayout().root;
+	}
+
+	function getChangeIds(changes: readonly LayoutDiff.Change[], type: string) {
+		return changes.filter((change) => change.type === type).map((change) => change.id);
+	}
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({ root: undefined });
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'is empty for the same layout', function(){
+		const root = saveRoot(createRowConfig(createComponent('chart'), createComponent('news')));
+		expect( LayoutDiff.isEmpty(LayoutDiff.create(root, root)) ).toBeTrue();
+	});
+
+	it( 'matches items by id and reports moves', function(){
+		const oldRoot = saveRoot(createRowConfig(createComponent('chart'), createComponent('news')));
+		const newRoot = saveRoot(createRowConfig(createComponent('news'), createComponent('chart')));
+
+		const diff = LayoutDiff.create(oldRoot, newRoot);
+		expect( diff.inserted.length ).toBe( 0 );
+		expect( diff.removed.length ).toBe( 0 );
+		expect( getChangeIds(diff.moved, 'stack').sort() ).toEqual( ['chart', 'news'] );
+		const chartMove = diff.moved.find((change) => change.id === 'chart');
+		expect( chartMove?.oldPath ).toEqual( [0] );
+		expect( chartMove?.newPath ).toEqual( [1] );
+	});
+
+	it( 'matches items without an id by position and reports resizes', function(){
+		const oldRoot = saveRoot({ root: { type: 'row', content: [
+			{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'chart', size: '30%' },
+			{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'news', size: '70%' },
+		]}});
+		const newRoot = saveRoot({ root: { type: 'row', content: [
+			{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'chart', size: '60%' },
+			{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'news', size: '40%' },
+		]}});
+
+		const diff = LayoutDiff.create(oldRoot, newRoot);
+		expect( diff.inserted.length ).toBe( 0 );
+		expect( diff.removed.length ).toBe( 0 );
+		expect( diff.moved.length ).toBe( 0 );
+		const resizedStacks = diff.resized.filter((change) => change.type === 'stack');
+		expect( resizedStacks.map((change) => change.newPath) ).toEqual( [[0], [1]] );
+	});
+
+	it( 'reports insertions and removals', function(){
+		const oldRoot = saveRoot(createRowConfig(createComponent('chart'), createComponent('news')));
+		const newRoot = saveRoot(createRowConfig(createComponent('chart'), createComponent('orders')));
+
+		const diff = LayoutDiff.create(oldRoot, newRoot);
+		expect( getChangeIds(diff.inserted, 'component') ).toEqual( ['orders'] );
+		expect( getChangeIds(diff.removed, 'component') ).toEqual( ['news'] );
+		expect( diff.removed[0].newPath ).toBeUndefined();
+		expect( diff.inserted[0].oldPath ).toBeUndefined();
+	});
+
+	it( 'does not match components of different types', function(){
+		const oldRoot = saveRoot(createRowConfig(createComponent('chart')));
+		const newRoot = saveRoot({ root: { type: 'component', componentType: 'otherComponent', id: 'chart' } });
+
+		const diff = LayoutDiff.create(oldRoot, newRoot);
+		expect( getChangeIds(diff.inserted, 'component') ).toEqual( ['chart'] );
+		expect( getChangeIds(diff.removed, 'component') ).toEqual( ['chart'] );
+	});
+
+	describe( 'applied incrementally', function(){
+
+		beforeEach(function () {
+			layout.loadLayout(createRowConfig(createComponent('chart'), createComponent('news')));
+		});
+
+		it( 'keeps the containers and elements of matched components', function(){
+			const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+			const chartContainer = chart.container;
+			const chartElement = chart.container.element;
+			const newsContainer = layout.findFirstComponentItemById('news')?.container;
+
+			const diff = layout.applyLayout(createRowConfig(createComponent('news'), createComponent('chart'), createComponent('orders')));
+
+			expect( getChangeIds(diff.inserted, 'component') ).toEqual( ['orders'] );
+			expect( layout.findFirstComponentItemById('chart') ).toBe( chart );
+			expect( chart.container ).toBe( chartContainer );
+			expect( chart.container.element ).toBe( chartElement );
+			expect( layout.findFirstComponentItemById('news')?.container ).toBe( newsContainer );
+			const savedRoot = layout.saveLayout().root;
+			expect( savedRoot?.content.map((item) => item.id) ).toEqual( ['news', 'chart', 'orders'] );
+		});
+
+		it( 'removes unmatched components without rebinding the others', function(){
+			const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+			const chartContainer = chart.container;
+			const releaseListener = jasmine.createSpy('beforeComponentRelease');
+			chartContainer.on('beforeComponentRelease', releaseListener);
+
+			const diff = layout.applyLayout(createRowConfig(createComponent('chart')));
+
+			expect( getChangeIds(diff.removed, 'component') ).toEqual( ['news'] );
+			expect( layout.findFirstComponentItemById('news') ).toBeUndefined();
+			expect( layout.findFirstComponentItemById('chart')?.container ).toBe( chartContainer );
+			expect( releaseListener ).not.toHaveBeenCalled();
+		});
+
+		it( 'resizes matched items', function(){
+			const diff = layout.applyLayout(createRowConfig(createComponent('chart', '20%'), createComponent('news', '80%')));
+
+			expect( getChangeIds(diff.resized, 'stack').sort() ).toEqual( ['chart', 'news'] );
+			const savedRoot = layout.saveLayout().root;
+			expect( savedRoot?.content[0].size ).toBe( 20 );
+			expect( savedRoot?.content[1].size ).toBe( 80 );
+		});
+
+		it( 'keeps the components of matched floating items', function(){
+			layout.applyLayout({
+				...createRowConfig(createComponent('chart')),
+				floatingItems: [
+					{
+						type: 'floating',
+						id: 'tools',
+						content: [{ type: 'stack', content: [createComponent('watchlist')] }],
+						bounds: { left: 10, top: 10 },
+					},
+					{ type: 'floating', content: [createComponent('alerts')], bounds: { left: 50, top: 50 } },
+				],
+			});
+			const watchlist = layout.findFirstComponentItemById('watchlist') as ComponentItem;
+			const watchlistContainer = watchlist.container;
+			const alertsContainer = layout.findFirstComponentItemById('alerts')?.container;
+			const toolsFloatingItem = layout.floatingItems[0];
+			watchlist.container.setState({ symbol: 'ABC' });
+
+			layout.applyLayout({
+				...createRowConfig(createComponent('chart')),
+				floatingItems: [
+					{
+						type: 'floating',
+						id: 'tools',
+						content: [{ type: 'stack', content: [createComponent('watchlist'), createComponent('orders')] }],
+						bounds: { left: 30, top: 10 },
+					},
+					{ type: 'floating', content: [createComponent('alerts')], bounds: { left: 50, top: 50 } },
+				],
+			});
+
+			expect( layout.floatingItems[0] ).toBe( toolsFloatingItem );
+			expect( toolsFloatingItem.bounds.left ).toBe( 30 );
+			expect( layout.findFirstComponentItemById('watchlist')?.container ).toBe( watchlistContainer );
+			expect( layout.findFirstComponentItemById('alerts')?.container ).toBe( alertsContainer );
+			expect( layout.findFirstComponentItemById('orders') ).toBeDefined();
+		});
+	});
+});
@@ -0,0 +1,92 @@
+import { ApiError, ComponentItem, GoldenLayout, LayoutEventLog, LayoutEventRecorder, LayoutEventReplayer } from '../..';
+import TestTools from './test-tools';
+
+describe( 'layout event recorder', function(){
+
+	let layout: GoldenLayout;
+	let replayLayout: GoldenLayout | undefined;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+		replayLayout = undefined;
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+		replayLayout?.destroy();
+	});
+
+	it( 'records structural events of the layout and its items', function(){
+		const recorder = new LayoutEventRecorder(layout);
+		recorder.start();
+		expect( recorder.isRecording ).toBeTrue();
+
+		layout.addComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'orders');
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		chart.setTitle('prices');
+		recorder.stop();
+		chart.setTitle('chart');
+
+		const log = recorder.getLog();
+		const eventNames = log.entries.map((entry) => entry.eventName);
+		expect( eventNames ).toContain( 'itemCreated' );
+		expect( eventNames.filter((eventName) => eventName === 'titleChanged').length ).toBe( 1 );
+		const createdComponent = log.entries.find((entry) => entry.eventName === 'itemCreated' && entry.target?.type === 'component');
+		expect( createdComponent?.target?.title ).toBe( 'orders' );
+		expect( log.initialLayout.root?.type ).toBe( 'row' );
+	});
+
+	it( 'exports the log to JSON', function(){
+		const recorder = new LayoutEventRecorder(layout);
+		recorder.start();
+		layout.addComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'orders');
+		recorder.snapshot();
+
+		const log = LayoutEventLog.fromJson(recorder.toJson());
+		expect( log.version ).toBe( LayoutEventLog.version );
+		expect( log.entries.length ).toBe( recorder.getLog().entries.length );
+		expect( log.entries[log.entries.length - 1].snapshot ).toBeDefined();
+		expect( () => LayoutEventLog.fromJson('{}') ).toThrowError();
+	});
+
+	it( 'requires the layout to be initialised', function(){
+		const recorder = new LayoutEventRecorder(new GoldenLayout());
+		expect( () => recorder.start() ).toThrowError( ApiError );
+		expect( () => recorder.getLog() ).toThrowError( ApiError );
+	});
+
+	it( 'replays the recorded layout step by step', function(){
+		const recorder = new LayoutEventRecorder(layout);
+		recorder.start();
+		layout.addComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'orders');
+		recorder.snapshot();
+		layout.findFirstComponentItemById('news')?.remove();
+		recorder.snapshot();
+		recorder.stop();
+
+		const target = TestTools.createLayout({ root: undefined });
+		replayLayout = target;
+		const replayer = new LayoutEventReplayer(target, LayoutEventLog.fromJson(recorder.toJson()));
+		replayer.reset();
+		expect( target.findFirstComponentItemById('news') ).toBeDefined();
+
+		const entry = replayer.step();
+		expect( entry?.eventName ).toBe( LayoutEventRecorder.snapshotEventName );
+		expect( target.saveLayout().root ).toEqual( entry?.snapshot?.root );
+		expect( target.findFirstComponentItemById('news') ).toBeDefined();
+
+		replayer.replayAll();
+		expect( replayer.isFinished ).toBeTrue();
+		expect( replayer.step() ).toBeUndefined();
+		expect( target.findFirstComponentItemById('news') ).toBeUndefined();
+		expect( target.saveLayout().root ).toEqual( layout.saveLayout().root );
+	});
+});
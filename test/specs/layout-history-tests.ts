@@ -0,0 +1,107 @@
+import { GoldenLayout } from '../..';
+import TestTools from './test-tools';
+
+describe( 'layout history', function(){
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'starts empty after a layout is loaded', function(){
+		expect( layout.canUndo ).toBeFalse();
+		expect( layout.canRedo ).toBeFalse();
+		expect( layout.undo() ).toBeFalse();
+		expect( layout.redo() ).toBeFalse();
+	});
+
+	it( 'undoes and redoes a change', function(){
+		layout.findFirstComponentItemById('news')?.remove();
+		expect( layout.canUndo ).toBeTrue();
+
+		expect( layout.undo() ).toBeTrue();
+		expect( layout.findFirstComponentItemById('news') ).toBeDefined();
+		expect( layout.canUndo ).toBeFalse();
+		expect( layout.canRedo ).toBeTrue();
+
+		expect( layout.redo() ).toBeTrue();
+		expect( layout.findFirstComponentItemById('news') ).toBeUndefined();
+		expect( layout.canUndo ).toBeTrue();
+		expect( layout.canRedo ).toBeFalse();
+	});
+
+	it( 'discards the redo steps when a new change is made', function(){
+		layout.findFirstComponentItemById('news')?.remove();
+		layout.undo();
+		expect( layout.canRedo ).toBeTrue();
+
+		layout.findFirstComponentItemById('chart')?.remove();
+		expect( layout.canRedo ).toBeFalse();
+	});
+
+	it( 'records nested groups as one step', function(){
+		layout.beginHistoryGroup();
+		layout.beginHistoryGroup();
+		layout.findFirstComponentItemById('news')?.remove();
+		layout.endHistoryGroup();
+		expect( layout.canUndo ).toBeFalse();
+		layout.findFirstComponentItemById('chart')?.remove();
+		layout.endHistoryGroup();
+
+		expect( layout.canUndo ).toBeTrue();
+		layout.undo();
+		expect( layout.findFirstComponentItemById('news') ).toBeDefined();
+		expect( layout.findFirstComponentItemById('chart') ).toBeDefined();
+		expect( layout.canUndo ).toBeFalse();
+	});
+
+	it( 'discards the oldest steps beyond the history limit', function(){
+		layout.historyLimit = 2;
+		layout.addComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'orders');
+		layout.findFirstComponentItemById('news')?.remove();
+		layout.findFirstComponentItemById('chart')?.remove();
+
+		expect( layout.undo() ).toBeTrue();
+		expect( layout.undo() ).toBeTrue();
+		expect( layout.undo() ).toBeFalse();
+		expect( layout.findFirstComponentItemById('news') ).toBeDefined();
+	});
+
+	it( 'emits historyChanged when the history changes', function(){
+		const historyChangedListener = jasmine.createSpy('historyChanged');
+		layout.on('historyChanged', historyChangedListener);
+
+		layout.findFirstComponentItemById('news')?.remove();
+		expect( historyChangedListener ).toHaveBeenCalledTimes( 1 );
+		layout.undo();
+		expect( historyChangedListener ).toHaveBeenCalledTimes( 2 );
+		layout.clearHistory();
+		expect( historyChangedListener ).toHaveBeenCalledTimes( 3 );
+		expect( layout.canRedo ).toBeFalse();
+	});
+
+	it( 'keeps recording after a step fails to be restored', function(){
+		layout.findFirstComponentItemById('news')?.remove();
+		const failingListener = () => { throw new Error('item creation failed'); };
+		layout.on('itemCreated', failingListener);
+		expect( () => layout.undo() ).toThrowError( 'item creation failed' );
+		layout.off('itemCreated', failingListener);
+
+		layout.clearHistory();
+		layout.addComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'orders');
+		expect( layout.canUndo ).toBeTrue();
+	});
+});
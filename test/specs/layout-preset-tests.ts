@@ -0,0 +1,78 @@
+import { ApiError, ComponentItem, GoldenLayout, LayoutConfig } from '../..';
+import TestTools from './test-tools';
+
+describe( 'layout presets', function(){
+
+	let layout: GoldenLayout;
+
+	const compactConfig: LayoutConfig = {
+		root: {
+			type: 'stack',
+			content: [
+				{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+				{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'orders', title: 'orders' },
+			]
+		}
+	};
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'chart', title: 'chart' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'saves, lists and deletes presets', function(){
+		const presetChangedListener = jasmine.createSpy('presetChanged');
+		layout.on('presetChanged', presetChangedListener);
+
+		layout.savePreset('trading');
+		layout.savePreset('compact', compactConfig);
+		expect( layout.presetNames ).toEqual( ['trading', 'compact'] );
+		expect( layout.currentPresetName ).toBe( 'trading' );
+		expect( layout.getPreset('trading')?.root?.type ).toBe( 'row' );
+		expect( presetChangedListener ).toHaveBeenCalledOnceWith( 'trading' );
+
+		expect( layout.deletePreset('trading') ).toBe( true );
+		expect( layout.deletePreset('trading') ).toBe( false );
+		expect( layout.presetNames ).toEqual( ['compact'] );
+		expect( layout.currentPresetName ).toBeUndefined();
+		expect( presetChangedListener ).toHaveBeenCalledWith( undefined );
+	});
+
+	it( 'keeps components with the same id alive when switching', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		const news = layout.findFirstComponentItemById('news') as ComponentItem;
+		const presetChangedListener = jasmine.createSpy('presetChanged');
+		layout.on('presetChanged', presetChangedListener);
+
+		layout.savePreset('trading');
+		layout.savePreset('compact', compactConfig);
+		layout.switchPreset('compact');
+
+		expect( layout.currentPresetName ).toBe( 'compact' );
+		expect( presetChangedListener ).toHaveBeenCalledWith( 'compact' );
+		expect( layout.findFirstComponentItemById('chart') ).toBe( chart );
+		expect( layout.findFirstComponentItemById('news') ).toBeUndefined();
+		expect( layout.findFirstComponentItemById('orders') ).toBeDefined();
+		TestTools.verifyPath('stack.0', layout);
+
+		layout.switchPreset('trading');
+		expect( layout.findFirstComponentItemById('chart') ).toBe( chart );
+		expect( layout.findFirstComponentItemById('news') ).not.toBe( news );
+		TestTools.verifyPath('row.1.stack.0', layout);
+	});
+
+	it( 'throws when switching to an unknown preset', function(){
+		expect( () => layout.switchPreset('missing') ).toThrowError( ApiError );
+	});
+});
@@ -0,0 +1,110 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, LayoutStorage, MemoryLayoutStorage } from '../..';
+import TestTools from './test-tools';
+
+describe( 'layout storage', function(){
+
+	let layout: GoldenLayout;
+	let storage: MemoryLayoutStorage;
+
+	beforeEach(function () {
+		storage = new MemoryLayoutStorage();
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'a' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, title: 'b' },
+				]
+			}
+		};
+		layout = TestTools.createLayout(config);
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	function wait(milliseconds: number) {
+		return new Promise<void>((resolve) => setTimeout(resolve, milliseconds));
+	}
+
+	it( 'minifies entries and includes popouts', function(){
+		const layoutConfig = layout.saveLayout();
+		const text = LayoutStorage.stringifyEntry({ layoutConfig, revision: 3 });
+		expect( text ).not.toContain( 'componentType' );
+		expect( text ).not.toContain( 'openPopouts' );
+
+		const entry = LayoutStorage.parseEntry(text);
+		expect( entry.revision ).toBe( 3 );
+		expect( entry.layoutConfig.openPopouts ).toEqual( [] );
+		expect( entry.layoutConfig.root ).toEqual( layoutConfig.root );
+	});
+
+	it( 'rejects saves based on an old revision', function(){
+		const layoutConfig = layout.saveLayout();
+		return storage.save('x', layoutConfig, 0).then((result) => {
+			expect( result ).toEqual( { saved: true, revision: 1 } );
+			return storage.save('x', layoutConfig, 0);
+		}).then((result) => {
+			expect( result ).toEqual( { saved: false, revision: 1 } );
+			return storage.save('x', layoutConfig);
+		}).then((result) => {
+			expect( result ).toEqual( { saved: true, revision: 2 } );
+			return storage.list();
+		}).then((keys) => {
+			expect( keys ).toEqual( ['x'] );
+			return storage.delete('x');
+		}).then((deleted) => {
+			expect( deleted ).toBe( true );
+		});
+	});
+
+	it( 'restores a saved layout', function(){
+		const componentItem = TestTools.verifyPath('row.0.stack.0', layout) as ComponentItem;
+		componentItem.setTitle('saved');
+		return storage.save('layout', layout.saveLayout()).then(() => {
+			componentItem.setTitle('a');
+			layout.setLayoutStorage(storage, { autosave: false, restore: false });
+			return layout.restoreLayout();
+		}).then((restored) => {
+			expect( restored ).toBe( true );
+			expect( (TestTools.verifyPath('row.0.stack.0', layout) as ComponentItem).title ).toBe( 'saved' );
+		});
+	});
+
+	it( 'autosaves after changes', function(){
+		layout.setLayoutStorage(storage, { autosaveDebounceInterval: 0, restore: false });
+		return wait(0).then(() => {
+			layout.newComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'c');
+			return wait(10);
+		}).then(() => {
+			return storage.load('layout');
+		}).then((entry) => {
+			expect( entry?.revision ).toBe( 1 );
+			expect( JSON.stringify(entry?.layoutConfig.root) ).toContain( '"c"' );
+		});
+	});
+
+	it( 'detects save conflicts', function(){
+		const conflictListener = jasmine.createSpy('layoutSaveConflict');
+		layout.on('layoutSaveConflict', conflictListener);
+		layout.setLayoutStorage(storage, { autosave: false });
+
+		return layout.saveLayoutToStorage().then((saved) => {
+			expect( saved ).toBe( true );
+			// another tab saves the same layout
+			return storage.save('layout', layout.saveLayout());
+		}).then(() => {
+			return layout.saveLayoutToStorage();
+		}).then((saved) => {
+			expect( saved ).toBe( false );
+			expect( conflictListener ).toHaveBeenCalledTimes( 1 );
+			return layout.saveLayoutToStorage(true);
+		}).then((saved) => {
+			expect( saved ).toBe( true );
+			return storage.load('layout');
+		}).then((entry) => {
+			expect( entry?.revision ).toBe( 3 );
+		});
+	});
+});
@@ -0,0 +1,103 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, LayoutManager, MemoryLayoutSyncTransport } from '../..';
+import TestTools from './test-tools';
+
+describe( 'layout sync', function(){
+
+	const channelName = 'layout-sync-tests';
+	let layouts: GoldenLayout[];
+
+	function createLayout(titles: string[]) {
+		const element = document.createElement('div');
+		element.style.width = '400px';
+		element.style.height = '300px';
+		document.body.appendChild(element);
+		const layout = new GoldenLayout(element);
+		layout.registerComponentFactoryFunction(TestTools.TEST_COMPONENT_NAME, TestTools.createTestComponent);
+		const config: LayoutConfig = {
+			root: {
+				type: 'row',
+				content: titles.map((title) => ({ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: title, title })),
+			}
+		};
+		layout.loadLayout(config);
+		layouts.push(layout);
+		return layout;
+	}
+
+	function startSync(layout: GoldenLayout, options?: LayoutManager.SyncOptions) {
+		layout.startSync(new MemoryLayoutSyncTransport(channelName), options);
+	}
+
+	function wait() {
+		return new Promise<void>((resolve) => setTimeout(resolve, 20));
+	}
+
+	beforeEach(function () {
+		layouts = [];
+	});
+
+	afterEach(function () {
+		for (const layout of layouts) {
+			const element = layout.container;
+			layout.destroy();
+			element.remove();
+		}
+	});
+
+	it( 'receives the current layout when starting', function(){
+		const first = createLayout(['a', 'b']);
+		const second = createLayout(['c']);
+		startSync(first);
+		startSync(second);
+		expect( second.syncMode ).toBe( 'share' );
+		return wait().then(() => {
+			expect( second.findFirstComponentItemById('a') ).toBeDefined();
+			expect( second.findFirstComponentItemById('b') ).toBeDefined();
+			expect( second.findFirstComponentItemById('c') ).toBeUndefined();
+		});
+	});
+
+	it( 'shares changes and keeps matched components alive', function(){
+		const first = createLayout(['a', 'b']);
+		const second = createLayout(['a', 'b']);
+		startSync(first);
+		startSync(second);
+		let secondA: ComponentItem | undefined;
+		return wait().then(() => {
+			secondA = second.findFirstComponentItemById('a');
+			(first.findFirstComponentItemById('b') as ComponentItem).close();
+			return wait();
+		}).then(() => {
+			expect( second.findFirstComponentItemById('b') ).toBeUndefined();
+			expect( second.findFirstComponentItemById('a') ).toBe( secondA );
+		});
+	});
+
+	it( 'reverts local changes in follow mode', function(){
+		const primary = createLayout(['a', 'b']);
+		const follower = createLayout(['a', 'b']);
+		startSync(primary, { mode: 'primary' });
+		startSync(follower, { mode: 'follow' });
+		return wait().then(() => {
+			// changes made by followers are not sent
+			(follower.findFirstComponentItemById('b') as ComponentItem).close();
+			return wait();
+		}).then(() => {
+			expect( primary.findFirstComponentItemById('b') ).toBeDefined();
+			expect( follower.findFirstComponentItemById('b') ).toBeDefined();
+		});
+	});
+
+	it( 'sends user broadcasts over the channel', function(){
+		const first = createLayout(['a']);
+		const second = createLayout(['b']);
+		startSync(first, { shareUserBroadcasts: true });
+		startSync(second, { shareUserBroadcasts: true });
+		const listener = jasmine.createSpy('userBroadcast');
+		second.eventHub.on('userBroadcast', listener);
+		first.eventHub.emitUserBroadcast('hello', 1);
+		return wait().then(() => {
+			expect( listener ).toHaveBeenCalledOnceWith( 'hello', 1 );
+		});
+	});
+});
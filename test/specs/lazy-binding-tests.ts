@@ -0,0 +1,76 @@
+import { ComponentContainer, ComponentItem, GoldenLayout, JsonValue, ResolvedComponentItemConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'lazy component binding', function(){
+
+	let layout: GoldenLayout;
+	let boundStates: (JsonValue | undefined)[];
+
+	function createLayout(lazyComponentBinding: boolean) {
+		layout = new GoldenLayout();
+		layout.registerComponentFactoryFunction(TestTools.TEST_COMPONENT_NAME, (container: ComponentContainer, state?: JsonValue) => {
+			boundStates.push(state);
+			return { title: container.title };
+		});
+		layout.loadLayout({
+			settings: { lazyComponentBinding },
+			root: {
+				type: 'stack',
+				activeItemIndex: 0,
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'first', title: 'first', componentState: { page: 1 } },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'second', title: 'second', componentState: { page: 2 } },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'third', title: 'third', componentState: { page: 3 } },
+				]
+			}
+		});
+	}
+
+	beforeEach(function () {
+		boundStates = [];
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'binds every component by default', function(){
+		createLayout(false);
+		expect( boundStates.length ).toBe( 3 );
+		expect( layout.findFirstComponentItemById('third')?.container.bound ).toBeTrue();
+	});
+
+	it( 'only binds the active component', function(){
+		createLayout(true);
+		expect( boundStates.length ).toBe( 1 );
+		const second = layout.findFirstComponentItemById('second') as ComponentItem;
+		expect( second.container.bound ).toBeFalse();
+		expect( second.component ).toBeUndefined();
+		expect( layout.findFirstComponentItemById('first')?.container.bound ).toBeTrue();
+	});
+
+	it( 'binds a component when its tab first becomes active', function(){
+		createLayout(true);
+		const second = layout.findFirstComponentItemById('second') as ComponentItem;
+		const boundListener = jasmine.createSpy('bound');
+		second.container.on('bound', boundListener);
+
+		(second.parent as Stack).setActiveComponentItem(second, false);
+		expect( second.container.bound ).toBeTrue();
+		expect( boundListener ).toHaveBeenCalledTimes( 1 );
+		expect( boundListener.calls.mostRecent().args[0] ).toBe( second.component );
+		expect( (boundStates[1] as { page: number }).page ).toBe( 2 );
+
+		(second.parent as Stack).setActiveComponentItem(layout.findFirstComponentItemById('first') as ComponentItem, false);
+		(second.parent as Stack).setActiveComponentItem(second, false);
+		expect( boundListener ).toHaveBeenCalledTimes( 1 );
+	});
+
+	it( 'saves the original state of unbound components', function(){
+		createLayout(true);
+		const thirdConfig = layout.saveLayout().root?.content[2] as ResolvedComponentItemConfig | undefined;
+		expect( layout.findFirstComponentItemById('third')?.container.bound ).toBeFalse();
+		expect( thirdConfig?.id ).toBe( 'third' );
+		expect( JSON.stringify(thirdConfig?.componentState) ).toBe( '{"page":3}' );
+	});
+});
@@ -0,0 +1,82 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, RowOrColumn, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'locked layout', function(){
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			root: {
+				type: 'row',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'editor', title: 'editor' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'preview', title: 'preview', locked: true },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	function isDisplayed(element: HTMLElement | null | undefined) {
+		return element !== null && element !== undefined && element.style.display !== 'none';
+	}
+
+	it( 'is saved with the layout', function(){
+		expect( layout.locked ).toBeFalse();
+		layout.locked = true;
+		const saved = LayoutConfig.fromResolved(layout.saveLayout());
+		expect( saved.settings?.locked ).toBeTrue();
+		layout.locked = false;
+		layout.loadLayout(saved);
+		expect( layout.locked ).toBeTrue();
+		const root = layout.saveLayout().root;
+		expect( root?.locked ).toBeFalse();
+		expect( root?.content[1].content[0].locked ).toBeTrue();
+	});
+
+	it( 'locks individual items', function(){
+		const editor = layout.findFirstComponentItemById('editor') as ComponentItem;
+		const preview = layout.findFirstComponentItemById('preview') as ComponentItem;
+		expect( editor.isLocked ).toBeFalse();
+		expect( preview.isLocked ).toBeTrue();
+		expect( preview.tab.reorderEnabled ).toBeFalse();
+		expect( isDisplayed(preview.tab.closeElement) ).toBeFalse();
+		expect( preview.element.classList.contains('lm_locked') ).toBeTrue();
+		expect( editor.tab.reorderEnabled ).toBeTrue();
+
+		const stack = editor.parent as Stack;
+		stack.locked = true;
+		expect( editor.isLocked ).toBeTrue();
+		expect( editor.tab.reorderEnabled ).toBeFalse();
+		expect( isDisplayed(stack.header.element.querySelector<HTMLElement>('.lm_close')) ).toBeFalse();
+	});
+
+	it( 'locks the whole layout at runtime', function(){
+		const editor = layout.findFirstComponentItemById('editor') as ComponentItem;
+		const stack = editor.parent as Stack;
+		const row = stack.parent as RowOrColumn;
+		const stateChangedListener = jasmine.createSpy('stateChanged');
+		layout.on('stateChanged', stateChangedListener);
+
+		layout.locked = true;
+		expect( stateChangedListener ).toHaveBeenCalled();
+		expect( row.isLocked ).toBeTrue();
+		expect( row.element.classList.contains('lm_locked') ).toBeTrue();
+		expect( editor.tab.reorderEnabled ).toBeFalse();
+		expect( isDisplayed(editor.tab.closeElement) ).toBeFalse();
+		expect( isDisplayed(stack.header.element.querySelector<HTMLElement>('.lm_close')) ).toBeFalse();
+		expect( isDisplayed(stack.header.element.querySelector<HTMLElement>('.lm_popout')) ).toBeFalse();
+
+		layout.locked = false;
+		expect( row.isLocked ).toBeFalse();
+		expect( row.element.classList.contains('lm_locked') ).toBeFalse();
+		expect( editor.tab.reorderEnabled ).toBeTrue();
+		expect( isDisplayed(editor.tab.closeElement) ).toBeTrue();
+		expect( isDisplayed(stack.header.element.querySelector<HTMLElement>('.lm_close')) ).toBeTrue();
+		expect( isDisplayed(stack.header.element.querySelector<HTMLElement>('.lm_popout')) ).toBeTrue();
+	});
+});
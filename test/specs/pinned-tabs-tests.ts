@@ -0,0 +1,75 @@
+import { ComponentItem, GoldenLayout, LayoutConfig, ResolvedStackItemConfig, Stack } from '../..';
+import TestTools from './test-tools';
+
+describe( 'pinned tabs', function(){
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = TestTools.createLayout({
+			settings: { pinTabOnContextMenu: true },
+			root: {
+				type: 'stack',
+				content: [
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'editor', title: 'editor' },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'terminal', title: 'terminal', pinned: true },
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'preview', title: 'preview' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	function getTabTitles(stack: Stack) {
+		return stack.header.tabs.map((tab) => tab.componentItem.title);
+	}
+
+	it( 'are rendered first without a close button', function(){
+		const terminal = layout.findFirstComponentItemById('terminal') as ComponentItem;
+		const stack = terminal.parent as Stack;
+		expect( terminal.pinned ).toBeTrue();
+		expect( getTabTitles(stack) ).toEqual( ['terminal', 'editor', 'preview'] );
+		expect( stack.header.tabsContainerElement.firstElementChild ).toBe( terminal.tab.element );
+		expect( terminal.tab.element.classList.contains('lm_pinned') ).toBeTrue();
+		expect( terminal.tab.closeElement?.style.display ).toBe( 'none' );
+	});
+
+	it( 'are saved with the layout', function(){
+		layout.loadLayout(LayoutConfig.fromResolved(layout.saveLayout()));
+		const stackConfig = layout.saveLayout().root as ResolvedStackItemConfig;
+		const pinned = stackConfig.content.map((itemConfig) => itemConfig.pinned);
+		expect( pinned ).toEqual( [false, true, false] );
+	});
+
+	it( 'are toggled through the API and the tab context menu', function(){
+		const preview = layout.findFirstComponentItemById('preview') as ComponentItem;
+		const stack = preview.parent as Stack;
+
+		preview.setPinned(true);
+		expect( preview.pinned ).toBeTrue();
+		expect( getTabTitles(stack) ).toEqual( ['terminal', 'preview', 'editor'] );
+		expect( preview.tab.element.nextElementSibling ).toBe( layout.findFirstComponentItemById('editor')?.tab.element ?? null );
+
+		const contextMenuEvent = new MouseEvent('contextmenu', { bubbles: true, cancelable: true, button: 2 });
+		layout.findFirstComponentItemById('terminal')?.tab.element.dispatchEvent(contextMenuEvent);
+		expect( contextMenuEvent.defaultPrevented ).toBeTrue();
+		expect( layout.findFirstComponentItemById('terminal')?.pinned ).toBeFalse();
+		expect( getTabTitles(stack) ).toEqual( ['preview', 'terminal', 'editor'] );
+	});
+
+	it( 'stay before unpinned tabs when tabs are added or moved', function(){
+		const editor = layout.findFirstComponentItemById('editor') as ComponentItem;
+		const stack = editor.parent as Stack;
+		stack.addComponent(TestTools.TEST_COMPONENT_NAME, undefined, 'console', 0);
+		expect( getTabTitles(stack) ).toEqual( ['terminal', 'console', 'editor', 'preview'] );
+
+		const terminal = layout.findFirstComponentItemById('terminal') as ComponentItem;
+		stack.removeChild(terminal, true);
+		stack.addChild(terminal);
+		expect( terminal.pinned ).toBeTrue();
+		expect( getTabTitles(stack)[0] ).toBe( 'terminal' );
+	});
+});
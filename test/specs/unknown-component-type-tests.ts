@@ -0,0 +1,63 @@
+import { ComponentContainer, ComponentItem, GoldenLayout, JsonValue, ResolvedComponentItemConfig } from '../..';
+import TestTools from './test-tools';
+
+describe( 'unknown component types', function(){
+
+	const UNKNOWN_COMPONENT_NAME = 'retiredComponent';
+
+	let layout: GoldenLayout;
+
+	beforeEach(function () {
+		layout = new GoldenLayout();
+		layout.registerComponentFactoryFunction(TestTools.TEST_COMPONENT_NAME, TestTools.createTestComponent);
+		layout.loadLayout({
+			root: {
+				type: 'row',
+				content: [
+					{
+						type: 'component',
+						componentType: UNKNOWN_COMPONENT_NAME,
+						id: 'chart',
+						title: 'chart',
+						componentState: { symbol: 'ABC' },
+					},
+					{ type: 'component', componentType: TestTools.TEST_COMPONENT_NAME, id: 'news', title: 'news' },
+				]
+			}
+		});
+	});
+
+	afterEach(function () {
+		layout?.destroy();
+	});
+
+	it( 'shows a placeholder instead of failing', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		expect( chart.container.bindingFailed ).toBeFalse();
+		expect( chart.component ).toBeUndefined();
+		const placeholder = chart.container.element.querySelector('.lm_component_placeholder.lm_unknown_component_type') as HTMLElement;
+		expect( placeholder?.innerText ).toContain( UNKNOWN_COMPONENT_NAME );
+		expect( chart.title ).toBe( 'chart' );
+	});
+
+	it( 'saves the placeholder as the original component', function(){
+		const chartConfig = layout.saveLayout().root?.content[0].content[0] as ResolvedComponentItemConfig;
+		expect( ResolvedComponentItemConfig.resolveComponentTypeName(chartConfig) ).toBe( UNKNOWN_COMPONENT_NAME );
+		expect( chartConfig.title ).toBe( 'chart' );
+		expect( JSON.stringify(chartConfig.componentState) ).toBe( JSON.stringify({ symbol: 'ABC' }) );
+	});
+
+	it( 'upgrades the placeholder when the type is registered', function(){
+		const chart = layout.findFirstComponentItemById('chart') as ComponentItem;
+		let boundState: JsonValue | undefined;
+		const component = { name: 'chart' };
+		layout.registerComponentFactoryFunction(UNKNOWN_COMPONENT_NAME, (container: ComponentContainer, state?: JsonValue) => {
+			boundState = state;
+			return component;
+		});
+
+		expect( chart.component ).toBe( component );
+		expect( JSON.stringify(boundState) ).toBe( JSON.stringify({ symbol: 'ABC' }) );
+		expect( chart.container.element.querySelector('.lm_component_placeholder') ).toBeNull();
+	});
+});